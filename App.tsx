@@ -1,4 +1,4 @@
-import React, { useEffect, useRef, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import {
   SafeAreaView,
   View,
@@ -7,12 +7,10 @@ import {
   ScrollView,
   TouchableOpacity,
   Image,
-  TextInput,
   useWindowDimensions,
   NativeSyntheticEvent,
   NativeScrollEvent,
   LayoutChangeEvent,
-  Alert,
   Animated,
   Easing,
   Linking,
@@ -20,385 +18,56 @@ import {
   Dimensions,
   StatusBar,
 } from "react-native";
+import {
+  EMPTY_PORTFOLIO_QUERY,
+  PortfolioQuery,
+  portfolioQueryFromSearch,
+  portfolioQueryToSearch,
+  searchPortfolio,
+} from "./lib/portfolioSearch";
+import type { EngagementOption, PortfolioItem, Service } from "./lib/contentSchema";
+import { contentImage } from "./lib/contentImages";
+import {
+  COLORS,
+  MIN_WIDTH,
+  MOBILE_BREAKPOINT,
+  TABLET_BREAKPOINT,
+  responsiveValue,
+  scaleFont,
+  useDriver,
+} from "./theme";
+import {
+  AnimatedScrollView,
+  GradientView,
+  ResponsiveContainer,
+  ScrollAnimatedView,
+  StaggeredScrollAnimation,
+} from "./components/primitives";
+import { BriefWizard } from "./components/BriefWizard";
+import { CallScheduler } from "./components/CallScheduler";
+import { ProjectEstimator } from "./components/ProjectEstimator";
+import { CaseStudyPage } from "./components/CaseStudyPage";
+import { ServicePage } from "./components/ServicePage";
+import { BlogPage } from "./components/BlogPage";
+import { PostPage } from "./components/PostPage";
+import { CareersPage } from "./components/CareersPage";
+import { JobPage } from "./components/JobPage";
+import { PortfolioFilters } from "./components/PortfolioFilters";
+import type { BriefInput } from "./lib/briefs";
+import { BlogQuery, blogQueryFromSearch, blogQueryToSearch } from "./lib/blog";
+import { CareersQuery, careersQueryFromSearch, careersQueryToSearch } from "./lib/careers";
+import { briefFromCaseStudy } from "./lib/caseStudies";
+import { LinkTarget, blogLink, careersLink, resolveLink } from "./lib/links";
+import { navBreakpoint, navLabel, navigationFor } from "./lib/navigation";
+import { briefFromService, featuredServices } from "./lib/services";
+import { SECTION_KEYS, SectionKey, sectionRoute } from "./lib/routes";
+import { useRoute } from "./hooks/useRoute";
+import { useSiteContent } from "./hooks/useSiteContent";
+
+export { scaleFont };
 
 const CRAFTTECH_LOGO = require("./assets/crafttech-logo.png");
 
-/* -----------------------------------------------------
-   RESPONSIVE UTILITIES
------------------------------------------------------ */
-const useDriver = Platform.OS !== "web";
-
-const MIN_WIDTH = 320;
-const MAX_WIDTH = 1280;
-const MOBILE_BREAKPOINT = 768;
-const TABLET_BREAKPOINT = 1024;
-
-// Responsive scaler with fixed min/max boundaries
-export const scaleFont = (size: number, width: number): number => {
-  const baseWidth = 375;
-  const scaleFactor = Math.min(Math.max(width, MIN_WIDTH), MAX_WIDTH) / baseWidth;
-  
-  if (width < 380) return Math.max(size * 0.85, 10);
-  if (width < 480) return size * 0.95;
-  if (width < MOBILE_BREAKPOINT) return size;
-  if (width < TABLET_BREAKPOINT) return size * 1.1;
-  return size * 1.2;
-};
-
-// Responsive value generator
-const responsiveValue = <T,>(
-  mobile: T,
-  tablet: T,
-  desktop: T,
-  width: number
-): T => {
-  if (width < MOBILE_BREAKPOINT) return mobile;
-  if (width < TABLET_BREAKPOINT) return tablet;
-  return desktop;
-};
-
-/* -----------------------------------------------------
-   TYPES
------------------------------------------------------ */
-type SectionKey =
-  | "hero"
-  | "services"
-  | "process"
-  | "work"
-  | "testimonials"
-  | "contact";
-
-type PortfolioCategory = "all" | "web" | "mobile" | "ecommerce";
-
-interface PortfolioItem {
-  id: number;
-  title: string;
-  type: string;
-  category: PortfolioCategory;
-  description: string;
-  metrics: string[];
-  img: string;
-}
-
-interface HeroSlide {
-  id: string;
-  title: string;
-  subtitle: string;
-  image: any; // or ImageSourcePropType if you want strict typing
-}
-
-/* -----------------------------------------------------
-   PREMIUM COLOR SCHEME
------------------------------------------------------ */
-const COLORS = {
-  bg: "#0A0F0D",         // Deep charcoal
-  bgSoft: "#111715",     // Lifted dark
-  card: "#1A211E",       // Rich dark
-  cardSoft: "#222A26",   // Elevated card
-  border: "#2D3632",
-  neon: "#B6FF33",       // Lime green (matches reference)
-  neonSoft: "#A2E52E",   // Softer lime
-  accent: "#6366F1",     // Indigo accent
-  text: "#F8FAF6",       // Clean white
-  textMuted: "#94A39A",  // Muted sage
-  subtle: "#6B7A70",     // Medium muted
-};
-
-/* -----------------------------------------------------
-   PREMIUM HERO SLIDES
------------------------------------------------------ */
-const HERO_SLIDES: HeroSlide[] = [
-  {
-    id: "crafting-premium",
-    title: "We craft software that feels premium\nand performs under pressure.",
-    subtitle: "From concept to launch, CraftTech partners with US businesses to design and build modern digital products.",
-    image: require("./assets/Herovideo1.png"),
-  },
-  {
-    id: "future-architecture",
-    title: "Type-safe, AI-ready architectures\nbuilt for the next decade.",
-    subtitle: "We use modern TypeScript, cloud, and data practices to future-proof your platforms.",
-    image: require("./assets/Hero2.png"),
-  },
-  {
-    id: "product-squad",
-    title: "Your product squad — strategy, design,\nand engineering in one team.",
-    subtitle: "A distributed studio from Pakistan building for North American founders, product leaders, and CTOs.",
-    image: require("./assets/Hero3.png"),
-  },
-];
-
-/* -----------------------------------------------------
-   PREMIUM PORTFOLIO ITEMS
------------------------------------------------------ */
-const PORTFOLIO_ITEMS: PortfolioItem[] = [
-  {
-    id: 1,
-    title: "Fintech SaaS Dashboard",
-    type: "Web App",
-    category: "web",
-    description: "Analytics-heavy admin experience with secure multi-tenant access and real-time KPIs.",
-    metrics: ["+38% retention", "SOC2-ready", "Enterprise grade"],
-    img: "https://images.unsplash.com/photo-1551288049-bebda4e38f71?w=800",
-  },
-  {
-    id: 2,
-    title: "Telehealth Mobile Platform",
-    type: "Mobile App",
-    category: "mobile",
-    description: "Virtual care, scheduling, and secure messaging for a US-based healthcare startup.",
-    metrics: ["iOS & Android", "50k+ sessions", "HIPAA compliant"],
-    img: "https://images.unsplash.com/photo-1582719478250-c89cae4dc85b?auto=format&fit=crop&w=1000&q=80",
-  },
-  {
-    id: 3,
-    title: "Headless Commerce Experience",
-    type: "E-Commerce",
-    category: "ecommerce",
-    description: "Conversion-optimized storefront with a custom product configurator and fast checkout.",
-    metrics: ["3.9x ROI", "<1s page loads", "PWA ready"],
-    img: "https://images.unsplash.com/photo-1556742049-0cfed4f6a45d?w=800",
-  },
-];
-
-/* -----------------------------------------------------
-   PREMIUM TESTIMONIALS
------------------------------------------------------ */
-const TESTIMONIALS = [
-  {
-    id: 1,
-    quote: "CraftTech helped us ship a product our customers actually love to use. Their attention to detail in both design and engineering is exceptional.",
-    name: "Jordan Miles",
-    role: "VP Product, Fintech Startup",
-    company: "ScaleFin",
-  },
-  {
-    id: 2,
-    quote: "They understand both UX and engineering at a deep level. The collaboration felt like having an internal product squad that just gets it.",
-    name: "Emily Carter",
-    role: "Founder & CEO",
-    company: "HealthTech Solutions",
-  },
-  {
-    id: 3,
-    quote: "Clear communication, exceptional quality, and they handled complex requirements without drama. Would partner with them again in a heartbeat.",
-    name: "Daniel Ortiz",
-    role: "CTO",
-    company: "Modern Retail Co",
-  },
-];
-
-/* -----------------------------------------------------
-   GRADIENT VIEW COMPONENT
------------------------------------------------------ */
-const GradientView: React.FC<{
-  colors: string[];
-  style?: any;
-  children?: React.ReactNode;
-}> = ({ colors, style, children }) => {
-  if (Platform.OS === 'web') {
-    return (
-      <View 
-        style={[
-          style,
-          {
-            background: `linear-gradient(135deg, ${colors.join(', ')})`,
-          }
-        ]}
-      >
-        {children}
-      </View>
-    );
-  }
-  
-  return (
-    <View 
-      style={[
-        style,
-        { backgroundColor: colors[0] }
-      ]}
-    >
-      {children}
-    </View>
-  );
-};
-
-// Enhanced animated components
-const AnimatedScrollView = Animated.createAnimatedComponent(ScrollView);
-
-/* -----------------------------------------------------
-   SCROLL ANIMATION HOOK
------------------------------------------------------ */
-const useScrollAnimation = (delay: number = 0, scrollY?: Animated.Value) => {
-  const [isVisible, setIsVisible] = useState(false);
-  const [layoutY, setLayoutY] = useState<number | null>(null);
-  const animValue = useRef(new Animated.Value(0)).current;
-  const viewRef = useRef<View | null>(null);
-
-  const animateIn = () => {
-    if (isVisible) return;
-    setIsVisible(true);
-    Animated.timing(animValue, {
-      toValue: 1,
-      duration: 800,
-      delay,
-      easing: Easing.out(Easing.cubic),
-      useNativeDriver: useDriver,
-    }).start();
-  };
-
-  const onLayout = (e: LayoutChangeEvent) => {
-    setLayoutY(e.nativeEvent.layout.y);
-  };
-
-  useEffect(() => {
-    if (Platform.OS === "web") {
-      if (isVisible) return;
-
-      const observer = new IntersectionObserver(
-        (entries) => {
-          entries.forEach((entry) => {
-            if (entry.isIntersecting) {
-              animateIn();
-              observer.disconnect();
-            }
-          });
-        },
-        {
-          threshold: 0.1,
-          rootMargin: "0px 0px -100px 0px",
-        }
-      );
-
-      if (viewRef.current) {
-        observer.observe(viewRef.current as any);
-      }
-
-      return () => observer.disconnect();
-    }
-
-    if (!scrollY) {
-      const t = setTimeout(() => {
-        animateIn();
-      }, 80);
-      return () => clearTimeout(t);
-    }
-
-    if (isVisible) return;
-
-    const screenHeight = Dimensions.get("window").height;
-    const buffer = screenHeight * 0.1;
-
-    const checkAndAnimate = (scrollValue: number) => {
-      if (isVisible || layoutY == null) return;
-      const visibleBottom = scrollValue + screenHeight;
-      if (visibleBottom >= layoutY + buffer) {
-        animateIn();
-      }
-    };
-
-    if (layoutY != null) {
-      checkAndAnimate(0);
-    }
-
-    const id = scrollY.addListener(({ value }) => {
-      checkAndAnimate(value);
-    });
-
-    return () => {
-      scrollY.removeListener(id);
-    };
-  }, [scrollY, layoutY, isVisible, delay]);
-
-  const animationStyle = {
-    opacity: animValue,
-    transform: [
-      {
-        translateY: animValue.interpolate({
-          inputRange: [0, 1],
-          outputRange: [60, 0],
-        }),
-      },
-    ],
-  };
-
-  return {
-    isVisible,
-    viewRef,
-    animationStyle,
-    animValue,
-    onLayout,
-  };
-};
-
-/* -----------------------------------------------------
-   ANIMATED COMPONENTS
------------------------------------------------------ */
-const ScrollAnimatedView: React.FC<{
-  children: React.ReactNode;
-  style?: any;
-  delay?: number;
-  scrollY?: Animated.Value;
-}> = ({ children, style, delay = 0, scrollY }) => {
-  const { animationStyle, viewRef, onLayout } = useScrollAnimation(delay, scrollY);
-
-  return (
-    <Animated.View
-      ref={viewRef}
-      onLayout={onLayout}
-      style={[style, animationStyle]}
-    >
-      {children}
-    </Animated.View>
-  );
-};
-
-const StaggeredScrollAnimation: React.FC<{
-  children: React.ReactNode | React.ReactNode[];
-  style?: any;
-  itemDelay?: number;
-  scrollY?: Animated.Value;
-}> = ({ children, style, itemDelay = 100, scrollY }) => {
-  const items = React.Children.toArray(children);
-
-  return (
-    <View style={style}>
-      {items.map((child, index) => (
-        <ScrollAnimatedView
-          key={index}
-          delay={index * itemDelay}
-          scrollY={scrollY}
-        >
-          {child}
-        </ScrollAnimatedView>
-      ))}
-    </View>
-  );
-};
-
-/* -----------------------------------------------------
-   RESPONSIVE CONTAINER COMPONENT
------------------------------------------------------ */
-const ResponsiveContainer: React.FC<{
-  children: React.ReactNode;
-  style?: any;
-}> = ({ children, style }) => {
-  const { width } = useWindowDimensions();
-  
-  const containerStyle = {
-    width: "100%",
-    maxWidth: MAX_WIDTH,
-    alignSelf: "center" as const,
-    paddingHorizontal: responsiveValue(16, 24, 40, width),
-  };
-
-  return (
-    <View style={[containerStyle, style]}>
-      {children}
-    </View>
-  );
-};
-
 /* -----------------------------------------------------
    PREMIUM APP COMPONENT
 ----------------------------------------------------- */
@@ -422,12 +91,18 @@ const App: React.FC = () => {
     width
   );
 
+  // CONTENT
+  const { heroSlides, portfolio, testimonials, services, process: processSteps, posts, jobs } = useSiteContent();
+
+  // ROUTE
+  const { route, search, navigate, setSearch, back } = useRoute();
+
   // STATE
   const [sectionPositions, setSectionPositions] = useState<Partial<Record<SectionKey, number>>>({});
   const [navOpen, setNavOpen] = useState(false);
   const [openDropdown, setOpenDropdown] = useState<string | null>(null);
-  const [portfolioFilter, setPortfolioFilter] = useState<PortfolioCategory>("all");
   const [activeSlideIndex, setActiveSlideIndex] = useState(0);
+  const [briefPrefill, setBriefPrefill] = useState<Partial<BriefInput> | null>(null);
 
   // SCROLL-BASED ANIMATIONS
   const scrollY = useRef(new Animated.Value(0)).current;
@@ -436,14 +111,15 @@ const App: React.FC = () => {
   const heroAnim = useRef(new Animated.Value(0)).current;
   const headerAnim = useRef(new Animated.Value(0)).current;
 
-  const currentSlide = HERO_SLIDES[activeSlideIndex];
+  // Fresh content can have fewer slides than the bundled copy we started on.
+  const currentSlide = heroSlides[activeSlideIndex % heroSlides.length];
 
   /* -----------------------------------------------------
      HERO AUTOPLAY & ANIMATIONS
   ----------------------------------------------------- */
   useEffect(() => {
     const interval = setInterval(() => {
-      setActiveSlideIndex((prev) => (prev + 1) % HERO_SLIDES.length);
+      setActiveSlideIndex((prev) => (prev + 1) % heroSlides.length);
     }, 8000);
     return () => clearInterval(interval);
   }, []);
@@ -467,11 +143,52 @@ const App: React.FC = () => {
   }, [activeSlideIndex, heroAnim, headerAnim]);
 
   /* -----------------------------------------------------
-     SCROLL HANDLER
+     SECTION ROUTING
+     Each section has a path (lib/routes). Nav clicks push
+     it, scrolling replaces it with the section in view, and
+     a path we didn't set ourselves — the first load, back
+     and forward, a deep link — scrolls to its section once
+     that section has been laid out.
   ----------------------------------------------------- */
+  const sectionInView = useRef<SectionKey>("hero");
+  const pendingSection = useRef<SectionKey | null>(null);
+  // Smooth scrolls pass other sections on the way; don't report those.
+  const programmaticScrollUntil = useRef(0);
+
+  const scrollToOffset = (key: SectionKey, animated: boolean) => {
+    const y = sectionPositions[key] ?? 0;
+    programmaticScrollUntil.current = Date.now() + (animated ? 1000 : 100);
+    scrollRef.current?.scrollTo({ y: Math.max(y - headerHeight * 0.8, 0), animated });
+  };
+
+  const flushPendingSection = () => {
+    const key = pendingSection.current;
+    if (!key || sectionPositions[key] === undefined) return;
+    pendingSection.current = null;
+    scrollToOffset(key, false);
+  };
+
+  const routeSection = route.name === "home" ? route.section : null;
+
+  useEffect(() => {
+    if (!routeSection || routeSection === sectionInView.current) return;
+    sectionInView.current = routeSection;
+    pendingSection.current = routeSection;
+    flushPendingSection();
+  }, [routeSection]);
+
+  useEffect(flushPendingSection, [sectionPositions]);
+
   const handleScroll = (e: NativeSyntheticEvent<NativeScrollEvent>) => {
     const y = e.nativeEvent.contentOffset.y;
     scrollY.setValue(y);
+    if (route.name !== "home" || Date.now() < programmaticScrollUntil.current) return;
+
+    const visible = SECTION_KEYS.filter((key) => (sectionPositions[key] ?? Infinity) <= y + headerHeight).pop() ?? "hero";
+    if (visible !== sectionInView.current) {
+      sectionInView.current = visible;
+      navigate(sectionRoute(visible), { replace: true, keepSearch: true });
+    }
   };
 
   const handleSectionLayout = (key: SectionKey) => (event: LayoutChangeEvent) => {
@@ -479,106 +196,72 @@ const App: React.FC = () => {
     setSectionPositions((prev) => ({ ...prev, [key]: y }));
   };
 
-  const scrollToSection = (key: SectionKey) => {
-    const y = sectionPositions[key] ?? 0;
-    scrollRef.current?.scrollTo({ y: y - (headerHeight * 0.8), animated: true });
+  const scrollToSection = (key: SectionKey, search?: string) => {
+    sectionInView.current = key;
+    navigate(sectionRoute(key), search === undefined ? { keepSearch: true } : { search });
+    scrollToOffset(key, true);
     setNavOpen(false);
     setOpenDropdown(null);
   };
 
-  const [form, setForm] = useState({
-    name: "",
-    email: "",
-    company: "",
-    budget: "",
-    message: "",
-  });
-
-  const handleFormChange = (field: keyof typeof form, value: string) => {
-    setForm((prev) => ({ ...prev, [field]: value }));
+  // Every prefill says where it came from, so a tag from an earlier page doesn't stick.
+  const prefillBrief = (brief: Partial<BriefInput>) => {
+    setBriefPrefill({ source: "", ...brief });
+    scrollToSection("contact");
   };
 
-  const handleSubmit = () => {
-    if (!form.email || !form.message) {
-      Alert.alert("Missing info", "Please add at least your email and project details.");
-      return;
+  const openCaseStudy = (slug: string) => navigate({ name: "caseStudy", slug });
+
+  const startSimilarProject = (item: PortfolioItem) => prefillBrief(briefFromCaseStudy(item));
+
+  const openService = (slug: string) => navigate({ name: "service", slug });
+
+  const startServiceProject = (service: Service, engagement?: EngagementOption) =>
+    prefillBrief(briefFromService(service, engagement));
+
+  // Nav, dropdown and footer links all go through here (see lib/links).
+  const openLink = (target: LinkTarget) => {
+    const { route: next, search: nextSearch } = resolveLink(target);
+    if (next.name === "home") {
+      scrollToSection(next.section, nextSearch ?? undefined);
+    } else {
+      navigate(next, nextSearch === null ? { keepSearch: true } : { search: nextSearch });
+      setNavOpen(false);
+      setOpenDropdown(null);
     }
-    Alert.alert("Brief sent", "We'll review your project and reply within one business day.");
-    setForm({
-      name: "",
-      email: "",
-      company: "",
-      budget: "",
-      message: "",
-    });
   };
 
-  const filteredPortfolio = portfolioFilter === "all"
-    ? PORTFOLIO_ITEMS
-    : PORTFOLIO_ITEMS.filter((i) => i.category === portfolioFilter);
+  // Work filters live in the URL's query string, so back/forward and shared links restore them.
+  const portfolioQuery = useMemo(() => portfolioQueryFromSearch(search), [search]);
+  const { results: filteredPortfolio, facets: portfolioFacets } = useMemo(
+    () => searchPortfolio(portfolio, portfolioQuery),
+    [portfolio, portfolioQuery]
+  );
+  const setPortfolioQuery = (query: PortfolioQuery) => setSearch(portfolioQueryToSearch(query));
+
+  // The blog's tag and page work the same way.
+  const blogQuery = useMemo(() => blogQueryFromSearch(search), [search]);
+  const setBlogQuery = (query: BlogQuery) => setSearch(blogQueryToSearch(query));
+  const openPost = (slug: string) => navigate({ name: "post", slug });
+
+  // And so do the careers filters.
+  const careersQuery = useMemo(() => careersQueryFromSearch(search), [search]);
+  const setCareersQuery = (query: CareersQuery) => setSearch(careersQueryToSearch(query));
+  const openJob = (slug: string) => navigate({ name: "job", slug });
 
   /* -----------------------------------------------------
      NAV ITEMS
+     Generated from lib/navigation for this layout.
   ----------------------------------------------------- */
-  const centerNavItems = [
-    {
-      key: "services",
-      label: "Services",
-      section: "services" as SectionKey,
-      children: [
-        { label: "Web App Development", section: "services" as SectionKey },
-        { label: "Mobile App Development", section: "services" as SectionKey },
-        { label: "UI/UX & Product Design", section: "services" as SectionKey },
-        { label: "Cloud & Backend Engineering", section: "services" as SectionKey },
-      ],
-    },
-    {
-      key: "work",
-      label: "Work",
-      section: "work" as SectionKey,
-      children: [
-        { label: "Fintech & Banking", section: "work" as SectionKey },
-        { label: "Healthcare & Telehealth", section: "work" as SectionKey },
-        { label: "Retail & E-Commerce", section: "work" as SectionKey },
-        { label: "Startups & SaaS", section: "work" as SectionKey },
-      ],
-    },
-    {
-      key: "process",
-      label: "Process",
-      section: "process" as SectionKey,
-      children: [
-        { label: "Delivery Playbook", section: "process" as SectionKey },
-        { label: "Design Systems", section: "services" as SectionKey },
-        { label: "Scalable Architectures", section: "process" as SectionKey },
-      ],
-    },
-    {
-      key: "about",
-      label: "About",
-      section: "testimonials" as SectionKey,
-      children: [
-        { label: "Our Team", section: "testimonials" as SectionKey },
-        { label: "How We Work", section: "process" as SectionKey },
-        { label: "Engagement Models", section: "contact" as SectionKey },
-      ],
-    },
-  ];
-
-  const mobileNavItems: { label: string; section: SectionKey }[] = [
-    { label: "Services", section: "services" },
-    { label: "Process", section: "process" },
-    { label: "Work", section: "work" },
-    { label: "Clients", section: "testimonials" },
-    { label: "Contact", section: "contact" },
-  ];
+  const headerNav = navigationFor(navBreakpoint(isMobile, isTablet));
+  const footerNav = navigationFor("footer");
 
   const handlePrevSlide = () => {
-    setActiveSlideIndex((prev) => prev === 0 ? HERO_SLIDES.length - 1 : prev - 1);
+    setActiveSlideIndex((prev) => prev === 0 ? heroSlides.length - 1 : prev - 1);
   };
 
   const handleNextSlide = () => {
-    setActiveSlideIndex((prev) => (prev + 1) % HERO_SLIDES.length);
+    setActiveSlideIndex((prev) => (prev + 1) % heroSlides.length);
   };
 
   /* -----------------------------------------------------
@@ -630,39 +313,19 @@ const App: React.FC = () => {
               </View>
             </View>
 
-            {/* Services Column */}
-            <View style={[styles.footerColumn, isMobile && styles.footerColumnMobile]}>
-              <Text style={[styles.footerColumnTitle, isMobile && styles.footerColumnTitleMobile]}>Services</Text>
-              <TouchableOpacity style={styles.footerLink}>
-                <Text style={[styles.footerLinkText, isMobile && styles.footerLinkTextMobile]}>Web App Development</Text>
-              </TouchableOpacity>
-              <TouchableOpacity style={styles.footerLink}>
-                <Text style={[styles.footerLinkText, isMobile && styles.footerLinkTextMobile]}>Mobile App Development</Text>
-              </TouchableOpacity>
-              <TouchableOpacity style={styles.footerLink}>
-                <Text style={[styles.footerLinkText, isMobile && styles.footerLinkTextMobile]}>UI/UX Design</Text>
-              </TouchableOpacity>
-              <TouchableOpacity style={styles.footerLink}>
-                <Text style={[styles.footerLinkText, isMobile && styles.footerLinkTextMobile]}>Cloud Engineering</Text>
-              </TouchableOpacity>
-            </View>
-
-            {/* Work Column */}
-            <View style={[styles.footerColumn, isMobile && styles.footerColumnMobile]}>
-              <Text style={[styles.footerColumnTitle, isMobile && styles.footerColumnTitleMobile]}>Work</Text>
-              <TouchableOpacity style={styles.footerLink}>
-                <Text style={[styles.footerLinkText, isMobile && styles.footerLinkTextMobile]}>Fintech</Text>
-              </TouchableOpacity>
-              <TouchableOpacity style={styles.footerLink}>
-                <Text style={[styles.footerLinkText, isMobile && styles.footerLinkTextMobile]}>Healthcare</Text>
-              </TouchableOpacity>
-              <TouchableOpacity style={styles.footerLink}>
-                <Text style={[styles.footerLinkText, isMobile && styles.footerLinkTextMobile]}>E-commerce</Text>
-              </TouchableOpacity>
-              <TouchableOpacity style={styles.footerLink}>
-                <Text style={[styles.footerLinkText, isMobile && styles.footerLinkTextMobile]}>SaaS Platforms</Text>
-              </TouchableOpacity>
-            </View>
+            {/* Sitemap Columns */}
+            {footerNav.map((group) => (
+              <View key={group.key} style={[styles.footerColumn, isMobile && styles.footerColumnMobile]}>
+                <TouchableOpacity onPress={() => openLink(group.to)}>
+                  <Text style={[styles.footerColumnTitle, isMobile && styles.footerColumnTitleMobile]}>{group.label}</Text>
+                </TouchableOpacity>
+                {group.children.map((link) => (
+                  <TouchableOpacity key={link.label} style={styles.footerLink} onPress={() => openLink(link.to)}>
+                    <Text style={[styles.footerLinkText, isMobile && styles.footerLinkTextMobile]}>{link.label}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            ))}
 
             {/* Contact Column */}
             <View style={[styles.footerColumn, isMobile && styles.footerColumnMobile]}>
@@ -779,10 +442,10 @@ const App: React.FC = () => {
           {/* Center Navigation */}
           {(isTablet || isDesktop) && (
             <View style={[styles.navCenterRow, isTablet && styles.navCenterRowTablet]}>
-              {centerNavItems.map((item) => (
+              {headerNav.map((item) => (
                 <View key={item.key} style={[styles.navCenterItem, isTablet && styles.navCenterItemTablet]}>
                   <TouchableOpacity
-                    onPress={() => scrollToSection(item.section)}
+                    onPress={() => openLink(item.to)}
                     onLongPress={() => setOpenDropdown(openDropdown === item.key ? null : item.key)}
                     delayLongPress={150}
                     activeOpacity={0.8}
@@ -805,13 +468,10 @@ const App: React.FC = () => {
                         <TouchableOpacity
                           key={child.label}
                           style={styles.dropdownItem}
-                          onPress={() => {
-                            scrollToSection(child.section);
-                            setOpenDropdown(null);
-                          }}
+                          onPress={() => openLink(child.to)}
                         >
                           <Text style={[styles.dropdownText, { fontSize: s(13) }]}>
-                            {child.label}
+                            {navLabel(child)}
                           </Text>
                         </TouchableOpacity>
                       ))}
@@ -856,16 +516,25 @@ const App: React.FC = () => {
         {/* Mobile Navigation */}
         {isMobile && navOpen && (
           <View style={styles.mobileNav}>
-            {mobileNavItems.map((item) => (
-              <TouchableOpacity
-                key={item.label}
-                style={styles.mobileNavItem}
-                onPress={() => scrollToSection(item.section)}
-              >
-                <Text style={[styles.mobileNavText, { fontSize: s(16) }]}>
-                  {item.label}
-                </Text>
-              </TouchableOpacity>
+            {headerNav.map((item) => (
+              <View key={item.key} style={styles.mobileNavItem}>
+                <TouchableOpacity onPress={() => openLink(item.to)}>
+                  <Text style={[styles.mobileNavText, { fontSize: s(16) }]}>
+                    {navLabel(item)}
+                  </Text>
+                </TouchableOpacity>
+                {item.children.map((child) => (
+                  <TouchableOpacity
+                    key={child.label}
+                    style={styles.mobileNavChild}
+                    onPress={() => openLink(child.to)}
+                  >
+                    <Text style={[styles.mobileNavChildText, { fontSize: s(14) }]}>
+                      {navLabel(child)}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
             ))}
             <TouchableOpacity
               style={[styles.navCta, styles.navCtaMobile]}
@@ -896,7 +565,7 @@ const App: React.FC = () => {
         >
          <Image
   key={currentSlide.id}
-  source={currentSlide.image}
+  source={contentImage(currentSlide.image)}
   style={styles.heroVideo}
   resizeMode="cover"
 />
@@ -1002,7 +671,7 @@ const App: React.FC = () => {
             </TouchableOpacity>
 
             <View style={styles.heroDots}>
-              {HERO_SLIDES.map((_, index) => (
+              {heroSlides.map((_, index) => (
                 <TouchableOpacity
                   key={index}
                   onPress={() => setActiveSlideIndex(index)}
@@ -1010,7 +679,7 @@ const App: React.FC = () => {
                   <View
                     style={[
                       styles.heroDot,
-                      index === activeSlideIndex && styles.heroDotActive,
+                      index === activeSlideIndex % heroSlides.length && styles.heroDotActive,
                     ]}
                   />
                 </TouchableOpacity>
@@ -1057,31 +726,18 @@ const App: React.FC = () => {
               style={[styles.servicesGrid, isMobile && styles.gridSingleColumn]}
               scrollY={scrollY}
             >
-              {[
-                {
-                  title: "Product Strategy",
-                  description: "We help you validate ideas, prioritise features, and align stakeholders before a single line of code is written.",
-                  tech: ["MVP Roadmaps", "Discovery Workshops", "Product Analytics"],
-                  icon: "🎯",
-                },
-                {
-                  title: "Design & Experience",
-                  description: "Premium product UX for web and mobile — clean, modern, and optimised for real-world usage.",
-                  tech: ["Figma", "Design Systems", "Prototypes"],
-                  icon: "🎨",
-                },
-                {
-                  title: "Engineering & Launch",
-                  description: "TypeScript-first builds on React, React Native, Node.js, and AWS — with performance and reliability in mind.",
-                  tech: ["React", "Node.js", "TypeScript", "AWS"],
-                  icon: "⚡",
-                },
-              ].map((service, index) => (
-                <View key={index} style={[
-                  styles.serviceCard, 
-                  isMobile && styles.cardFullWidth,
-                  isTablet && styles.serviceCardTablet,
-                ]}>
+              {featuredServices(services).map((service, index) => (
+                <TouchableOpacity
+                  key={service.slug}
+                  activeOpacity={0.9}
+                  accessibilityRole="link"
+                  onPress={() => openService(service.slug)}
+                  style={[
+                    styles.serviceCard,
+                    isMobile && styles.cardFullWidth,
+                    isTablet && styles.serviceCardTablet,
+                  ]}
+                >
                   <View style={styles.serviceHeader}>
                     <Text style={styles.serviceIcon}>{service.icon}</Text>
                     <Text style={styles.serviceNumber}>0{index + 1}</Text>
@@ -1101,7 +757,10 @@ const App: React.FC = () => {
                       </View>
                     ))}
                   </View>
-                </View>
+                  <Text style={[styles.serviceCardLink, isMobile && styles.textCenterMobile]}>
+                    Explore the service →
+                  </Text>
+                </TouchableOpacity>
               ))}
             </StaggeredScrollAnimation>
           </ResponsiveContainer>
@@ -1138,18 +797,13 @@ const App: React.FC = () => {
               style={[styles.processGrid, isMobile && styles.gridSingleColumn]}
               scrollY={scrollY}
             >
-              {[
-                { step: "01 • Discover", title: "Research & Alignment", description: "Workshops, research, and requirements to get everyone aligned on the same problem and outcome." },
-                { step: "02 • Design", title: "UX & Interface Design", description: "Flows, wireframes, and polished UI that reflect your brand and real user journeys." },
-                { step: "03 • Build", title: "Engineering & Development", description: "Sprints with demos, reviews, and code that your in-house team can extend with confidence." },
-                { step: "04 • Launch", title: "Deployment & Growth", description: "Rollout, monitoring, and iterative improvements based on real usage and product metrics." },
-              ].map((item, index) => (
+              {processSteps.map((item, index) => (
                 <View key={index} style={[
                   styles.processCard, 
                   isMobile && styles.cardFullWidth,
                   isTablet && styles.processCardTablet,
                 ]}>
-                  <Text style={styles.processStep}>{item.step}</Text>
+                  <Text style={styles.processStep}>{`0${index + 1} • ${item.phase}`}</Text>
                   <Text style={[
                     styles.processCardTitle, 
                     isMobile && styles.textCenterMobile
@@ -1161,6 +815,10 @@ const App: React.FC = () => {
                 </View>
               ))}
             </StaggeredScrollAnimation>
+
+            <ScrollAnimatedView delay={200} scrollY={scrollY}>
+              <ProjectEstimator onPrefill={prefillBrief} />
+            </ScrollAnimatedView>
           </ResponsiveContainer>
         </View>
 
@@ -1191,56 +849,48 @@ const App: React.FC = () => {
             </ScrollAnimatedView>
 
             <ScrollAnimatedView delay={200} scrollY={scrollY}>
-              <View style={[styles.filterRow, isMobile && styles.filterRowMobile]}>
-                {(["all", "web", "mobile", "ecommerce"] as PortfolioCategory[]).map((cat) => {
-                  const LABELS: Record<PortfolioCategory, string> = {
-                    all: "All Projects",
-                    web: "Web Apps",
-                    mobile: "Mobile Apps",
-                    ecommerce: "E-commerce",
-                  };
-                  const active = portfolioFilter === cat;
-                  return (
-                    <TouchableOpacity
-                      key={cat}
-                      style={[
-                        styles.filterChip,
-                        isMobile && styles.filterChipMobile,
-                        isTablet && styles.filterChipTablet,
-                        active && styles.filterChipActive,
-                      ]}
-                      onPress={() => setPortfolioFilter(cat)}
-                    >
-                      <Text
-                        style={[
-                          styles.filterChipText,
-                          isMobile && styles.filterChipTextMobile,
-                          active && styles.filterChipTextActive,
-                          { fontSize: s(14) },
-                        ]}
-                      >
-                        {LABELS[cat]}
-                      </Text>
-                    </TouchableOpacity>
-                  );
-                })}
-              </View>
+              <PortfolioFilters
+                query={portfolioQuery}
+                facets={portfolioFacets}
+                resultCount={filteredPortfolio.length}
+                total={portfolio.length}
+                onChange={setPortfolioQuery}
+              />
             </ScrollAnimatedView>
 
+            {filteredPortfolio.length === 0 && (
+              <View style={styles.portfolioEmpty}>
+                <Text style={[styles.portfolioEmptyTitle, { fontSize: s(20) }]}>No projects match those filters</Text>
+                <Text style={styles.portfolioEmptyBody}>
+                  Try fewer filters or a different search — or tell us about your project and we'll share
+                  relevant work on a call.
+                </Text>
+                <TouchableOpacity onPress={() => setPortfolioQuery(EMPTY_PORTFOLIO_QUERY)}>
+                  <Text style={styles.portfolioLink}>Clear filters</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+
             <StaggeredScrollAnimation
               itemDelay={100}
               style={[styles.portfolioGrid, isMobile && styles.gridSingleColumn]}
               scrollY={scrollY}
             >
               {filteredPortfolio.map((item) => (
-                <View key={item.id} style={[
-                  styles.portfolioCard, 
-                  isMobile && styles.cardFullWidth,
-                  isTablet && styles.portfolioCardTablet,
-                ]}>
+                <TouchableOpacity
+                  key={item.id}
+                  activeOpacity={0.9}
+                  accessibilityRole="link"
+                  onPress={() => openCaseStudy(item.slug)}
+                  style={[
+                    styles.portfolioCard,
+                    isMobile && styles.cardFullWidth,
+                    isTablet && styles.portfolioCardTablet,
+                  ]}
+                >
                   <View style={styles.portfolioImageContainer}>
                     <Image
-                      source={{ uri: item.img }}
+                      source={contentImage(item.img)}
                       style={styles.portfolioImage}
                       resizeMode="cover"
                     />
@@ -1261,8 +911,11 @@ const App: React.FC = () => {
                         </View>
                       ))}
                     </View>
+                    <Text style={[styles.portfolioLink, isMobile && styles.textCenterMobile]}>
+                      Read the case study →
+                    </Text>
                   </View>
-                </View>
+                </TouchableOpacity>
               ))}
             </StaggeredScrollAnimation>
           </ResponsiveContainer>
@@ -1299,7 +952,7 @@ const App: React.FC = () => {
               style={[styles.testimonialsGrid, isMobile && styles.gridSingleColumn]}
               scrollY={scrollY}
             >
-              {TESTIMONIALS.map((testimonial, index) => (
+              {testimonials.map((testimonial, index) => (
                 <View key={testimonial.id} style={[
                   styles.testimonialCard, 
                   isMobile && styles.cardFullWidth,
@@ -1371,80 +1024,7 @@ const App: React.FC = () => {
                   styles.contactForm,
                   isMobile && styles.contactFormMobile,
                 ]}>
-                  <View style={[styles.formRow, isMobile && styles.formRowMobile]}>
-                    <View style={[styles.formGroup, isMobile && styles.formGroupMobile]}>
-                      <Text style={styles.inputLabel}>Name</Text>
-                      <TextInput
-                        style={styles.input}
-                        placeholder="Your name"
-                        placeholderTextColor={COLORS.subtle}
-                        value={form.name}
-                        onChangeText={(v) => handleFormChange("name", v)}
-                      />
-                    </View>
-                    <View style={[styles.formGroup, isMobile && styles.formGroupMobile]}>
-                      <Text style={styles.inputLabel}>Work email</Text>
-                      <TextInput
-                        style={styles.input}
-                        placeholder="you@company.com"
-                        placeholderTextColor={COLORS.subtle}
-                        keyboardType="email-address"
-                        autoCapitalize="none"
-                        value={form.email}
-                        onChangeText={(v) => handleFormChange("email", v)}
-                      />
-                    </View>
-                  </View>
-
-                  <View style={[styles.formRow, isMobile && styles.formRowMobile]}>
-                    <View style={[styles.formGroup, isMobile && styles.formGroupMobile]}>
-                      <Text style={styles.inputLabel}>Company</Text>
-                      <TextInput
-                        style={styles.input}
-                        placeholder="Company or startup name"
-                        placeholderTextColor={COLORS.subtle}
-                        value={form.company}
-                        onChangeText={(v) => handleFormChange("company", v)}
-                      />
-                    </View>
-                    <View style={[styles.formGroup, isMobile && styles.formGroupMobile]}>
-                      <Text style={styles.inputLabel}>Rough budget (USD)</Text>
-                      <TextInput
-                        style={styles.input}
-                        placeholder="e.g. 20k – 60k"
-                        placeholderTextColor={COLORS.subtle}
-                        value={form.budget}
-                        onChangeText={(v) => handleFormChange("budget", v)}
-                      />
-                    </View>
-                  </View>
-
-                  <View style={[styles.formGroup, isMobile && styles.formGroupMobile]}>
-                    <Text style={styles.inputLabel}>What are you looking to build?</Text>
-                    <TextInput
-                      style={[styles.input, styles.textarea]}
-                      placeholder="App, platform, redesign, MVP…"
-                      placeholderTextColor={COLORS.subtle}
-                      multiline
-                      numberOfLines={4}
-                      value={form.message}
-                      onChangeText={(v) => handleFormChange("message", v)}
-                    />
-                  </View>
-
-                  <ScrollAnimatedView delay={400} scrollY={scrollY}>
-                    <TouchableOpacity
-                      style={[styles.submitButton, isMobile && styles.submitButtonMobile]}
-                      onPress={handleSubmit}
-                    >
-                      <GradientView
-                        colors={[COLORS.neonSoft, COLORS.neon]}
-                        style={styles.submitGradient}
-                      >
-                        <Text style={styles.submitButtonText}>Send brief</Text>
-                      </GradientView>
-                    </TouchableOpacity>
-                  </ScrollAnimatedView>
+                  <BriefWizard prefill={briefPrefill} />
                 </View>
               </ScrollAnimatedView>
 
@@ -1492,6 +1072,8 @@ const App: React.FC = () => {
                       </Text>
                     </View>
                   </View>
+
+                  <CallScheduler />
                 </View>
               </ScrollAnimatedView>
             </View>
@@ -1501,6 +1083,53 @@ const App: React.FC = () => {
         {/* PROFESSIONAL FOOTER */}
         <ProfessionalFooter />
       </AnimatedScrollView>
+
+      {/* CASE STUDY (over the site, so back keeps the scroll position) */}
+      {route.name === "caseStudy" && (
+        <CaseStudyPage
+          slug={route.slug}
+          portfolio={portfolio}
+          testimonials={testimonials}
+          onOpenProject={openCaseStudy}
+          onBack={back}
+          onStartSimilar={startSimilarProject}
+        />
+      )}
+
+      {/* SERVICE */}
+      {route.name === "service" && (
+        <ServicePage
+          slug={route.slug}
+          services={services}
+          portfolio={portfolio}
+          onOpenProject={openCaseStudy}
+          onBack={back}
+          onStartProject={startServiceProject}
+        />
+      )}
+
+      {/* INSIGHTS */}
+      {route.name === "blog" && (
+        <BlogPage posts={posts} query={blogQuery} onChangeQuery={setBlogQuery} onOpenPost={openPost} onBack={back} />
+      )}
+      {route.name === "post" && (
+        <PostPage
+          slug={route.slug}
+          posts={posts}
+          onOpenPost={openPost}
+          onOpenTag={(tag) => openLink(blogLink(tag))}
+          onBack={back}
+          onContact={() => scrollToSection("contact")}
+        />
+      )}
+
+      {/* CAREERS */}
+      {route.name === "careers" && (
+        <CareersPage jobs={jobs} query={careersQuery} onChangeQuery={setCareersQuery} onOpenJob={openJob} onBack={back} />
+      )}
+      {route.name === "job" && (
+        <JobPage slug={route.slug} jobs={jobs} onOpenJob={openJob} onBack={() => openLink(careersLink())} />
+      )}
     </SafeAreaView>
   );
 };
@@ -1688,6 +1317,15 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: "500",
   },
+  mobileNavChild: {
+    paddingVertical: 8,
+    paddingLeft: 16,
+    minHeight: 36,
+  },
+  mobileNavChildText: {
+    color: COLORS.textMuted,
+    fontSize: 14,
+  },
   scroll: {
     flex: 1,
   },
@@ -2001,6 +1639,12 @@ const styles = StyleSheet.create({
     marginBottom: 20,
     minHeight: 66,
   },
+  serviceCardLink: {
+    color: COLORS.neon,
+    fontSize: 14,
+    fontWeight: "700",
+    marginTop: 16,
+  },
 
   // PROCESS
   processGrid: {
@@ -2048,53 +1692,27 @@ const styles = StyleSheet.create({
   },
 
   // WORK
-  filterRow: {
-    flexDirection: "row",
-    justifyContent: "center",
-    flexWrap: "wrap",
-    gap: 12,
-    marginBottom: 40,
-    minHeight: 40,
-  },
-  filterRowMobile: {
-    justifyContent: "center",
+  portfolioEmpty: {
+    alignItems: "center",
     gap: 8,
-    paddingHorizontal: 8,
-  },
-  filterChip: {
-    paddingHorizontal: 20,
-    paddingVertical: 10,
+    paddingVertical: 48,
+    paddingHorizontal: 24,
     borderRadius: 20,
     borderWidth: 1,
+    borderStyle: "dashed",
     borderColor: COLORS.border,
-    backgroundColor: COLORS.card,
-    minHeight: 40,
   },
-  filterChipMobile: {
-    paddingHorizontal: 16,
-    paddingVertical: 8,
-    minHeight: 36,
-  },
-  filterChipTablet: {
-    paddingHorizontal: 18,
-    paddingVertical: 9,
-  },
-  filterChipActive: {
-    backgroundColor: COLORS.neon,
-    borderColor: COLORS.neon,
+  portfolioEmptyTitle: {
+    color: COLORS.text,
+    fontWeight: "700",
+    textAlign: "center",
   },
-  filterChipText: {
+  portfolioEmptyBody: {
     color: COLORS.textMuted,
-    fontSize: 14,
-    fontWeight: "500",
+    fontSize: 15,
+    lineHeight: 22,
     textAlign: "center",
-  },
-  filterChipTextMobile: {
-    fontSize: 13,
-  },
-  filterChipTextActive: {
-    color: COLORS.bg,
-    fontWeight: "600",
+    maxWidth: 520,
   },
   portfolioGrid: {
     flexDirection: "row",
@@ -2266,66 +1884,6 @@ const styles = StyleSheet.create({
   contactFormMobile: {
     padding: 24,
   },
-  formRow: {
-    flexDirection: "row",
-    gap: 16,
-    marginBottom: 16,
-    minHeight: 80,
-  },
-  formRowMobile: {
-    flexDirection: "column",
-    gap: 16,
-    marginBottom: 16,
-  },
-  formGroup: {
-    flex: 1,
-    minHeight: 80,
-  },
-  formGroupMobile: {
-    width: "100%",
-  },
-  inputLabel: {
-    color: COLORS.text,
-    fontSize: 14,
-    fontWeight: "600",
-    marginBottom: 8,
-    minHeight: 20,
-  },
-  input: {
-    backgroundColor: COLORS.bgSoft,
-    borderRadius: 12,
-    borderWidth: 1,
-    borderColor: COLORS.border,
-    color: COLORS.text,
-    fontSize: 16,
-    paddingHorizontal: 16,
-    paddingVertical: 12,
-    minHeight: 48,
-  },
-  textarea: {
-    height: 120,
-    textAlignVertical: "top",
-    minHeight: 120,
-  },
-  submitButton: {
-    borderRadius: 12,
-    overflow: "hidden",
-    marginTop: 24,
-    minHeight: 56,
-  },
-  submitButtonMobile: {
-    width: "100%",
-  },
-  submitGradient: {
-    paddingVertical: 16,
-    alignItems: "center",
-    minHeight: 56,
-  },
-  submitButtonText: {
-    color: COLORS.text,
-    fontSize: 16,
-    fontWeight: "600",
-  },
   contactInfo: {
     flex: 1,
     minWidth: 300,
@@ -2422,6 +1980,12 @@ const styles = StyleSheet.create({
     fontWeight: "600",
     textAlign: "center",
   },
+  portfolioLink: {
+    color: COLORS.neon,
+    fontSize: 14,
+    fontWeight: "700",
+    marginTop: 16,
+  },
 
   // PROFESSIONAL FOOTER STYLES
   footer: {
@@ -0,0 +1,27 @@
+import React from "react";
+import { Platform } from "react-native";
+import App from "./App";
+import { AdminApp } from "./components/admin/AdminApp";
+import { BriefStatusPage } from "./components/BriefStatusPage";
+import { statusTokenFromPath } from "./lib/briefStatus";
+
+/* -----------------------------------------------------
+   ROOT
+   Picks the app for the current web path: /admin is the
+   lead inbox, /brief/:token a prospect's status page, and
+   everything else the marketing site, which routes its
+   own paths (see lib/routes). vercel.json sends every
+   non-API path to this SPA.
+----------------------------------------------------- */
+const webPath = () =>
+  Platform.OS === "web" && typeof window !== "undefined" ? window.location.pathname : "/";
+
+const Root: React.FC = () => {
+  const path = webPath();
+  if (/^\/admin(\/|$)/.test(path)) return <AdminApp />;
+  const statusToken = statusTokenFromPath(path);
+  if (statusToken) return <BriefStatusPage token={statusToken} />;
+  return <App />;
+};
+
+export default Root;
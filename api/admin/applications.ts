@@ -0,0 +1,63 @@
+import { randomUUID } from "crypto";
+import {
+  ApplicationPatch,
+  ApplicationUpdate,
+  isApplicationStatus,
+} from "../../lib/applications";
+import { MAX_NOTE_LENGTH } from "../../lib/leads";
+import { requireAdmin } from "../../server/adminAuth";
+import { getApplicationStore, presentApplication } from "../../server/applicationStore";
+import { HttpError, readJsonBody, route, sendJson } from "../../server/http";
+
+/* -----------------------------------------------------
+   /api/admin/applications
+   GET                  every job application, newest first
+   PATCH ?id=<id>       status and/or a new note
+   All routes need an admin session.
+----------------------------------------------------- */
+const parseUpdate = (body: unknown): ApplicationUpdate => {
+  if (!body || typeof body !== "object") throw new HttpError(400, "Expected a JSON object.");
+  const raw = body as Record<string, unknown>;
+  const update: ApplicationUpdate = {};
+
+  if (raw.status !== undefined) {
+    if (!isApplicationStatus(raw.status)) throw new HttpError(422, "Unknown hiring status.");
+    update.status = raw.status;
+  }
+  if (raw.note !== undefined) {
+    const note = typeof raw.note === "string" ? raw.note.trim() : "";
+    if (!note || note.length > MAX_NOTE_LENGTH) {
+      throw new HttpError(422, `Notes must be 1–${MAX_NOTE_LENGTH} characters.`);
+    }
+    update.note = note;
+  }
+  return update;
+};
+
+export default route({
+  GET: async (req, res) => {
+    requireAdmin(req);
+    sendJson(res, 200, (await getApplicationStore().list()).map(presentApplication));
+  },
+
+  PATCH: async (req, res) => {
+    const member = requireAdmin(req);
+    const id = new URL(req.url ?? "/", "http://localhost").searchParams.get("id");
+    if (!id) throw new HttpError(400, "Missing application id.");
+
+    const update = parseUpdate(await readJsonBody(req));
+    const application = await getApplicationStore().update(id, (current) => {
+      const patch: ApplicationPatch = {};
+      if (update.status) patch.status = update.status;
+      if (update.note) {
+        patch.notes = [
+          ...current.notes,
+          { id: randomUUID(), author: member.id, body: update.note, createdAt: new Date().toISOString() },
+        ];
+      }
+      return patch;
+    });
+    if (!application) throw new HttpError(404, "Application not found.");
+    sendJson(res, 200, presentApplication(application));
+  },
+});
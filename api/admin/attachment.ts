@@ -0,0 +1,47 @@
+import { ATTACHMENT_ID_PATTERN } from "../../lib/attachments";
+import { requireAdmin } from "../../server/adminAuth";
+import { getApplicationStore } from "../../server/applicationStore";
+import {
+  applicationAttachmentKey,
+  briefAttachmentKey,
+  getAttachmentStorage,
+} from "../../server/attachmentStorage";
+import { getBriefStore } from "../../server/briefStore";
+import { HttpError, route } from "../../server/http";
+
+/* -----------------------------------------------------
+   GET /api/admin/attachment?brief=<id>&id=<attachmentId>
+   GET /api/admin/attachment?application=<id>&id=<cvId>
+   Streams a brief's attachment, or an applicant's CV, to
+   a signed-in admin.
+----------------------------------------------------- */
+// The storage key for the file, or null if it doesn't belong to that brief or application.
+const findKey = async (params: URLSearchParams, id: string): Promise<string | null> => {
+  const applicationId = params.get("application");
+  if (applicationId !== null) {
+    const application = await getApplicationStore().get(applicationId);
+    return application?.cv.id === id ? applicationAttachmentKey(application.id, id) : null;
+  }
+  const brief = await getBriefStore().get(params.get("brief") ?? "");
+  return brief?.attachments.some((a) => a.id === id) ? briefAttachmentKey(brief.id, id) : null;
+};
+
+export default route({
+  GET: async (req, res) => {
+    requireAdmin(req);
+    const params = new URL(req.url ?? "/", "http://localhost").searchParams;
+    const id = params.get("id") ?? "";
+    const key = ATTACHMENT_ID_PATTERN.test(id) ? await findKey(params, id) : null;
+    if (!key) throw new HttpError(404, "Attachment not found.");
+
+    const file = await getAttachmentStorage().get(key);
+    if (!file) throw new HttpError(404, "Attachment not found.");
+
+    res.statusCode = 200;
+    res.setHeader("Content-Type", file.meta.type);
+    res.setHeader("Content-Length", String(file.data.length));
+    res.setHeader("Content-Disposition", `attachment; filename*=UTF-8''${encodeURIComponent(file.meta.name)}`);
+    res.setHeader("Cache-Control", "private, no-store");
+    res.end(file.data);
+  },
+});
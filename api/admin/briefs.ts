@@ -0,0 +1,100 @@
+import { randomUUID } from "crypto";
+import type { BriefPatch } from "../../lib/briefs";
+import {
+  AdminBriefDetail,
+  LeadStatus,
+  LeadUpdate,
+  MAX_NOTE_LENGTH,
+  isLeadStatus,
+} from "../../lib/leads";
+import { TEAM_MEMBERS } from "../../lib/team";
+import { requireAdmin } from "../../server/adminAuth";
+import { getBookingStore } from "../../server/bookingStore";
+import { BriefSort, getBriefStore, presentBrief } from "../../server/briefStore";
+import { HttpError, readJsonBody, route, sendJson } from "../../server/http";
+import { dispatchWebhook } from "../../server/webhooks";
+
+/* -----------------------------------------------------
+   /api/admin/briefs
+   GET                  every brief, newest first (?sort=budget)
+   GET ?id=<id>         one brief with its booked calls
+   PATCH ?id=<id>       status, assignee and/or a new note;
+                        a status change fires brief.status_changed
+   All routes need an admin session.
+----------------------------------------------------- */
+const SORTS: BriefSort[] = ["newest", "budget"];
+
+const parseUpdate = (body: unknown): LeadUpdate => {
+  if (!body || typeof body !== "object") throw new HttpError(400, "Expected a JSON object.");
+  const raw = body as Record<string, unknown>;
+  const update: LeadUpdate = {};
+
+  if (raw.status !== undefined) {
+    if (!isLeadStatus(raw.status)) throw new HttpError(422, "Unknown pipeline status.");
+    update.status = raw.status;
+  }
+  if (raw.assignee !== undefined) {
+    if (raw.assignee !== null && !TEAM_MEMBERS.some((m) => m.id === raw.assignee)) {
+      throw new HttpError(422, "Unknown team member.");
+    }
+    update.assignee = raw.assignee as string | null;
+  }
+  if (raw.note !== undefined) {
+    const note = typeof raw.note === "string" ? raw.note.trim() : "";
+    if (!note || note.length > MAX_NOTE_LENGTH) {
+      throw new HttpError(422, `Notes must be 1–${MAX_NOTE_LENGTH} characters.`);
+    }
+    update.note = note;
+  }
+  return update;
+};
+
+export default route({
+  GET: async (req, res) => {
+    requireAdmin(req);
+    const params = new URL(req.url ?? "/", "http://localhost").searchParams;
+    const store = getBriefStore();
+    const id = params.get("id");
+
+    if (id) {
+      const brief = await store.get(id);
+      if (!brief) throw new HttpError(404, "Brief not found.");
+      const payload: AdminBriefDetail = {
+        brief: presentBrief(brief),
+        bookings: await getBookingStore().listForBrief(brief.reference),
+      };
+      sendJson(res, 200, payload);
+      return;
+    }
+
+    const sort = SORTS.find((s) => s === params.get("sort")) ?? "newest";
+    sendJson(res, 200, (await store.list(sort)).map(presentBrief));
+  },
+
+  PATCH: async (req, res) => {
+    const member = requireAdmin(req);
+    const id = new URL(req.url ?? "/", "http://localhost").searchParams.get("id");
+    if (!id) throw new HttpError(400, "Missing brief id.");
+
+    const update = parseUpdate(await readJsonBody(req));
+    let previousStatus: LeadStatus | undefined;
+    const brief = await getBriefStore().update(id, (current) => {
+      previousStatus = current.status;
+      const patch: BriefPatch = {};
+      if (update.status) patch.status = update.status;
+      if (update.assignee !== undefined) patch.assignee = update.assignee;
+      if (update.note) {
+        patch.notes = [
+          ...current.notes,
+          { id: randomUUID(), author: member.id, body: update.note, createdAt: new Date().toISOString() },
+        ];
+      }
+      return patch;
+    });
+    if (!brief) throw new HttpError(404, "Brief not found.");
+    if (previousStatus && previousStatus !== brief.status) {
+      await dispatchWebhook("brief.status_changed", { brief, previousStatus });
+    }
+    sendJson(res, 200, presentBrief(brief));
+  },
+});
@@ -0,0 +1,26 @@
+import type { AdminSession } from "../../lib/leads";
+import { login } from "../../server/adminAuth";
+import { HttpError, readJsonBody, route, sendJson } from "../../server/http";
+import { consumeRateLimit } from "../../server/rateLimit";
+import { clientIp } from "../../server/spamGuard";
+
+/* -----------------------------------------------------
+   POST /api/admin/session
+   Signs a team member in to the lead inbox.
+----------------------------------------------------- */
+const LOGIN_LIMITS = [{ limit: 10, windowMs: 15 * 60 * 1000 }];
+
+export default route({
+  POST: async (req, res) => {
+    await consumeRateLimit(`admin-login:${clientIp(req)}`, LOGIN_LIMITS,
+      "Too many sign-in attempts. Please wait a few minutes.");
+
+    const body = await readJsonBody<{ email?: unknown; password?: unknown }>(req);
+    if (typeof body.email !== "string" || typeof body.password !== "string") {
+      throw new HttpError(400, "Email and password are required.");
+    }
+
+    const payload: AdminSession = login(body.email, body.password);
+    sendJson(res, 200, payload);
+  },
+});
@@ -0,0 +1,38 @@
+import { AdminWebhookLog, WEBHOOK_EVENT_TYPES } from "../../lib/webhooks";
+import { requireAdmin } from "../../server/adminAuth";
+import { HttpError, route, sendJson } from "../../server/http";
+import {
+  listDeliveries,
+  loadEndpoints,
+  processDueDeliveries,
+  replayDelivery,
+} from "../../server/webhooks";
+
+/* -----------------------------------------------------
+   /api/admin/webhooks
+   GET              configured endpoints and the delivery
+                    log (sends any retries that are due)
+   POST ?id=<id>    replays one delivery
+   All routes need an admin session.
+----------------------------------------------------- */
+export default route({
+  GET: async (req, res) => {
+    requireAdmin(req);
+    await processDueDeliveries();
+    const payload: AdminWebhookLog = {
+      endpoints: loadEndpoints().map((e) => ({ id: e.id, url: e.url, events: e.events ?? WEBHOOK_EVENT_TYPES })),
+      deliveries: await listDeliveries(),
+    };
+    sendJson(res, 200, payload);
+  },
+
+  POST: async (req, res) => {
+    requireAdmin(req);
+    const id = new URL(req.url ?? "/", "http://localhost").searchParams.get("id");
+    if (!id) throw new HttpError(400, "Missing delivery id.");
+
+    const delivery = await replayDelivery(id);
+    if (!delivery) throw new HttpError(404, "Delivery not found.");
+    sendJson(res, 200, delivery);
+  },
+});
@@ -0,0 +1,109 @@
+import { randomUUID } from "crypto";
+import {
+  ApplicationCreatedResponse,
+  ApplicationRecord,
+  ApplicationSubmission,
+  isCvType,
+} from "../lib/applications";
+import { parseApplicationInput } from "../server/applicationInput";
+import { getApplicationStore } from "../server/applicationStore";
+import {
+  applicationAttachmentKey,
+  claimAttachments,
+  getAttachmentStorage,
+  pendingKey,
+  releaseAttachments,
+} from "../server/attachmentStorage";
+import { getContentSource } from "../server/contentSource";
+import { HttpError, readJsonBody, route, sendJson } from "../server/http";
+import { notifyApplicationReceived } from "../server/notifications";
+import { consumeRateLimit } from "../server/rateLimit";
+import { clientIp, screenSubmission } from "../server/spamGuard";
+
+/* -----------------------------------------------------
+   POST /api/applications
+   Validates a job application from a careers page, moves
+   its staged CV into place, stores it and emails the
+   candidate and whoever hires. Works like /api/briefs: a
+   repeated Idempotency-Key returns the application it
+   first created, and suspicious ones are quarantined.
+----------------------------------------------------- */
+const IDEMPOTENCY_KEY_PATTERN = /^[A-Za-z0-9_-]{8,100}$/;
+
+const HOUR = 60 * 60 * 1000;
+const IP_LIMITS = [{ limit: 5, windowMs: HOUR }];
+const EMAIL_LIMITS = [{ limit: 3, windowMs: 24 * HOUR }];
+
+const fieldError = (field: keyof ApplicationSubmission, message: string) =>
+  new HttpError(422, "Please fix the highlighted fields.", { fields: { [field]: message } });
+
+export default route({
+  POST: async (req, res) => {
+    const rawKey = req.headers["idempotency-key"];
+    const idempotencyKey = typeof rawKey === "string" ? rawKey : undefined;
+    if (idempotencyKey && !IDEMPOTENCY_KEY_PATTERN.test(idempotencyKey)) {
+      throw new HttpError(400, "Invalid Idempotency-Key header.");
+    }
+
+    const store = getApplicationStore();
+    const sendExisting = (existing: ApplicationRecord) => {
+      const payload: ApplicationCreatedResponse = { id: existing.id };
+      sendJson(res, 200, payload);
+    };
+
+    // As with briefs: a settled retry skips the rate limits, and store.create catches concurrent ones.
+    const existing = idempotencyKey ? await store.findByIdempotencyKey(idempotencyKey) : null;
+    if (existing) {
+      sendExisting(existing);
+      return;
+    }
+
+    await consumeRateLimit(`application-ip:${clientIp(req)}`, IP_LIMITS,
+      "You've sent several applications in a short time. Please wait a while and try again.");
+
+    const body = await readJsonBody<ApplicationSubmission>(req);
+    const { cv: cvId, ...input } = await parseApplicationInput(body);
+
+    const job = (await getContentSource().load()).jobs.find((j) => j.slug === input.jobSlug);
+    if (!job) throw fieldError("jobSlug", "That role has just closed. Take a look at the other open roles.");
+
+    await consumeRateLimit(`application-email:${input.email.toLowerCase()}`, EMAIL_LIMITS,
+      "We've already received a few applications from this email. We'll be in touch.");
+    const screening = await screenSubmission(body, { message: input.coverLetter });
+
+    const staged = await getAttachmentStorage().head(pendingKey(cvId));
+    if (staged && !isCvType(staged.type)) throw fieldError("cv", "Attach your CV as a PDF or Word document.");
+
+    // Claimed before the application is saved, so a stored one always has its CV.
+    const id = randomUUID();
+    const keyFor = (attachmentId: string) => applicationAttachmentKey(id, attachmentId);
+    const [cv] = (await claimAttachments([cvId], keyFor)) ?? [];
+    if (!cv) {
+      // A concurrent retry of this application may have claimed it first.
+      const existing = idempotencyKey ? await store.findByIdempotencyKey(idempotencyKey) : null;
+      if (existing) {
+        sendExisting(existing);
+        return;
+      }
+      throw fieldError("cv", "Your CV didn't finish uploading — please attach it again.");
+    }
+
+    const { application, created } = await store
+      .create({ ...input, id, role: job.role, cv, screening, idempotencyKey })
+      .catch(async (err) => {
+        await releaseAttachments([cvId], keyFor);
+        throw err;
+      });
+    if (!created) {
+      await releaseAttachments([cvId], keyFor);
+      sendExisting(application);
+      return;
+    }
+
+    // Awaited: serverless functions may be frozen as soon as the response is sent.
+    await notifyApplicationReceived(application);
+
+    const payload: ApplicationCreatedResponse = { id: application.id };
+    sendJson(res, 201, payload);
+  },
+});
@@ -0,0 +1,63 @@
+import { randomUUID } from "crypto";
+import {
+  AttachmentMeta,
+  MAX_ATTACHMENT_BYTES,
+  checkAttachment,
+  resolveAttachmentType,
+} from "../lib/attachments";
+import { expirePendingUploads, getAttachmentStorage, pendingKey } from "../server/attachmentStorage";
+import { HttpError, readRawBody, route, sendJson } from "../server/http";
+import { consumeRateLimit } from "../server/rateLimit";
+import { clientIp } from "../server/spamGuard";
+
+/* -----------------------------------------------------
+   POST /api/attachments
+   Accepts one raw file per request (name in X-File-Name)
+   and stages it until a brief claims it. Each upload also
+   clears out stale ones nothing claimed.
+----------------------------------------------------- */
+// Room for a few briefs' worth of files, with removals and re-picks.
+const MINUTE = 60 * 1000;
+const IP_LIMITS = [
+  { limit: 20, windowMs: 10 * MINUTE },
+  { limit: 60, windowMs: 24 * 60 * MINUTE },
+];
+
+const decodeFileName = (raw: string) => {
+  try {
+    return decodeURIComponent(raw).trim().slice(0, 200);
+  } catch {
+    throw new HttpError(400, "X-File-Name must be URI-encoded.");
+  }
+};
+
+export default route({
+  POST: async (req, res) => {
+    await consumeRateLimit(`attachment-ip:${clientIp(req)}`, IP_LIMITS,
+      "Too many uploads from this network. Please try again later.");
+
+    const rawName = req.headers["x-file-name"];
+    const name = typeof rawName === "string" ? decodeFileName(rawName) : "";
+    if (!name) throw new HttpError(400, "Missing X-File-Name header.");
+
+    const type = resolveAttachmentType(name, req.headers["content-type"]?.split(";")[0]);
+    const declaredSize = Number(req.headers["content-length"] ?? 0);
+    const precheck = checkAttachment({ name, type, size: declaredSize || 1 });
+    if (precheck) throw new HttpError(422, precheck);
+
+    const data = await readRawBody(req, MAX_ATTACHMENT_BYTES);
+    const error = checkAttachment({ name, type, size: data.length });
+    if (error) throw new HttpError(422, error);
+
+    const meta: AttachmentMeta = {
+      id: randomUUID(),
+      name,
+      size: data.length,
+      type,
+      uploadedAt: new Date().toISOString(),
+    };
+    await getAttachmentStorage().put(pendingKey(meta.id), data, meta);
+    await expirePendingUploads();
+    sendJson(res, 201, meta);
+  },
+});
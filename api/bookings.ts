@@ -0,0 +1,117 @@
+import type { BookingConfirmation, BookingRecord, SlotsResponse } from "../lib/bookings";
+import { buildIcs } from "../lib/ics";
+import type { LeadStatus } from "../lib/leads";
+import { TEAM_AVAILABILITY, TEAM_TIMEZONE, computeSlots, isOpenSlot, slotEnd } from "../lib/scheduling";
+import { getBookingStore } from "../server/bookingStore";
+import { parseBookingInput } from "../server/bookingInput";
+import { getBriefStore } from "../server/briefStore";
+import { HttpError, readJsonBody, route, sendJson } from "../server/http";
+import { consumeRateLimit } from "../server/rateLimit";
+import { clientIp } from "../server/spamGuard";
+import { dispatchWebhook } from "../server/webhooks";
+
+/* -----------------------------------------------------
+   /api/bookings
+   GET              open discovery-call slots (UTC)
+   GET ?id=<id>     the booking's .ics file
+   POST             books a slot; 409 if it was just taken;
+                    linked to a brief only if the emails match
+----------------------------------------------------- */
+const TEAM_CONTACT = { name: "CraftTech", email: "hello@crafttech.studio" };
+
+const IP_LIMITS = [{ limit: 5, windowMs: 60 * 60 * 1000 }];
+
+const EARLY_STAGES: LeadStatus[] = ["new", "qualified"];
+
+const toIcs = (booking: BookingRecord) =>
+  buildIcs({
+    uid: `${booking.id}@crafttech.studio`,
+    start: booking.slotStart,
+    end: booking.slotEnd,
+    summary: "CraftTech discovery call",
+    description: [
+      `Discovery call with ${booking.name}.`,
+      booking.briefReference && `Brief: ${booking.briefReference}`,
+      booking.notes && `Notes: ${booking.notes}`,
+      "We'll email a video link before the call.",
+    ].filter(Boolean).join("\n"),
+    location: "Video call (link by email)",
+    organizer: TEAM_CONTACT,
+    attendee: { name: booking.name, email: booking.email },
+  });
+
+export default route({
+  GET: async (req, res) => {
+    const id = new URL(req.url ?? "/", "http://localhost").searchParams.get("id");
+    const store = getBookingStore();
+
+    if (id) {
+      const booking = await store.get(id);
+      if (!booking) throw new HttpError(404, "Booking not found.");
+      res.statusCode = 200;
+      res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+      res.setHeader("Content-Disposition", 'attachment; filename="crafttech-discovery-call.ics"');
+      res.end(toIcs(booking));
+      return;
+    }
+
+    const now = Date.now();
+    const booked = (await store.listUpcoming(now)).map((b) => b.slotStart);
+    const payload: SlotsResponse = {
+      timezone: TEAM_TIMEZONE,
+      slotMinutes: TEAM_AVAILABILITY.slotMinutes,
+      slots: computeSlots(TEAM_AVAILABILITY, now, booked),
+    };
+    res.setHeader("Cache-Control", "no-store");
+    sendJson(res, 200, payload);
+  },
+
+  POST: async (req, res) => {
+    await consumeRateLimit(`booking-ip:${clientIp(req)}`, IP_LIMITS,
+      "You've booked several calls already. Email hello@crafttech.studio if you need another.");
+
+    const input = await parseBookingInput(await readJsonBody(req));
+    if (!isOpenSlot(TEAM_AVAILABILITY, input.slotStart, Date.now())) {
+      throw new HttpError(422, "Please fix the highlighted fields.", {
+        fields: { slotStart: "That time isn't available any more. Please pick another." },
+      });
+    }
+    const briefs = getBriefStore();
+    const brief = input.briefReference ? await briefs.get(input.briefReference) : null;
+    if (input.briefReference && !brief) {
+      throw new HttpError(422, "Please fix the highlighted fields.", {
+        fields: { briefReference: "We couldn't find a brief with that reference." },
+      });
+    }
+
+    // Only the person who sent the brief can hang a call on it; anyone else
+    // quoting the reference still gets their call, just not linked to it.
+    const linked = brief && brief.email.toLowerCase() === input.email.toLowerCase() ? brief : null;
+
+    const booking = await getBookingStore().create({
+      ...input,
+      briefReference: linked ? input.briefReference : "",
+      slotEnd: slotEnd(TEAM_AVAILABILITY, input.slotStart),
+    });
+
+    // A booked call moves an early-stage lead along the pipeline.
+    if (linked) {
+      let previousStatus: LeadStatus | undefined;
+      const updated = await briefs.update(linked.id, (current) => {
+        previousStatus = current.status;
+        return EARLY_STAGES.includes(current.status) ? { status: "call_booked" } : {};
+      });
+      if (updated && previousStatus && previousStatus !== updated.status) {
+        await dispatchWebhook("brief.status_changed", { brief: updated, previousStatus });
+      }
+    }
+
+    const payload: BookingConfirmation = {
+      id: booking.id,
+      slotStart: booking.slotStart,
+      slotEnd: booking.slotEnd,
+      ics: toIcs(booking),
+    };
+    sendJson(res, 201, payload);
+  },
+});
@@ -0,0 +1,119 @@
+import { randomUUID } from "crypto";
+import { ATTACHMENT_ID_PATTERN, MAX_ATTACHMENTS } from "../lib/attachments";
+import type { BriefRecord } from "../lib/briefs";
+import {
+  BriefAdditionInput,
+  BriefStatusView,
+  MAX_ADDITION_LENGTH,
+  STATUS_TOKEN_PATTERN,
+} from "../lib/briefStatus";
+import { getBookingStore } from "../server/bookingStore";
+import { getBriefStore } from "../server/briefStore";
+import {
+  briefAttachmentKey,
+  getAttachmentStorage,
+  pendingKey,
+} from "../server/attachmentStorage";
+import { HttpError, readJsonBody, route, sendJson } from "../server/http";
+import { notifyBriefAppended } from "../server/notifications";
+import { consumeRateLimit } from "../server/rateLimit";
+import { clientIp } from "../server/spamGuard";
+
+/* -----------------------------------------------------
+   /api/brief-status?token=<statusToken>
+   GET     the prospect's view of their brief
+   POST    appends a message and/or staged attachments
+   The token is the credential; an unknown one is a 404.
+----------------------------------------------------- */
+const IP_LIMITS = [{ limit: 10, windowMs: 60 * 60 * 1000 }];
+
+const findBrief = async (url: string | undefined) => {
+  const token = new URL(url ?? "/", "http://localhost").searchParams.get("token") ?? "";
+  const brief = STATUS_TOKEN_PATTERN.test(token) ? await getBriefStore().findByStatusToken(token) : null;
+  if (!brief) throw new HttpError(404, "We couldn't find that brief. Check the link in your confirmation email.");
+  return brief;
+};
+
+const toView = async (brief: BriefRecord): Promise<BriefStatusView> => ({
+  reference: brief.reference,
+  createdAt: brief.createdAt,
+  status: brief.status,
+  projectType: brief.projectType,
+  platforms: brief.platforms,
+  timeline: brief.timeline,
+  name: brief.name,
+  email: brief.email,
+  company: brief.company,
+  budget: brief.budget,
+  message: brief.message,
+  attachments: brief.attachments,
+  additions: brief.additions,
+  calls: (await getBookingStore().listForBrief(brief.reference)).map((b) => ({
+    slotStart: b.slotStart,
+    slotEnd: b.slotEnd,
+  })),
+});
+
+const parseAddition = (body: unknown): BriefAdditionInput => {
+  if (!body || typeof body !== "object") throw new HttpError(400, "Expected a JSON object.");
+  const raw = body as Record<string, unknown>;
+  const message = typeof raw.message === "string" ? raw.message.trim() : "";
+  const attachments = raw.attachments ?? [];
+
+  if (message.length > MAX_ADDITION_LENGTH) {
+    throw new HttpError(422, "Please fix the highlighted fields.", {
+      fields: { message: `Keep it under ${MAX_ADDITION_LENGTH} characters.` },
+    });
+  }
+  if (!Array.isArray(attachments) || !attachments.every((a) => typeof a === "string" && ATTACHMENT_ID_PATTERN.test(a))) {
+    throw new HttpError(400, "Attachments must be a list of attachment IDs.");
+  }
+  if (attachments.length > MAX_ATTACHMENTS) {
+    throw new HttpError(422, "Please fix the highlighted fields.", {
+      fields: { attachments: `Only ${MAX_ATTACHMENTS} files at a time.` },
+    });
+  }
+  if (!message && attachments.length === 0) {
+    throw new HttpError(422, "Please fix the highlighted fields.", {
+      fields: { message: "Add a note or attach a file." },
+    });
+  }
+  return { message, attachments: [...new Set(attachments as string[])] };
+};
+
+export default route({
+  GET: async (req, res) => {
+    const brief = await findBrief(req.url);
+    res.setHeader("Cache-Control", "private, no-store");
+    sendJson(res, 200, await toView(brief));
+  },
+
+  POST: async (req, res) => {
+    await consumeRateLimit(`brief-status-ip:${clientIp(req)}`, IP_LIMITS,
+      "You've added several updates already. Please wait a little and try again.");
+    const brief = await findBrief(req.url);
+    const input = parseAddition(await readJsonBody(req));
+
+    const storage = getAttachmentStorage();
+    const metas = await Promise.all(input.attachments.map((id) => storage.head(pendingKey(id))));
+    if (metas.some((meta) => !meta)) {
+      throw new HttpError(422, "Please fix the highlighted fields.", {
+        fields: { attachments: "One of your files didn't finish uploading — please attach it again." },
+      });
+    }
+    await Promise.all(input.attachments.map((id) => storage.move(pendingKey(id), briefAttachmentKey(brief.id, id))));
+
+    const attachments = metas.map((meta) => meta!);
+    const addition = { id: randomUUID(), message: input.message, attachments, createdAt: new Date().toISOString() };
+    // Added files join the brief's own list so the team downloads them the same way.
+    const updated = await getBriefStore().update(brief.id, (current) => ({
+      additions: [...current.additions, addition],
+      attachments: [...current.attachments, ...attachments],
+    }));
+    if (!updated) throw new HttpError(404, "We couldn't find that brief.");
+
+    // Awaited: serverless functions may be frozen as soon as the response is sent.
+    await notifyBriefAppended(updated, addition);
+    sendJson(res, 201, await toView(updated));
+  },
+});
@@ -0,0 +1,108 @@
+import { randomUUID } from "crypto";
+import type { BriefCreatedResponse, BriefRecord, BriefSubmission } from "../lib/briefs";
+import { parseBudget } from "../lib/budget";
+import { parseBriefInput } from "../server/briefInput";
+import { getBriefStore } from "../server/briefStore";
+import {
+  briefAttachmentKey,
+  claimAttachments,
+  releaseAttachments,
+} from "../server/attachmentStorage";
+import { HttpError, readJsonBody, route, sendJson } from "../server/http";
+import { notifyBriefCreated } from "../server/notifications";
+import { consumeRateLimit } from "../server/rateLimit";
+import { clientIp, screenSubmission } from "../server/spamGuard";
+import { dispatchWebhook } from "../server/webhooks";
+
+/* -----------------------------------------------------
+   POST /api/briefs
+   Validates a project brief from the contact form, moves
+   its staged attachments into place, stores it, emails
+   the prospect and the team, fires the brief.created
+   webhook, and returns its reference ID and the token for
+   the prospect's status page. A repeated Idempotency-Key returns the brief it
+   first created. Suspicious briefs are quarantined, not
+   rejected (see server/spamGuard).
+----------------------------------------------------- */
+const IDEMPOTENCY_KEY_PATTERN = /^[A-Za-z0-9_-]{8,100}$/;
+
+const MINUTE = 60 * 1000;
+const IP_LIMITS = [
+  { limit: 5, windowMs: 10 * MINUTE },
+  { limit: 20, windowMs: 24 * 60 * MINUTE },
+];
+const EMAIL_LIMITS = [{ limit: 3, windowMs: 60 * MINUTE }];
+
+export default route({
+  POST: async (req, res) => {
+    const rawKey = req.headers["idempotency-key"];
+    const idempotencyKey = typeof rawKey === "string" ? rawKey : undefined;
+    if (idempotencyKey && !IDEMPOTENCY_KEY_PATTERN.test(idempotencyKey)) {
+      throw new HttpError(400, "Invalid Idempotency-Key header.");
+    }
+
+    const store = getBriefStore();
+    const sendExisting = (existing: BriefRecord) => {
+      const payload: BriefCreatedResponse = {
+        id: existing.id,
+        reference: existing.reference,
+        statusToken: existing.statusToken,
+      };
+      sendJson(res, 200, payload);
+    };
+
+    // A retry of a brief that's already in skips the rate limits; store.create catches concurrent ones.
+    const existing = idempotencyKey ? await store.findByIdempotencyKey(idempotencyKey) : null;
+    if (existing) {
+      sendExisting(existing);
+      return;
+    }
+
+    await consumeRateLimit(`ip:${clientIp(req)}`, IP_LIMITS,
+      "You've sent several briefs in a short time. Please wait a few minutes and try again.");
+
+    const body = await readJsonBody<BriefSubmission>(req);
+    const { attachments: attachmentIds, ...input } = await parseBriefInput(body);
+
+    await consumeRateLimit(`email:${input.email.toLowerCase()}`, EMAIL_LIMITS,
+      "We've already received a few briefs from this email. We'll be in touch shortly.");
+    const screening = await screenSubmission(body, input);
+
+    // Claimed before the brief is saved, so a stored brief always has its files.
+    const id = randomUUID();
+    const keyFor = (attachmentId: string) => briefAttachmentKey(id, attachmentId);
+    const attachments = await claimAttachments(attachmentIds, keyFor);
+    if (!attachments) {
+      // A concurrent retry of this brief may have claimed them first.
+      const existing = idempotencyKey ? await store.findByIdempotencyKey(idempotencyKey) : null;
+      if (existing) {
+        sendExisting(existing);
+        return;
+      }
+      throw new HttpError(422, "Please fix the highlighted fields.", {
+        fields: { attachments: "One of your files didn't finish uploading — please attach it again." },
+      });
+    }
+
+    const created = await store
+      .create({ ...input, id, idempotencyKey, screening, budgetRange: parseBudget(input.budget), attachments })
+      .catch(async (err) => {
+        await releaseAttachments(attachmentIds, keyFor);
+        throw err;
+      });
+    if (!created.created) {
+      await releaseAttachments(attachmentIds, keyFor);
+      sendExisting(created.brief);
+      return;
+    }
+
+    const brief = created.brief;
+
+    // Awaited: serverless functions may be frozen as soon as the response is sent.
+    await notifyBriefCreated(brief);
+    await dispatchWebhook("brief.created", { brief });
+
+    const payload: BriefCreatedResponse = { id: brief.id, reference: brief.reference, statusToken: brief.statusToken };
+    sendJson(res, 201, payload);
+  },
+});
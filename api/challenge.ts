@@ -0,0 +1,21 @@
+import { route, sendJson } from "../server/http";
+import { issueChallenge } from "../server/spamGuard";
+
+/* -----------------------------------------------------
+   GET /api/challenge
+   Hands out a fresh proof-of-work challenge for the brief
+   form. Briefs without a solved one are quarantined.
+   ?openedAt=&openedToken= from an earlier challenge keeps
+   that form-open time, if we signed it and no submission
+   has spent it.
+----------------------------------------------------- */
+export default route({
+  GET: async (req, res) => {
+    const params = new URL(req.url ?? "/", "http://localhost").searchParams;
+    res.setHeader("Cache-Control", "no-store");
+    sendJson(res, 200, await issueChallenge({
+      openedAt: Number(params.get("openedAt") ?? NaN),
+      openedToken: params.get("openedToken") ?? undefined,
+    }));
+  },
+});
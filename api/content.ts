@@ -0,0 +1,16 @@
+import { route, sendJson } from "../server/http";
+import { getContentSource } from "../server/contentSource";
+
+/* -----------------------------------------------------
+   GET /api/content
+   The site's copy from the configured content source (see
+   server/contentSource). Always answers with valid content:
+   a failing source falls back to the bundled copy.
+----------------------------------------------------- */
+export default route({
+  GET: async (_req, res) => {
+    const content = await getContentSource().load();
+    res.setHeader("Cache-Control", "public, max-age=0, s-maxage=60, stale-while-revalidate=600");
+    sendJson(res, 200, content);
+  },
+});
@@ -0,0 +1,17 @@
+/* -----------------------------------------------------
+   PREMIUM COLOR SCHEME
+----------------------------------------------------- */
+export const COLORS = {
+  bg: "#0A0F0D",         // Deep charcoal
+  bgSoft: "#111715",     // Lifted dark
+  card: "#1A211E",       // Rich dark
+  cardSoft: "#222A26",   // Elevated card
+  border: "#2D3632",
+  neon: "#B6FF33",       // Lime green (matches reference)
+  neonSoft: "#A2E52E",   // Softer lime
+  accent: "#6366F1",     // Indigo accent
+  text: "#F8FAF6",       // Clean white
+  textMuted: "#94A39A",  // Muted sage
+  subtle: "#6B7A70",     // Medium muted
+  danger: "#FF6B6B",     // Errors
+};
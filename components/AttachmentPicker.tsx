@@ -0,0 +1,216 @@
+import React, { useEffect, useRef, useState } from "react";
+import { View, Text, StyleSheet, TouchableOpacity, Platform } from "react-native";
+import * as DocumentPicker from "expo-document-picker";
+import {
+  ALLOWED_ATTACHMENT_TYPES,
+  MAX_ATTACHMENTS,
+  MAX_ATTACHMENT_BYTES,
+  formatFileSize,
+} from "../lib/attachments";
+import type { LocalFile, UploadItem } from "../hooks/useAttachmentUploads";
+import { COLORS } from "../theme";
+
+/* -----------------------------------------------------
+   ATTACHMENT PICKER
+   Document picker everywhere, plus drag-and-drop on web.
+   Defaults to the brief form's copy and limits; the
+   careers form narrows it to a single CV.
+----------------------------------------------------- */
+interface AttachmentPickerProps {
+  items: UploadItem[];
+  onAdd: (files: LocalFile[]) => void;
+  onRemove: (key: string) => void;
+  what?: string; // e.g. "your CV"
+  hint?: string;
+  types?: string[]; // MIME types the picker offers
+  multiple?: boolean;
+}
+
+const DEFAULT_HINT =
+  `PDF, images, Office docs or ZIP • up to ${MAX_ATTACHMENTS} files, ${formatFileSize(MAX_ATTACHMENT_BYTES)} each`;
+
+export const AttachmentPicker: React.FC<AttachmentPickerProps> = ({
+  items,
+  onAdd,
+  onRemove,
+  what = "RFPs, specs or wireframes",
+  hint = DEFAULT_HINT,
+  types = Object.keys(ALLOWED_ATTACHMENT_TYPES),
+  multiple = true,
+}) => {
+  const dropRef = useRef<View | null>(null);
+  const [dragging, setDragging] = useState(false);
+
+  // react-native-web doesn't forward drag events, so listen on the DOM node.
+  useEffect(() => {
+    if (Platform.OS !== "web") return;
+    const node = dropRef.current as unknown as HTMLElement | null;
+    if (!node) return;
+
+    const onDragOver = (e: DragEvent) => {
+      e.preventDefault();
+      setDragging(true);
+    };
+    const onDragLeave = () => setDragging(false);
+    const onDrop = (e: DragEvent) => {
+      e.preventDefault();
+      setDragging(false);
+      const files = Array.from(e.dataTransfer?.files ?? []);
+      if (files.length > 0) {
+        onAdd(files.map((file) => ({ name: file.name, size: file.size, type: file.type, file })));
+      }
+    };
+
+    node.addEventListener("dragover", onDragOver);
+    node.addEventListener("dragleave", onDragLeave);
+    node.addEventListener("drop", onDrop);
+    return () => {
+      node.removeEventListener("dragover", onDragOver);
+      node.removeEventListener("dragleave", onDragLeave);
+      node.removeEventListener("drop", onDrop);
+    };
+  }, [onAdd]);
+
+  const browse = async () => {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: types,
+      multiple,
+      copyToCacheDirectory: true,
+    });
+    if (result.canceled) return;
+    onAdd(
+      result.assets.map((asset) => ({
+        name: asset.name,
+        size: asset.size ?? asset.file?.size,
+        type: asset.mimeType,
+        uri: asset.uri,
+        file: asset.file,
+      }))
+    );
+  };
+
+  return (
+    <View>
+      <View ref={dropRef} style={[styles.dropZone, dragging && styles.dropZoneActive]}>
+        <Text style={styles.dropTitle}>
+          {Platform.OS === "web" ? `Drop ${what} here` : `Add ${what}`}
+        </Text>
+        <Text style={styles.dropHint}>{hint}</Text>
+        <TouchableOpacity style={styles.browseButton} onPress={browse}>
+          <Text style={styles.browseText}>Browse files</Text>
+        </TouchableOpacity>
+      </View>
+
+      {items.map((item) => (
+        <View key={item.key} style={styles.fileRow}>
+          <View style={styles.fileInfo}>
+            <Text style={styles.fileName} numberOfLines={1}>{item.name}</Text>
+            <Text style={[styles.fileMeta, item.status === "error" && styles.fileError]}>
+              {item.status === "error"
+                ? item.error
+                : item.status === "uploading"
+                  ? `Uploading… ${Math.round(item.progress * 100)}%`
+                  : formatFileSize(item.size)}
+            </Text>
+            {item.status === "uploading" && (
+              <View style={styles.progressTrack}>
+                <View style={[styles.progressFill, { width: `${Math.round(item.progress * 100)}%` }]} />
+              </View>
+            )}
+          </View>
+          <TouchableOpacity onPress={() => onRemove(item.key)} accessibilityLabel={`Remove ${item.name}`}>
+            <Text style={styles.removeText}>✕</Text>
+          </TouchableOpacity>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+/* -----------------------------------------------------
+   STYLES
+----------------------------------------------------- */
+const styles = StyleSheet.create({
+  dropZone: {
+    borderWidth: 1,
+    borderStyle: "dashed",
+    borderColor: COLORS.border,
+    borderRadius: 12,
+    backgroundColor: COLORS.bgSoft,
+    padding: 20,
+    alignItems: "center",
+  },
+  dropZoneActive: {
+    borderColor: COLORS.neon,
+    backgroundColor: "rgba(182,255,51,0.08)",
+  },
+  dropTitle: {
+    color: COLORS.text,
+    fontSize: 15,
+    fontWeight: "600",
+    textAlign: "center",
+  },
+  dropHint: {
+    color: COLORS.textMuted,
+    fontSize: 13,
+    marginTop: 4,
+    textAlign: "center",
+  },
+  browseButton: {
+    marginTop: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  browseText: {
+    color: COLORS.neon,
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  fileRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    marginTop: 10,
+    backgroundColor: COLORS.bgSoft,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+  },
+  fileInfo: {
+    flex: 1,
+  },
+  fileName: {
+    color: COLORS.text,
+    fontSize: 14,
+    fontWeight: "500",
+  },
+  fileMeta: {
+    color: COLORS.textMuted,
+    fontSize: 12,
+    marginTop: 2,
+  },
+  fileError: {
+    color: COLORS.danger,
+  },
+  progressTrack: {
+    height: 3,
+    borderRadius: 2,
+    backgroundColor: COLORS.border,
+    marginTop: 6,
+    overflow: "hidden",
+  },
+  progressFill: {
+    height: 3,
+    backgroundColor: COLORS.neon,
+  },
+  removeText: {
+    color: COLORS.textMuted,
+    fontSize: 16,
+    padding: 4,
+  },
+});
@@ -0,0 +1,324 @@
+import React, { useEffect, useRef } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  SafeAreaView,
+  Image,
+  Platform,
+  useWindowDimensions,
+} from "react-native";
+import { BlogQuery, blogTags, formatPostDate, listPosts, readingTime } from "../lib/blog";
+import { BlogPost } from "../lib/contentSchema";
+import { contentImage } from "../lib/contentImages";
+import { COLORS, MOBILE_BREAKPOINT, scaleFont } from "../theme";
+
+/* -----------------------------------------------------
+   BLOG PAGE
+   /insights — every post, newest first, with tag chips
+   and pagination. Drawn over the site like the case study
+   pages; the tag and page live in the query string.
+----------------------------------------------------- */
+interface BlogPageProps {
+  posts: BlogPost[];
+  query: BlogQuery;
+  onChangeQuery: (query: BlogQuery) => void;
+  onOpenPost: (slug: string) => void;
+  onBack: () => void;
+}
+
+export const BlogPage: React.FC<BlogPageProps> = ({ posts, query, onChangeQuery, onOpenPost, onBack }) => {
+  const { width } = useWindowDimensions();
+  const s = (size: number) => scaleFont(size, width);
+  const isMobile = width < MOBILE_BREAKPOINT;
+  const scrollRef = useRef<ScrollView | null>(null);
+
+  const tags = blogTags(posts);
+  const { posts: pagePosts, page, pageCount, total } = listPosts(posts, query);
+  const activeTag = tags.find((tag) => tag.slug === query.tag) ?? null;
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ y: 0, animated: false });
+  }, [query.tag, page]);
+
+  useEffect(() => {
+    if (Platform.OS !== "web") return;
+    const previousTitle = document.title;
+    document.title = activeTag ? `${activeTag.tag} — CraftTech Insights` : "Insights — CraftTech";
+    return () => {
+      document.title = previousTitle;
+    };
+  }, [activeTag?.slug]);
+
+  return (
+    <SafeAreaView style={styles.screen}>
+      <View style={styles.topBar}>
+        <Text style={styles.brand}>CraftTech</Text>
+        <TouchableOpacity onPress={onBack}>
+          <Text style={styles.link}>← Back to site</Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView ref={scrollRef} contentContainerStyle={[styles.content, isMobile && styles.contentMobile]}>
+        {/* HEADER */}
+        <Text style={styles.eyebrow}>Insights</Text>
+        <Text style={[styles.title, { fontSize: s(isMobile ? 28 : 36), lineHeight: s(isMobile ? 34 : 44) }]}>
+          Notes on building digital products
+        </Text>
+        <Text style={[styles.lead, { fontSize: s(17), lineHeight: s(26) }]}>
+          Engineering, design and product lessons from the projects we ship.
+        </Text>
+
+        {/* TAGS */}
+        <View style={styles.chips}>
+          <TouchableOpacity
+            accessibilityState={{ selected: !query.tag }}
+            style={[styles.chip, !query.tag && styles.chipActive]}
+            onPress={() => onChangeQuery({ tag: null, page: 1 })}
+          >
+            <Text style={[styles.chipText, !query.tag && styles.chipTextActive]}>All posts</Text>
+          </TouchableOpacity>
+          {tags.map((tag) => {
+            const active = tag.slug === query.tag;
+            return (
+              <TouchableOpacity
+                key={tag.slug}
+                accessibilityState={{ selected: active }}
+                style={[styles.chip, active && styles.chipActive]}
+                onPress={() => onChangeQuery({ tag: active ? null : tag.slug, page: 1 })}
+              >
+                <Text style={[styles.chipText, active && styles.chipTextActive]}>
+                  {tag.tag} <Text style={styles.chipCount}>{tag.count}</Text>
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        {/* POSTS */}
+        {total === 0 ? (
+          <View style={styles.empty}>
+            <Text style={styles.emptyTitle}>No posts with that tag yet</Text>
+            <TouchableOpacity onPress={() => onChangeQuery({ tag: null, page: 1 })}>
+              <Text style={styles.link}>See all posts</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <View style={[styles.grid, isMobile && styles.gridMobile]}>
+            {pagePosts.map((post) => (
+              <TouchableOpacity
+                key={post.slug}
+                accessibilityRole="link"
+                activeOpacity={0.9}
+                style={[styles.card, isMobile && styles.cardMobile]}
+                onPress={() => onOpenPost(post.slug)}
+              >
+                <Image source={contentImage(post.hero)} style={styles.cardImage} resizeMode="cover" />
+                <View style={styles.cardBody}>
+                  <Text style={styles.meta}>
+                    {formatPostDate(post.date)} • {readingTime(post.body)} min read
+                  </Text>
+                  <Text style={[styles.cardTitle, { fontSize: s(19), lineHeight: s(26) }]}>{post.title}</Text>
+                  <Text style={styles.cardSummary}>{post.summary}</Text>
+                  <Text style={styles.tagLine}>{post.tags.join(" • ")}</Text>
+                </View>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
+        {/* PAGINATION */}
+        {pageCount > 1 && (
+          <View style={styles.pager}>
+            <TouchableOpacity
+              disabled={page <= 1}
+              style={[styles.pagerButton, page <= 1 && styles.pagerButtonDisabled]}
+              onPress={() => onChangeQuery({ ...query, page: page - 1 })}
+            >
+              <Text style={styles.link}>← Newer</Text>
+            </TouchableOpacity>
+            <Text style={styles.meta}>
+              Page {page} of {pageCount}
+            </Text>
+            <TouchableOpacity
+              disabled={page >= pageCount}
+              style={[styles.pagerButton, page >= pageCount && styles.pagerButtonDisabled]}
+              onPress={() => onChangeQuery({ ...query, page: page + 1 })}
+            >
+              <Text style={styles.link}>Older →</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+/* -----------------------------------------------------
+   STYLES
+----------------------------------------------------- */
+const styles = StyleSheet.create({
+  screen: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: COLORS.bg,
+  },
+  topBar: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  brand: {
+    color: COLORS.neon,
+    fontSize: 16,
+    fontWeight: "800",
+    letterSpacing: 0.5,
+  },
+  link: {
+    color: COLORS.neon,
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  content: {
+    width: "100%",
+    maxWidth: 1080,
+    alignSelf: "center",
+    padding: 32,
+    paddingBottom: 64,
+  },
+  contentMobile: {
+    padding: 20,
+  },
+  eyebrow: {
+    color: COLORS.neon,
+    fontSize: 13,
+    fontWeight: "700",
+    letterSpacing: 1,
+    textTransform: "uppercase",
+  },
+  title: {
+    color: COLORS.text,
+    fontWeight: "700",
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  lead: {
+    color: COLORS.textMuted,
+    maxWidth: 640,
+  },
+  chips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginTop: 28,
+    marginBottom: 28,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 7,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    backgroundColor: COLORS.card,
+  },
+  chipActive: {
+    backgroundColor: COLORS.neon,
+    borderColor: COLORS.neon,
+  },
+  chipText: {
+    color: COLORS.textMuted,
+    fontSize: 13,
+    fontWeight: "500",
+  },
+  chipTextActive: {
+    color: COLORS.bg,
+    fontWeight: "600",
+  },
+  chipCount: {
+    fontSize: 11,
+    opacity: 0.7,
+  },
+  grid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 24,
+  },
+  gridMobile: {
+    flexDirection: "column",
+  },
+  card: {
+    flexGrow: 1,
+    flexBasis: "30%",
+    minWidth: 280,
+    backgroundColor: COLORS.card,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    overflow: "hidden",
+  },
+  cardMobile: {
+    flexBasis: "auto",
+    minWidth: 0,
+    width: "100%",
+  },
+  cardImage: {
+    width: "100%",
+    aspectRatio: 16 / 9,
+    backgroundColor: COLORS.cardSoft,
+  },
+  cardBody: {
+    padding: 20,
+    gap: 8,
+  },
+  meta: {
+    color: COLORS.textMuted,
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  cardTitle: {
+    color: COLORS.text,
+    fontWeight: "700",
+  },
+  cardSummary: {
+    color: COLORS.textMuted,
+    fontSize: 14,
+    lineHeight: 21,
+  },
+  tagLine: {
+    color: COLORS.neon,
+    fontSize: 12,
+    fontWeight: "600",
+    marginTop: 4,
+  },
+  empty: {
+    alignItems: "center",
+    gap: 12,
+    paddingVertical: 48,
+  },
+  emptyTitle: {
+    color: COLORS.text,
+    fontSize: 18,
+    fontWeight: "700",
+  },
+  pager: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginTop: 40,
+  },
+  pagerButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  pagerButtonDisabled: {
+    opacity: 0.35,
+  },
+});
@@ -0,0 +1,413 @@
+import React, { useEffect, useState } from "react";
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, ScrollView, SafeAreaView } from "react-native";
+import { formatFileSize } from "../lib/attachments";
+import { TIMELINE_OPTIONS } from "../lib/briefs";
+import {
+  BriefStatusView,
+  MAX_ADDITION_LENGTH,
+  PROSPECT_STAGES,
+  STATUS_TOKEN_PATTERN,
+  prospectStageIndex,
+} from "../lib/briefStatus";
+import { formatBudgetRange, parseBudget } from "../lib/budget";
+import { PORTFOLIO_CATEGORY_LABELS } from "../lib/offerings";
+import { formatSlotDay, formatSlotTime } from "../lib/scheduling";
+import { ApiError, addToBrief, fetchBriefStatus } from "../lib/api";
+import { useAttachmentUploads } from "../hooks/useAttachmentUploads";
+import { COLORS } from "../theme";
+import { GradientView } from "./primitives";
+import { AttachmentPicker } from "./AttachmentPicker";
+
+/* -----------------------------------------------------
+   BRIEF STATUS PAGE
+   /brief/:token — where a prospect checks on their brief
+   and sends us anything they forgot. Web only, like the
+   admin inbox.
+----------------------------------------------------- */
+type LoadState =
+  | { state: "loading" }
+  | { state: "missing"; message: string }
+  | { state: "ready"; view: BriefStatusView };
+
+const goHome = () => window.location.assign("/");
+
+export const BriefStatusPage: React.FC<{ token: string }> = ({ token }) => {
+  const [load, setLoad] = useState<LoadState>({ state: "loading" });
+
+  useEffect(() => {
+    if (!STATUS_TOKEN_PATTERN.test(token)) {
+      setLoad({ state: "missing", message: "This link looks incomplete. Check the link in your confirmation email." });
+      return;
+    }
+    fetchBriefStatus(token)
+      .then((view) => setLoad({ state: "ready", view }))
+      .catch((err) =>
+        setLoad({
+          state: "missing",
+          message: err instanceof ApiError ? err.message : "Something went wrong. Please try again.",
+        })
+      );
+  }, [token]);
+
+  return (
+    <SafeAreaView style={styles.screen}>
+      <View style={styles.topBar}>
+        <Text style={styles.brand}>CraftTech</Text>
+        <TouchableOpacity onPress={goHome}>
+          <Text style={styles.link}>Back to the site</Text>
+        </TouchableOpacity>
+      </View>
+      <ScrollView contentContainerStyle={styles.content}>
+        {load.state === "loading" && <Text style={styles.muted}>Loading your brief…</Text>}
+        {load.state === "missing" && (
+          <View style={styles.card}>
+            <Text style={styles.title}>Brief not found</Text>
+            <Text style={styles.body}>{load.message}</Text>
+          </View>
+        )}
+        {load.state === "ready" && (
+          <StatusDetails
+            token={token}
+            view={load.view}
+            onUpdated={(view) => setLoad({ state: "ready", view })}
+          />
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+/* -----------------------------------------------------
+   DETAILS
+----------------------------------------------------- */
+interface StatusDetailsProps {
+  token: string;
+  view: BriefStatusView;
+  onUpdated: (view: BriefStatusView) => void;
+}
+
+const StatusDetails: React.FC<StatusDetailsProps> = ({ token, view, onUpdated }) => {
+  const stageIndex = prospectStageIndex(view.status);
+  const budgetRange = parseBudget(view.budget);
+
+  const facts: [string, string][] = [
+    ["Project", view.projectType || "—"],
+    ["Platforms", view.platforms.map((p) => PORTFOLIO_CATEGORY_LABELS[p]).join(", ") || "—"],
+    ["Timeline", TIMELINE_OPTIONS.find((t) => t.id === view.timeline)?.label ?? "—"],
+    ["Budget", budgetRange ? formatBudgetRange(budgetRange) : view.budget || "—"],
+    ["Company", view.company || "—"],
+    ["Contact", view.name ? `${view.name} • ${view.email}` : view.email],
+  ];
+
+  return (
+    <View>
+      <Text style={styles.reference}>{view.reference}</Text>
+      <Text style={styles.title}>Your project brief</Text>
+      <Text style={styles.muted}>Sent {new Date(view.createdAt).toLocaleString()}</Text>
+
+      {/* STAGE */}
+      <View style={[styles.card, styles.section]}>
+        <View style={styles.stages}>
+          {PROSPECT_STAGES.map((stage, index) => (
+            <View key={stage.id} style={styles.stage}>
+              <View style={[styles.stageDot, index <= stageIndex && styles.stageDotDone]} />
+              <Text style={[styles.stageLabel, index === stageIndex && styles.stageLabelActive]}>{stage.label}</Text>
+            </View>
+          ))}
+        </View>
+        <Text style={styles.body}>{PROSPECT_STAGES[stageIndex].description}</Text>
+      </View>
+
+      {/* CALLS */}
+      <Text style={styles.sectionLabel}>Discovery call</Text>
+      {view.calls.length === 0 ? (
+        <Text style={styles.body}>
+          No call booked yet. Book one from the contact section of our site and quote {view.reference}.
+        </Text>
+      ) : (
+        view.calls.map((call) => (
+          <Text key={call.slotStart} style={styles.body}>
+            {formatSlotDay(call.slotStart)}, {formatSlotTime(call.slotStart)} – {formatSlotTime(call.slotEnd)}
+          </Text>
+        ))
+      )}
+
+      {/* BRIEF */}
+      <Text style={styles.sectionLabel}>What you sent</Text>
+      <View style={styles.facts}>
+        {facts.map(([label, value]) => (
+          <View key={label} style={styles.fact}>
+            <Text style={styles.factLabel}>{label}</Text>
+            <Text style={styles.body}>{value}</Text>
+          </View>
+        ))}
+      </View>
+      <Text style={styles.message}>{view.message}</Text>
+      {view.attachments.length > 0 && (
+        <Text style={styles.muted}>
+          Files: {view.attachments.map((a) => `${a.name} (${formatFileSize(a.size)})`).join(", ")}
+        </Text>
+      )}
+
+      {view.additions.length > 0 && (
+        <>
+          <Text style={styles.sectionLabel}>Your updates</Text>
+          {view.additions.map((addition) => (
+            <View key={addition.id} style={styles.addition}>
+              <Text style={styles.factLabel}>{new Date(addition.createdAt).toLocaleString()}</Text>
+              {addition.message ? <Text style={styles.body}>{addition.message}</Text> : null}
+              {addition.attachments.length > 0 && (
+                <Text style={styles.muted}>{addition.attachments.map((a) => a.name).join(", ")}</Text>
+              )}
+            </View>
+          ))}
+        </>
+      )}
+
+      <AddDetailsForm token={token} onAdded={onUpdated} />
+    </View>
+  );
+};
+
+/* -----------------------------------------------------
+   ADD DETAILS
+----------------------------------------------------- */
+const AddDetailsForm: React.FC<{ token: string; onAdded: (view: BriefStatusView) => void }> = ({ token, onAdded }) => {
+  const uploads = useAttachmentUploads();
+  const [message, setMessage] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [sending, setSending] = useState(false);
+  const [sent, setSent] = useState(false);
+
+  const canSend = !sending && !uploads.busy && (!!message.trim() || uploads.attachmentIds.length > 0);
+
+  const send = async () => {
+    if (!canSend) return;
+    setSending(true);
+    setError(null);
+    try {
+      onAdded(await addToBrief(token, { message, attachments: uploads.attachmentIds }));
+      setMessage("");
+      uploads.reset();
+      setSent(true);
+    } catch (err) {
+      const fieldError = err instanceof ApiError ? err.fields?.message ?? err.fields?.attachments : undefined;
+      setError(fieldError ?? (err instanceof ApiError ? err.message : "Something went wrong. Please try again."));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <View style={[styles.card, styles.section]}>
+      <Text style={styles.formTitle}>Add details or files</Text>
+      <Text style={styles.muted}>Forgot something? It goes straight to the team looking after your brief.</Text>
+      <TextInput
+        style={styles.input}
+        placeholder="Anything else we should know"
+        placeholderTextColor={COLORS.subtle}
+        multiline
+        maxLength={MAX_ADDITION_LENGTH}
+        value={message}
+        onChangeText={(v) => {
+          setMessage(v);
+          setSent(false);
+        }}
+      />
+      <AttachmentPicker items={uploads.items} onAdd={uploads.add} onRemove={uploads.remove} />
+      {error ? <Text style={styles.error}>{error}</Text> : null}
+      {sent ? <Text style={styles.success}>Thanks — we've added that to your brief.</Text> : null}
+      <TouchableOpacity style={[styles.submitButton, !canSend && styles.submitButtonDisabled]} onPress={send} disabled={!canSend}>
+        <GradientView colors={[COLORS.neonSoft, COLORS.neon]} style={styles.submitGradient}>
+          <Text style={styles.submitButtonText}>{sending ? "Sending…" : "Add to brief"}</Text>
+        </GradientView>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+/* -----------------------------------------------------
+   STYLES
+----------------------------------------------------- */
+const styles = StyleSheet.create({
+  screen: {
+    flex: 1,
+    backgroundColor: COLORS.bg,
+  },
+  topBar: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  brand: {
+    color: COLORS.neon,
+    fontSize: 16,
+    fontWeight: "800",
+    letterSpacing: 0.5,
+  },
+  link: {
+    color: COLORS.neon,
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  content: {
+    width: "100%",
+    maxWidth: 760,
+    alignSelf: "center",
+    padding: 24,
+  },
+  card: {
+    backgroundColor: COLORS.card,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    padding: 24,
+  },
+  section: {
+    marginTop: 24,
+  },
+  reference: {
+    color: COLORS.neon,
+    fontSize: 13,
+    fontWeight: "700",
+    letterSpacing: 1,
+  },
+  title: {
+    color: COLORS.text,
+    fontSize: 26,
+    fontWeight: "700",
+    marginTop: 4,
+    marginBottom: 6,
+  },
+  body: {
+    color: COLORS.text,
+    fontSize: 15,
+    lineHeight: 22,
+  },
+  muted: {
+    color: COLORS.textMuted,
+    fontSize: 13,
+    lineHeight: 20,
+    marginTop: 4,
+  },
+  sectionLabel: {
+    color: COLORS.textMuted,
+    fontSize: 12,
+    fontWeight: "700",
+    textTransform: "uppercase",
+    letterSpacing: 1,
+    marginTop: 28,
+    marginBottom: 8,
+  },
+  stages: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 16,
+    marginBottom: 16,
+  },
+  stage: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  stageDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  stageDotDone: {
+    backgroundColor: COLORS.neon,
+    borderColor: COLORS.neon,
+  },
+  stageLabel: {
+    color: COLORS.textMuted,
+    fontSize: 13,
+  },
+  stageLabelActive: {
+    color: COLORS.text,
+    fontWeight: "700",
+  },
+  facts: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 16,
+    marginBottom: 16,
+  },
+  fact: {
+    minWidth: 180,
+    flexGrow: 1,
+    flexBasis: "40%",
+  },
+  factLabel: {
+    color: COLORS.textMuted,
+    fontSize: 12,
+    marginBottom: 2,
+  },
+  message: {
+    color: COLORS.text,
+    fontSize: 15,
+    lineHeight: 22,
+    backgroundColor: COLORS.bgSoft,
+    borderRadius: 12,
+    padding: 16,
+  },
+  addition: {
+    borderLeftWidth: 2,
+    borderLeftColor: COLORS.border,
+    paddingLeft: 12,
+    marginBottom: 12,
+  },
+  formTitle: {
+    color: COLORS.text,
+    fontSize: 18,
+    fontWeight: "700",
+  },
+  input: {
+    backgroundColor: COLORS.bgSoft,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    color: COLORS.text,
+    fontSize: 15,
+    padding: 14,
+    minHeight: 110,
+    textAlignVertical: "top",
+    marginTop: 16,
+    marginBottom: 12,
+  },
+  error: {
+    color: COLORS.danger,
+    fontSize: 13,
+    marginTop: 8,
+  },
+  success: {
+    color: COLORS.neon,
+    fontSize: 13,
+    marginTop: 8,
+  },
+  submitButton: {
+    alignSelf: "flex-start",
+    borderRadius: 12,
+    overflow: "hidden",
+    marginTop: 16,
+  },
+  submitButtonDisabled: {
+    opacity: 0.5,
+  },
+  submitGradient: {
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    alignItems: "center",
+  },
+  submitButtonText: {
+    color: COLORS.text,
+    fontSize: 15,
+    fontWeight: "600",
+  },
+});
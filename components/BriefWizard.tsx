@@ -0,0 +1,1067 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Animated,
+  Platform,
+  useWindowDimensions,
+} from "react-native";
+import {
+  BriefField,
+  BriefInput,
+  BriefTextField,
+  EMPTY_BRIEF,
+  TIMELINE_OPTIONS,
+} from "../lib/briefs";
+import { BRIEF_SCHEMA } from "../lib/briefSchema";
+import { briefStatusPath } from "../lib/briefStatus";
+import { BUDGET_BANDS, formatBudgetRange, parseBudget } from "../lib/budget";
+import { SERVICES } from "../lib/content";
+import { PORTFOLIO_CATEGORY_LABELS, PRODUCT_PLATFORMS, ProductPlatform } from "../lib/offerings";
+import { validateFieldSync } from "../lib/validation";
+import {
+  ApiError,
+  PreparedProof,
+  createIdempotencyKey,
+  finalizeProof,
+  pendingStamp,
+  prepareProof,
+  submitBrief,
+} from "../lib/api";
+import { ChallengeProof, FormStamp, formStamp } from "../lib/challenge";
+import type { FlushResult } from "../lib/briefQueue";
+import { useForm } from "../hooks/useForm";
+import { UploadItem, useAttachmentUploads } from "../hooks/useAttachmentUploads";
+import { useBriefDraft } from "../hooks/useBriefDraft";
+import { OFFLINE_QUEUE_ENABLED, useBriefQueue } from "../hooks/useBriefQueue";
+import { COLORS, MOBILE_BREAKPOINT, scaleFont, useDriver } from "../theme";
+import { GradientView, REVEAL_EASING } from "./primitives";
+import { AttachmentPicker } from "./AttachmentPicker";
+
+/* -----------------------------------------------------
+   TYPES
+----------------------------------------------------- */
+type StepKey = "type" | "platforms" | "timeline" | "budget" | "contact" | "review";
+
+interface WizardStep {
+  key: StepKey;
+  title: string;
+  subtitle: string;
+  fields: BriefField[];
+}
+
+type SubmitStatus =
+  | { state: "idle" }
+  | { state: "submitting" }
+  | { state: "queued"; idempotencyKey: string }
+  | { state: "success"; reference: string; statusToken?: string }
+  | { state: "error"; message: string };
+
+/* -----------------------------------------------------
+   STEPS
+----------------------------------------------------- */
+const STEPS: WizardStep[] = [
+  {
+    key: "type",
+    title: "What do you need help with?",
+    subtitle: "Pick the engagement closest to where you are today.",
+    fields: ["projectType"],
+  },
+  {
+    key: "platforms",
+    title: "Where will it live?",
+    subtitle: "Choose every platform you're planning for.",
+    fields: ["platforms"],
+  },
+  {
+    key: "timeline",
+    title: "When would you like to start?",
+    subtitle: "Rough is fine — it helps us plan the squad.",
+    fields: ["timeline"],
+  },
+  {
+    key: "budget",
+    title: "What's the rough budget?",
+    subtitle: "Type a range or pick one of our typical engagements.",
+    fields: ["budget"],
+  },
+  {
+    key: "contact",
+    title: "Tell us about you and the project",
+    subtitle: "We'll reply within one business day.",
+    fields: ["name", "email", "company", "message", "attachments"],
+  },
+  {
+    key: "review",
+    title: "Review your brief",
+    subtitle: "Check everything looks right, then send it over.",
+    fields: [],
+  },
+];
+
+const STEP_TRANSITION_MS = 400;
+
+/* -----------------------------------------------------
+   BRIEF WIZARD
+----------------------------------------------------- */
+interface BriefWizardProps {
+  // Answers handed over from elsewhere on the page, e.g. the estimator.
+  prefill?: Partial<BriefInput> | null;
+}
+
+export const BriefWizard: React.FC<BriefWizardProps> = ({ prefill }) => {
+  const { width } = useWindowDimensions();
+  const s = (size: number) => scaleFont(size, width);
+  const isMobile = width < MOBILE_BREAKPOINT;
+
+  const form = useForm(BRIEF_SCHEMA, EMPTY_BRIEF);
+  const uploads = useAttachmentUploads();
+  const [stepIndex, setStepIndex] = useState(0);
+  const [submitStatus, setSubmitStatus] = useState<SubmitStatus>({ state: "idle" });
+  const transition = useRef(new Animated.Value(1)).current;
+  const direction = useRef(1);
+  const draft = useBriefDraft(form.values, stepIndex);
+  const idempotencyKey = useRef<string | null>(null);
+  const [honeypot, setHoneypot] = useState("");
+  // Solve the anti-spam challenge in the background while the visitor fills the form.
+  const pendingProof = useRef<Promise<PreparedProof> | null>(null);
+  const [queueNotice, setQueueNotice] = useState<{ tone: "success" | "error"; text: string } | null>(null);
+
+  const handleQueueResult = (result: FlushResult) => {
+    if (result.kind === "sent") {
+      if (submitStatus.state === "queued" && submitStatus.idempotencyKey === result.entry.idempotencyKey) {
+        setSubmitStatus({ state: "success", ...result.response });
+      } else {
+        setQueueNotice({ tone: "success", text: `Your queued brief was sent. Reference ${result.response.reference}.` });
+      }
+    } else {
+      setQueueNotice({ tone: "error", text: `A queued brief couldn't be sent: ${result.error.message}` });
+    }
+  };
+  const queue = useBriefQueue(handleQueueResult);
+
+  const step = STEPS[stepIndex];
+  const isReview = step.key === "review";
+  const canSubmit = form.isValid && !uploads.busy && submitStatus.state !== "submitting";
+  const attachmentKey = uploads.attachmentIds.join(",");
+  const parsedBudget = parseBudget(form.values.budget);
+
+  useEffect(() => {
+    pendingProof.current = prepareProof();
+    pendingProof.current.catch(() => undefined);
+  }, []);
+
+  useEffect(() => {
+    transition.setValue(0);
+    Animated.timing(transition, {
+      toValue: 1,
+      duration: STEP_TRANSITION_MS,
+      easing: REVEAL_EASING,
+      useNativeDriver: useDriver,
+    }).start();
+  }, [stepIndex, transition]);
+
+  // Lands on the first step the prefill didn't already answer.
+  useEffect(() => {
+    if (!prefill) return;
+    const next = { ...form.values, ...prefill };
+    form.setValues(prefill);
+    setSubmitStatus({ state: "idle" });
+    const index = STEPS.findIndex((st) => st.fields.some((f) => validateFieldSync(BRIEF_SCHEMA, f, next)));
+    goTo(index >= 0 ? index : STEPS.length - 1);
+  }, [prefill]);
+
+  // Finished uploads are what the brief actually references.
+  useEffect(() => {
+    form.setValue("attachments", uploads.attachmentIds);
+  }, [attachmentKey]);
+
+  const goTo = (index: number) => {
+    direction.current = index >= stepIndex ? 1 : -1;
+    setStepIndex(Math.max(0, Math.min(index, STEPS.length - 1)));
+  };
+
+  const handleNext = async () => {
+    if (uploads.busy) return;
+    if (!(await form.validateFields(step.fields))) return;
+    goTo(stepIndex + 1);
+  };
+
+  // Sends the visitor back to the first step with a problem.
+  const goToFirstInvalid = (invalid: BriefField[]) => {
+    const index = STEPS.findIndex((st) => st.fields.some((f) => invalid.includes(f)));
+    if (index >= 0) goTo(index);
+  };
+
+  const handleSubmit = async () => {
+    if (!canSubmit) return;
+    if (!(await form.validateAll())) {
+      goToFirstInvalid(
+        STEPS.flatMap((st) => st.fields).filter((f) => validateFieldSync(BRIEF_SCHEMA, f, form.values))
+      );
+      return;
+    }
+
+    setSubmitStatus({ state: "submitting" });
+    // Reused across retries of the same brief so the server can dedupe them.
+    const key = (idempotencyKey.current ??= createIdempotencyKey());
+    const submission = { ...form.values, website: honeypot };
+    const finish = () => {
+      idempotencyKey.current = null;
+      pendingProof.current = null; // challenges are single-use
+      form.reset(EMPTY_BRIEF);
+      uploads.reset();
+      draft.clearDraft();
+    };
+    const queueForLater = async (stamp: FormStamp | null) => {
+      await queue.queueBrief(submission, key, stamp);
+      setSubmitStatus({ state: "queued", idempotencyKey: key });
+      finish();
+    };
+
+    if (await queue.isOffline()) {
+      await queueForLater(await pendingStamp(pendingProof.current));
+      return;
+    }
+
+    let challenge: ChallengeProof | null = null;
+    try {
+      challenge = await finalizeProof(pendingProof.current);
+      const { reference, statusToken } = await submitBrief({ ...submission, challenge }, key);
+      setSubmitStatus({ state: "success", reference, statusToken });
+      finish();
+    } catch (err) {
+      // The server may have spent the challenge; never reuse it, but keep its form-open time.
+      const stamp = challenge ? formStamp(challenge) : await pendingStamp(pendingProof.current);
+      pendingProof.current = prepareProof(stamp);
+      pendingProof.current.catch(() => undefined);
+      if (OFFLINE_QUEUE_ENABLED && err instanceof ApiError && err.status === 0) {
+        await queueForLater(stamp);
+        return;
+      }
+      if (err instanceof ApiError && err.fields) {
+        form.setServerErrors(err.fields);
+        goToFirstInvalid(Object.keys(err.fields) as BriefField[]);
+      }
+      const message = err instanceof ApiError
+        ? err.message
+        : "Something went wrong. Please try again.";
+      setSubmitStatus({ state: "error", message });
+    }
+  };
+
+  const continueDraft = () => {
+    const saved = draft.takeDraft();
+    if (!saved) return;
+    form.setValues(saved.values);
+    goTo(Math.min(saved.stepIndex, STEPS.length - 1));
+  };
+
+  const startOver = () => {
+    setSubmitStatus({ state: "idle" });
+    setHoneypot("");
+    pendingProof.current = prepareProof();
+    pendingProof.current.catch(() => undefined);
+    goTo(0);
+  };
+
+  const togglePlatform = (platform: ProductPlatform) => {
+    const current = form.values.platforms;
+    form.setValue(
+      "platforms",
+      current.includes(platform) ? current.filter((p) => p !== platform) : [...current, platform]
+    );
+    form.blur("platforms");
+  };
+
+  const fieldError = (field: BriefField) => {
+    const error = form.visibleError(field);
+    return error ? <Text style={[styles.inputLabel, styles.fieldError]}>{error}</Text> : null;
+  };
+
+  const textInput = (
+    field: BriefTextField,
+    props: React.ComponentProps<typeof TextInput> = {}
+  ) => (
+    <TextInput
+      {...props}
+      style={[styles.input, props.style, !!form.visibleError(field) && styles.inputInvalid]}
+      placeholderTextColor={COLORS.subtle}
+      value={form.values[field]}
+      onChangeText={(v) => form.setValue(field, v as BriefInput[typeof field])}
+      onBlur={() => form.blur(field)}
+    />
+  );
+
+  /* -----------------------------------------------------
+     STEP CONTENT
+  ----------------------------------------------------- */
+  const renderStep = () => {
+    switch (step.key) {
+      case "type":
+        return (
+          <View style={styles.optionList}>
+            {SERVICES.map((service) => {
+              const active = form.values.projectType === service.title;
+              return (
+                <TouchableOpacity
+                  key={service.title}
+                  style={[styles.optionCard, active && styles.optionCardActive]}
+                  onPress={() => {
+                    form.setValue("projectType", service.title);
+                    form.blur("projectType");
+                  }}
+                >
+                  <Text style={styles.optionIcon}>{service.icon}</Text>
+                  <View style={styles.optionText}>
+                    <Text style={[styles.optionTitle, active && styles.optionTitleActive]}>
+                      {service.title}
+                    </Text>
+                    <Text style={styles.optionBody}>{service.description}</Text>
+                  </View>
+                </TouchableOpacity>
+              );
+            })}
+            {fieldError("projectType")}
+          </View>
+        );
+
+      case "platforms":
+        return (
+          <View>
+            <View style={styles.chipRow}>
+              {PRODUCT_PLATFORMS.map((platform) => {
+                const active = form.values.platforms.includes(platform);
+                return (
+                  <TouchableOpacity
+                    key={platform}
+                    style={[styles.chip, active && styles.chipActive]}
+                    onPress={() => togglePlatform(platform)}
+                  >
+                    <Text style={[styles.chipText, active && styles.chipTextActive]}>
+                      {PORTFOLIO_CATEGORY_LABELS[platform]}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            {fieldError("platforms")}
+          </View>
+        );
+
+      case "timeline":
+        return (
+          <View style={styles.optionList}>
+            {TIMELINE_OPTIONS.map((option) => {
+              const active = form.values.timeline === option.id;
+              return (
+                <TouchableOpacity
+                  key={option.id}
+                  style={[styles.optionCard, active && styles.optionCardActive]}
+                  onPress={() => {
+                    form.setValue("timeline", option.id);
+                    form.blur("timeline");
+                  }}
+                >
+                  <View style={styles.optionText}>
+                    <Text style={[styles.optionTitle, active && styles.optionTitleActive]}>
+                      {option.label}
+                    </Text>
+                    <Text style={styles.optionBody}>{option.hint}</Text>
+                  </View>
+                </TouchableOpacity>
+              );
+            })}
+            {fieldError("timeline")}
+          </View>
+        );
+
+      case "budget":
+        return (
+          <View>
+            <View style={styles.formGroup}>
+              <Text style={styles.inputLabel}>{BRIEF_SCHEMA.budget.label}</Text>
+              {textInput("budget", { placeholder: "e.g. 20k – 60k" })}
+              {fieldError("budget") ?? (parsedBudget && (
+                <Text style={styles.budgetHint}>
+                  Reads as {formatBudgetRange(parsedBudget)}
+                </Text>
+              ))}
+            </View>
+
+            <View style={[styles.formGroup, styles.budgetBandGroup]}>
+              <Text style={styles.inputLabel}>Or pick a typical engagement</Text>
+              <View style={[styles.budgetBandRow, isMobile && styles.budgetBandRowMobile]}>
+                {BUDGET_BANDS.map((band) => {
+                  const active = form.values.budget === band.label;
+                  return (
+                    <TouchableOpacity
+                      key={band.id}
+                      style={[styles.budgetBand, active && styles.budgetBandActive]}
+                      onPress={() => {
+                        form.setValue("budget", band.label);
+                        form.blur("budget");
+                      }}
+                    >
+                      <Text style={[styles.budgetBandLabel, active && styles.budgetBandLabelActive]}>
+                        {band.label}
+                      </Text>
+                      <Text style={styles.budgetBandEngagement}>{band.engagement}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+          </View>
+        );
+
+      case "contact":
+        return (
+          <View>
+            <View style={[styles.formRow, isMobile && styles.formRowMobile]}>
+              <View style={[styles.formGroup, isMobile && styles.formGroupMobile]}>
+                <Text style={styles.inputLabel}>{BRIEF_SCHEMA.name.label}</Text>
+                {textInput("name", { placeholder: "Your name" })}
+                {fieldError("name")}
+              </View>
+              <View style={[styles.formGroup, isMobile && styles.formGroupMobile]}>
+                <Text style={styles.inputLabel}>{BRIEF_SCHEMA.email.label}</Text>
+                {textInput("email", {
+                  placeholder: "you@company.com",
+                  keyboardType: "email-address",
+                  autoCapitalize: "none",
+                })}
+                {fieldError("email")}
+              </View>
+            </View>
+
+            {Platform.OS === "web" && (
+              // Honeypot: off-screen and unlabelled for people, a free-text field to bots.
+              <View style={styles.honeypot} aria-hidden>
+                <TextInput
+                  value={honeypot}
+                  onChangeText={setHoneypot}
+                  placeholder="Website"
+                  autoComplete="off"
+                  {...({ tabIndex: -1, name: "website" } as object)}
+                />
+              </View>
+            )}
+
+            <View style={[styles.formGroup, isMobile && styles.formGroupMobile]}>
+              <Text style={styles.inputLabel}>{BRIEF_SCHEMA.company.label}</Text>
+              {textInput("company", { placeholder: "Company or startup name" })}
+              {fieldError("company")}
+            </View>
+
+            <View style={[styles.formGroup, isMobile && styles.formGroupMobile]}>
+              <Text style={styles.inputLabel}>{BRIEF_SCHEMA.message.label}</Text>
+              {textInput("message", {
+                placeholder: "App, platform, redesign, MVP…",
+                multiline: true,
+                numberOfLines: 4,
+                style: styles.textarea,
+              })}
+              {fieldError("message")}
+            </View>
+
+            <View style={[styles.formGroup, isMobile && styles.formGroupMobile]}>
+              <Text style={styles.inputLabel}>{BRIEF_SCHEMA.attachments.label} (optional)</Text>
+              <AttachmentPicker items={uploads.items} onAdd={uploads.add} onRemove={uploads.remove} />
+              {fieldError("attachments")}
+            </View>
+          </View>
+        );
+
+      case "review":
+        return (
+          <View>
+            {STEPS.filter((st) => st.fields.length > 0).map((st, index) => (
+              <View key={st.key} style={styles.reviewBlock}>
+                <View style={styles.reviewHeader}>
+                  <Text style={styles.reviewStep}>{st.title}</Text>
+                  <TouchableOpacity onPress={() => goTo(index)}>
+                    <Text style={styles.reviewEdit}>Edit</Text>
+                  </TouchableOpacity>
+                </View>
+                {st.fields.map((field) => (
+                  <View key={field} style={styles.reviewRow}>
+                    <Text style={styles.reviewLabel}>{BRIEF_SCHEMA[field].label}</Text>
+                    <Text style={styles.reviewValue}>{describeAnswer(form.values, field, uploads.items)}</Text>
+                    {fieldError(field)}
+                  </View>
+                ))}
+              </View>
+            ))}
+          </View>
+        );
+    }
+  };
+
+  /* -----------------------------------------------------
+     RENDER
+  ----------------------------------------------------- */
+  if (submitStatus.state === "queued") {
+    return (
+      <View style={[styles.formStatus, styles.formStatusQueued]}>
+        <Text style={styles.formStatusTitle}>Queued — will send when you're back online</Text>
+        <Text style={styles.formStatusBody}>
+          Your brief is saved on this device and will go out automatically as soon as you reconnect.
+          You can close the app in the meantime.
+        </Text>
+        <TouchableOpacity style={styles.secondaryButton} onPress={startOver}>
+          <Text style={styles.secondaryButtonText}>Start another brief</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  if (submitStatus.state === "success") {
+    return (
+      <View style={[styles.formStatus, styles.formStatusSuccess]}>
+        <Text style={styles.formStatusTitle}>Brief sent</Text>
+        <Text style={styles.formStatusBody}>
+          We'll review your project and reply within one business day.
+          Your reference is {submitStatus.reference}.
+        </Text>
+        <View style={styles.successActions}>
+          {Platform.OS === "web" && submitStatus.statusToken && (
+            <TouchableOpacity
+              style={styles.secondaryButton}
+              onPress={() => window.location.assign(briefStatusPath(submitStatus.statusToken!))}
+            >
+              <Text style={styles.secondaryButtonText}>Track your brief</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity style={styles.secondaryButton} onPress={startOver}>
+            <Text style={styles.secondaryButtonText}>Send another brief</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View>
+      {queueNotice && (
+        <TouchableOpacity
+          style={[styles.formStatus, styles.queueNotice, queueNotice.tone === "success" ? styles.formStatusSuccess : styles.formStatusError]}
+          onPress={() => setQueueNotice(null)}
+        >
+          <Text style={styles.formStatusBody}>{queueNotice.text}</Text>
+        </TouchableOpacity>
+      )}
+
+      {queue.queuedCount > 0 && (
+        <Text style={styles.queuedHint}>
+          {queue.queuedCount === 1 ? "1 brief is" : `${queue.queuedCount} briefs are`} queued — will send when you're back online.
+        </Text>
+      )}
+
+      {draft.pendingDraft && (
+        <View style={styles.draftBanner}>
+          <View style={styles.draftText}>
+            <Text style={styles.draftTitle}>Continue your draft</Text>
+            <Text style={styles.draftBody}>
+              You started a brief on {formatDraftDate(draft.pendingDraft.savedAt)}. Pick up where you left off?
+            </Text>
+          </View>
+          <View style={styles.draftActions}>
+            <TouchableOpacity onPress={draft.discardDraft}>
+              <Text style={styles.draftDiscard}>Start fresh</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.draftContinue} onPress={continueDraft}>
+              <Text style={styles.draftContinueText}>Continue</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
+      {/* Progress */}
+      <View style={styles.progressHeader}>
+        <Text style={styles.progressLabel}>
+          Step {stepIndex + 1} of {STEPS.length}
+        </Text>
+        <View style={styles.progressTrack}>
+          {STEPS.map((st, index) => (
+            <TouchableOpacity
+              key={st.key}
+              style={[
+                styles.progressSegment,
+                index <= stepIndex && styles.progressSegmentDone,
+              ]}
+              disabled={index >= stepIndex}
+              onPress={() => goTo(index)}
+            />
+          ))}
+        </View>
+      </View>
+
+      {/* Step */}
+      <Animated.View
+        style={{
+          opacity: transition,
+          transform: [
+            {
+              translateX: transition.interpolate({
+                inputRange: [0, 1],
+                outputRange: [direction.current * 40, 0],
+              }),
+            },
+          ],
+        }}
+      >
+        <Text style={[styles.stepTitle, { fontSize: s(22) }]}>{step.title}</Text>
+        <Text style={[styles.stepSubtitle, { fontSize: s(15) }]}>{step.subtitle}</Text>
+        {renderStep()}
+      </Animated.View>
+
+      {/* Navigation */}
+      <View style={[styles.navRow, isMobile && styles.navRowMobile]}>
+        {stepIndex > 0 ? (
+          <TouchableOpacity style={styles.secondaryButton} onPress={() => goTo(stepIndex - 1)}>
+            <Text style={styles.secondaryButtonText}>Back</Text>
+          </TouchableOpacity>
+        ) : (
+          <View />
+        )}
+
+        <TouchableOpacity
+          style={[
+            styles.submitButton,
+            isMobile && styles.submitButtonMobile,
+            (isReview ? !canSubmit : uploads.busy) && styles.submitButtonDisabled,
+          ]}
+          onPress={isReview ? handleSubmit : handleNext}
+          disabled={isReview ? !canSubmit : uploads.busy}
+        >
+          <GradientView
+            colors={[COLORS.neonSoft, COLORS.neon]}
+            style={styles.submitGradient}
+          >
+            <Text style={styles.submitButtonText}>
+              {uploads.busy
+                ? "Uploading…"
+                : !isReview
+                  ? "Next"
+                  : submitStatus.state === "submitting"
+                    ? "Sending…"
+                    : "Send brief"}
+            </Text>
+          </GradientView>
+        </TouchableOpacity>
+      </View>
+
+      {submitStatus.state === "error" && (
+        <View style={[styles.formStatus, styles.formStatusError]}>
+          <Text style={styles.formStatusTitle}>We couldn't send your brief</Text>
+          <Text style={styles.formStatusBody}>{submitStatus.message}</Text>
+        </View>
+      )}
+    </View>
+  );
+};
+
+/* -----------------------------------------------------
+   HELPERS
+----------------------------------------------------- */
+const formatDraftDate = (iso: string) =>
+  new Date(iso).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+
+const describeAnswer = (values: BriefInput, field: BriefField, uploads: UploadItem[]): string => {
+  switch (field) {
+    case "attachments":
+      return uploads.filter((u) => u.status === "done").map((u) => u.name).join(", ") || "None";
+    case "platforms":
+      return values.platforms.map((p) => PORTFOLIO_CATEGORY_LABELS[p]).join(", ") || "—";
+    case "timeline":
+      return TIMELINE_OPTIONS.find((t) => t.id === values.timeline)?.label ?? "—";
+    case "budget": {
+      const range = parseBudget(values.budget);
+      return range ? formatBudgetRange(range) : values.budget || "—";
+    }
+    default:
+      return values[field] || "—";
+  }
+};
+
+/* -----------------------------------------------------
+   STYLES
+----------------------------------------------------- */
+const styles = StyleSheet.create({
+  draftBanner: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 12,
+    backgroundColor: "rgba(99,102,241,0.12)",
+    borderColor: COLORS.accent,
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 24,
+  },
+  draftText: {
+    flex: 1,
+    minWidth: 200,
+  },
+  draftTitle: {
+    color: COLORS.text,
+    fontSize: 15,
+    fontWeight: "700",
+    marginBottom: 2,
+  },
+  draftBody: {
+    color: COLORS.textMuted,
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  draftActions: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 16,
+  },
+  draftDiscard: {
+    color: COLORS.textMuted,
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  draftContinue: {
+    backgroundColor: COLORS.accent,
+    borderRadius: 10,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  draftContinueText: {
+    color: COLORS.text,
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  progressHeader: {
+    marginBottom: 24,
+  },
+  progressLabel: {
+    color: COLORS.textMuted,
+    fontSize: 13,
+    fontWeight: "600",
+    letterSpacing: 1,
+    textTransform: "uppercase",
+    marginBottom: 10,
+  },
+  progressTrack: {
+    flexDirection: "row",
+    gap: 6,
+  },
+  progressSegment: {
+    flex: 1,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: COLORS.border,
+  },
+  progressSegmentDone: {
+    backgroundColor: COLORS.neon,
+  },
+  stepTitle: {
+    color: COLORS.text,
+    fontWeight: "700",
+    marginBottom: 6,
+  },
+  stepSubtitle: {
+    color: COLORS.textMuted,
+    marginBottom: 24,
+  },
+  optionList: {
+    gap: 12,
+  },
+  optionCard: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: 14,
+    backgroundColor: COLORS.bgSoft,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    padding: 16,
+  },
+  optionCardActive: {
+    borderColor: COLORS.neon,
+    backgroundColor: "rgba(182,255,51,0.08)",
+  },
+  optionIcon: {
+    fontSize: 24,
+  },
+  optionText: {
+    flex: 1,
+  },
+  optionTitle: {
+    color: COLORS.text,
+    fontSize: 16,
+    fontWeight: "600",
+    marginBottom: 4,
+  },
+  optionTitleActive: {
+    color: COLORS.neon,
+  },
+  optionBody: {
+    color: COLORS.textMuted,
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 10,
+  },
+  chip: {
+    backgroundColor: COLORS.bgSoft,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    paddingHorizontal: 18,
+    paddingVertical: 10,
+  },
+  chipActive: {
+    borderColor: COLORS.neon,
+    backgroundColor: "rgba(182,255,51,0.08)",
+  },
+  chipText: {
+    color: COLORS.text,
+    fontSize: 14,
+    fontWeight: "500",
+  },
+  chipTextActive: {
+    color: COLORS.neon,
+  },
+  formRow: {
+    flexDirection: "row",
+    gap: 16,
+    marginBottom: 16,
+    minHeight: 80,
+  },
+  formRowMobile: {
+    flexDirection: "column",
+    gap: 16,
+    marginBottom: 16,
+  },
+  formGroup: {
+    flex: 1,
+    minHeight: 80,
+    marginBottom: 16,
+  },
+  formGroupMobile: {
+    width: "100%",
+  },
+  inputLabel: {
+    color: COLORS.text,
+    fontSize: 14,
+    fontWeight: "600",
+    marginBottom: 8,
+    minHeight: 20,
+  },
+  input: {
+    backgroundColor: COLORS.bgSoft,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    color: COLORS.text,
+    fontSize: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    minHeight: 48,
+  },
+  inputInvalid: {
+    borderColor: COLORS.danger,
+  },
+  fieldError: {
+    color: COLORS.danger,
+    fontSize: 13,
+    fontWeight: "500",
+    marginTop: 6,
+    marginBottom: 0,
+  },
+  budgetHint: {
+    color: COLORS.textMuted,
+    fontSize: 13,
+    marginTop: 6,
+  },
+  budgetBandGroup: {
+    minHeight: 0,
+  },
+  budgetBandRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  budgetBandRowMobile: {
+    flexDirection: "column",
+  },
+  budgetBand: {
+    backgroundColor: COLORS.bgSoft,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+  },
+  budgetBandActive: {
+    borderColor: COLORS.neon,
+    backgroundColor: "rgba(182,255,51,0.08)",
+  },
+  budgetBandLabel: {
+    color: COLORS.text,
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  budgetBandLabelActive: {
+    color: COLORS.neon,
+  },
+  budgetBandEngagement: {
+    color: COLORS.textMuted,
+    fontSize: 12,
+    marginTop: 2,
+  },
+  honeypot: {
+    position: "absolute",
+    left: -10000,
+    width: 1,
+    height: 1,
+    overflow: "hidden",
+    opacity: 0,
+  },
+  textarea: {
+    height: 120,
+    textAlignVertical: "top",
+    minHeight: 120,
+  },
+  reviewBlock: {
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+    paddingVertical: 14,
+  },
+  reviewHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  reviewStep: {
+    color: COLORS.text,
+    fontSize: 15,
+    fontWeight: "700",
+  },
+  reviewEdit: {
+    color: COLORS.neon,
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  reviewRow: {
+    marginBottom: 8,
+  },
+  reviewLabel: {
+    color: COLORS.subtle,
+    fontSize: 12,
+    fontWeight: "600",
+    textTransform: "uppercase",
+    letterSpacing: 0.5,
+  },
+  reviewValue: {
+    color: COLORS.textMuted,
+    fontSize: 15,
+    lineHeight: 22,
+  },
+  navRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    gap: 12,
+    marginTop: 24,
+  },
+  navRowMobile: {
+    flexDirection: "column-reverse",
+    alignItems: "stretch",
+  },
+  secondaryButton: {
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    paddingHorizontal: 24,
+    paddingVertical: 14,
+    alignItems: "center",
+    marginTop: 12,
+  },
+  successActions: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 12,
+  },
+  secondaryButtonText: {
+    color: COLORS.text,
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  submitButton: {
+    borderRadius: 12,
+    overflow: "hidden",
+    minHeight: 56,
+    minWidth: 180,
+  },
+  submitButtonMobile: {
+    width: "100%",
+  },
+  submitButtonDisabled: {
+    opacity: 0.6,
+  },
+  submitGradient: {
+    paddingVertical: 16,
+    paddingHorizontal: 24,
+    alignItems: "center",
+    minHeight: 56,
+  },
+  submitButtonText: {
+    color: COLORS.text,
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  formStatus: {
+    marginTop: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    padding: 16,
+  },
+  formStatusSuccess: {
+    backgroundColor: "rgba(182,255,51,0.08)",
+    borderColor: COLORS.neon,
+  },
+  formStatusQueued: {
+    backgroundColor: "rgba(99,102,241,0.12)",
+    borderColor: COLORS.accent,
+  },
+  queuedHint: {
+    color: COLORS.textMuted,
+    fontSize: 13,
+    marginBottom: 16,
+  },
+  queueNotice: {
+    marginTop: 0,
+    marginBottom: 16,
+  },
+  formStatusError: {
+    backgroundColor: "rgba(255,99,99,0.08)",
+    borderColor: COLORS.danger,
+  },
+  formStatusTitle: {
+    color: COLORS.text,
+    fontSize: 15,
+    fontWeight: "700",
+    marginBottom: 4,
+  },
+  formStatusBody: {
+    color: COLORS.textMuted,
+    fontSize: 14,
+    lineHeight: 20,
+  },
+});
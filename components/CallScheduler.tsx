@@ -0,0 +1,435 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  Linking,
+  Platform,
+} from "react-native";
+import { BookingConfirmation, BookingInput, EMPTY_BOOKING } from "../lib/bookings";
+import { BOOKING_SCHEMA } from "../lib/bookingSchema";
+import {
+  formatSlotDay,
+  formatSlotTime,
+  formatTeamTime,
+  groupSlotsByLocalDay,
+  visitorTimeZone,
+} from "../lib/scheduling";
+import { ApiError, bookCall, bookingIcsUrl, fetchSlots } from "../lib/api";
+import type { FormErrors } from "../lib/validation";
+import { useForm } from "../hooks/useForm";
+import { COLORS } from "../theme";
+import { GradientView } from "./primitives";
+
+/* -----------------------------------------------------
+   CALL SCHEDULER
+   Books a 30-minute discovery call. Slots come from the
+   team calendar in Pakistan time and are shown in the
+   visitor's own timezone.
+----------------------------------------------------- */
+type SlotsState =
+  | { state: "loading" }
+  | { state: "ready"; slots: string[] }
+  | { state: "error"; message: string };
+
+type BookingStatus =
+  | { state: "idle" }
+  | { state: "booking" }
+  | { state: "booked"; confirmation: BookingConfirmation }
+  | { state: "error"; message: string };
+
+type TextField = Exclude<keyof BookingInput, "slotStart">;
+
+export const CallScheduler: React.FC = () => {
+  const form = useForm(BOOKING_SCHEMA, EMPTY_BOOKING);
+  const [slotsState, setSlotsState] = useState<SlotsState>({ state: "loading" });
+  const [dayKey, setDayKey] = useState<string | null>(null);
+  const [status, setStatus] = useState<BookingStatus>({ state: "idle" });
+  const timeZone = useMemo(visitorTimeZone, []);
+
+  const loadSlots = useCallback(async () => {
+    setSlotsState({ state: "loading" });
+    try {
+      const { slots } = await fetchSlots();
+      setSlotsState({ state: "ready", slots });
+    } catch (err) {
+      setSlotsState({
+        state: "error",
+        message: err instanceof ApiError ? err.message : "We couldn't load our calendar.",
+      });
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSlots();
+  }, [loadSlots]);
+
+  const days = useMemo(
+    () => (slotsState.state === "ready" ? groupSlotsByLocalDay(slotsState.slots) : []),
+    [slotsState]
+  );
+  const activeDay = days.find((d) => d.key === dayKey) ?? days[0];
+  const selectedSlot = form.values.slotStart;
+
+  const handleBook = async () => {
+    if (status.state === "booking") return;
+    if (!(await form.validateAll())) return;
+
+    setStatus({ state: "booking" });
+    try {
+      const confirmation = await bookCall(form.values);
+      setStatus({ state: "booked", confirmation });
+      form.reset(EMPTY_BOOKING);
+    } catch (err) {
+      const fields = err instanceof ApiError ? (err.fields as FormErrors<BookingInput> | undefined) : undefined;
+      if (fields) form.setServerErrors(fields);
+      // The slot was taken or expired while they were typing: show what's left.
+      if ((err instanceof ApiError && err.status === 409) || fields?.slotStart) {
+        form.setValue("slotStart", "");
+        loadSlots();
+      }
+      setStatus({
+        state: "error",
+        message: err instanceof ApiError ? err.message : "Something went wrong. Please try again.",
+      });
+    }
+  };
+
+  const addToCalendar = (confirmation: BookingConfirmation) => {
+    if (Platform.OS === "web") {
+      const url = URL.createObjectURL(new Blob([confirmation.ics], { type: "text/calendar" }));
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = "crafttech-discovery-call.ics";
+      link.click();
+      URL.revokeObjectURL(url);
+      return;
+    }
+    Linking.openURL(bookingIcsUrl(confirmation.id));
+  };
+
+  const bookAnother = () => {
+    setStatus({ state: "idle" });
+    loadSlots();
+  };
+
+  const textInput = (field: TextField, props: React.ComponentProps<typeof TextInput> = {}) => {
+    const error = form.visibleError(field);
+    return (
+      <View style={styles.formGroup}>
+        <Text style={styles.inputLabel}>{BOOKING_SCHEMA[field].label}</Text>
+        <TextInput
+          {...props}
+          style={[styles.input, props.style, !!error && styles.inputInvalid]}
+          placeholderTextColor={COLORS.subtle}
+          value={form.values[field]}
+          onChangeText={(v) => form.setValue(field, v)}
+          onBlur={() => form.blur(field)}
+        />
+        {error ? <Text style={styles.fieldError}>{error}</Text> : null}
+      </View>
+    );
+  };
+
+  /* -----------------------------------------------------
+     CONFIRMATION
+  ----------------------------------------------------- */
+  if (status.state === "booked") {
+    const { confirmation } = status;
+    return (
+      <View style={styles.card}>
+        <Text style={styles.label}>Discovery call</Text>
+        <Text style={styles.title}>You're booked ✓</Text>
+        <Text style={styles.body}>
+          {formatSlotDay(confirmation.slotStart)} at {formatSlotTime(confirmation.slotStart)} ({timeZone}).
+          We'll email a video link before the call.
+        </Text>
+        <TouchableOpacity style={styles.submitButton} onPress={() => addToCalendar(confirmation)}>
+          <GradientView colors={[COLORS.neonSoft, COLORS.neon]} style={styles.submitGradient}>
+            <Text style={styles.submitButtonText}>Add to calendar (.ics)</Text>
+          </GradientView>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.linkButton} onPress={bookAnother}>
+          <Text style={styles.linkText}>Book another time</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  /* -----------------------------------------------------
+     PICKER
+  ----------------------------------------------------- */
+  return (
+    <View style={styles.card}>
+      <Text style={styles.label}>Discovery call</Text>
+      <Text style={styles.title}>Prefer to talk it through?</Text>
+      <Text style={styles.body}>
+        Book 30 minutes with our team. Times are shown in {timeZone}.
+      </Text>
+
+      {slotsState.state === "loading" && <Text style={styles.hint}>Loading our calendar…</Text>}
+
+      {slotsState.state === "error" && (
+        <View>
+          <Text style={styles.fieldError}>{slotsState.message}</Text>
+          <TouchableOpacity style={styles.linkButton} onPress={loadSlots}>
+            <Text style={styles.linkText}>Try again</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {slotsState.state === "ready" && days.length === 0 && (
+        <Text style={styles.hint}>
+          We're fully booked for the next two weeks — email hello@crafttech.studio and we'll find a time.
+        </Text>
+      )}
+
+      {activeDay && (
+        <View>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.dayRow}>
+            {days.map((day) => {
+              const active = day.key === activeDay.key;
+              return (
+                <TouchableOpacity
+                  key={day.key}
+                  style={[styles.chip, active && styles.chipActive]}
+                  onPress={() => setDayKey(day.key)}
+                >
+                  <Text style={[styles.chipText, active && styles.chipTextActive]}>
+                    {formatSlotDay(day.slots[0])}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+
+          <View style={[styles.chipRow, styles.slotGrid]}>
+            {activeDay.slots.map((slot) => {
+              const active = slot === selectedSlot;
+              return (
+                <TouchableOpacity
+                  key={slot}
+                  style={[styles.slot, active && styles.chipActive]}
+                  onPress={() => {
+                    form.setValue("slotStart", slot);
+                    form.blur("slotStart");
+                  }}
+                  accessibilityLabel={`${formatSlotDay(slot)} ${formatSlotTime(slot)}`}
+                >
+                  <Text style={[styles.chipText, active && styles.chipTextActive]}>
+                    {formatSlotTime(slot)}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          {selectedSlot ? (
+            <Text style={styles.hint}>That's {formatTeamTime(selectedSlot)} for our team in Lahore.</Text>
+          ) : null}
+          {form.visibleError("slotStart") ? (
+            <Text style={styles.fieldError}>{form.visibleError("slotStart")}</Text>
+          ) : null}
+        </View>
+      )}
+
+      {selectedSlot ? (
+        <View style={styles.details}>
+          {textInput("name", { placeholder: "Jane Doe", autoComplete: "name" })}
+          {textInput("email", {
+            placeholder: "you@company.com",
+            keyboardType: "email-address",
+            autoCapitalize: "none",
+            autoComplete: "email",
+          })}
+          {textInput("briefReference", { placeholder: "Optional, e.g. CT-7KX2QM", autoCapitalize: "characters" })}
+          {textInput("notes", { placeholder: "Optional", multiline: true, style: styles.textarea })}
+
+          <TouchableOpacity
+            style={[styles.submitButton, status.state === "booking" && styles.submitButtonDisabled]}
+            onPress={handleBook}
+            disabled={status.state === "booking"}
+          >
+            <GradientView colors={[COLORS.neonSoft, COLORS.neon]} style={styles.submitGradient}>
+              <Text style={styles.submitButtonText}>
+                {status.state === "booking" ? "Booking…" : `Book ${formatSlotTime(selectedSlot)}`}
+              </Text>
+            </GradientView>
+          </TouchableOpacity>
+
+          {status.state === "error" && (
+            <View style={styles.formStatusError}>
+              <Text style={styles.formStatusTitle}>We couldn't book that call</Text>
+              <Text style={styles.formStatusBody}>{status.message}</Text>
+            </View>
+          )}
+        </View>
+      ) : null}
+    </View>
+  );
+};
+
+/* -----------------------------------------------------
+   STYLES
+----------------------------------------------------- */
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: COLORS.card,
+    borderRadius: 20,
+    padding: 24,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    marginTop: 24,
+  },
+  label: {
+    color: COLORS.neon,
+    fontSize: 14,
+    fontWeight: "700",
+    marginBottom: 8,
+    textTransform: "uppercase",
+    letterSpacing: 1,
+  },
+  title: {
+    color: COLORS.text,
+    fontSize: 20,
+    fontWeight: "700",
+    marginBottom: 8,
+  },
+  body: {
+    color: COLORS.textMuted,
+    fontSize: 15,
+    lineHeight: 22,
+    marginBottom: 16,
+  },
+  hint: {
+    color: COLORS.textMuted,
+    fontSize: 13,
+    marginTop: 8,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  dayRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  slotGrid: {
+    marginTop: 12,
+  },
+  chip: {
+    backgroundColor: COLORS.bgSoft,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  slot: {
+    backgroundColor: COLORS.bgSoft,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    minWidth: 84,
+    alignItems: "center",
+  },
+  chipActive: {
+    borderColor: COLORS.neon,
+    backgroundColor: "rgba(182,255,51,0.08)",
+  },
+  chipText: {
+    color: COLORS.text,
+    fontSize: 14,
+    fontWeight: "500",
+  },
+  chipTextActive: {
+    color: COLORS.neon,
+  },
+  details: {
+    marginTop: 20,
+  },
+  formGroup: {
+    marginBottom: 14,
+  },
+  inputLabel: {
+    color: COLORS.text,
+    fontSize: 14,
+    fontWeight: "600",
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: COLORS.bgSoft,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    color: COLORS.text,
+    fontSize: 15,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    minHeight: 44,
+  },
+  inputInvalid: {
+    borderColor: COLORS.danger,
+  },
+  textarea: {
+    minHeight: 80,
+    textAlignVertical: "top",
+  },
+  fieldError: {
+    color: COLORS.danger,
+    fontSize: 13,
+    fontWeight: "500",
+    marginTop: 6,
+  },
+  submitButton: {
+    borderRadius: 12,
+    overflow: "hidden",
+    marginTop: 8,
+  },
+  submitButtonDisabled: {
+    opacity: 0.6,
+  },
+  submitGradient: {
+    paddingVertical: 14,
+    paddingHorizontal: 20,
+    alignItems: "center",
+  },
+  submitButtonText: {
+    color: COLORS.text,
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  linkButton: {
+    marginTop: 12,
+    alignSelf: "flex-start",
+  },
+  linkText: {
+    color: COLORS.neon,
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  formStatusError: {
+    marginTop: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    padding: 16,
+    backgroundColor: "rgba(255,99,99,0.08)",
+    borderColor: COLORS.danger,
+  },
+  formStatusTitle: {
+    color: COLORS.text,
+    fontSize: 15,
+    fontWeight: "700",
+    marginBottom: 4,
+  },
+  formStatusBody: {
+    color: COLORS.textMuted,
+    fontSize: 14,
+    lineHeight: 20,
+  },
+});
@@ -0,0 +1,419 @@
+import React, { useEffect, useRef } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  SafeAreaView,
+  Platform,
+  useWindowDimensions,
+} from "react-native";
+import {
+  CareersQuery,
+  DISCIPLINES,
+  DISCIPLINE_LABELS,
+  EMPTY_CAREERS_QUERY,
+  SENIORITY_LABELS,
+  SENIORITY_LEVELS,
+  WORK_MODES,
+  WORK_MODE_LABELS,
+  describeWorkPattern,
+  filterJobs,
+  jobStack,
+} from "../lib/careers";
+import { JobPosting } from "../lib/contentSchema";
+import { COLORS, MOBILE_BREAKPOINT, scaleFont } from "../theme";
+
+/* -----------------------------------------------------
+   CAREERS PAGE
+   /careers — every open role, filterable by discipline,
+   seniority, work mode and stack. Each chip counts the
+   roles it would leave, given the other filters. Drawn
+   over the site like Insights; filters live in the query
+   string.
+----------------------------------------------------- */
+interface CareersPageProps {
+  jobs: JobPosting[];
+  query: CareersQuery;
+  onChangeQuery: (query: CareersQuery) => void;
+  onOpenJob: (slug: string) => void;
+  onBack: () => void;
+}
+
+interface ChipOption {
+  key: string;
+  label: string;
+  active: boolean;
+  count: number;
+  toggle: CareersQuery;
+}
+
+export const CareersPage: React.FC<CareersPageProps> = ({ jobs, query, onChangeQuery, onOpenJob, onBack }) => {
+  const { width } = useWindowDimensions();
+  const s = (size: number) => scaleFont(size, width);
+  const isMobile = width < MOBILE_BREAKPOINT;
+  const scrollRef = useRef<ScrollView | null>(null);
+
+  const results = filterJobs(jobs, query);
+  const filtered = Object.values(query).some(Boolean);
+  const count = (next: CareersQuery) => filterJobs(jobs, next).length;
+
+  const facets: { label: string; options: ChipOption[] }[] = [
+    {
+      label: "Discipline",
+      options: DISCIPLINES.map((discipline) => ({
+        key: discipline,
+        label: DISCIPLINE_LABELS[discipline],
+        active: query.discipline === discipline,
+        count: count({ ...query, discipline }),
+        toggle: { ...query, discipline: query.discipline === discipline ? null : discipline },
+      })),
+    },
+    {
+      label: "Seniority",
+      options: SENIORITY_LEVELS.map((seniority) => ({
+        key: seniority,
+        label: SENIORITY_LABELS[seniority],
+        active: query.seniority === seniority,
+        count: count({ ...query, seniority }),
+        toggle: { ...query, seniority: query.seniority === seniority ? null : seniority },
+      })),
+    },
+    {
+      label: "Work mode",
+      options: WORK_MODES.map((workMode) => ({
+        key: workMode,
+        label: WORK_MODE_LABELS[workMode],
+        active: query.workMode === workMode,
+        count: count({ ...query, workMode }),
+        toggle: { ...query, workMode: query.workMode === workMode ? null : workMode },
+      })),
+    },
+    {
+      label: "Stack",
+      options: jobStack(jobs).map((tech) => ({
+        key: tech.slug,
+        label: tech.label,
+        active: query.stack === tech.slug,
+        count: count({ ...query, stack: tech.slug }),
+        toggle: { ...query, stack: query.stack === tech.slug ? null : tech.slug },
+      })),
+    },
+  ];
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ y: 0, animated: false });
+  }, [query.discipline, query.seniority, query.workMode, query.stack]);
+
+  useEffect(() => {
+    if (Platform.OS !== "web") return;
+    const previousTitle = document.title;
+    document.title = "Careers — CraftTech";
+    return () => {
+      document.title = previousTitle;
+    };
+  }, []);
+
+  return (
+    <SafeAreaView style={styles.screen}>
+      <View style={styles.topBar}>
+        <Text style={styles.brand}>CraftTech</Text>
+        <TouchableOpacity onPress={onBack}>
+          <Text style={styles.link}>← Back to site</Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView ref={scrollRef} contentContainerStyle={[styles.content, isMobile && styles.contentMobile]}>
+        {/* HEADER */}
+        <Text style={styles.eyebrow}>Careers</Text>
+        <Text style={[styles.title, { fontSize: s(isMobile ? 28 : 36), lineHeight: s(isMobile ? 34 : 44) }]}>
+          Join the distributed product squad
+        </Text>
+        <Text style={[styles.lead, { fontSize: s(17), lineHeight: s(26) }]}>
+          We're a remote-first team of engineers, designers and product leads shipping for clients
+          across the US, Europe and the Gulf. Every role shares a few live hours a day with the
+          people we build for.
+        </Text>
+
+        {/* FILTERS */}
+        <View style={styles.filters}>
+          {facets.map((facet) => (
+            <View key={facet.label} style={[styles.facet, isMobile && styles.facetMobile]}>
+              <Text style={styles.facetLabel}>{facet.label}</Text>
+              <View style={styles.chips}>
+                {facet.options.map((option) => {
+                  const disabled = option.count === 0 && !option.active;
+                  return (
+                    <TouchableOpacity
+                      key={option.key}
+                      accessibilityState={{ selected: option.active, disabled }}
+                      disabled={disabled}
+                      style={[styles.chip, option.active && styles.chipActive, disabled && styles.chipDisabled]}
+                      onPress={() => onChangeQuery(option.toggle)}
+                    >
+                      <Text style={[styles.chipText, option.active && styles.chipTextActive]}>
+                        {option.label} <Text style={styles.chipCount}>{option.count}</Text>
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+          ))}
+        </View>
+
+        <View style={styles.resultsBar}>
+          <Text style={styles.meta}>
+            {results.length} open {results.length === 1 ? "role" : "roles"}
+          </Text>
+          {filtered && (
+            <TouchableOpacity onPress={() => onChangeQuery(EMPTY_CAREERS_QUERY)}>
+              <Text style={styles.link}>Clear filters</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {/* ROLES */}
+        {results.length === 0 ? (
+          <View style={styles.empty}>
+            <Text style={styles.emptyTitle}>
+              {jobs.length === 0 ? "No open roles right now" : "No roles match those filters"}
+            </Text>
+            <Text style={styles.emptyBody}>
+              {jobs.length === 0
+                ? "We hire a few times a year. Check back soon."
+                : "Try fewer filters — we're often flexible on seniority for the right person."}
+            </Text>
+            {filtered && (
+              <TouchableOpacity onPress={() => onChangeQuery(EMPTY_CAREERS_QUERY)}>
+                <Text style={styles.link}>See all roles</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        ) : (
+          <View style={styles.list}>
+            {results.map((job) => (
+              <TouchableOpacity
+                key={job.slug}
+                accessibilityRole="link"
+                activeOpacity={0.9}
+                style={styles.card}
+                onPress={() => onOpenJob(job.slug)}
+              >
+                <Text style={styles.cardEyebrow}>
+                  {DISCIPLINE_LABELS[job.discipline]} • {SENIORITY_LABELS[job.seniority]}
+                </Text>
+                <Text style={[styles.cardTitle, { fontSize: s(20), lineHeight: s(27) }]}>{job.role}</Text>
+                <Text style={styles.meta}>{describeWorkPattern(job)}</Text>
+                <Text style={styles.cardSummary}>{job.summary}</Text>
+                <View style={styles.stack}>
+                  {job.stack.map((tech) => (
+                    <View key={tech} style={styles.stackTag}>
+                      <Text style={styles.stackTagText}>{tech}</Text>
+                    </View>
+                  ))}
+                </View>
+                <Text style={styles.cardLink}>View role →</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+/* -----------------------------------------------------
+   STYLES
+----------------------------------------------------- */
+const styles = StyleSheet.create({
+  screen: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: COLORS.bg,
+  },
+  topBar: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  brand: {
+    color: COLORS.neon,
+    fontSize: 16,
+    fontWeight: "800",
+    letterSpacing: 0.5,
+  },
+  link: {
+    color: COLORS.neon,
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  content: {
+    width: "100%",
+    maxWidth: 960,
+    alignSelf: "center",
+    padding: 32,
+    paddingBottom: 64,
+  },
+  contentMobile: {
+    padding: 20,
+  },
+  eyebrow: {
+    color: COLORS.neon,
+    fontSize: 13,
+    fontWeight: "700",
+    letterSpacing: 1,
+    textTransform: "uppercase",
+  },
+  title: {
+    color: COLORS.text,
+    fontWeight: "700",
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  lead: {
+    color: COLORS.textMuted,
+    maxWidth: 640,
+  },
+  filters: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 20,
+    marginTop: 28,
+  },
+  facet: {
+    flexGrow: 1,
+    flexBasis: "45%",
+    minWidth: 260,
+    gap: 8,
+  },
+  facetMobile: {
+    flexBasis: "auto",
+    minWidth: 0,
+    width: "100%",
+  },
+  facetLabel: {
+    color: COLORS.textMuted,
+    fontSize: 12,
+    fontWeight: "700",
+    textTransform: "uppercase",
+    letterSpacing: 1,
+  },
+  chips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 7,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    backgroundColor: COLORS.card,
+  },
+  chipActive: {
+    backgroundColor: COLORS.neon,
+    borderColor: COLORS.neon,
+  },
+  chipDisabled: {
+    opacity: 0.4,
+  },
+  chipText: {
+    color: COLORS.textMuted,
+    fontSize: 13,
+    fontWeight: "500",
+  },
+  chipTextActive: {
+    color: COLORS.bg,
+    fontWeight: "600",
+  },
+  chipCount: {
+    fontSize: 11,
+    opacity: 0.7,
+  },
+  resultsBar: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginTop: 28,
+    marginBottom: 16,
+  },
+  meta: {
+    color: COLORS.textMuted,
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  list: {
+    gap: 16,
+  },
+  card: {
+    backgroundColor: COLORS.card,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    padding: 24,
+    gap: 8,
+  },
+  cardEyebrow: {
+    color: COLORS.neon,
+    fontSize: 12,
+    fontWeight: "700",
+    letterSpacing: 1,
+    textTransform: "uppercase",
+  },
+  cardTitle: {
+    color: COLORS.text,
+    fontWeight: "700",
+  },
+  cardSummary: {
+    color: COLORS.textMuted,
+    fontSize: 14,
+    lineHeight: 21,
+    marginTop: 4,
+  },
+  stack: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 6,
+    marginTop: 4,
+  },
+  stackTag: {
+    backgroundColor: COLORS.cardSoft,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: 999,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  stackTagText: {
+    color: COLORS.text,
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  cardLink: {
+    color: COLORS.neon,
+    fontSize: 14,
+    fontWeight: "600",
+    marginTop: 8,
+  },
+  empty: {
+    alignItems: "center",
+    gap: 12,
+    paddingVertical: 48,
+  },
+  emptyTitle: {
+    color: COLORS.text,
+    fontSize: 18,
+    fontWeight: "700",
+  },
+  emptyBody: {
+    color: COLORS.textMuted,
+    fontSize: 14,
+    textAlign: "center",
+  },
+});
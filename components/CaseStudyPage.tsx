@@ -0,0 +1,408 @@
+import React, { useEffect, useRef } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  SafeAreaView,
+  Image,
+  Platform,
+  useWindowDimensions,
+} from "react-native";
+import { adjacentProjects } from "../lib/caseStudies";
+import { CASE_STUDY_SECTIONS, PortfolioItem, Testimonial } from "../lib/contentSchema";
+import { contentImage } from "../lib/contentImages";
+import { markdownSections } from "../lib/markdown";
+import { PORTFOLIO_CATEGORY_LABELS } from "../lib/offerings";
+import { COLORS, MOBILE_BREAKPOINT, scaleFont } from "../theme";
+import { GradientView } from "./primitives";
+import { Markdown } from "./Markdown";
+
+/* -----------------------------------------------------
+   CASE STUDY PAGE
+   /work/:slug — the full story behind a portfolio card.
+   Drawn over the marketing site rather than replacing it,
+   so going back lands where the visitor left off.
+----------------------------------------------------- */
+interface CaseStudyPageProps {
+  slug: string;
+  portfolio: PortfolioItem[];
+  testimonials: Testimonial[];
+  onOpenProject: (slug: string) => void;
+  onBack: () => void;
+  onStartSimilar: (item: PortfolioItem) => void;
+}
+
+export const CaseStudyPage: React.FC<CaseStudyPageProps> = ({
+  slug,
+  portfolio,
+  testimonials,
+  onOpenProject,
+  onBack,
+  onStartSimilar,
+}) => {
+  const { width } = useWindowDimensions();
+  const s = (size: number) => scaleFont(size, width);
+  const isMobile = width < MOBILE_BREAKPOINT;
+  const scrollRef = useRef<ScrollView | null>(null);
+
+  const item = portfolio.find((p) => p.slug === slug) ?? null;
+  const { previous, next } = adjacentProjects(portfolio, slug);
+  const quote = testimonials.find((t) => t.id === item?.testimonial) ?? null;
+  const sections = item ? markdownSections(item.body) : [];
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ y: 0, animated: false });
+    if (Platform.OS !== "web") return;
+    const previousTitle = document.title;
+    document.title = item ? `${item.title} — CraftTech case study` : "Case study not found — CraftTech";
+    return () => {
+      document.title = previousTitle;
+    };
+  }, [slug, item]);
+
+  return (
+    <SafeAreaView style={styles.screen}>
+      <View style={styles.topBar}>
+        <Text style={styles.brand}>CraftTech</Text>
+        <TouchableOpacity onPress={onBack}>
+          <Text style={styles.link}>← All work</Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView ref={scrollRef} contentContainerStyle={[styles.content, isMobile && styles.contentMobile]}>
+        {!item ? (
+          <View style={styles.card}>
+            <Text style={[styles.title, { fontSize: s(26) }]}>Case study not found</Text>
+            <Text style={styles.body}>This project may have moved. Have a look at the rest of our work instead.</Text>
+          </View>
+        ) : (
+          <>
+            {/* HERO */}
+            <Text style={styles.eyebrow}>
+              {item.type} • {PORTFOLIO_CATEGORY_LABELS[item.category]} • {item.client}
+            </Text>
+            <Text style={[styles.title, { fontSize: s(isMobile ? 28 : 36), lineHeight: s(isMobile ? 34 : 44) }]}>
+              {item.title}
+            </Text>
+            <Text style={[styles.lead, { fontSize: s(17), lineHeight: s(26) }]}>{item.description}</Text>
+            <View style={styles.pills}>
+              {item.metrics.map((metric) => (
+                <View key={metric} style={styles.pill}>
+                  <Text style={styles.pillText}>{metric}</Text>
+                </View>
+              ))}
+            </View>
+            <Image source={contentImage(item.img)} style={styles.heroImage} resizeMode="cover" />
+
+            {/* CHALLENGE / APPROACH / ARCHITECTURE */}
+            {CASE_STUDY_SECTIONS.map((title) => {
+              const section = sections.find((sec) => sec.title === title);
+              return section ? (
+                <View key={title} style={styles.section}>
+                  <Text style={styles.sectionLabel}>{title}</Text>
+                  <Markdown source={section.body} fontSize={s(16)} />
+                </View>
+              ) : null;
+            })}
+
+            {/* TECH STACK */}
+            <View style={styles.section}>
+              <Text style={styles.sectionLabel}>Tech stack</Text>
+              <View style={styles.pills}>
+                {item.stack.map((tech) => (
+                  <View key={tech} style={[styles.pill, styles.stackPill]}>
+                    <Text style={styles.stackText}>{tech}</Text>
+                  </View>
+                ))}
+              </View>
+            </View>
+
+            {/* GALLERY */}
+            {item.gallery.length > 0 && (
+              <View style={styles.section}>
+                <Text style={styles.sectionLabel}>Gallery</Text>
+                <View style={[styles.gallery, isMobile && styles.galleryMobile]}>
+                  {item.gallery.map((image) => (
+                    <Image
+                      key={image}
+                      source={contentImage(image)}
+                      style={[styles.galleryImage, isMobile && styles.galleryImageMobile]}
+                      resizeMode="cover"
+                    />
+                  ))}
+                </View>
+              </View>
+            )}
+
+            {/* OUTCOMES */}
+            <View style={styles.section}>
+              <Text style={styles.sectionLabel}>Outcomes</Text>
+              {item.outcomes.map((outcome) => (
+                <View key={outcome} style={styles.outcome}>
+                  <Text style={styles.outcomeMark}>✓</Text>
+                  <Text style={[styles.body, styles.outcomeText]}>{outcome}</Text>
+                </View>
+              ))}
+            </View>
+
+            {/* CLIENT QUOTE */}
+            {quote && (
+              <View style={[styles.card, styles.section]}>
+                <Text style={styles.quoteMark}>"</Text>
+                <Text style={[styles.quote, { fontSize: s(18), lineHeight: s(28) }]}>{quote.quote}</Text>
+                <Text style={styles.quoteName}>{quote.name}</Text>
+                <Text style={styles.muted}>
+                  {quote.role}, {quote.company}
+                </Text>
+              </View>
+            )}
+
+            {/* CTA */}
+            <View style={[styles.card, styles.section, styles.cta]}>
+              <Text style={[styles.ctaTitle, { fontSize: s(22) }]}>Have something similar in mind?</Text>
+              <Text style={styles.body}>
+                We'll start your brief from this project, so you only need to tell us what's different.
+              </Text>
+              <TouchableOpacity style={styles.ctaButton} onPress={() => onStartSimilar(item)}>
+                <GradientView colors={[COLORS.neonSoft, COLORS.neon]} style={styles.ctaGradient}>
+                  <Text style={styles.ctaText}>Start a similar project</Text>
+                </GradientView>
+              </TouchableOpacity>
+            </View>
+          </>
+        )}
+
+        {/* PREVIOUS / NEXT */}
+        {previous && next && (
+          <View style={[styles.pager, isMobile && styles.pagerMobile]}>
+            <TouchableOpacity style={styles.pagerLink} onPress={() => onOpenProject(previous.slug)}>
+              <Text style={styles.muted}>← Previous project</Text>
+              <Text style={styles.pagerTitle}>{previous.title}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.pagerLink, styles.pagerNext]} onPress={() => onOpenProject(next.slug)}>
+              <Text style={styles.muted}>Next project →</Text>
+              <Text style={styles.pagerTitle}>{next.title}</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+/* -----------------------------------------------------
+   STYLES
+----------------------------------------------------- */
+const styles = StyleSheet.create({
+  screen: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: COLORS.bg,
+  },
+  topBar: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  brand: {
+    color: COLORS.neon,
+    fontSize: 16,
+    fontWeight: "800",
+    letterSpacing: 0.5,
+  },
+  link: {
+    color: COLORS.neon,
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  content: {
+    width: "100%",
+    maxWidth: 880,
+    alignSelf: "center",
+    padding: 32,
+    paddingBottom: 64,
+  },
+  contentMobile: {
+    padding: 20,
+  },
+  card: {
+    backgroundColor: COLORS.card,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    padding: 24,
+  },
+  eyebrow: {
+    color: COLORS.neon,
+    fontSize: 13,
+    fontWeight: "700",
+    letterSpacing: 1,
+    textTransform: "uppercase",
+  },
+  title: {
+    color: COLORS.text,
+    fontWeight: "700",
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  lead: {
+    color: COLORS.textMuted,
+  },
+  body: {
+    color: COLORS.text,
+    fontSize: 15,
+    lineHeight: 22,
+  },
+  muted: {
+    color: COLORS.textMuted,
+    fontSize: 13,
+    lineHeight: 20,
+  },
+  pills: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginTop: 16,
+  },
+  pill: {
+    backgroundColor: "rgba(182, 255, 51, 0.08)",
+    borderWidth: 1,
+    borderColor: "rgba(182, 255, 51, 0.3)",
+    borderRadius: 999,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  pillText: {
+    color: COLORS.neon,
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  stackPill: {
+    backgroundColor: COLORS.cardSoft,
+    borderColor: COLORS.border,
+  },
+  stackText: {
+    color: COLORS.text,
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  heroImage: {
+    width: "100%",
+    aspectRatio: 16 / 9,
+    borderRadius: 20,
+    marginTop: 28,
+    backgroundColor: COLORS.card,
+  },
+  section: {
+    marginTop: 40,
+  },
+  sectionLabel: {
+    color: COLORS.textMuted,
+    fontSize: 12,
+    fontWeight: "700",
+    textTransform: "uppercase",
+    letterSpacing: 1,
+    marginBottom: 12,
+  },
+  gallery: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 16,
+  },
+  galleryMobile: {
+    flexDirection: "column",
+  },
+  galleryImage: {
+    flexGrow: 1,
+    flexBasis: "45%",
+    aspectRatio: 4 / 3,
+    borderRadius: 16,
+    backgroundColor: COLORS.card,
+  },
+  galleryImageMobile: {
+    flexBasis: "auto",
+    width: "100%",
+  },
+  outcome: {
+    flexDirection: "row",
+    gap: 12,
+    marginBottom: 10,
+  },
+  outcomeMark: {
+    color: COLORS.neon,
+    fontSize: 16,
+    fontWeight: "800",
+  },
+  outcomeText: {
+    flex: 1,
+  },
+  quoteMark: {
+    color: COLORS.neon,
+    fontSize: 48,
+    lineHeight: 48,
+    fontWeight: "800",
+  },
+  quote: {
+    color: COLORS.text,
+    fontStyle: "italic",
+    marginBottom: 16,
+  },
+  quoteName: {
+    color: COLORS.text,
+    fontSize: 15,
+    fontWeight: "700",
+  },
+  cta: {
+    alignItems: "flex-start",
+    gap: 12,
+  },
+  ctaTitle: {
+    color: COLORS.text,
+    fontWeight: "700",
+  },
+  ctaButton: {
+    marginTop: 8,
+    borderRadius: 999,
+    overflow: "hidden",
+  },
+  ctaGradient: {
+    paddingHorizontal: 28,
+    paddingVertical: 14,
+    borderRadius: 999,
+  },
+  ctaText: {
+    color: COLORS.bg,
+    fontSize: 15,
+    fontWeight: "700",
+  },
+  pager: {
+    flexDirection: "row",
+    gap: 16,
+    marginTop: 48,
+  },
+  pagerMobile: {
+    flexDirection: "column",
+  },
+  pagerLink: {
+    flex: 1,
+    backgroundColor: COLORS.bgSoft,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: 16,
+    padding: 20,
+    gap: 4,
+  },
+  pagerNext: {
+    alignItems: "flex-end",
+  },
+  pagerTitle: {
+    color: COLORS.text,
+    fontSize: 16,
+    fontWeight: "700",
+  },
+});
@@ -0,0 +1,377 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Platform,
+  useWindowDimensions,
+} from "react-native";
+import {
+  ApplicationField,
+  ApplicationInput,
+  CV_TYPES,
+  EMPTY_APPLICATION,
+  isCvType,
+} from "../lib/applications";
+import { APPLICATION_SCHEMA } from "../lib/applicationSchema";
+import { MAX_ATTACHMENT_BYTES, formatFileSize, resolveAttachmentType } from "../lib/attachments";
+import { JobPosting } from "../lib/contentSchema";
+import { FormErrors } from "../lib/validation";
+import {
+  ApiError,
+  PreparedProof,
+  createIdempotencyKey,
+  finalizeProof,
+  pendingStamp,
+  prepareProof,
+  submitApplication,
+} from "../lib/api";
+import { ChallengeProof, formStamp } from "../lib/challenge";
+import { useForm } from "../hooks/useForm";
+import { LocalFile, useAttachmentUploads } from "../hooks/useAttachmentUploads";
+import { COLORS, MOBILE_BREAKPOINT } from "../theme";
+import { GradientView } from "./primitives";
+import { AttachmentPicker } from "./AttachmentPicker";
+
+/* -----------------------------------------------------
+   JOB APPLICATION FORM
+   The brief form's submission pattern, for candidates:
+   the shared schema inline, the CV uploaded as soon as
+   it's picked, a honeypot and proof-of-work, and an
+   idempotency key so a retry can't apply twice.
+----------------------------------------------------- */
+type SubmitStatus =
+  | { state: "idle" }
+  | { state: "submitting" }
+  | { state: "success" }
+  | { state: "error"; message: string };
+
+type TextField = Exclude<ApplicationField, "jobSlug" | "cv">;
+
+interface JobApplicationFormProps {
+  job: JobPosting;
+  onBrowseRoles: () => void;
+}
+
+export const JobApplicationForm: React.FC<JobApplicationFormProps> = ({ job, onBrowseRoles }) => {
+  const { width } = useWindowDimensions();
+  const isMobile = width < MOBILE_BREAKPOINT;
+
+  const form = useForm(APPLICATION_SCHEMA, { ...EMPTY_APPLICATION, jobSlug: job.slug });
+  const uploads = useAttachmentUploads();
+  const [cvNotice, setCvNotice] = useState<string | null>(null);
+  const [submitStatus, setSubmitStatus] = useState<SubmitStatus>({ state: "idle" });
+  const [honeypot, setHoneypot] = useState("");
+  const idempotencyKey = useRef<string | null>(null);
+  const pendingProof = useRef<Promise<PreparedProof> | null>(null);
+
+  const cvId = uploads.attachmentIds[0] ?? "";
+  const canSubmit = !uploads.busy && submitStatus.state !== "submitting";
+
+  useEffect(() => {
+    pendingProof.current = prepareProof();
+    pendingProof.current.catch(() => undefined);
+  }, []);
+
+  useEffect(() => {
+    form.setValue("cv", cvId);
+  }, [cvId]);
+
+  // One CV per application: picking another replaces it.
+  const addCv = useCallback((files: LocalFile[]) => {
+    const [file] = files;
+    if (!file) return;
+    if (!isCvType(resolveAttachmentType(file.name, file.type))) {
+      setCvNotice("Attach your CV as a PDF or Word document.");
+      return;
+    }
+    setCvNotice(null);
+    uploads.reset();
+    uploads.add([file]);
+  }, [uploads.reset, uploads.add]);
+
+  const handleSubmit = async () => {
+    if (!canSubmit || !(await form.validateAll())) return;
+
+    setSubmitStatus({ state: "submitting" });
+    // Reused across retries of the same application so the server can dedupe them.
+    const key = (idempotencyKey.current ??= createIdempotencyKey());
+    let challenge: ChallengeProof | null = null;
+    try {
+      challenge = await finalizeProof(pendingProof.current);
+      await submitApplication({ ...form.values, website: honeypot, challenge }, key);
+      idempotencyKey.current = null;
+      pendingProof.current = null; // challenges are single-use
+      form.reset();
+      uploads.reset();
+      setSubmitStatus({ state: "success" });
+    } catch (err) {
+      // The server may have spent the challenge; never reuse it, but keep its form-open time.
+      const stamp = challenge ? formStamp(challenge) : await pendingStamp(pendingProof.current);
+      pendingProof.current = prepareProof(stamp);
+      pendingProof.current.catch(() => undefined);
+      if (err instanceof ApiError && err.fields) {
+        form.setServerErrors(err.fields as FormErrors<ApplicationInput>);
+      }
+      const message = err instanceof ApiError
+        ? err.message
+        : "Something went wrong. Please try again.";
+      setSubmitStatus({ state: "error", message });
+    }
+  };
+
+  const fieldError = (field: ApplicationField) => {
+    const error = form.visibleError(field);
+    return error ? <Text style={styles.fieldError}>{error}</Text> : null;
+  };
+
+  const textInput = (field: TextField, props: React.ComponentProps<typeof TextInput> = {}) => (
+    <TextInput
+      {...props}
+      style={[styles.input, props.style, !!form.visibleError(field) && styles.inputInvalid]}
+      placeholderTextColor={COLORS.subtle}
+      value={form.values[field]}
+      onChangeText={(v) => form.setValue(field, v)}
+      onBlur={() => form.blur(field)}
+    />
+  );
+
+  if (submitStatus.state === "success") {
+    return (
+      <View style={[styles.formStatus, styles.formStatusSuccess]}>
+        <Text style={styles.formStatusTitle}>Application sent</Text>
+        <Text style={styles.formStatusBody}>
+          Thanks for applying for {job.role}. We read every application and reply within a week;
+          a copy of what you sent is on its way to your inbox.
+        </Text>
+        <TouchableOpacity style={styles.secondaryButton} onPress={onBrowseRoles}>
+          <Text style={styles.secondaryButtonText}>See other open roles</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return (
+    <View>
+      <View style={[styles.formRow, isMobile && styles.formRowMobile]}>
+        <View style={styles.formGroup}>
+          <Text style={styles.inputLabel}>{APPLICATION_SCHEMA.name.label}</Text>
+          {textInput("name", { placeholder: "Your name", autoComplete: "name" })}
+          {fieldError("name")}
+        </View>
+        <View style={styles.formGroup}>
+          <Text style={styles.inputLabel}>{APPLICATION_SCHEMA.email.label}</Text>
+          {textInput("email", {
+            placeholder: "you@example.com",
+            keyboardType: "email-address",
+            autoCapitalize: "none",
+            autoComplete: "email",
+          })}
+          {fieldError("email")}
+        </View>
+      </View>
+
+      {Platform.OS === "web" && (
+        // Honeypot: off-screen and unlabelled for people, a free-text field to bots.
+        <View style={styles.honeypot} aria-hidden>
+          <TextInput
+            value={honeypot}
+            onChangeText={setHoneypot}
+            placeholder="Website"
+            autoComplete="off"
+            {...({ tabIndex: -1, name: "website" } as object)}
+          />
+        </View>
+      )}
+
+      <View style={[styles.formRow, isMobile && styles.formRowMobile]}>
+        <View style={styles.formGroup}>
+          <Text style={styles.inputLabel}>{APPLICATION_SCHEMA.location.label}</Text>
+          {textInput("location", { placeholder: "e.g. Karachi, UTC+5" })}
+          {fieldError("location") ?? <Text style={styles.hint}>This role works {job.timezones}.</Text>}
+        </View>
+        <View style={styles.formGroup}>
+          <Text style={styles.inputLabel}>{APPLICATION_SCHEMA.portfolioUrl.label} (optional)</Text>
+          {textInput("portfolioUrl", { placeholder: "https://", autoCapitalize: "none", keyboardType: "url" })}
+          {fieldError("portfolioUrl")}
+        </View>
+      </View>
+
+      <View style={styles.formGroup}>
+        <Text style={styles.inputLabel}>{APPLICATION_SCHEMA.coverLetter.label}</Text>
+        {textInput("coverLetter", {
+          placeholder: "What you've built, what you'd like to build next, and why CraftTech…",
+          multiline: true,
+          numberOfLines: 5,
+          style: styles.textarea,
+        })}
+        {fieldError("coverLetter")}
+      </View>
+
+      <View style={styles.formGroup}>
+        <Text style={styles.inputLabel}>{APPLICATION_SCHEMA.cv.label}</Text>
+        <AttachmentPicker
+          items={uploads.items}
+          onAdd={addCv}
+          onRemove={uploads.remove}
+          what="your CV"
+          hint={`PDF or Word • one file, up to ${formatFileSize(MAX_ATTACHMENT_BYTES)}`}
+          types={CV_TYPES}
+          multiple={false}
+        />
+        {cvNotice ? <Text style={styles.fieldError}>{cvNotice}</Text> : fieldError("cv")}
+      </View>
+
+      <TouchableOpacity
+        style={[styles.submitButton, isMobile && styles.submitButtonMobile, !canSubmit && styles.submitButtonDisabled]}
+        onPress={handleSubmit}
+        disabled={!canSubmit}
+      >
+        <GradientView colors={[COLORS.neonSoft, COLORS.neon]} style={styles.submitGradient}>
+          <Text style={styles.submitButtonText}>
+            {uploads.busy
+              ? "Uploading…"
+              : submitStatus.state === "submitting"
+                ? "Sending…"
+                : "Send application"}
+          </Text>
+        </GradientView>
+      </TouchableOpacity>
+
+      {submitStatus.state === "error" && (
+        <View style={[styles.formStatus, styles.formStatusError]}>
+          <Text style={styles.formStatusTitle}>We couldn't send your application</Text>
+          <Text style={styles.formStatusBody}>{submitStatus.message}</Text>
+        </View>
+      )}
+    </View>
+  );
+};
+
+/* -----------------------------------------------------
+   STYLES
+----------------------------------------------------- */
+const styles = StyleSheet.create({
+  formRow: {
+    flexDirection: "row",
+    gap: 16,
+  },
+  formRowMobile: {
+    flexDirection: "column",
+    gap: 0,
+  },
+  formGroup: {
+    flex: 1,
+    marginBottom: 16,
+  },
+  inputLabel: {
+    color: COLORS.text,
+    fontSize: 14,
+    fontWeight: "600",
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: COLORS.bgSoft,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    color: COLORS.text,
+    fontSize: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    minHeight: 48,
+  },
+  inputInvalid: {
+    borderColor: COLORS.danger,
+  },
+  fieldError: {
+    color: COLORS.danger,
+    fontSize: 13,
+    fontWeight: "500",
+    marginTop: 6,
+  },
+  hint: {
+    color: COLORS.textMuted,
+    fontSize: 13,
+    marginTop: 6,
+  },
+  honeypot: {
+    position: "absolute",
+    left: -10000,
+    width: 1,
+    height: 1,
+    overflow: "hidden",
+    opacity: 0,
+  },
+  textarea: {
+    height: 140,
+    minHeight: 140,
+    textAlignVertical: "top",
+  },
+  submitButton: {
+    alignSelf: "flex-start",
+    borderRadius: 12,
+    overflow: "hidden",
+    minHeight: 56,
+    minWidth: 200,
+    marginTop: 8,
+  },
+  submitButtonMobile: {
+    alignSelf: "stretch",
+  },
+  submitButtonDisabled: {
+    opacity: 0.6,
+  },
+  submitGradient: {
+    paddingVertical: 16,
+    paddingHorizontal: 24,
+    alignItems: "center",
+    minHeight: 56,
+  },
+  submitButtonText: {
+    color: COLORS.text,
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  secondaryButton: {
+    alignSelf: "flex-start",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    paddingHorizontal: 24,
+    paddingVertical: 14,
+    marginTop: 16,
+  },
+  secondaryButtonText: {
+    color: COLORS.text,
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  formStatus: {
+    marginTop: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    padding: 16,
+  },
+  formStatusSuccess: {
+    backgroundColor: "rgba(182,255,51,0.08)",
+    borderColor: COLORS.neon,
+  },
+  formStatusError: {
+    backgroundColor: "rgba(255,99,99,0.08)",
+    borderColor: COLORS.danger,
+  },
+  formStatusTitle: {
+    color: COLORS.text,
+    fontSize: 15,
+    fontWeight: "700",
+    marginBottom: 4,
+  },
+  formStatusBody: {
+    color: COLORS.textMuted,
+    fontSize: 14,
+    lineHeight: 20,
+  },
+});
@@ -0,0 +1,344 @@
+import React, { useEffect, useRef } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  SafeAreaView,
+  Platform,
+  useWindowDimensions,
+} from "react-native";
+import { formatPostDate } from "../lib/blog";
+import {
+  DISCIPLINE_LABELS,
+  SENIORITY_LABELS,
+  WORK_MODE_LABELS,
+  describeWorkPattern,
+  otherJobs,
+} from "../lib/careers";
+import { JobPosting } from "../lib/contentSchema";
+import { COLORS, MOBILE_BREAKPOINT, scaleFont } from "../theme";
+import { JobApplicationForm } from "./JobApplicationForm";
+
+/* -----------------------------------------------------
+   JOB PAGE
+   /careers/:slug — one open role: the working pattern,
+   what the job involves and asks for, and the application
+   form underneath.
+----------------------------------------------------- */
+interface JobPageProps {
+  slug: string;
+  jobs: JobPosting[];
+  onOpenJob: (slug: string) => void;
+  onBack: () => void; // to /careers
+}
+
+export const JobPage: React.FC<JobPageProps> = ({ slug, jobs, onOpenJob, onBack }) => {
+  const { width } = useWindowDimensions();
+  const s = (size: number) => scaleFont(size, width);
+  const isMobile = width < MOBILE_BREAKPOINT;
+  const scrollRef = useRef<ScrollView | null>(null);
+
+  const job = jobs.find((j) => j.slug === slug) ?? null;
+  const others = job ? otherJobs(jobs, job) : [];
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ y: 0, animated: false });
+    if (Platform.OS !== "web") return;
+    const previousTitle = document.title;
+    document.title = job ? `${job.role} — CraftTech Careers` : "Role not found — CraftTech";
+    return () => {
+      document.title = previousTitle;
+    };
+  }, [slug, job]);
+
+  const list = (label: string, items: string[]) =>
+    items.length > 0 && (
+      <View style={styles.section}>
+        <Text style={styles.sectionLabel}>{label}</Text>
+        {items.map((item) => (
+          <View key={item} style={styles.bullet}>
+            <Text style={styles.bulletMark}>•</Text>
+            <Text style={styles.bulletText}>{item}</Text>
+          </View>
+        ))}
+      </View>
+    );
+
+  return (
+    <SafeAreaView style={styles.screen}>
+      <View style={styles.topBar}>
+        <Text style={styles.brand}>CraftTech</Text>
+        <TouchableOpacity onPress={onBack}>
+          <Text style={styles.link}>← All roles</Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView ref={scrollRef} contentContainerStyle={[styles.content, isMobile && styles.contentMobile]}>
+        {!job ? (
+          <View style={styles.card}>
+            <Text style={[styles.title, { fontSize: s(26) }]}>Role not found</Text>
+            <Text style={styles.body}>This role has closed or been renamed. Every open role is on the Careers page.</Text>
+          </View>
+        ) : (
+          <>
+            {/* HEADER */}
+            <Text style={styles.eyebrow}>
+              {DISCIPLINE_LABELS[job.discipline]} • {SENIORITY_LABELS[job.seniority]}
+            </Text>
+            <Text style={[styles.title, { fontSize: s(isMobile ? 28 : 38), lineHeight: s(isMobile ? 34 : 46) }]}>
+              {job.role}
+            </Text>
+            <Text style={[styles.lead, { fontSize: s(18), lineHeight: s(28) }]}>{job.summary}</Text>
+            <Text style={[styles.meta, styles.byline]}>{describeWorkPattern(job)}</Text>
+
+            {/* FACTS */}
+            <View style={[styles.facts, isMobile && styles.factsMobile]}>
+              {[
+                { label: "Work mode", value: WORK_MODE_LABELS[job.workMode] },
+                { label: "Time zones", value: job.timezones },
+                { label: "Overlap", value: `${job.overlapHours}h a day with US Eastern` },
+                { label: "Compensation", value: job.compensation },
+                { label: "Posted", value: formatPostDate(job.posted) },
+              ].map((fact) => (
+                <View key={fact.label} style={styles.fact}>
+                  <Text style={styles.factLabel}>{fact.label}</Text>
+                  <Text style={styles.factValue}>{fact.value}</Text>
+                </View>
+              ))}
+            </View>
+
+            {/* STACK */}
+            <View style={styles.tags}>
+              {job.stack.map((tech) => (
+                <View key={tech} style={styles.tag}>
+                  <Text style={styles.tagText}>{tech}</Text>
+                </View>
+              ))}
+            </View>
+
+            {list("What you'll do", job.responsibilities)}
+            {list("What we're looking for", job.requirements)}
+            {list("Nice to have", job.niceToHave)}
+
+            {/* APPLY */}
+            <View style={[styles.card, styles.section]}>
+              <Text style={[styles.applyTitle, { fontSize: s(22) }]}>Apply for this role</Text>
+              <Text style={[styles.body, styles.applyBody]}>
+                A CV and a few lines on why this role is enough — no cover-letter essays.
+              </Text>
+              <JobApplicationForm key={job.slug} job={job} onBrowseRoles={onBack} />
+            </View>
+
+            {/* OTHER ROLES */}
+            {others.length > 0 && (
+              <View style={styles.section}>
+                <Text style={styles.sectionLabel}>Other open roles</Text>
+                <View style={[styles.related, isMobile && styles.relatedMobile]}>
+                  {others.map((other) => (
+                    <TouchableOpacity
+                      key={other.slug}
+                      accessibilityRole="link"
+                      style={styles.relatedCard}
+                      onPress={() => onOpenJob(other.slug)}
+                    >
+                      <Text style={styles.meta}>
+                        {SENIORITY_LABELS[other.seniority]} • {WORK_MODE_LABELS[other.workMode]}
+                      </Text>
+                      <Text style={styles.relatedTitle}>{other.role}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+            )}
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+/* -----------------------------------------------------
+   STYLES
+----------------------------------------------------- */
+const styles = StyleSheet.create({
+  screen: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: COLORS.bg,
+  },
+  topBar: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  brand: {
+    color: COLORS.neon,
+    fontSize: 16,
+    fontWeight: "800",
+    letterSpacing: 0.5,
+  },
+  link: {
+    color: COLORS.neon,
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  content: {
+    width: "100%",
+    maxWidth: 820,
+    alignSelf: "center",
+    padding: 32,
+    paddingBottom: 64,
+  },
+  contentMobile: {
+    padding: 20,
+  },
+  card: {
+    backgroundColor: COLORS.card,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    padding: 24,
+  },
+  eyebrow: {
+    color: COLORS.neon,
+    fontSize: 13,
+    fontWeight: "700",
+    letterSpacing: 1,
+    textTransform: "uppercase",
+  },
+  title: {
+    color: COLORS.text,
+    fontWeight: "700",
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  lead: {
+    color: COLORS.textMuted,
+  },
+  meta: {
+    color: COLORS.textMuted,
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  byline: {
+    marginTop: 16,
+  },
+  body: {
+    color: COLORS.text,
+    fontSize: 15,
+    lineHeight: 22,
+  },
+  facts: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 12,
+    marginTop: 28,
+  },
+  factsMobile: {
+    flexDirection: "column",
+  },
+  fact: {
+    flexGrow: 1,
+    flexBasis: "30%",
+    minWidth: 180,
+    backgroundColor: COLORS.bgSoft,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: 16,
+    padding: 16,
+    gap: 4,
+  },
+  factLabel: {
+    color: COLORS.subtle,
+    fontSize: 12,
+    fontWeight: "600",
+    textTransform: "uppercase",
+    letterSpacing: 0.5,
+  },
+  factValue: {
+    color: COLORS.text,
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  tags: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginTop: 20,
+  },
+  tag: {
+    backgroundColor: COLORS.cardSoft,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: 999,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  tagText: {
+    color: COLORS.text,
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  section: {
+    marginTop: 40,
+  },
+  sectionLabel: {
+    color: COLORS.textMuted,
+    fontSize: 12,
+    fontWeight: "700",
+    textTransform: "uppercase",
+    letterSpacing: 1,
+    marginBottom: 12,
+  },
+  bullet: {
+    flexDirection: "row",
+    gap: 10,
+    marginBottom: 8,
+  },
+  bulletMark: {
+    color: COLORS.neon,
+    fontSize: 15,
+    lineHeight: 22,
+  },
+  bulletText: {
+    flex: 1,
+    color: COLORS.text,
+    fontSize: 15,
+    lineHeight: 22,
+  },
+  applyTitle: {
+    color: COLORS.text,
+    fontWeight: "700",
+  },
+  applyBody: {
+    color: COLORS.textMuted,
+    marginTop: 6,
+    marginBottom: 20,
+  },
+  related: {
+    flexDirection: "row",
+    gap: 16,
+  },
+  relatedMobile: {
+    flexDirection: "column",
+  },
+  relatedCard: {
+    flex: 1,
+    backgroundColor: COLORS.bgSoft,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: 16,
+    padding: 20,
+  },
+  relatedTitle: {
+    color: COLORS.text,
+    fontSize: 16,
+    fontWeight: "700",
+    marginTop: 6,
+  },
+});
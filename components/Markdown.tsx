@@ -0,0 +1,148 @@
+import React from "react";
+import { View, Text, StyleSheet, Linking, StyleProp, TextStyle } from "react-native";
+import { appHistory } from "../lib/history";
+import { MarkdownInline, parseMarkdown } from "../lib/markdown";
+import { COLORS } from "../theme";
+
+/* -----------------------------------------------------
+   MARKDOWN
+   Draws content bodies with native Text, so the same copy
+   renders on web, iOS and Android. Site paths ("/work/…")
+   navigate in-app; anything else opens externally.
+----------------------------------------------------- */
+interface MarkdownProps {
+  source: string;
+  fontSize?: number;
+  textStyle?: StyleProp<TextStyle>;
+}
+
+const openLink = (href: string) => {
+  if (href.startsWith("/")) appHistory.push(href);
+  else Linking.openURL(href);
+};
+
+const Inlines: React.FC<{ inlines: MarkdownInline[] }> = ({ inlines }) => (
+  <>
+    {inlines.map((inline, index) => {
+      switch (inline.kind) {
+        case "strong":
+          return <Text key={index} style={styles.strong}>{inline.text}</Text>;
+        case "em":
+          return <Text key={index} style={styles.em}>{inline.text}</Text>;
+        case "code":
+          return <Text key={index} style={styles.code}>{inline.text}</Text>;
+        case "link":
+          return (
+            <Text key={index} style={styles.link} onPress={() => openLink(inline.href)}>
+              {inline.text}
+            </Text>
+          );
+        default:
+          return inline.text;
+      }
+    })}
+  </>
+);
+
+export const Markdown: React.FC<MarkdownProps> = ({ source, fontSize = 16, textStyle }) => {
+  const text = [styles.text, { fontSize, lineHeight: Math.round(fontSize * 1.6) }, textStyle];
+
+  return (
+    <View>
+      {parseMarkdown(source).map((block, index) => {
+        switch (block.kind) {
+          case "heading":
+            return (
+              <Text
+                key={index}
+                style={[styles.heading, { fontSize: fontSize * (block.level === 2 ? 1.4 : 1.15) }]}
+              >
+                {block.text}
+              </Text>
+            );
+          case "list":
+            return (
+              <View key={index} style={styles.block}>
+                {block.items.map((item, i) => (
+                  <View key={i} style={styles.listItem}>
+                    <Text style={[text, styles.bullet]}>{block.ordered ? `${i + 1}.` : "•"}</Text>
+                    <Text style={[text, styles.listText]}>
+                      <Inlines inlines={item} />
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            );
+          case "quote":
+            return (
+              <View key={index} style={[styles.block, styles.quote]}>
+                <Text style={[text, styles.quoteText]}>
+                  <Inlines inlines={block.inlines} />
+                </Text>
+              </View>
+            );
+          default:
+            return (
+              <Text key={index} style={[text, styles.block]}>
+                <Inlines inlines={block.inlines} />
+              </Text>
+            );
+        }
+      })}
+    </View>
+  );
+};
+
+/* -----------------------------------------------------
+   STYLES
+----------------------------------------------------- */
+const styles = StyleSheet.create({
+  text: {
+    color: COLORS.textMuted,
+  },
+  block: {
+    marginBottom: 16,
+  },
+  heading: {
+    color: COLORS.text,
+    fontWeight: "700",
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  strong: {
+    color: COLORS.text,
+    fontWeight: "700",
+  },
+  em: {
+    fontStyle: "italic",
+  },
+  code: {
+    fontFamily: "monospace",
+    color: COLORS.neonSoft,
+  },
+  link: {
+    color: COLORS.neon,
+    textDecorationLine: "underline",
+  },
+  listItem: {
+    flexDirection: "row",
+    gap: 10,
+    marginBottom: 6,
+  },
+  bullet: {
+    color: COLORS.neon,
+    minWidth: 14,
+  },
+  listText: {
+    flex: 1,
+  },
+  quote: {
+    borderLeftWidth: 3,
+    borderLeftColor: COLORS.neon,
+    paddingLeft: 16,
+  },
+  quoteText: {
+    color: COLORS.text,
+    fontStyle: "italic",
+  },
+});
@@ -0,0 +1,219 @@
+import React, { useState } from "react";
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, useWindowDimensions } from "react-native";
+import {
+  EMPTY_PORTFOLIO_QUERY,
+  PORTFOLIO_FACETS,
+  PORTFOLIO_FACET_LABELS,
+  PortfolioQuery,
+  PortfolioSearchResult,
+  isQueryEmpty,
+  toggleFacetValue,
+} from "../lib/portfolioSearch";
+import { COLORS, MOBILE_BREAKPOINT } from "../theme";
+
+/* -----------------------------------------------------
+   PORTFOLIO FILTERS
+   Search box and facet chips for the Work section. Each
+   chip shows how many projects it would leave; chips that
+   would leave none are disabled. On phones the facets fold
+   away behind a "Filters" toggle.
+----------------------------------------------------- */
+interface PortfolioFiltersProps {
+  query: PortfolioQuery;
+  facets: PortfolioSearchResult["facets"];
+  resultCount: number;
+  total: number;
+  onChange: (query: PortfolioQuery) => void;
+}
+
+export const PortfolioFilters: React.FC<PortfolioFiltersProps> = ({ query, facets, resultCount, total, onChange }) => {
+  const { width } = useWindowDimensions();
+  const isMobile = width < MOBILE_BREAKPOINT;
+  const [expanded, setExpanded] = useState(false);
+  const activeCount = PORTFOLIO_FACETS.reduce((sum, facet) => sum + query[facet].length, 0);
+  const showFacets = !isMobile || expanded;
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.searchRow, isMobile && styles.searchRowMobile]}>
+        <TextInput
+          style={styles.search}
+          value={query.q}
+          onChangeText={(q) => onChange({ ...query, q })}
+          placeholder="Search projects, e.g. dashboard or HIPAA"
+          placeholderTextColor={COLORS.subtle}
+          accessibilityLabel="Search projects"
+          returnKeyType="search"
+        />
+        {isMobile && (
+          <TouchableOpacity
+            style={[styles.toggle, activeCount > 0 && styles.toggleActive]}
+            onPress={() => setExpanded((open) => !open)}
+          >
+            <Text style={[styles.toggleText, activeCount > 0 && styles.toggleTextActive]}>
+              Filters{activeCount > 0 ? ` (${activeCount})` : ""}
+            </Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {showFacets &&
+        PORTFOLIO_FACETS.map((facet) => (
+          <View key={facet} style={[styles.facet, isMobile && styles.facetMobile]}>
+            <Text style={[styles.facetLabel, isMobile && styles.facetLabelMobile]}>{PORTFOLIO_FACET_LABELS[facet]}</Text>
+            <View style={styles.chips}>
+              {facets[facet].map((option) => {
+                const disabled = option.count === 0 && !option.selected;
+                return (
+                  <TouchableOpacity
+                    key={option.value}
+                    disabled={disabled}
+                    accessibilityState={{ selected: option.selected, disabled }}
+                    style={[styles.chip, option.selected && styles.chipActive, disabled && styles.chipDisabled]}
+                    onPress={() => onChange(toggleFacetValue(query, facet, option.value))}
+                  >
+                    <Text style={[styles.chipText, option.selected && styles.chipTextActive]}>
+                      {option.label} <Text style={styles.chipCount}>{option.count}</Text>
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+        ))}
+
+      <View style={styles.summary}>
+        <Text style={styles.summaryText}>
+          {isQueryEmpty(query) ? `${total} projects` : `${resultCount} of ${total} projects`}
+        </Text>
+        {!isQueryEmpty(query) && (
+          <TouchableOpacity onPress={() => onChange(EMPTY_PORTFOLIO_QUERY)}>
+            <Text style={styles.clear}>Clear filters</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </View>
+  );
+};
+
+/* -----------------------------------------------------
+   STYLES
+----------------------------------------------------- */
+const styles = StyleSheet.create({
+  container: {
+    width: "100%",
+    maxWidth: 960,
+    alignSelf: "center",
+    marginBottom: 32,
+  },
+  searchRow: {
+    flexDirection: "row",
+    gap: 12,
+    marginBottom: 20,
+  },
+  searchRowMobile: {
+    marginBottom: 12,
+  },
+  search: {
+    flex: 1,
+    backgroundColor: COLORS.card,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: 999,
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    color: COLORS.text,
+    fontSize: 15,
+  },
+  toggle: {
+    justifyContent: "center",
+    paddingHorizontal: 16,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    backgroundColor: COLORS.card,
+  },
+  toggleActive: {
+    borderColor: COLORS.neon,
+  },
+  toggleText: {
+    color: COLORS.textMuted,
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  toggleTextActive: {
+    color: COLORS.neon,
+  },
+  facet: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: 16,
+    marginBottom: 12,
+  },
+  facetMobile: {
+    flexDirection: "column",
+    gap: 8,
+  },
+  facetLabel: {
+    width: 110,
+    paddingTop: 8,
+    color: COLORS.textMuted,
+    fontSize: 12,
+    fontWeight: "700",
+    textTransform: "uppercase",
+    letterSpacing: 1,
+  },
+  facetLabelMobile: {
+    width: "auto",
+    paddingTop: 0,
+  },
+  chips: {
+    flex: 1,
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 7,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    backgroundColor: COLORS.card,
+  },
+  chipActive: {
+    backgroundColor: COLORS.neon,
+    borderColor: COLORS.neon,
+  },
+  chipDisabled: {
+    opacity: 0.4,
+  },
+  chipText: {
+    color: COLORS.textMuted,
+    fontSize: 13,
+    fontWeight: "500",
+  },
+  chipTextActive: {
+    color: COLORS.bg,
+    fontWeight: "600",
+  },
+  chipCount: {
+    fontSize: 11,
+    opacity: 0.7,
+  },
+  summary: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginTop: 8,
+  },
+  summaryText: {
+    color: COLORS.textMuted,
+    fontSize: 13,
+  },
+  clear: {
+    color: COLORS.neon,
+    fontSize: 13,
+    fontWeight: "600",
+  },
+});
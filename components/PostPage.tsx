@@ -0,0 +1,290 @@
+import React, { useEffect, useRef } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  SafeAreaView,
+  Image,
+  Platform,
+  useWindowDimensions,
+} from "react-native";
+import { formatPostDate, readingTime, relatedPosts, tagSlug } from "../lib/blog";
+import { BlogPost } from "../lib/contentSchema";
+import { contentImage } from "../lib/contentImages";
+import { COLORS, MOBILE_BREAKPOINT, scaleFont } from "../theme";
+import { GradientView } from "./primitives";
+import { Markdown } from "./Markdown";
+
+/* -----------------------------------------------------
+   POST PAGE
+   /insights/:slug — one article, set in the site's type
+   scale, with its tags and a few related posts.
+----------------------------------------------------- */
+interface PostPageProps {
+  slug: string;
+  posts: BlogPost[];
+  onOpenPost: (slug: string) => void;
+  onOpenTag: (tag: string) => void; // a tag slug
+  onBack: () => void;
+  onContact: () => void;
+}
+
+export const PostPage: React.FC<PostPageProps> = ({ slug, posts, onOpenPost, onOpenTag, onBack, onContact }) => {
+  const { width } = useWindowDimensions();
+  const s = (size: number) => scaleFont(size, width);
+  const isMobile = width < MOBILE_BREAKPOINT;
+  const scrollRef = useRef<ScrollView | null>(null);
+
+  const post = posts.find((p) => p.slug === slug) ?? null;
+  const related = post ? relatedPosts(posts, post) : [];
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ y: 0, animated: false });
+    if (Platform.OS !== "web") return;
+    const previousTitle = document.title;
+    document.title = post ? `${post.title} — CraftTech Insights` : "Post not found — CraftTech";
+    return () => {
+      document.title = previousTitle;
+    };
+  }, [slug, post]);
+
+  return (
+    <SafeAreaView style={styles.screen}>
+      <View style={styles.topBar}>
+        <Text style={styles.brand}>CraftTech</Text>
+        <TouchableOpacity onPress={onBack}>
+          <Text style={styles.link}>← All insights</Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView ref={scrollRef} contentContainerStyle={[styles.content, isMobile && styles.contentMobile]}>
+        {!post ? (
+          <View style={styles.card}>
+            <Text style={[styles.title, { fontSize: s(26) }]}>Post not found</Text>
+            <Text style={styles.body}>It may have been renamed. The rest of our writing is on the Insights page.</Text>
+          </View>
+        ) : (
+          <>
+            {/* HEADER */}
+            <Text style={styles.eyebrow}>{post.tags.join(" • ")}</Text>
+            <Text style={[styles.title, { fontSize: s(isMobile ? 28 : 38), lineHeight: s(isMobile ? 34 : 46) }]}>
+              {post.title}
+            </Text>
+            <Text style={[styles.lead, { fontSize: s(18), lineHeight: s(28) }]}>{post.summary}</Text>
+            <Text style={[styles.meta, styles.byline]}>
+              {post.author} • {formatPostDate(post.date)} • {readingTime(post.body)} min read
+            </Text>
+            <Image source={contentImage(post.hero)} style={styles.heroImage} resizeMode="cover" />
+
+            {/* ARTICLE */}
+            <View style={styles.article}>
+              <Markdown source={post.body} fontSize={s(17)} />
+            </View>
+
+            {/* TAGS */}
+            <View style={styles.tags}>
+              {post.tags.map((tag) => (
+                <TouchableOpacity key={tag} style={styles.tag} onPress={() => onOpenTag(tagSlug(tag))}>
+                  <Text style={styles.tagText}>{tag}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {/* CTA */}
+            <View style={[styles.card, styles.section, styles.cta]}>
+              <Text style={[styles.ctaTitle, { fontSize: s(22) }]}>Building something like this?</Text>
+              <Text style={styles.body}>Tell us about your project and we'll reply within one business day.</Text>
+              <TouchableOpacity style={styles.ctaButton} onPress={onContact}>
+                <GradientView colors={[COLORS.neonSoft, COLORS.neon]} style={styles.ctaGradient}>
+                  <Text style={styles.ctaText}>Start your project</Text>
+                </GradientView>
+              </TouchableOpacity>
+            </View>
+
+            {/* RELATED POSTS */}
+            {related.length > 0 && (
+              <View style={styles.section}>
+                <Text style={styles.sectionLabel}>Keep reading</Text>
+                <View style={[styles.related, isMobile && styles.relatedMobile]}>
+                  {related.map((other) => (
+                    <TouchableOpacity
+                      key={other.slug}
+                      accessibilityRole="link"
+                      style={styles.relatedCard}
+                      onPress={() => onOpenPost(other.slug)}
+                    >
+                      <Text style={styles.meta}>{readingTime(other.body)} min read</Text>
+                      <Text style={styles.relatedTitle}>{other.title}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+            )}
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+/* -----------------------------------------------------
+   STYLES
+----------------------------------------------------- */
+const styles = StyleSheet.create({
+  screen: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: COLORS.bg,
+  },
+  topBar: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  brand: {
+    color: COLORS.neon,
+    fontSize: 16,
+    fontWeight: "800",
+    letterSpacing: 0.5,
+  },
+  link: {
+    color: COLORS.neon,
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  content: {
+    width: "100%",
+    maxWidth: 760,
+    alignSelf: "center",
+    padding: 32,
+    paddingBottom: 64,
+  },
+  contentMobile: {
+    padding: 20,
+  },
+  card: {
+    backgroundColor: COLORS.card,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    padding: 24,
+  },
+  eyebrow: {
+    color: COLORS.neon,
+    fontSize: 13,
+    fontWeight: "700",
+    letterSpacing: 1,
+    textTransform: "uppercase",
+  },
+  title: {
+    color: COLORS.text,
+    fontWeight: "700",
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  lead: {
+    color: COLORS.textMuted,
+  },
+  meta: {
+    color: COLORS.textMuted,
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  byline: {
+    marginTop: 16,
+  },
+  body: {
+    color: COLORS.text,
+    fontSize: 15,
+    lineHeight: 22,
+  },
+  heroImage: {
+    width: "100%",
+    aspectRatio: 16 / 9,
+    borderRadius: 20,
+    marginTop: 28,
+    backgroundColor: COLORS.card,
+  },
+  article: {
+    marginTop: 32,
+  },
+  tags: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginTop: 32,
+  },
+  tag: {
+    backgroundColor: COLORS.cardSoft,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: 999,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  tagText: {
+    color: COLORS.text,
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  section: {
+    marginTop: 40,
+  },
+  sectionLabel: {
+    color: COLORS.textMuted,
+    fontSize: 12,
+    fontWeight: "700",
+    textTransform: "uppercase",
+    letterSpacing: 1,
+    marginBottom: 12,
+  },
+  cta: {
+    alignItems: "flex-start",
+    gap: 12,
+  },
+  ctaTitle: {
+    color: COLORS.text,
+    fontWeight: "700",
+  },
+  ctaButton: {
+    marginTop: 8,
+    borderRadius: 999,
+    overflow: "hidden",
+  },
+  ctaGradient: {
+    paddingHorizontal: 28,
+    paddingVertical: 14,
+    borderRadius: 999,
+  },
+  ctaText: {
+    color: COLORS.bg,
+    fontSize: 15,
+    fontWeight: "700",
+  },
+  related: {
+    flexDirection: "row",
+    gap: 16,
+  },
+  relatedMobile: {
+    flexDirection: "column",
+  },
+  relatedCard: {
+    flex: 1,
+    backgroundColor: COLORS.bgSoft,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: 16,
+    padding: 20,
+  },
+  relatedTitle: {
+    color: COLORS.text,
+    fontSize: 16,
+    fontWeight: "700",
+    marginTop: 6,
+  },
+});
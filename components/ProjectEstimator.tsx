@@ -0,0 +1,334 @@
+import React, { useMemo, useState } from "react";
+import { View, Text, StyleSheet, TouchableOpacity, useWindowDimensions } from "react-native";
+import type { BriefInput } from "../lib/briefs";
+import { formatBudgetRange } from "../lib/budget";
+import {
+  DESIGN_DEPTH_OPTIONS,
+  DEFAULT_SELECTION,
+  EstimateOption,
+  EstimateSelection,
+  FEATURE_OPTIONS,
+  INTEGRATION_OPTIONS,
+  PLATFORM_OPTIONS,
+  briefFromEstimate,
+  estimateProject,
+} from "../lib/estimate";
+import { COLORS, MOBILE_BREAKPOINT, scaleFont } from "../theme";
+import { GradientView } from "./primitives";
+
+/* -----------------------------------------------------
+   PROJECT ESTIMATOR
+   Lets a visitor price a rough scope, then carries the
+   result into the brief wizard.
+----------------------------------------------------- */
+interface ProjectEstimatorProps {
+  onPrefill: (brief: Partial<BriefInput>) => void;
+}
+
+type ListKey = "platforms" | "features" | "integrations";
+
+const PHASE_COLORS = [COLORS.accent, COLORS.neonSoft, COLORS.neon, COLORS.textMuted];
+
+export const ProjectEstimator: React.FC<ProjectEstimatorProps> = ({ onPrefill }) => {
+  const { width } = useWindowDimensions();
+  const s = (size: number) => scaleFont(size, width);
+  const isMobile = width < MOBILE_BREAKPOINT;
+
+  const [selection, setSelection] = useState<EstimateSelection>(DEFAULT_SELECTION);
+  const estimate = useMemo(() => estimateProject(selection), [selection]);
+  const hasPlatform = selection.platforms.length > 0;
+
+  const toggle = (key: ListKey, id: string) =>
+    setSelection((prev) => {
+      const current = prev[key] as string[];
+      const next = current.includes(id) ? current.filter((v) => v !== id) : [...current, id];
+      return { ...prev, [key]: next };
+    });
+
+  const chipGroup = (title: string, key: ListKey, options: EstimateOption[]) => (
+    <View style={styles.group}>
+      <Text style={styles.groupTitle}>{title}</Text>
+      <View style={styles.chipRow}>
+        {options.map((option) => {
+          const active = (selection[key] as string[]).includes(option.id);
+          return (
+            <TouchableOpacity
+              key={option.id}
+              style={[styles.chip, active && styles.chipActive]}
+              onPress={() => toggle(key, option.id)}
+              accessibilityLabel={`${option.label}: ${option.hint}`}
+            >
+              <Text style={[styles.chipText, active && styles.chipTextActive]}>{option.label}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+
+  return (
+    <View style={[styles.container, isMobile && styles.containerMobile]}>
+      {/* OPTIONS */}
+      <View style={styles.options}>
+        <Text style={styles.label}>Estimator</Text>
+        <Text style={[styles.title, { fontSize: s(24) }]}>What would it cost?</Text>
+        <Text style={styles.body}>
+          Pick what you have in mind for a ballpark budget and how the weeks split across our process.
+        </Text>
+
+        {chipGroup("Platforms", "platforms", PLATFORM_OPTIONS)}
+        {chipGroup("Features", "features", FEATURE_OPTIONS)}
+
+        <View style={styles.group}>
+          <Text style={styles.groupTitle}>Design depth</Text>
+          <View style={[styles.depthRow, isMobile && styles.depthRowMobile]}>
+            {DESIGN_DEPTH_OPTIONS.map((option) => {
+              const active = selection.designDepth === option.id;
+              return (
+                <TouchableOpacity
+                  key={option.id}
+                  style={[styles.depth, active && styles.chipActive]}
+                  onPress={() => setSelection((prev) => ({ ...prev, designDepth: option.id }))}
+                >
+                  <Text style={[styles.depthLabel, active && styles.chipTextActive]}>{option.label}</Text>
+                  <Text style={styles.depthHint}>{option.hint}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+
+        {chipGroup("Integrations", "integrations", INTEGRATION_OPTIONS)}
+      </View>
+
+      {/* RESULT */}
+      <View style={[styles.result, isMobile && styles.resultMobile]}>
+        {hasPlatform ? (
+          <>
+            <Text style={styles.resultLabel}>Estimated investment</Text>
+            <Text style={[styles.resultCost, { fontSize: s(32) }]}>{formatBudgetRange(estimate.cost)}</Text>
+            <Text style={styles.resultWeeks}>{estimate.weeks} weeks, start to launch</Text>
+
+            <View style={styles.phaseBar}>
+              {estimate.phases.map((phase, index) => (
+                <View
+                  key={phase.phase}
+                  style={[styles.phaseSegment, { flex: phase.weeks, backgroundColor: PHASE_COLORS[index] }]}
+                />
+              ))}
+            </View>
+            {estimate.phases.map((phase, index) => (
+              <View key={phase.phase} style={styles.phaseRow}>
+                <View style={[styles.phaseDot, { backgroundColor: PHASE_COLORS[index] }]} />
+                <Text style={styles.phaseName}>{`0${index + 1} • ${phase.phase}`}</Text>
+                <Text style={styles.phaseWeeks}>
+                  {phase.weeks} {phase.weeks === 1 ? "week" : "weeks"}
+                </Text>
+              </View>
+            ))}
+
+            <TouchableOpacity
+              style={styles.ctaButton}
+              onPress={() => onPrefill(briefFromEstimate(selection, estimate))}
+            >
+              <GradientView colors={[COLORS.neonSoft, COLORS.neon]} style={styles.ctaGradient}>
+                <Text style={styles.ctaText}>Use this in my brief</Text>
+              </GradientView>
+            </TouchableOpacity>
+            <Text style={styles.disclaimer}>
+              A starting point, not a quote — we'll refine it together after a discovery call.
+            </Text>
+          </>
+        ) : (
+          <Text style={styles.body}>Pick at least one platform to see an estimate.</Text>
+        )}
+      </View>
+    </View>
+  );
+};
+
+/* -----------------------------------------------------
+   STYLES
+----------------------------------------------------- */
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    gap: 32,
+    marginTop: 48,
+    backgroundColor: COLORS.card,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    padding: 32,
+  },
+  containerMobile: {
+    flexDirection: "column",
+    padding: 20,
+    gap: 24,
+  },
+  options: {
+    flex: 3,
+  },
+  label: {
+    color: COLORS.neon,
+    fontSize: 14,
+    fontWeight: "700",
+    marginBottom: 8,
+    textTransform: "uppercase",
+    letterSpacing: 1,
+  },
+  title: {
+    color: COLORS.text,
+    fontWeight: "700",
+    marginBottom: 8,
+  },
+  body: {
+    color: COLORS.textMuted,
+    fontSize: 15,
+    lineHeight: 22,
+    marginBottom: 8,
+  },
+  group: {
+    marginTop: 20,
+  },
+  groupTitle: {
+    color: COLORS.text,
+    fontSize: 14,
+    fontWeight: "600",
+    marginBottom: 10,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    backgroundColor: COLORS.bgSoft,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  chipActive: {
+    borderColor: COLORS.neon,
+    backgroundColor: "rgba(182,255,51,0.08)",
+  },
+  chipText: {
+    color: COLORS.text,
+    fontSize: 14,
+    fontWeight: "500",
+  },
+  chipTextActive: {
+    color: COLORS.neon,
+  },
+  depthRow: {
+    flexDirection: "row",
+    gap: 10,
+  },
+  depthRowMobile: {
+    flexDirection: "column",
+  },
+  depth: {
+    flex: 1,
+    backgroundColor: COLORS.bgSoft,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    padding: 14,
+  },
+  depthLabel: {
+    color: COLORS.text,
+    fontSize: 15,
+    fontWeight: "600",
+    marginBottom: 4,
+  },
+  depthHint: {
+    color: COLORS.textMuted,
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  result: {
+    flex: 2,
+    backgroundColor: COLORS.bgSoft,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    padding: 24,
+    alignSelf: "flex-start",
+  },
+  resultMobile: {
+    alignSelf: "stretch",
+  },
+  resultLabel: {
+    color: COLORS.textMuted,
+    fontSize: 13,
+    fontWeight: "600",
+    textTransform: "uppercase",
+    letterSpacing: 1,
+  },
+  resultCost: {
+    color: COLORS.text,
+    fontWeight: "800",
+    marginTop: 6,
+  },
+  resultWeeks: {
+    color: COLORS.neon,
+    fontSize: 15,
+    fontWeight: "600",
+    marginTop: 4,
+    marginBottom: 20,
+  },
+  phaseBar: {
+    flexDirection: "row",
+    height: 10,
+    borderRadius: 5,
+    overflow: "hidden",
+    gap: 2,
+    marginBottom: 16,
+  },
+  phaseSegment: {
+    height: 10,
+  },
+  phaseRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    marginBottom: 8,
+  },
+  phaseDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  phaseName: {
+    flex: 1,
+    color: COLORS.text,
+    fontSize: 14,
+  },
+  phaseWeeks: {
+    color: COLORS.textMuted,
+    fontSize: 14,
+  },
+  ctaButton: {
+    borderRadius: 12,
+    overflow: "hidden",
+    marginTop: 16,
+  },
+  ctaGradient: {
+    paddingVertical: 14,
+    paddingHorizontal: 20,
+    alignItems: "center",
+  },
+  ctaText: {
+    color: COLORS.text,
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  disclaimer: {
+    color: COLORS.subtle,
+    fontSize: 12,
+    lineHeight: 18,
+    marginTop: 12,
+  },
+});
@@ -0,0 +1,461 @@
+import React, { useEffect, useRef } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  SafeAreaView,
+  Image,
+  Platform,
+  useWindowDimensions,
+} from "react-native";
+import { EngagementOption, PortfolioItem, Service } from "../lib/contentSchema";
+import { contentImage } from "../lib/contentImages";
+import { relatedCaseStudies } from "../lib/services";
+import { COLORS, MOBILE_BREAKPOINT, scaleFont } from "../theme";
+import { GradientView } from "./primitives";
+
+/* -----------------------------------------------------
+   SERVICE PAGE
+   /services/:slug — what a service delivers, how long it
+   takes, the ways to engage, the work we've shipped under
+   it and the usual questions. Drawn over the site like the
+   case study pages, so back returns to the same spot.
+----------------------------------------------------- */
+interface ServicePageProps {
+  slug: string;
+  services: Service[];
+  portfolio: PortfolioItem[];
+  onOpenProject: (slug: string) => void;
+  onBack: () => void;
+  onStartProject: (service: Service, engagement?: EngagementOption) => void;
+}
+
+export const ServicePage: React.FC<ServicePageProps> = ({
+  slug,
+  services,
+  portfolio,
+  onOpenProject,
+  onBack,
+  onStartProject,
+}) => {
+  const { width } = useWindowDimensions();
+  const s = (size: number) => scaleFont(size, width);
+  const isMobile = width < MOBILE_BREAKPOINT;
+  const scrollRef = useRef<ScrollView | null>(null);
+
+  const service = services.find((item) => item.slug === slug) ?? null;
+  const work = service ? relatedCaseStudies(portfolio, service) : [];
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ y: 0, animated: false });
+    if (Platform.OS !== "web") return;
+    const previousTitle = document.title;
+    document.title = service ? `${service.title} — CraftTech services` : "Service not found — CraftTech";
+    return () => {
+      document.title = previousTitle;
+    };
+  }, [slug, service]);
+
+  return (
+    <SafeAreaView style={styles.screen}>
+      <View style={styles.topBar}>
+        <Text style={styles.brand}>CraftTech</Text>
+        <TouchableOpacity onPress={onBack}>
+          <Text style={styles.link}>← All services</Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView ref={scrollRef} contentContainerStyle={[styles.content, isMobile && styles.contentMobile]}>
+        {!service ? (
+          <View style={styles.card}>
+            <Text style={[styles.title, { fontSize: s(26) }]}>Service not found</Text>
+            <Text style={styles.body}>We may have renamed it. Every service we offer is listed on the home page.</Text>
+          </View>
+        ) : (
+          <>
+            {/* HERO */}
+            <Text style={styles.icon}>{service.icon}</Text>
+            <Text style={styles.eyebrow}>Service • Typically {service.duration}</Text>
+            <Text style={[styles.title, { fontSize: s(isMobile ? 28 : 36), lineHeight: s(isMobile ? 34 : 44) }]}>
+              {service.title}
+            </Text>
+            <Text style={[styles.lead, { fontSize: s(17), lineHeight: s(26) }]}>{service.description}</Text>
+
+            {/* TOOLS */}
+            <View style={styles.section}>
+              <Text style={styles.sectionLabel}>What we work with</Text>
+              <View style={styles.pills}>
+                {service.tech.map((tech) => (
+                  <View key={tech} style={styles.pill}>
+                    <Text style={styles.pillText}>{tech}</Text>
+                  </View>
+                ))}
+              </View>
+            </View>
+
+            {/* DELIVERABLES */}
+            <View style={styles.section}>
+              <Text style={styles.sectionLabel}>What you get</Text>
+              {service.deliverables.map((deliverable) => (
+                <View key={deliverable} style={styles.deliverable}>
+                  <Text style={styles.deliverableMark}>✓</Text>
+                  <Text style={[styles.body, styles.deliverableText]}>{deliverable}</Text>
+                </View>
+              ))}
+            </View>
+
+            {/* TIMELINE */}
+            <View style={styles.section}>
+              <Text style={styles.sectionLabel}>Typical timeline</Text>
+              {service.timeline.map((step, index) => (
+                <View key={step.title} style={styles.step}>
+                  <View style={styles.stepMarker}>
+                    <Text style={styles.stepNumber}>{index + 1}</Text>
+                    {index < service.timeline.length - 1 && <View style={styles.stepLine} />}
+                  </View>
+                  <View style={styles.stepBody}>
+                    <View style={styles.stepHeader}>
+                      <Text style={styles.stepTitle}>{step.title}</Text>
+                      <Text style={styles.stepDuration}>{step.duration}</Text>
+                    </View>
+                    <Text style={styles.muted}>{step.description}</Text>
+                  </View>
+                </View>
+              ))}
+            </View>
+
+            {/* ENGAGEMENT OPTIONS */}
+            <View style={styles.section}>
+              <Text style={styles.sectionLabel}>Ways to work with us</Text>
+              <View style={[styles.engagements, isMobile && styles.engagementsMobile]}>
+                {service.engagements.map((engagement) => (
+                  <View key={engagement.name} style={[styles.card, styles.engagement]}>
+                    <Text style={styles.engagementName}>{engagement.name}</Text>
+                    <Text style={styles.stepDuration}>{engagement.duration}</Text>
+                    <Text style={[styles.muted, styles.engagementBody]}>{engagement.description}</Text>
+                    <TouchableOpacity onPress={() => onStartProject(service, engagement)}>
+                      <Text style={styles.workLink}>Start with this →</Text>
+                    </TouchableOpacity>
+                  </View>
+                ))}
+              </View>
+            </View>
+
+            {/* RELATED WORK */}
+            {work.length > 0 && (
+              <View style={styles.section}>
+                <Text style={styles.sectionLabel}>Selected work</Text>
+                <View style={[styles.work, isMobile && styles.workMobile]}>
+                  {work.map((item) => (
+                    <TouchableOpacity
+                      key={item.slug}
+                      accessibilityRole="link"
+                      style={[styles.workCard, isMobile && styles.workCardMobile]}
+                      onPress={() => onOpenProject(item.slug)}
+                    >
+                      <Image source={contentImage(item.img)} style={styles.workImage} resizeMode="cover" />
+                      <View style={styles.workBody}>
+                        <Text style={styles.muted}>{item.client}</Text>
+                        <Text style={styles.workTitle}>{item.title}</Text>
+                        <Text style={styles.workLink}>Read the case study →</Text>
+                      </View>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+            )}
+
+            {/* FAQS */}
+            <View style={styles.section}>
+              <Text style={styles.sectionLabel}>Questions we hear a lot</Text>
+              {service.faqs.map((faq) => (
+                <View key={faq.question} style={styles.faq}>
+                  <Text style={styles.faqQuestion}>{faq.question}</Text>
+                  <Text style={styles.muted}>{faq.answer}</Text>
+                </View>
+              ))}
+            </View>
+
+            {/* CTA */}
+            <View style={[styles.card, styles.section, styles.cta]}>
+              <Text style={[styles.ctaTitle, { fontSize: s(22) }]}>Ready to talk {service.title.toLowerCase()}?</Text>
+              <Text style={styles.body}>
+                We'll start your brief on {service.title}, so you can go straight to the details.
+              </Text>
+              <TouchableOpacity style={styles.ctaButton} onPress={() => onStartProject(service)}>
+                <GradientView colors={[COLORS.neonSoft, COLORS.neon]} style={styles.ctaGradient}>
+                  <Text style={styles.ctaText}>Start a {service.title} project</Text>
+                </GradientView>
+              </TouchableOpacity>
+            </View>
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+/* -----------------------------------------------------
+   STYLES
+----------------------------------------------------- */
+const styles = StyleSheet.create({
+  screen: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: COLORS.bg,
+  },
+  topBar: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  brand: {
+    color: COLORS.neon,
+    fontSize: 16,
+    fontWeight: "800",
+    letterSpacing: 0.5,
+  },
+  link: {
+    color: COLORS.neon,
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  content: {
+    width: "100%",
+    maxWidth: 880,
+    alignSelf: "center",
+    padding: 32,
+    paddingBottom: 64,
+  },
+  contentMobile: {
+    padding: 20,
+  },
+  card: {
+    backgroundColor: COLORS.card,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    padding: 24,
+  },
+  icon: {
+    fontSize: 40,
+    marginBottom: 12,
+  },
+  eyebrow: {
+    color: COLORS.neon,
+    fontSize: 13,
+    fontWeight: "700",
+    letterSpacing: 1,
+    textTransform: "uppercase",
+  },
+  title: {
+    color: COLORS.text,
+    fontWeight: "700",
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  lead: {
+    color: COLORS.textMuted,
+  },
+  body: {
+    color: COLORS.text,
+    fontSize: 15,
+    lineHeight: 22,
+  },
+  muted: {
+    color: COLORS.textMuted,
+    fontSize: 13,
+    lineHeight: 20,
+  },
+  section: {
+    marginTop: 40,
+  },
+  sectionLabel: {
+    color: COLORS.textMuted,
+    fontSize: 12,
+    fontWeight: "700",
+    textTransform: "uppercase",
+    letterSpacing: 1,
+    marginBottom: 12,
+  },
+  pills: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  pill: {
+    backgroundColor: COLORS.cardSoft,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: 999,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  pillText: {
+    color: COLORS.text,
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  deliverable: {
+    flexDirection: "row",
+    gap: 12,
+    marginBottom: 10,
+  },
+  deliverableMark: {
+    color: COLORS.neon,
+    fontSize: 16,
+    fontWeight: "800",
+  },
+  deliverableText: {
+    flex: 1,
+  },
+  step: {
+    flexDirection: "row",
+    gap: 16,
+  },
+  stepMarker: {
+    alignItems: "center",
+  },
+  stepNumber: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: COLORS.neon,
+    color: COLORS.neon,
+    fontSize: 13,
+    fontWeight: "700",
+    textAlign: "center",
+    lineHeight: 26,
+  },
+  stepLine: {
+    flex: 1,
+    width: 1,
+    backgroundColor: COLORS.border,
+    marginVertical: 4,
+  },
+  stepBody: {
+    flex: 1,
+    paddingBottom: 24,
+    gap: 4,
+  },
+  stepHeader: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    alignItems: "center",
+    gap: 12,
+  },
+  stepTitle: {
+    color: COLORS.text,
+    fontSize: 16,
+    fontWeight: "700",
+  },
+  stepDuration: {
+    color: COLORS.neon,
+    fontSize: 12,
+    fontWeight: "700",
+    letterSpacing: 0.5,
+    textTransform: "uppercase",
+  },
+  engagements: {
+    flexDirection: "row",
+    gap: 16,
+  },
+  engagementsMobile: {
+    flexDirection: "column",
+  },
+  engagement: {
+    flex: 1,
+    padding: 20,
+    gap: 6,
+  },
+  engagementName: {
+    color: COLORS.text,
+    fontSize: 17,
+    fontWeight: "700",
+  },
+  engagementBody: {
+    flexGrow: 1,
+    marginBottom: 8,
+  },
+  faq: {
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+    gap: 6,
+  },
+  faqQuestion: {
+    color: COLORS.text,
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  work: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 16,
+  },
+  workMobile: {
+    flexDirection: "column",
+  },
+  workCard: {
+    flexGrow: 1,
+    flexBasis: "45%",
+    backgroundColor: COLORS.card,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    overflow: "hidden",
+  },
+  workCardMobile: {
+    flexBasis: "auto",
+    width: "100%",
+  },
+  workImage: {
+    width: "100%",
+    aspectRatio: 16 / 9,
+    backgroundColor: COLORS.cardSoft,
+  },
+  workBody: {
+    padding: 16,
+    gap: 4,
+  },
+  workTitle: {
+    color: COLORS.text,
+    fontSize: 16,
+    fontWeight: "700",
+  },
+  workLink: {
+    color: COLORS.neon,
+    fontSize: 13,
+    fontWeight: "600",
+    marginTop: 4,
+  },
+  cta: {
+    alignItems: "flex-start",
+    gap: 12,
+  },
+  ctaTitle: {
+    color: COLORS.text,
+    fontWeight: "700",
+  },
+  ctaButton: {
+    marginTop: 8,
+    borderRadius: 999,
+    overflow: "hidden",
+  },
+  ctaGradient: {
+    paddingHorizontal: 28,
+    paddingVertical: 14,
+    borderRadius: 999,
+  },
+  ctaText: {
+    color: COLORS.bg,
+    fontSize: 15,
+    fontWeight: "700",
+  },
+});
@@ -0,0 +1,462 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  SafeAreaView,
+  useWindowDimensions,
+} from "react-native";
+import type { AdminApplication, ApplicationUpdate } from "../../lib/applications";
+import type { AttachmentMeta } from "../../lib/attachments";
+import type { ScoredBrief } from "../../lib/leadScoring";
+import type { AdminBriefDetail, LeadUpdate } from "../../lib/leads";
+import type { AdminWebhookLog, WebhookDelivery } from "../../lib/webhooks";
+import { ApiError } from "../../lib/api";
+import {
+  downloadAttachment,
+  downloadCv,
+  fetchApplications,
+  fetchLead,
+  fetchLeads,
+  fetchWebhookLog,
+  replayWebhook,
+  updateApplication,
+  updateLead,
+} from "../../lib/adminApi";
+import { FormSchema, rules } from "../../lib/validation";
+import { useAdminSession } from "../../hooks/useAdminSession";
+import { useForm } from "../../hooks/useForm";
+import { COLORS, TABLET_BREAKPOINT } from "../../theme";
+import { GradientView } from "../primitives";
+import { LeadTable } from "./LeadTable";
+import { LeadDetail } from "./LeadDetail";
+import { ApplicationTable } from "./ApplicationTable";
+import { ApplicationDetail } from "./ApplicationDetail";
+import { WebhookLog } from "./WebhookLog";
+
+/* -----------------------------------------------------
+   ADMIN APP
+   The /admin lead inbox. Web only: the marketing app's
+   root hands over to this when the path starts /admin.
+----------------------------------------------------- */
+type AdminTab = "leads" | "applications" | "webhooks";
+
+const TAB_LABELS: Record<AdminTab, string> = {
+  leads: "Lead inbox",
+  applications: "Applications",
+  webhooks: "Webhooks",
+};
+
+interface SignInValues {
+  email: string;
+  password: string;
+}
+
+const SIGN_IN_SCHEMA: FormSchema<SignInValues> = {
+  email: { label: "Team email", rules: [rules.required("Email is required."), rules.email()] },
+  password: { label: "Password", rules: [rules.required("Password is required.")] },
+};
+
+const errorMessage = (err: unknown) =>
+  err instanceof ApiError ? err.message : "Something went wrong. Please try again.";
+
+// Hands a downloaded file to the browser under its original name.
+const saveBlob = (blob: Blob, name: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const AdminApp: React.FC = () => {
+  const { session, loaded, signIn, signOut } = useAdminSession();
+
+  if (!loaded) return <View style={styles.screen} />;
+  if (!session) return <SignIn onSignIn={signIn} />;
+  return <Inbox token={session.token} memberName={session.member.name} onSignOut={signOut} />;
+};
+
+/* -----------------------------------------------------
+   SIGN IN
+----------------------------------------------------- */
+const SignIn: React.FC<{ onSignIn: (email: string, password: string) => Promise<void> }> = ({ onSignIn }) => {
+  const form = useForm(SIGN_IN_SCHEMA, { email: "", password: "" });
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const submit = async () => {
+    if (busy || !(await form.validateAll())) return;
+    setBusy(true);
+    setError(null);
+    try {
+      await onSignIn(form.values.email, form.values.password);
+    } catch (err) {
+      setError(errorMessage(err));
+      setBusy(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={[styles.screen, styles.centered]}>
+      <View style={styles.signInCard}>
+        <Text style={styles.brand}>CraftTech</Text>
+        <Text style={styles.signInTitle}>Lead inbox</Text>
+        {(["email", "password"] as const).map((field) => (
+          <View key={field} style={styles.formGroup}>
+            <Text style={styles.inputLabel}>{SIGN_IN_SCHEMA[field].label}</Text>
+            <TextInput
+              style={[styles.input, !!form.visibleError(field) && styles.inputInvalid]}
+              value={form.values[field]}
+              onChangeText={(v) => form.setValue(field, v)}
+              onBlur={() => form.blur(field)}
+              onSubmitEditing={submit}
+              secureTextEntry={field === "password"}
+              autoCapitalize="none"
+              keyboardType={field === "email" ? "email-address" : "default"}
+              placeholderTextColor={COLORS.subtle}
+            />
+            {form.visibleError(field) ? <Text style={styles.fieldError}>{form.visibleError(field)}</Text> : null}
+          </View>
+        ))}
+        {error ? <Text style={styles.fieldError}>{error}</Text> : null}
+        <TouchableOpacity style={styles.submitButton} onPress={submit} disabled={busy}>
+          <GradientView colors={[COLORS.neonSoft, COLORS.neon]} style={styles.submitGradient}>
+            <Text style={styles.submitButtonText}>{busy ? "Signing in…" : "Sign in"}</Text>
+          </GradientView>
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+};
+
+/* -----------------------------------------------------
+   INBOX
+----------------------------------------------------- */
+interface InboxProps {
+  token: string;
+  memberName: string;
+  onSignOut: () => void;
+}
+
+const Inbox: React.FC<InboxProps> = ({ token, memberName, onSignOut }) => {
+  const { width } = useWindowDimensions();
+  const isWide = width >= TABLET_BREAKPOINT;
+
+  const [tab, setTab] = useState<AdminTab>("leads");
+  const [leads, setLeads] = useState<ScoredBrief[]>([]);
+  const [applications, setApplications] = useState<AdminApplication[]>([]);
+  const [webhookLog, setWebhookLog] = useState<AdminWebhookLog | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [detail, setDetail] = useState<AdminBriefDetail | null>(null);
+  const [selectedApplicationId, setSelectedApplicationId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  // An expired or forged token lands the team back on the sign-in screen.
+  const handleError = useCallback((err: unknown) => {
+    if (err instanceof ApiError && err.status === 401) onSignOut();
+    else setError(errorMessage(err));
+  }, [onSignOut]);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      if (tab === "leads") setLeads(await fetchLeads(token));
+      else if (tab === "applications") setApplications(await fetchApplications(token));
+      else setWebhookLog(await fetchWebhookLog(token));
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setLoading(false);
+    }
+  }, [tab, token, handleError]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    if (!selectedId) {
+      setDetail(null);
+      return;
+    }
+    let cancelled = false;
+    fetchLead(token, selectedId)
+      .then((next) => !cancelled && setDetail(next))
+      .catch(handleError);
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedId, token, handleError]);
+
+  const handleUpdate = async (update: LeadUpdate) => {
+    if (!detail) return;
+    try {
+      const brief = await updateLead(token, detail.brief.id, update);
+      setDetail({ ...detail, brief });
+      setLeads((prev) => prev.map((lead) => (lead.id === brief.id ? brief : lead)));
+    } catch (err) {
+      handleError(err);
+    }
+  };
+
+  const handleDownload = async (attachment: AttachmentMeta) => {
+    if (!detail) return;
+    try {
+      saveBlob(await downloadAttachment(token, detail.brief.id, attachment.id), attachment.name);
+    } catch (err) {
+      handleError(err);
+    }
+  };
+
+  const application = applications.find((a) => a.id === selectedApplicationId) ?? null;
+
+  const handleApplicationUpdate = async (update: ApplicationUpdate) => {
+    if (!application) return;
+    try {
+      const updated = await updateApplication(token, application.id, update);
+      setApplications((prev) => prev.map((a) => (a.id === updated.id ? updated : a)));
+    } catch (err) {
+      handleError(err);
+    }
+  };
+
+  const handleCvDownload = async () => {
+    if (!application) return;
+    try {
+      saveBlob(await downloadCv(token, application.id, application.cv.id), application.cv.name);
+    } catch (err) {
+      handleError(err);
+    }
+  };
+
+  const handleReplay = async (delivery: WebhookDelivery) => {
+    try {
+      const replayed = await replayWebhook(token, delivery.id);
+      setWebhookLog((prev) => prev && {
+        ...prev,
+        deliveries: prev.deliveries.map((d) => (d.id === replayed.id ? replayed : d)),
+      });
+    } catch (err) {
+      handleError(err);
+    }
+  };
+
+  const showTable = isWide || !selectedId;
+  const showDetail = !!detail && (isWide || !!selectedId);
+  const showApplicationTable = isWide || !selectedApplicationId;
+
+  return (
+    <SafeAreaView style={styles.screen}>
+      <View style={styles.topBar}>
+        <View style={styles.topActions}>
+          <Text style={styles.brand}>CraftTech</Text>
+          {(Object.keys(TAB_LABELS) as AdminTab[]).map((id) => (
+            <TouchableOpacity key={id} onPress={() => setTab(id)}>
+              <Text style={[styles.tab, tab === id && styles.tabActive]}>{TAB_LABELS[id]}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <View style={styles.topActions}>
+          <Text style={styles.muted}>{memberName}</Text>
+          <TouchableOpacity onPress={load}>
+            <Text style={styles.link}>{loading ? "Loading…" : "Refresh"}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={onSignOut}>
+            <Text style={styles.link}>Sign out</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+      {error ? <Text style={[styles.fieldError, styles.banner]}>{error}</Text> : null}
+
+      {tab === "webhooks" ? (
+        <ScrollView contentContainerStyle={styles.paneContent}>
+          <WebhookLog log={webhookLog} onReplay={handleReplay} />
+        </ScrollView>
+      ) : tab === "applications" ? (
+        <View style={[styles.body, !isWide && styles.bodyNarrow]}>
+          {showApplicationTable && (
+            <ScrollView style={styles.tablePane} contentContainerStyle={styles.paneContent}>
+              <ApplicationTable
+                applications={applications}
+                selectedId={selectedApplicationId}
+                onSelect={setSelectedApplicationId}
+              />
+            </ScrollView>
+          )}
+          {application && (
+            <ScrollView style={styles.detailPane} contentContainerStyle={styles.paneContent}>
+              {!isWide && (
+                <TouchableOpacity onPress={() => setSelectedApplicationId(null)} style={styles.back}>
+                  <Text style={styles.link}>← All applications</Text>
+                </TouchableOpacity>
+              )}
+              <ApplicationDetail
+                application={application}
+                onUpdate={handleApplicationUpdate}
+                onDownloadCv={handleCvDownload}
+              />
+            </ScrollView>
+          )}
+        </View>
+      ) : (
+        <View style={[styles.body, !isWide && styles.bodyNarrow]}>
+          {showTable && (
+            <ScrollView style={styles.tablePane} contentContainerStyle={styles.paneContent}>
+              <LeadTable leads={leads} selectedId={selectedId} onSelect={setSelectedId} />
+            </ScrollView>
+          )}
+          {showDetail && (
+            <ScrollView style={styles.detailPane} contentContainerStyle={styles.paneContent}>
+              {!isWide && (
+                <TouchableOpacity onPress={() => setSelectedId(null)} style={styles.back}>
+                  <Text style={styles.link}>← All leads</Text>
+                </TouchableOpacity>
+              )}
+              <LeadDetail detail={detail!} onUpdate={handleUpdate} onDownload={handleDownload} />
+            </ScrollView>
+          )}
+        </View>
+      )}
+    </SafeAreaView>
+  );
+};
+
+/* -----------------------------------------------------
+   STYLES
+----------------------------------------------------- */
+const styles = StyleSheet.create({
+  screen: {
+    flex: 1,
+    backgroundColor: COLORS.bg,
+  },
+  centered: {
+    alignItems: "center",
+    justifyContent: "center",
+    padding: 24,
+  },
+  signInCard: {
+    width: "100%",
+    maxWidth: 400,
+    backgroundColor: COLORS.card,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    padding: 32,
+  },
+  brand: {
+    color: COLORS.neon,
+    fontSize: 16,
+    fontWeight: "800",
+    letterSpacing: 0.5,
+  },
+  signInTitle: {
+    color: COLORS.text,
+    fontSize: 24,
+    fontWeight: "700",
+    marginTop: 4,
+    marginBottom: 24,
+  },
+  formGroup: {
+    marginBottom: 16,
+  },
+  inputLabel: {
+    color: COLORS.text,
+    fontSize: 14,
+    fontWeight: "600",
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: COLORS.bgSoft,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    color: COLORS.text,
+    fontSize: 15,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+  },
+  inputInvalid: {
+    borderColor: COLORS.danger,
+  },
+  fieldError: {
+    color: COLORS.danger,
+    fontSize: 13,
+    marginTop: 6,
+  },
+  submitButton: {
+    borderRadius: 12,
+    overflow: "hidden",
+    marginTop: 8,
+  },
+  submitGradient: {
+    paddingVertical: 14,
+    alignItems: "center",
+  },
+  submitButtonText: {
+    color: COLORS.text,
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  topBar: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  topActions: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 20,
+  },
+  tab: {
+    color: COLORS.textMuted,
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  tabActive: {
+    color: COLORS.text,
+  },
+  banner: {
+    paddingHorizontal: 24,
+  },
+  muted: {
+    color: COLORS.textMuted,
+    fontSize: 14,
+  },
+  link: {
+    color: COLORS.neon,
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  body: {
+    flex: 1,
+    flexDirection: "row",
+  },
+  bodyNarrow: {
+    flexDirection: "column",
+  },
+  tablePane: {
+    flex: 3,
+  },
+  detailPane: {
+    flex: 2,
+    borderLeftWidth: 1,
+    borderLeftColor: COLORS.border,
+  },
+  paneContent: {
+    padding: 24,
+  },
+  back: {
+    marginBottom: 16,
+  },
+});
@@ -0,0 +1,295 @@
+import React, { useState } from "react";
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, Linking } from "react-native";
+import { APPLICATION_STATUSES, AdminApplication, ApplicationUpdate } from "../../lib/applications";
+import { formatFileSize } from "../../lib/attachments";
+import { MAX_NOTE_LENGTH } from "../../lib/leads";
+import { findTeamMember } from "../../lib/team";
+import { COLORS } from "../../theme";
+
+/* -----------------------------------------------------
+   APPLICATION DETAIL
+   One candidate: what they sent, their CV, and the
+   hiring status and notes, laid out like a lead.
+----------------------------------------------------- */
+interface ApplicationDetailProps {
+  application: AdminApplication;
+  onUpdate: (update: ApplicationUpdate) => Promise<void>;
+  onDownloadCv: () => void;
+}
+
+export const ApplicationDetail: React.FC<ApplicationDetailProps> = ({ application, onUpdate, onDownloadCv }) => {
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const save = async (update: ApplicationUpdate) => {
+    setSaving(true);
+    try {
+      await onUpdate(update);
+      if (update.note) setNote("");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const facts: [string, string][] = [
+    ["Email", application.email],
+    ["Role", application.role],
+    ["Based in", application.location],
+    ["Portfolio", application.portfolioUrl || "—"],
+    ["Received", new Date(application.createdAt).toLocaleString()],
+  ];
+
+  const linkFor = (label: string, value: string) =>
+    label === "Email" ? `mailto:${value}` : label === "Portfolio" && application.portfolioUrl ? value : null;
+
+  return (
+    <View>
+      <Text style={styles.eyebrow}>{application.role}</Text>
+      <Text style={styles.title}>{application.name}</Text>
+
+      {application.screening.verdict === "quarantined" && (
+        <View style={styles.warning}>
+          <Text style={styles.warningTitle}>Quarantined</Text>
+          <Text style={styles.warningBody}>{application.screening.reasons.join(" • ")}</Text>
+        </View>
+      )}
+
+      {/* PIPELINE */}
+      <Text style={styles.sectionLabel}>Status</Text>
+      <View style={styles.chipRow}>
+        {APPLICATION_STATUSES.map((status) => {
+          const active = application.status === status.id;
+          return (
+            <TouchableOpacity
+              key={status.id}
+              style={[styles.chip, active && styles.chipActive]}
+              disabled={saving || active}
+              onPress={() => save({ status: status.id })}
+            >
+              <Text style={[styles.chipText, active && styles.chipTextActive]}>{status.label}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {/* APPLICATION */}
+      <View style={styles.facts}>
+        {facts.map(([label, value]) => {
+          const url = linkFor(label, value);
+          return (
+            <View key={label} style={styles.fact}>
+              <Text style={styles.factLabel}>{label}</Text>
+              {url ? (
+                <Text style={[styles.factValue, styles.link]} onPress={() => Linking.openURL(url)}>
+                  {value}
+                </Text>
+              ) : (
+                <Text style={styles.factValue}>{value}</Text>
+              )}
+            </View>
+          );
+        })}
+      </View>
+
+      <Text style={styles.sectionLabel}>Why this role</Text>
+      <Text style={styles.message}>{application.coverLetter}</Text>
+
+      <Text style={styles.sectionLabel}>CV</Text>
+      <TouchableOpacity style={styles.attachment} onPress={onDownloadCv}>
+        <Text style={styles.attachmentName} numberOfLines={1}>{application.cv.name}</Text>
+        <Text style={styles.muted}>{formatFileSize(application.cv.size)} • Download</Text>
+      </TouchableOpacity>
+
+      {/* NOTES */}
+      <Text style={styles.sectionLabel}>Hiring notes</Text>
+      {application.notes.map((n) => (
+        <View key={n.id} style={styles.note}>
+          <Text style={styles.noteMeta}>
+            {findTeamMember(n.author)?.name ?? n.author} • {new Date(n.createdAt).toLocaleString()}
+          </Text>
+          <Text style={styles.noteBody}>{n.body}</Text>
+        </View>
+      ))}
+      <TextInput
+        style={styles.noteInput}
+        placeholder="Add a note for the hiring team"
+        placeholderTextColor={COLORS.subtle}
+        multiline
+        maxLength={MAX_NOTE_LENGTH}
+        value={note}
+        onChangeText={setNote}
+      />
+      <TouchableOpacity
+        style={[styles.noteButton, (saving || !note.trim()) && styles.noteButtonDisabled]}
+        disabled={saving || !note.trim()}
+        onPress={() => save({ note })}
+      >
+        <Text style={styles.noteButtonText}>{saving ? "Saving…" : "Add note"}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+/* -----------------------------------------------------
+   STYLES
+----------------------------------------------------- */
+const styles = StyleSheet.create({
+  eyebrow: {
+    color: COLORS.neon,
+    fontSize: 13,
+    fontWeight: "700",
+    letterSpacing: 1,
+  },
+  title: {
+    color: COLORS.text,
+    fontSize: 22,
+    fontWeight: "700",
+    marginTop: 4,
+    marginBottom: 12,
+  },
+  warning: {
+    backgroundColor: "rgba(255,99,99,0.08)",
+    borderColor: COLORS.danger,
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  warningTitle: {
+    color: COLORS.danger,
+    fontSize: 14,
+    fontWeight: "700",
+  },
+  warningBody: {
+    color: COLORS.textMuted,
+    fontSize: 13,
+    marginTop: 4,
+  },
+  sectionLabel: {
+    color: COLORS.textMuted,
+    fontSize: 12,
+    fontWeight: "700",
+    textTransform: "uppercase",
+    letterSpacing: 1,
+    marginTop: 20,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    backgroundColor: COLORS.bgSoft,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  chipActive: {
+    borderColor: COLORS.neon,
+    backgroundColor: "rgba(182,255,51,0.08)",
+  },
+  chipText: {
+    color: COLORS.text,
+    fontSize: 13,
+  },
+  chipTextActive: {
+    color: COLORS.neon,
+  },
+  facts: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 16,
+    marginTop: 20,
+  },
+  fact: {
+    minWidth: 180,
+    flexGrow: 1,
+    flexBasis: "40%",
+  },
+  factLabel: {
+    color: COLORS.textMuted,
+    fontSize: 12,
+    marginBottom: 2,
+  },
+  factValue: {
+    color: COLORS.text,
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  link: {
+    color: COLORS.neon,
+  },
+  message: {
+    color: COLORS.text,
+    fontSize: 15,
+    lineHeight: 22,
+    backgroundColor: COLORS.bgSoft,
+    borderRadius: 12,
+    padding: 16,
+  },
+  muted: {
+    color: COLORS.textMuted,
+    fontSize: 13,
+  },
+  attachment: {
+    backgroundColor: COLORS.bgSoft,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    marginBottom: 8,
+  },
+  attachmentName: {
+    color: COLORS.text,
+    fontSize: 14,
+    fontWeight: "500",
+  },
+  note: {
+    borderLeftWidth: 2,
+    borderLeftColor: COLORS.border,
+    paddingLeft: 12,
+    marginBottom: 12,
+  },
+  noteMeta: {
+    color: COLORS.textMuted,
+    fontSize: 12,
+    marginBottom: 2,
+  },
+  noteBody: {
+    color: COLORS.text,
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  noteInput: {
+    backgroundColor: COLORS.bgSoft,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    color: COLORS.text,
+    fontSize: 14,
+    padding: 12,
+    minHeight: 80,
+    textAlignVertical: "top",
+  },
+  noteButton: {
+    alignSelf: "flex-start",
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: COLORS.neon,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    marginTop: 8,
+  },
+  noteButtonDisabled: {
+    opacity: 0.5,
+  },
+  noteButtonText: {
+    color: COLORS.neon,
+    fontSize: 14,
+    fontWeight: "600",
+  },
+});
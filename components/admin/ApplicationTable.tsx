@@ -0,0 +1,253 @@
+import React, { useMemo, useState } from "react";
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, ScrollView } from "react-native";
+import {
+  APPLICATION_STATUSES,
+  APPLICATION_STATUS_LABELS,
+  AdminApplication,
+  ApplicationStatus,
+} from "../../lib/applications";
+import { COLORS } from "../../theme";
+
+/* -----------------------------------------------------
+   APPLICATION TABLE
+   Job applications, newest first, filterable by status
+   and role. Client-side like the lead table.
+----------------------------------------------------- */
+interface Column {
+  label: string;
+  flex: number;
+}
+
+const COLUMNS: Column[] = [
+  { label: "Received", flex: 1 },
+  { label: "Candidate", flex: 2 },
+  { label: "Role", flex: 2 },
+  { label: "Based in", flex: 1.4 },
+  { label: "Status", flex: 1.1 },
+];
+
+const matchesSearch = (application: AdminApplication, query: string) =>
+  [application.name, application.email, application.location, application.coverLetter]
+    .some((field) => field.toLowerCase().includes(query));
+
+interface ApplicationTableProps {
+  applications: AdminApplication[];
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+}
+
+export const ApplicationTable: React.FC<ApplicationTableProps> = ({ applications, selectedId, onSelect }) => {
+  const [statusFilter, setStatusFilter] = useState<ApplicationStatus | "all">("all");
+  const [roleFilter, setRoleFilter] = useState<string | "any">("any");
+  const [showQuarantined, setShowQuarantined] = useState(false);
+  const [search, setSearch] = useState("");
+
+  // Filtered by the role title they applied for, so closed postings still show up.
+  const roles = useMemo(() => [...new Set(applications.map((a) => a.role))].sort(), [applications]);
+
+  const visible = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return applications
+      .filter((a) => showQuarantined || a.screening.verdict !== "quarantined")
+      .filter((a) => statusFilter === "all" || a.status === statusFilter)
+      .filter((a) => roleFilter === "any" || a.role === roleFilter)
+      .filter((a) => !query || matchesSearch(a, query));
+  }, [applications, statusFilter, roleFilter, showQuarantined, search]);
+
+  const statusCounts = useMemo(() => {
+    const counts: Partial<Record<ApplicationStatus, number>> = {};
+    for (const application of applications) {
+      if (showQuarantined || application.screening.verdict !== "quarantined") {
+        counts[application.status] = (counts[application.status] ?? 0) + 1;
+      }
+    }
+    return counts;
+  }, [applications, showQuarantined]);
+
+  const chip = (label: string, active: boolean, onPress: () => void) => (
+    <TouchableOpacity key={label} style={[styles.chip, active && styles.chipActive]} onPress={onPress}>
+      <Text style={[styles.chipText, active && styles.chipTextActive]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      {/* FILTERS */}
+      <TextInput
+        style={styles.search}
+        placeholder="Search name, email, location or cover letter"
+        placeholderTextColor={COLORS.subtle}
+        value={search}
+        onChangeText={setSearch}
+      />
+      <View style={styles.chipRow}>
+        {chip("All", statusFilter === "all", () => setStatusFilter("all"))}
+        {APPLICATION_STATUSES.map((status) =>
+          chip(`${status.label} (${statusCounts[status.id] ?? 0})`, statusFilter === status.id, () =>
+            setStatusFilter(status.id)
+          )
+        )}
+      </View>
+      <View style={styles.chipRow}>
+        {chip("Any role", roleFilter === "any", () => setRoleFilter("any"))}
+        {roles.map((role) => chip(role, roleFilter === role, () => setRoleFilter(role)))}
+        {chip("Show quarantined", showQuarantined, () => setShowQuarantined((v) => !v))}
+      </View>
+
+      {/* TABLE */}
+      <ScrollView horizontal contentContainerStyle={styles.tableScroll}>
+        <View style={styles.table}>
+          <View style={[styles.row, styles.headerRow]}>
+            {COLUMNS.map((column) => (
+              <Text key={column.label} style={[styles.headerText, { flex: column.flex }]}>{column.label}</Text>
+            ))}
+          </View>
+
+          {visible.map((application) => (
+            <TouchableOpacity
+              key={application.id}
+              style={[styles.row, application.id === selectedId && styles.rowSelected]}
+              onPress={() => onSelect(application.id)}
+            >
+              <Text style={[styles.cellText, { flex: 1 }]}>{formatDate(application.createdAt)}</Text>
+              <View style={{ flex: 2 }}>
+                <Text style={styles.cellText} numberOfLines={1}>
+                  {application.name}
+                  {application.screening.verdict === "quarantined" ? "  ⚠︎" : ""}
+                </Text>
+                <Text style={styles.cellMuted} numberOfLines={1}>{application.email}</Text>
+              </View>
+              <Text style={[styles.cellText, { flex: 2 }]} numberOfLines={1}>{application.role}</Text>
+              <Text style={[styles.cellMuted, { flex: 1.4 }]} numberOfLines={1}>{application.location}</Text>
+              <View style={{ flex: 1.1 }}>
+                <Text style={[styles.statusPill, application.status === "new" && styles.statusPillNew]}>
+                  {APPLICATION_STATUS_LABELS[application.status]}
+                </Text>
+              </View>
+            </TouchableOpacity>
+          ))}
+
+          {visible.length === 0 && (
+            <Text style={styles.empty}>No applications match these filters.</Text>
+          )}
+        </View>
+      </ScrollView>
+    </View>
+  );
+};
+
+/* -----------------------------------------------------
+   HELPERS
+----------------------------------------------------- */
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+
+/* -----------------------------------------------------
+   STYLES
+----------------------------------------------------- */
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  search: {
+    backgroundColor: COLORS.bgSoft,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    color: COLORS.text,
+    fontSize: 15,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    marginBottom: 12,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 10,
+  },
+  chip: {
+    backgroundColor: COLORS.bgSoft,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  chipActive: {
+    borderColor: COLORS.neon,
+    backgroundColor: "rgba(182,255,51,0.08)",
+  },
+  chipText: {
+    color: COLORS.text,
+    fontSize: 13,
+  },
+  chipTextActive: {
+    color: COLORS.neon,
+  },
+  tableScroll: {
+    flexGrow: 1,
+  },
+  table: {
+    flex: 1,
+    minWidth: 680,
+    marginTop: 8,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    overflow: "hidden",
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  headerRow: {
+    backgroundColor: COLORS.bgSoft,
+  },
+  rowSelected: {
+    backgroundColor: "rgba(182,255,51,0.06)",
+  },
+  headerText: {
+    color: COLORS.textMuted,
+    fontSize: 12,
+    fontWeight: "700",
+    textTransform: "uppercase",
+    letterSpacing: 1,
+  },
+  cellText: {
+    color: COLORS.text,
+    fontSize: 14,
+  },
+  cellMuted: {
+    color: COLORS.textMuted,
+    fontSize: 13,
+    marginTop: 2,
+  },
+  statusPill: {
+    alignSelf: "flex-start",
+    color: COLORS.text,
+    fontSize: 12,
+    fontWeight: "600",
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    overflow: "hidden",
+  },
+  statusPillNew: {
+    borderColor: COLORS.neon,
+    color: COLORS.neon,
+  },
+  empty: {
+    color: COLORS.textMuted,
+    fontSize: 14,
+    padding: 24,
+    textAlign: "center",
+  },
+});
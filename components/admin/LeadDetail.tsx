@@ -0,0 +1,401 @@
+import React, { useState } from "react";
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, Linking } from "react-native";
+import { AttachmentMeta, formatFileSize } from "../../lib/attachments";
+import { TIMELINE_OPTIONS, describeBriefSource } from "../../lib/briefs";
+import { briefStatusPath } from "../../lib/briefStatus";
+import { bandForRange, formatBudgetRange } from "../../lib/budget";
+import { LEAD_GRADE_LABELS } from "../../lib/leadScoring";
+import { AdminBriefDetail, LEAD_STATUSES, LeadUpdate, MAX_NOTE_LENGTH } from "../../lib/leads";
+import { PORTFOLIO_CATEGORY_LABELS } from "../../lib/offerings";
+import { formatSlotDay, formatSlotTime, formatTeamTime } from "../../lib/scheduling";
+import { TEAM_MEMBERS, findTeamMember } from "../../lib/team";
+import { COLORS } from "../../theme";
+
+/* -----------------------------------------------------
+   LEAD DETAIL
+   Everything about one brief, plus the controls the team
+   uses to move it along: status, owner and notes.
+----------------------------------------------------- */
+interface LeadDetailProps {
+  detail: AdminBriefDetail;
+  onUpdate: (update: LeadUpdate) => Promise<void>;
+  onDownload: (attachment: AttachmentMeta) => void;
+}
+
+export const LeadDetail: React.FC<LeadDetailProps> = ({ detail, onUpdate, onDownload }) => {
+  const { brief, bookings } = detail;
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+  const band = bandForRange(brief.budgetRange);
+
+  const save = async (update: LeadUpdate) => {
+    setSaving(true);
+    try {
+      await onUpdate(update);
+      if (update.note) setNote("");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const facts: [string, string][] = [
+    ["Email", brief.email],
+    ["Company", brief.company || "—"],
+    ["Project", brief.projectType || "—"],
+    ["Source", describeBriefSource(brief.source)],
+    ["Platforms", brief.platforms.map((p) => PORTFOLIO_CATEGORY_LABELS[p]).join(", ") || "—"],
+    ["Timeline", TIMELINE_OPTIONS.find((t) => t.id === brief.timeline)?.label ?? "—"],
+    [
+      "Budget",
+      brief.budgetRange
+        ? `${formatBudgetRange(brief.budgetRange)}${band ? ` • ${band.engagement}` : ""}`
+        : brief.budget || "—",
+    ],
+    ["Received", new Date(brief.createdAt).toLocaleString()],
+  ];
+
+  return (
+    <View>
+      <Text style={styles.reference}>{brief.reference}</Text>
+      <Text style={styles.title}>{brief.name || brief.email}</Text>
+      {brief.statusToken && (
+        <Text style={[styles.muted, styles.link]} onPress={() => window.open(briefStatusPath(brief.statusToken!), "_blank")}>
+          Prospect's status page ↗
+        </Text>
+      )}
+
+      {brief.screening.verdict === "quarantined" && (
+        <View style={styles.warning}>
+          <Text style={styles.warningTitle}>Quarantined</Text>
+          <Text style={styles.warningBody}>{brief.screening.reasons.join(" • ")}</Text>
+        </View>
+      )}
+
+      {/* PIPELINE */}
+      <Text style={styles.sectionLabel}>Status</Text>
+      <View style={styles.chipRow}>
+        {LEAD_STATUSES.map((status) => {
+          const active = brief.status === status.id;
+          return (
+            <TouchableOpacity
+              key={status.id}
+              style={[styles.chip, active && styles.chipActive]}
+              disabled={saving || active}
+              onPress={() => save({ status: status.id })}
+            >
+              <Text style={[styles.chipText, active && styles.chipTextActive]}>{status.label}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <Text style={styles.sectionLabel}>Owner</Text>
+      <View style={styles.chipRow}>
+        {[{ id: null, name: "Unassigned" }, ...TEAM_MEMBERS].map((member) => {
+          const active = brief.assignee === member.id;
+          return (
+            <TouchableOpacity
+              key={member.id ?? "none"}
+              style={[styles.chip, active && styles.chipActive]}
+              disabled={saving || active}
+              onPress={() => save({ assignee: member.id })}
+            >
+              <Text style={[styles.chipText, active && styles.chipTextActive]}>{member.name}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {/* BRIEF */}
+      <View style={styles.facts}>
+        {facts.map(([label, value]) => (
+          <View key={label} style={styles.fact}>
+            <Text style={styles.factLabel}>{label}</Text>
+            {label === "Email" ? (
+              <Text style={[styles.factValue, styles.link]} onPress={() => Linking.openURL(`mailto:${value}`)}>
+                {value}
+              </Text>
+            ) : (
+              <Text style={styles.factValue}>{value}</Text>
+            )}
+          </View>
+        ))}
+      </View>
+
+      {/* SCORE */}
+      <Text style={styles.sectionLabel}>
+        Score • {brief.score.total}/100 • {LEAD_GRADE_LABELS[brief.score.grade]}
+      </Text>
+      {brief.score.breakdown.map((component) => (
+        <View key={component.factor} style={styles.scoreRow}>
+          <Text style={styles.scoreLabel}>{component.label}</Text>
+          <View style={styles.scoreTrack}>
+            <View style={[styles.scoreFill, { width: `${component.max ? (component.points / component.max) * 100 : 0}%` }]} />
+          </View>
+          <Text style={styles.scorePoints}>{component.points}/{component.max}</Text>
+          <Text style={styles.scoreReason} numberOfLines={1}>{component.reason}</Text>
+        </View>
+      ))}
+
+      <Text style={styles.sectionLabel}>Message</Text>
+      <Text style={styles.message}>{brief.message}</Text>
+
+      {brief.additions.length > 0 && (
+        <>
+          <Text style={styles.sectionLabel}>Added by the prospect</Text>
+          {brief.additions.map((addition) => (
+            <View key={addition.id} style={styles.note}>
+              <Text style={styles.noteMeta}>{new Date(addition.createdAt).toLocaleString()}</Text>
+              {addition.message ? <Text style={styles.noteBody}>{addition.message}</Text> : null}
+              {addition.attachments.length > 0 && (
+                <Text style={styles.muted}>Files: {addition.attachments.map((a) => a.name).join(", ")}</Text>
+              )}
+            </View>
+          ))}
+        </>
+      )}
+
+      <Text style={styles.sectionLabel}>Attachments</Text>
+      {brief.attachments.length === 0 && <Text style={styles.muted}>None</Text>}
+      {brief.attachments.map((attachment) => (
+        <TouchableOpacity key={attachment.id} style={styles.attachment} onPress={() => onDownload(attachment)}>
+          <Text style={styles.attachmentName} numberOfLines={1}>{attachment.name}</Text>
+          <Text style={styles.muted}>{formatFileSize(attachment.size)} • Download</Text>
+        </TouchableOpacity>
+      ))}
+
+      <Text style={styles.sectionLabel}>Calls</Text>
+      {bookings.length === 0 && <Text style={styles.muted}>No call booked</Text>}
+      {bookings.map((booking) => (
+        <Text key={booking.id} style={styles.factValue}>
+          {formatSlotDay(booking.slotStart)}, {formatSlotTime(booking.slotStart)} ({formatTeamTime(booking.slotStart)})
+          {booking.notes ? ` — ${booking.notes}` : ""}
+        </Text>
+      ))}
+
+      {/* NOTES */}
+      <Text style={styles.sectionLabel}>Internal notes</Text>
+      {brief.notes.map((n) => (
+        <View key={n.id} style={styles.note}>
+          <Text style={styles.noteMeta}>
+            {findTeamMember(n.author)?.name ?? n.author} • {new Date(n.createdAt).toLocaleString()}
+          </Text>
+          <Text style={styles.noteBody}>{n.body}</Text>
+        </View>
+      ))}
+      <TextInput
+        style={styles.noteInput}
+        placeholder="Add a note for the team"
+        placeholderTextColor={COLORS.subtle}
+        multiline
+        maxLength={MAX_NOTE_LENGTH}
+        value={note}
+        onChangeText={setNote}
+      />
+      <TouchableOpacity
+        style={[styles.noteButton, (saving || !note.trim()) && styles.noteButtonDisabled]}
+        disabled={saving || !note.trim()}
+        onPress={() => save({ note })}
+      >
+        <Text style={styles.noteButtonText}>{saving ? "Saving…" : "Add note"}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+/* -----------------------------------------------------
+   STYLES
+----------------------------------------------------- */
+const styles = StyleSheet.create({
+  reference: {
+    color: COLORS.neon,
+    fontSize: 13,
+    fontWeight: "700",
+    letterSpacing: 1,
+  },
+  title: {
+    color: COLORS.text,
+    fontSize: 22,
+    fontWeight: "700",
+    marginTop: 4,
+    marginBottom: 12,
+  },
+  warning: {
+    backgroundColor: "rgba(255,99,99,0.08)",
+    borderColor: COLORS.danger,
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  warningTitle: {
+    color: COLORS.danger,
+    fontSize: 14,
+    fontWeight: "700",
+  },
+  warningBody: {
+    color: COLORS.textMuted,
+    fontSize: 13,
+    marginTop: 4,
+  },
+  sectionLabel: {
+    color: COLORS.textMuted,
+    fontSize: 12,
+    fontWeight: "700",
+    textTransform: "uppercase",
+    letterSpacing: 1,
+    marginTop: 20,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    backgroundColor: COLORS.bgSoft,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  chipActive: {
+    borderColor: COLORS.neon,
+    backgroundColor: "rgba(182,255,51,0.08)",
+  },
+  chipText: {
+    color: COLORS.text,
+    fontSize: 13,
+  },
+  chipTextActive: {
+    color: COLORS.neon,
+  },
+  facts: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 16,
+    marginTop: 20,
+  },
+  fact: {
+    minWidth: 180,
+    flexGrow: 1,
+    flexBasis: "40%",
+  },
+  factLabel: {
+    color: COLORS.textMuted,
+    fontSize: 12,
+    marginBottom: 2,
+  },
+  factValue: {
+    color: COLORS.text,
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  link: {
+    color: COLORS.neon,
+  },
+  scoreRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    flexWrap: "wrap",
+    gap: 10,
+    marginBottom: 6,
+  },
+  scoreLabel: {
+    color: COLORS.textMuted,
+    fontSize: 13,
+    width: 100,
+  },
+  scoreTrack: {
+    width: 100,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: COLORS.bgSoft,
+    overflow: "hidden",
+  },
+  scoreFill: {
+    height: 6,
+    backgroundColor: COLORS.neon,
+  },
+  scorePoints: {
+    color: COLORS.text,
+    fontSize: 13,
+    width: 48,
+  },
+  scoreReason: {
+    color: COLORS.textMuted,
+    fontSize: 13,
+    flexShrink: 1,
+  },
+  message: {
+    color: COLORS.text,
+    fontSize: 15,
+    lineHeight: 22,
+    backgroundColor: COLORS.bgSoft,
+    borderRadius: 12,
+    padding: 16,
+  },
+  muted: {
+    color: COLORS.textMuted,
+    fontSize: 13,
+  },
+  attachment: {
+    backgroundColor: COLORS.bgSoft,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    marginBottom: 8,
+  },
+  attachmentName: {
+    color: COLORS.text,
+    fontSize: 14,
+    fontWeight: "500",
+  },
+  note: {
+    borderLeftWidth: 2,
+    borderLeftColor: COLORS.border,
+    paddingLeft: 12,
+    marginBottom: 12,
+  },
+  noteMeta: {
+    color: COLORS.textMuted,
+    fontSize: 12,
+    marginBottom: 2,
+  },
+  noteBody: {
+    color: COLORS.text,
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  noteInput: {
+    backgroundColor: COLORS.bgSoft,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    color: COLORS.text,
+    fontSize: 14,
+    padding: 12,
+    minHeight: 80,
+    textAlignVertical: "top",
+  },
+  noteButton: {
+    alignSelf: "flex-start",
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: COLORS.neon,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    marginTop: 8,
+  },
+  noteButtonDisabled: {
+    opacity: 0.5,
+  },
+  noteButtonText: {
+    color: COLORS.neon,
+    fontSize: 14,
+    fontWeight: "600",
+  },
+});
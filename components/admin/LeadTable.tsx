@@ -0,0 +1,322 @@
+import React, { useMemo, useState } from "react";
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, ScrollView } from "react-native";
+import { budgetSortValue, formatBudgetRange } from "../../lib/budget";
+import { LEAD_GRADE_LABELS, LeadGrade, ScoredBrief } from "../../lib/leadScoring";
+import { LEAD_STATUSES, LEAD_STATUS_LABELS, LeadStatus } from "../../lib/leads";
+import { TEAM_MEMBERS, findTeamMember } from "../../lib/team";
+import { COLORS } from "../../theme";
+
+/* -----------------------------------------------------
+   LEAD TABLE
+   Sortable, filterable list of briefs. Everything happens
+   client-side: the inbox holds a few hundred leads at most.
+----------------------------------------------------- */
+type SortKey = "createdAt" | "name" | "projectType" | "budget" | "score" | "status" | "assignee";
+type OwnerFilter = "anyone" | "unassigned" | string;
+
+interface Column {
+  key: SortKey;
+  label: string;
+  flex: number;
+}
+
+const COLUMNS: Column[] = [
+  { key: "createdAt", label: "Received", flex: 1.2 },
+  { key: "name", label: "Lead", flex: 2 },
+  { key: "projectType", label: "Project", flex: 1.6 },
+  { key: "budget", label: "Budget", flex: 1.2 },
+  { key: "score", label: "Score", flex: 0.9 },
+  { key: "status", label: "Status", flex: 1.1 },
+  { key: "assignee", label: "Owner", flex: 1.2 },
+];
+
+const STATUS_ORDER = Object.fromEntries(LEAD_STATUSES.map((s, i) => [s.id, i])) as Record<LeadStatus, number>;
+
+const SORT_VALUES: Record<SortKey, (lead: ScoredBrief) => string | number> = {
+  createdAt: (lead) => lead.createdAt,
+  name: (lead) => (lead.name || lead.email).toLowerCase(),
+  projectType: (lead) => lead.projectType,
+  budget: (lead) => budgetSortValue(lead.budgetRange),
+  score: (lead) => lead.score.total,
+  status: (lead) => STATUS_ORDER[lead.status],
+  assignee: (lead) => findTeamMember(lead.assignee)?.name ?? "~", // unassigned last
+};
+
+const matchesSearch = (lead: ScoredBrief, query: string) =>
+  [lead.reference, lead.name, lead.email, lead.company, lead.message]
+    .some((field) => field.toLowerCase().includes(query));
+
+interface LeadTableProps {
+  leads: ScoredBrief[];
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+}
+
+export const LeadTable: React.FC<LeadTableProps> = ({ leads, selectedId, onSelect }) => {
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({ key: "createdAt", descending: true });
+  const [statusFilter, setStatusFilter] = useState<LeadStatus | "all">("all");
+  const [gradeFilter, setGradeFilter] = useState<LeadGrade | "any">("any");
+  const [ownerFilter, setOwnerFilter] = useState<OwnerFilter>("anyone");
+  const [showQuarantined, setShowQuarantined] = useState(false);
+  const [search, setSearch] = useState("");
+
+  const visible = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    const getValue = SORT_VALUES[sort.key];
+    return leads
+      .filter((lead) => showQuarantined || lead.screening.verdict !== "quarantined")
+      .filter((lead) => statusFilter === "all" || lead.status === statusFilter)
+      .filter((lead) => gradeFilter === "any" || lead.score.grade === gradeFilter)
+      .filter((lead) =>
+        ownerFilter === "anyone" ||
+        (ownerFilter === "unassigned" ? !lead.assignee : lead.assignee === ownerFilter)
+      )
+      .filter((lead) => !query || matchesSearch(lead, query))
+      .sort((a, b) => {
+        const left = getValue(a);
+        const right = getValue(b);
+        const order = left < right ? -1 : left > right ? 1 : 0;
+        return sort.descending ? -order : order;
+      });
+  }, [leads, sort, statusFilter, gradeFilter, ownerFilter, showQuarantined, search]);
+
+  const statusCounts = useMemo(() => {
+    const counts: Partial<Record<LeadStatus, number>> = {};
+    for (const lead of leads) {
+      if (showQuarantined || lead.screening.verdict !== "quarantined") {
+        counts[lead.status] = (counts[lead.status] ?? 0) + 1;
+      }
+    }
+    return counts;
+  }, [leads, showQuarantined]);
+
+  const toggleSort = (key: SortKey) =>
+    setSort((prev) => ({ key, descending: prev.key === key ? !prev.descending : key === "createdAt" || key === "budget" || key === "score" }));
+
+  const chip = (label: string, active: boolean, onPress: () => void) => (
+    <TouchableOpacity key={label} style={[styles.chip, active && styles.chipActive]} onPress={onPress}>
+      <Text style={[styles.chipText, active && styles.chipTextActive]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      {/* FILTERS */}
+      <TextInput
+        style={styles.search}
+        placeholder="Search reference, name, email, company or message"
+        placeholderTextColor={COLORS.subtle}
+        value={search}
+        onChangeText={setSearch}
+      />
+      <View style={styles.chipRow}>
+        {chip("All", statusFilter === "all", () => setStatusFilter("all"))}
+        {LEAD_STATUSES.map((status) =>
+          chip(`${status.label} (${statusCounts[status.id] ?? 0})`, statusFilter === status.id, () =>
+            setStatusFilter(status.id)
+          )
+        )}
+      </View>
+      <View style={styles.chipRow}>
+        {chip("Any score", gradeFilter === "any", () => setGradeFilter("any"))}
+        {(Object.keys(LEAD_GRADE_LABELS) as LeadGrade[]).map((grade) =>
+          chip(LEAD_GRADE_LABELS[grade], gradeFilter === grade, () => setGradeFilter(grade))
+        )}
+      </View>
+      <View style={styles.chipRow}>
+        {chip("Anyone", ownerFilter === "anyone", () => setOwnerFilter("anyone"))}
+        {chip("Unassigned", ownerFilter === "unassigned", () => setOwnerFilter("unassigned"))}
+        {TEAM_MEMBERS.map((member) =>
+          chip(member.name, ownerFilter === member.id, () => setOwnerFilter(member.id))
+        )}
+        {chip("Show quarantined", showQuarantined, () => setShowQuarantined((v) => !v))}
+      </View>
+
+      {/* TABLE */}
+      <ScrollView horizontal contentContainerStyle={styles.tableScroll}>
+        <View style={styles.table}>
+          <View style={[styles.row, styles.headerRow]}>
+            {COLUMNS.map((column) => (
+              <TouchableOpacity key={column.key} style={{ flex: column.flex }} onPress={() => toggleSort(column.key)}>
+                <Text style={[styles.headerText, sort.key === column.key && styles.headerTextActive]}>
+                  {column.label}
+                  {sort.key === column.key ? (sort.descending ? " ↓" : " ↑") : ""}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {visible.map((lead) => (
+            <TouchableOpacity
+              key={lead.id}
+              style={[styles.row, lead.id === selectedId && styles.rowSelected]}
+              onPress={() => onSelect(lead.id)}
+            >
+              <View style={{ flex: 1.2 }}>
+                <Text style={styles.cellText}>{formatDate(lead.createdAt)}</Text>
+                <Text style={styles.cellMuted}>{lead.reference}</Text>
+              </View>
+              <View style={{ flex: 2 }}>
+                <Text style={styles.cellText} numberOfLines={1}>
+                  {lead.name || lead.email}
+                  {lead.screening.verdict === "quarantined" ? "  ⚠︎" : ""}
+                </Text>
+                <Text style={styles.cellMuted} numberOfLines={1}>{lead.company || lead.email}</Text>
+              </View>
+              <Text style={[styles.cellText, { flex: 1.6 }]} numberOfLines={1}>{lead.projectType || "—"}</Text>
+              <Text style={[styles.cellText, { flex: 1.2 }]}>
+                {lead.budgetRange ? formatBudgetRange(lead.budgetRange) : "—"}
+              </Text>
+              <View style={{ flex: 0.9 }}>
+                <Text style={[styles.cellText, styles[lead.score.grade]]}>{lead.score.total}</Text>
+                <Text style={styles.cellMuted}>{LEAD_GRADE_LABELS[lead.score.grade]}</Text>
+              </View>
+              <View style={{ flex: 1.1 }}>
+                <Text style={[styles.statusPill, lead.status === "new" && styles.statusPillNew]}>
+                  {LEAD_STATUS_LABELS[lead.status]}
+                </Text>
+              </View>
+              <Text style={[styles.cellMuted, { flex: 1.2 }]} numberOfLines={1}>
+                {findTeamMember(lead.assignee)?.name ?? "Unassigned"}
+              </Text>
+            </TouchableOpacity>
+          ))}
+
+          {visible.length === 0 && (
+            <Text style={styles.empty}>No briefs match these filters.</Text>
+          )}
+        </View>
+      </ScrollView>
+    </View>
+  );
+};
+
+/* -----------------------------------------------------
+   HELPERS
+----------------------------------------------------- */
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+
+/* -----------------------------------------------------
+   STYLES
+----------------------------------------------------- */
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  search: {
+    backgroundColor: COLORS.bgSoft,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    color: COLORS.text,
+    fontSize: 15,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    marginBottom: 12,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 10,
+  },
+  chip: {
+    backgroundColor: COLORS.bgSoft,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  chipActive: {
+    borderColor: COLORS.neon,
+    backgroundColor: "rgba(182,255,51,0.08)",
+  },
+  chipText: {
+    color: COLORS.text,
+    fontSize: 13,
+  },
+  chipTextActive: {
+    color: COLORS.neon,
+  },
+  tableScroll: {
+    flexGrow: 1,
+  },
+  table: {
+    flex: 1,
+    minWidth: 800,
+    marginTop: 8,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    overflow: "hidden",
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  headerRow: {
+    backgroundColor: COLORS.bgSoft,
+  },
+  rowSelected: {
+    backgroundColor: "rgba(182,255,51,0.06)",
+  },
+  headerText: {
+    color: COLORS.textMuted,
+    fontSize: 12,
+    fontWeight: "700",
+    textTransform: "uppercase",
+    letterSpacing: 1,
+  },
+  headerTextActive: {
+    color: COLORS.neon,
+  },
+  cellText: {
+    color: COLORS.text,
+    fontSize: 14,
+  },
+  cellMuted: {
+    color: COLORS.textMuted,
+    fontSize: 13,
+    marginTop: 2,
+  },
+  statusPill: {
+    alignSelf: "flex-start",
+    color: COLORS.text,
+    fontSize: 12,
+    fontWeight: "600",
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    overflow: "hidden",
+  },
+  statusPillNew: {
+    borderColor: COLORS.neon,
+    color: COLORS.neon,
+  },
+  hot: {
+    color: COLORS.neon,
+    fontWeight: "700",
+  },
+  warm: {
+    color: COLORS.text,
+    fontWeight: "600",
+  },
+  cold: {
+    color: COLORS.textMuted,
+  },
+  empty: {
+    color: COLORS.textMuted,
+    fontSize: 14,
+    padding: 24,
+    textAlign: "center",
+  },
+});
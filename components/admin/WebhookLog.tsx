@@ -0,0 +1,204 @@
+import React, { useState } from "react";
+import { View, Text, StyleSheet, TouchableOpacity } from "react-native";
+import type { AdminWebhookLog, DeliveryState, WebhookDelivery } from "../../lib/webhooks";
+import { COLORS } from "../../theme";
+
+/* -----------------------------------------------------
+   WEBHOOK LOG
+   Where each brief event went, every attempt, and a way
+   to send one again once the receiving end is fixed.
+----------------------------------------------------- */
+interface WebhookLogProps {
+  log: AdminWebhookLog | null;
+  onReplay: (delivery: WebhookDelivery) => Promise<void>;
+}
+
+const STATE_LABELS: Record<DeliveryState, string> = {
+  pending: "Retrying",
+  delivered: "Delivered",
+  failed: "Failed",
+};
+
+export const WebhookLog: React.FC<WebhookLogProps> = ({ log, onReplay }) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [replayingId, setReplayingId] = useState<string | null>(null);
+
+  if (!log) return null;
+
+  const replay = async (delivery: WebhookDelivery) => {
+    setReplayingId(delivery.id);
+    try {
+      await onReplay(delivery);
+    } finally {
+      setReplayingId(null);
+    }
+  };
+
+  return (
+    <View>
+      <Text style={styles.sectionLabel}>Endpoints</Text>
+      {log.endpoints.length === 0 && (
+        <Text style={styles.muted}>No endpoints configured. Set WEBHOOK_ENDPOINTS to start sending events.</Text>
+      )}
+      {log.endpoints.map((endpoint) => (
+        <View key={endpoint.id} style={styles.endpoint}>
+          <Text style={styles.cellText}>{endpoint.id}</Text>
+          <Text style={styles.cellMuted} numberOfLines={1}>{endpoint.url}</Text>
+          <Text style={styles.cellMuted}>{endpoint.events.join(", ")}</Text>
+        </View>
+      ))}
+
+      <Text style={styles.sectionLabel}>Deliveries</Text>
+      <View style={styles.table}>
+        {log.deliveries.map((delivery) => {
+          const last = delivery.attempts[delivery.attempts.length - 1];
+          const expanded = expandedId === delivery.id;
+          return (
+            <View key={delivery.id} style={styles.row}>
+              <TouchableOpacity
+                style={styles.rowMain}
+                onPress={() => setExpandedId(expanded ? null : delivery.id)}
+              >
+                <View style={{ flex: 1.2 }}>
+                  <Text style={styles.cellText}>{delivery.type}</Text>
+                  <Text style={styles.cellMuted}>{new Date(delivery.createdAt).toLocaleString()}</Text>
+                </View>
+                <Text style={[styles.cellMuted, { flex: 1 }]} numberOfLines={1}>{delivery.endpointId}</Text>
+                <View style={{ flex: 1 }}>
+                  <Text style={[styles.statePill, styles[delivery.state]]}>{STATE_LABELS[delivery.state]}</Text>
+                  <Text style={styles.cellMuted}>
+                    {delivery.attempts.length} attempt{delivery.attempts.length === 1 ? "" : "s"}
+                    {last ? ` • ${last.status ?? "no response"}` : ""}
+                  </Text>
+                </View>
+                <TouchableOpacity disabled={replayingId === delivery.id} onPress={() => replay(delivery)}>
+                  <Text style={styles.link}>{replayingId === delivery.id ? "Sending…" : "Replay"}</Text>
+                </TouchableOpacity>
+              </TouchableOpacity>
+
+              {expanded && (
+                <View style={styles.attempts}>
+                  {delivery.attempts.map((attempt, index) => (
+                    <Text key={attempt.at + index} style={styles.cellMuted}>
+                      {new Date(attempt.at).toLocaleTimeString()} • {attempt.status ?? "—"} • {attempt.durationMs} ms
+                      {attempt.error ? ` • ${attempt.error}` : ""}
+                    </Text>
+                  ))}
+                  {delivery.nextAttemptAt && (
+                    <Text style={styles.cellMuted}>
+                      Next retry {new Date(delivery.nextAttemptAt).toLocaleTimeString()}
+                    </Text>
+                  )}
+                  <Text style={styles.payload}>{delivery.body}</Text>
+                </View>
+              )}
+            </View>
+          );
+        })}
+        {log.deliveries.length === 0 && <Text style={styles.empty}>No webhooks sent yet.</Text>}
+      </View>
+    </View>
+  );
+};
+
+/* -----------------------------------------------------
+   STYLES
+----------------------------------------------------- */
+const styles = StyleSheet.create({
+  sectionLabel: {
+    color: COLORS.textMuted,
+    fontSize: 12,
+    fontWeight: "700",
+    textTransform: "uppercase",
+    letterSpacing: 1,
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  muted: {
+    color: COLORS.textMuted,
+    fontSize: 13,
+    marginBottom: 12,
+  },
+  endpoint: {
+    backgroundColor: COLORS.bgSoft,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    marginBottom: 8,
+  },
+  table: {
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    overflow: "hidden",
+    marginTop: 8,
+  },
+  row: {
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  rowMain: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  cellText: {
+    color: COLORS.text,
+    fontSize: 14,
+  },
+  cellMuted: {
+    color: COLORS.textMuted,
+    fontSize: 13,
+    marginTop: 2,
+  },
+  statePill: {
+    alignSelf: "flex-start",
+    fontSize: 12,
+    fontWeight: "600",
+    borderRadius: 10,
+    borderWidth: 1,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    overflow: "hidden",
+  },
+  pending: {
+    color: COLORS.text,
+    borderColor: COLORS.border,
+  },
+  delivered: {
+    color: COLORS.neon,
+    borderColor: COLORS.neon,
+  },
+  failed: {
+    color: COLORS.danger,
+    borderColor: COLORS.danger,
+  },
+  link: {
+    color: COLORS.neon,
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  attempts: {
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+  },
+  payload: {
+    color: COLORS.textMuted,
+    fontSize: 12,
+    fontFamily: "monospace",
+    backgroundColor: COLORS.bgSoft,
+    borderRadius: 8,
+    padding: 10,
+    marginTop: 8,
+  },
+  empty: {
+    color: COLORS.textMuted,
+    fontSize: 14,
+    padding: 24,
+    textAlign: "center",
+  },
+});
@@ -0,0 +1,227 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  View,
+  ScrollView,
+  Animated,
+  Easing,
+  Platform,
+  Dimensions,
+  LayoutChangeEvent,
+  useWindowDimensions,
+} from "react-native";
+import { MAX_WIDTH, responsiveValue, useDriver } from "../theme";
+
+// Shared by scroll reveals and any in-place transitions that should feel the same.
+export const REVEAL_EASING = Easing.out(Easing.cubic);
+export const REVEAL_DURATION = 800;
+
+/* -----------------------------------------------------
+   GRADIENT VIEW COMPONENT
+----------------------------------------------------- */
+export const GradientView: React.FC<{
+  colors: string[];
+  style?: any;
+  children?: React.ReactNode;
+}> = ({ colors, style, children }) => {
+  if (Platform.OS === 'web') {
+    return (
+      <View 
+        style={[
+          style,
+          {
+            background: `linear-gradient(135deg, ${colors.join(', ')})`,
+          }
+        ]}
+      >
+        {children}
+      </View>
+    );
+  }
+  
+  return (
+    <View 
+      style={[
+        style,
+        { backgroundColor: colors[0] }
+      ]}
+    >
+      {children}
+    </View>
+  );
+};
+
+// Enhanced animated components
+export const AnimatedScrollView = Animated.createAnimatedComponent(ScrollView);
+
+/* -----------------------------------------------------
+   SCROLL ANIMATION HOOK
+----------------------------------------------------- */
+export const useScrollAnimation = (delay: number = 0, scrollY?: Animated.Value) => {
+  const [isVisible, setIsVisible] = useState(false);
+  const [layoutY, setLayoutY] = useState<number | null>(null);
+  const animValue = useRef(new Animated.Value(0)).current;
+  const viewRef = useRef<View | null>(null);
+
+  const animateIn = () => {
+    if (isVisible) return;
+    setIsVisible(true);
+    Animated.timing(animValue, {
+      toValue: 1,
+      duration: REVEAL_DURATION,
+      delay,
+      easing: REVEAL_EASING,
+      useNativeDriver: useDriver,
+    }).start();
+  };
+
+  const onLayout = (e: LayoutChangeEvent) => {
+    setLayoutY(e.nativeEvent.layout.y);
+  };
+
+  useEffect(() => {
+    if (Platform.OS === "web") {
+      if (isVisible) return;
+
+      const observer = new IntersectionObserver(
+        (entries) => {
+          entries.forEach((entry) => {
+            if (entry.isIntersecting) {
+              animateIn();
+              observer.disconnect();
+            }
+          });
+        },
+        {
+          threshold: 0.1,
+          rootMargin: "0px 0px -100px 0px",
+        }
+      );
+
+      if (viewRef.current) {
+        observer.observe(viewRef.current as any);
+      }
+
+      return () => observer.disconnect();
+    }
+
+    if (!scrollY) {
+      const t = setTimeout(() => {
+        animateIn();
+      }, 80);
+      return () => clearTimeout(t);
+    }
+
+    if (isVisible) return;
+
+    const screenHeight = Dimensions.get("window").height;
+    const buffer = screenHeight * 0.1;
+
+    const checkAndAnimate = (scrollValue: number) => {
+      if (isVisible || layoutY == null) return;
+      const visibleBottom = scrollValue + screenHeight;
+      if (visibleBottom >= layoutY + buffer) {
+        animateIn();
+      }
+    };
+
+    if (layoutY != null) {
+      checkAndAnimate(0);
+    }
+
+    const id = scrollY.addListener(({ value }) => {
+      checkAndAnimate(value);
+    });
+
+    return () => {
+      scrollY.removeListener(id);
+    };
+  }, [scrollY, layoutY, isVisible, delay]);
+
+  const animationStyle = {
+    opacity: animValue,
+    transform: [
+      {
+        translateY: animValue.interpolate({
+          inputRange: [0, 1],
+          outputRange: [60, 0],
+        }),
+      },
+    ],
+  };
+
+  return {
+    isVisible,
+    viewRef,
+    animationStyle,
+    animValue,
+    onLayout,
+  };
+};
+
+/* -----------------------------------------------------
+   ANIMATED COMPONENTS
+----------------------------------------------------- */
+export const ScrollAnimatedView: React.FC<{
+  children: React.ReactNode;
+  style?: any;
+  delay?: number;
+  scrollY?: Animated.Value;
+}> = ({ children, style, delay = 0, scrollY }) => {
+  const { animationStyle, viewRef, onLayout } = useScrollAnimation(delay, scrollY);
+
+  return (
+    <Animated.View
+      ref={viewRef}
+      onLayout={onLayout}
+      style={[style, animationStyle]}
+    >
+      {children}
+    </Animated.View>
+  );
+};
+
+export const StaggeredScrollAnimation: React.FC<{
+  children: React.ReactNode | React.ReactNode[];
+  style?: any;
+  itemDelay?: number;
+  scrollY?: Animated.Value;
+}> = ({ children, style, itemDelay = 100, scrollY }) => {
+  const items = React.Children.toArray(children);
+
+  return (
+    <View style={style}>
+      {items.map((child, index) => (
+        <ScrollAnimatedView
+          key={index}
+          delay={index * itemDelay}
+          scrollY={scrollY}
+        >
+          {child}
+        </ScrollAnimatedView>
+      ))}
+    </View>
+  );
+};
+
+/* -----------------------------------------------------
+   RESPONSIVE CONTAINER COMPONENT
+----------------------------------------------------- */
+export const ResponsiveContainer: React.FC<{
+  children: React.ReactNode;
+  style?: any;
+}> = ({ children, style }) => {
+  const { width } = useWindowDimensions();
+  
+  const containerStyle = {
+    width: "100%",
+    maxWidth: MAX_WIDTH,
+    alignSelf: "center" as const,
+    paddingHorizontal: responsiveValue(16, 24, 40, width),
+  };
+
+  return (
+    <View style={[containerStyle, style]}>
+      {children}
+    </View>
+  );
+};
@@ -0,0 +1,36 @@
+import { useCallback, useEffect, useState } from "react";
+import type { AdminSession } from "../lib/leads";
+import { signIn as requestSignIn } from "../lib/adminApi";
+import { storage } from "../lib/storage";
+
+/* -----------------------------------------------------
+   ADMIN SESSION HOOK
+   Keeps the admin token across reloads. The server owns
+   expiry; any 401 from an admin call should sign out.
+----------------------------------------------------- */
+const SESSION_KEY = "crafttech.adminSession.v1";
+
+export const useAdminSession = () => {
+  const [session, setSession] = useState<AdminSession | null>(null);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    storage.get<AdminSession>(SESSION_KEY).then((saved) => {
+      setSession(saved);
+      setLoaded(true);
+    });
+  }, []);
+
+  const signIn = useCallback(async (email: string, password: string) => {
+    const next = await requestSignIn(email, password);
+    setSession(next);
+    await storage.set(SESSION_KEY, next);
+  }, []);
+
+  const signOut = useCallback(() => {
+    setSession(null);
+    storage.remove(SESSION_KEY);
+  }, []);
+
+  return { session, loaded, signIn, signOut };
+};
@@ -0,0 +1,95 @@
+import { useCallback, useRef, useState } from "react";
+import {
+  AttachmentMeta,
+  MAX_ATTACHMENTS,
+  checkAttachment,
+  resolveAttachmentType,
+} from "../lib/attachments";
+import { ApiError, uploadAttachment } from "../lib/api";
+
+/* -----------------------------------------------------
+   ATTACHMENT UPLOADS HOOK
+   Uploads each picked file straight away and tracks its
+   progress, so the brief only has to send finished IDs.
+----------------------------------------------------- */
+export interface LocalFile {
+  name: string;
+  size?: number;
+  type?: string | null;
+  uri?: string; // native pickers hand us a file URI...
+  file?: Blob; // ...the web hands us the File itself
+}
+
+export interface UploadItem {
+  key: string;
+  name: string;
+  size: number;
+  progress: number;
+  status: "uploading" | "done" | "error";
+  error?: string;
+  meta?: AttachmentMeta;
+}
+
+let nextKey = 0;
+
+export const useAttachmentUploads = () => {
+  const [items, setItems] = useState<UploadItem[]>([]);
+  const itemsRef = useRef(items);
+  itemsRef.current = items;
+
+  const patch = (key: string, update: Partial<UploadItem>) =>
+    setItems((prev) => prev.map((item) => (item.key === key ? { ...item, ...update } : item)));
+
+  const upload = async (key: string, file: LocalFile, type: string) => {
+    try {
+      const body = file.file ?? (await (await fetch(file.uri!)).blob());
+      const meta = await uploadAttachment(
+        { name: file.name, type, body },
+        (progress) => patch(key, { progress })
+      );
+      patch(key, { status: "done", progress: 1, meta, size: meta.size });
+    } catch (err) {
+      patch(key, {
+        status: "error",
+        error: err instanceof ApiError ? err.message : "Upload failed. Please try again.",
+      });
+    }
+  };
+
+  const add = useCallback((files: LocalFile[]) => {
+    let slots = MAX_ATTACHMENTS - itemsRef.current.filter((i) => i.status !== "error").length;
+    const added: UploadItem[] = [];
+
+    for (const file of files) {
+      const key = `upload-${nextKey++}`;
+      const type = resolveAttachmentType(file.name, file.type);
+      // Native pickers don't always report a size; the server checks it either way.
+      const error = slots <= 0
+        ? `Only ${MAX_ATTACHMENTS} files per brief.`
+        : checkAttachment({ name: file.name, type, size: file.size || 1 });
+
+      added.push({ key, name: file.name, size: file.size ?? 0, progress: 0, status: error ? "error" : "uploading", error: error ?? undefined });
+      if (!error) {
+        slots -= 1;
+        upload(key, file, type);
+      }
+    }
+
+    setItems((prev) => [...prev, ...added]);
+  }, []);
+
+  const remove = useCallback((key: string) => {
+    setItems((prev) => prev.filter((item) => item.key !== key));
+  }, []);
+
+  const reset = useCallback(() => setItems([]), []);
+
+  return {
+    items,
+    add,
+    remove,
+    reset,
+    busy: items.some((item) => item.status === "uploading"),
+    attachmentIds: items.flatMap((item) => (item.status === "done" && item.meta ? [item.meta.id] : [])),
+  };
+};
@@ -0,0 +1,76 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { BriefInput, EMPTY_BRIEF } from "../lib/briefs";
+import { storage } from "../lib/storage";
+
+/* -----------------------------------------------------
+   BRIEF DRAFT HOOK
+   Autosaves the wizard (debounced) and offers the saved
+   draft back on the next visit. Attachments aren't kept:
+   their uploads belong to the session that made them.
+----------------------------------------------------- */
+const DRAFT_KEY = "crafttech.briefDraft.v1";
+const SAVE_DELAY_MS = 800;
+const DRAFT_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export type DraftValues = Omit<BriefInput, "attachments">;
+
+export interface BriefDraft {
+  values: DraftValues;
+  stepIndex: number;
+  savedAt: string;
+}
+
+const isBlank = (values: DraftValues) =>
+  (Object.keys(values) as (keyof DraftValues)[]).every(
+    (field) => JSON.stringify(values[field]) === JSON.stringify(EMPTY_BRIEF[field])
+  );
+
+export const useBriefDraft = (values: BriefInput, stepIndex: number) => {
+  const [pendingDraft, setPendingDraft] = useState<BriefDraft | null>(null);
+  const [loaded, setLoaded] = useState(false);
+  const timer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    storage.get<BriefDraft>(DRAFT_KEY).then((draft) => {
+      const fresh = draft && Date.now() - Date.parse(draft.savedAt) < DRAFT_TTL_MS;
+      if (fresh && !isBlank(draft.values)) setPendingDraft(draft);
+      else if (draft) storage.remove(DRAFT_KEY);
+      setLoaded(true);
+    });
+  }, []);
+
+  const { attachments: _attachments, ...draftValues } = values;
+  const snapshot = JSON.stringify(draftValues);
+
+  useEffect(() => {
+    // Don't overwrite a stored draft the visitor hasn't decided about yet.
+    if (!loaded || pendingDraft) return;
+    if (timer.current) clearTimeout(timer.current);
+    timer.current = setTimeout(() => {
+      if (isBlank(draftValues)) storage.remove(DRAFT_KEY);
+      else storage.set(DRAFT_KEY, { values: draftValues, stepIndex, savedAt: new Date().toISOString() });
+    }, SAVE_DELAY_MS);
+    return () => {
+      if (timer.current) clearTimeout(timer.current);
+    };
+  }, [snapshot, stepIndex, loaded, pendingDraft]);
+
+  // Hands the draft to the caller and resumes autosaving.
+  const takeDraft = useCallback(() => {
+    const draft = pendingDraft;
+    setPendingDraft(null);
+    return draft;
+  }, [pendingDraft]);
+
+  const discardDraft = useCallback(() => {
+    setPendingDraft(null);
+    storage.remove(DRAFT_KEY);
+  }, []);
+
+  const clearDraft = useCallback(() => {
+    if (timer.current) clearTimeout(timer.current);
+    storage.remove(DRAFT_KEY);
+  }, []);
+
+  return { pendingDraft, takeDraft, discardDraft, clearDraft };
+};
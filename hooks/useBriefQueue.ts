@@ -0,0 +1,67 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Platform } from "react-native";
+import NetInfo from "@react-native-community/netinfo";
+import { FlushResult, QueuedBrief, enqueueBrief, flushQueue, nextAttemptAt, readQueue } from "../lib/briefQueue";
+import type { FormStamp } from "../lib/challenge";
+
+/* -----------------------------------------------------
+   BRIEF QUEUE HOOK
+   Native only: drains the offline queue on launch, when
+   connectivity returns, and whenever the next backoff
+   timer is due. The web build always sends directly.
+----------------------------------------------------- */
+export const OFFLINE_QUEUE_ENABLED = Platform.OS !== "web";
+
+export const useBriefQueue = (onResult: (result: FlushResult) => void) => {
+  const [queuedCount, setQueuedCount] = useState(0);
+  const timer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const onResultRef = useRef(onResult);
+  onResultRef.current = onResult;
+
+  const schedule = useCallback(async () => {
+    if (timer.current) clearTimeout(timer.current);
+    const queue = await readQueue();
+    setQueuedCount(queue.length);
+    const due = await nextAttemptAt();
+    if (due != null) timer.current = setTimeout(() => drain(false), Math.max(due - Date.now(), 0));
+  }, []);
+
+  const drain = useCallback(async (force: boolean) => {
+    const { isConnected } = await NetInfo.fetch();
+    if (isConnected === false) return schedule();
+    const results = await flushQueue(force);
+    results.forEach((result) => onResultRef.current(result));
+    await schedule();
+  }, [schedule]);
+
+  useEffect(() => {
+    if (!OFFLINE_QUEUE_ENABLED) return;
+    drain(false);
+
+    let wasConnected: boolean | null = null;
+    const unsubscribe = NetInfo.addEventListener((state) => {
+      const connected = state.isConnected !== false && state.isInternetReachable !== false;
+      // Coming back online is the best signal we'll get; don't wait out the backoff.
+      if (connected && wasConnected === false) drain(true);
+      wasConnected = connected;
+    });
+
+    return () => {
+      unsubscribe();
+      if (timer.current) clearTimeout(timer.current);
+    };
+  }, [drain]);
+
+  const queueBrief = useCallback(async (input: QueuedBrief["input"], idempotencyKey: string, stamp: FormStamp | null) => {
+    await enqueueBrief(input, idempotencyKey, stamp);
+    await schedule();
+  }, [schedule]);
+
+  const isOffline = useCallback(async () => {
+    if (!OFFLINE_QUEUE_ENABLED) return false;
+    const state = await NetInfo.fetch();
+    return state.isConnected === false || state.isInternetReachable === false;
+  }, []);
+
+  return { queuedCount, queueBrief, isOffline };
+};
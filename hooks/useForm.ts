@@ -0,0 +1,158 @@
+import { useCallback, useMemo, useRef, useState } from "react";
+import {
+  FormErrors,
+  FormSchema,
+  hasErrors,
+  validate,
+  validateField,
+  validateSync,
+} from "../lib/validation";
+
+/* -----------------------------------------------------
+   FORM STATE HOOK
+   Tracks values, touched/dirty fields and the errors a
+   schema produces. Errors only surface for fields the
+   visitor has touched, or everywhere after a submit attempt.
+----------------------------------------------------- */
+type FieldFlags<V> = Partial<Record<keyof V, boolean>>;
+
+export interface FormController<V> {
+  values: V;
+  errors: FormErrors<V>;
+  touched: FieldFlags<V>;
+  dirty: FieldFlags<V>;
+  isValid: boolean;
+  isValidating: boolean;
+  setValue: <K extends keyof V>(field: K, value: V[K]) => void;
+  setValues: (values: Partial<V>) => void;
+  blur: (field: keyof V) => void;
+  visibleError: (field: keyof V) => string | undefined;
+  validateFields: (fields: (keyof V)[]) => Promise<boolean>;
+  validateAll: () => Promise<boolean>;
+  setServerErrors: (errors: FormErrors<V>) => void;
+  reset: (values?: V) => void;
+}
+
+export const useForm = <V,>(schema: FormSchema<V>, initialValues: V): FormController<V> => {
+  const [values, setValuesState] = useState<V>(initialValues);
+  const [touched, setTouched] = useState<FieldFlags<V>>({});
+  const [dirty, setDirty] = useState<FieldFlags<V>>({});
+  const [asyncErrors, setAsyncErrors] = useState<FormErrors<V>>({});
+  const [pending, setPending] = useState<FieldFlags<V>>({});
+  const [submitAttempted, setSubmitAttempted] = useState(false);
+
+  const initialRef = useRef(initialValues);
+  const valuesRef = useRef(values);
+  valuesRef.current = values;
+
+  const syncErrors = useMemo(() => validateSync(schema, values), [schema, values]);
+  const errors = useMemo(() => ({ ...asyncErrors, ...syncErrors }), [asyncErrors, syncErrors]);
+  const isValidating = Object.values(pending).some(Boolean);
+  const isValid = !hasErrors(errors) && !isValidating;
+
+  const setValues = useCallback((patch: Partial<V>) => {
+    setValuesState((prev) => ({ ...prev, ...patch }));
+    const fields = Object.keys(patch) as (keyof V)[];
+    setDirty((prev) => {
+      const next = { ...prev };
+      for (const field of fields) next[field] = patch[field] !== initialRef.current[field];
+      return next;
+    });
+    // A changed value invalidates whatever the async rules said about the old one.
+    setAsyncErrors((prev) => {
+      const next = { ...prev };
+      for (const field of fields) delete next[field];
+      return next;
+    });
+  }, []);
+
+  const setValue = useCallback(<K extends keyof V>(field: K, value: V[K]) => {
+    setValues({ [field]: value } as unknown as Partial<V>);
+  }, [setValues]);
+
+  const runAsync = useCallback(async (field: keyof V) => {
+    if (!schema[field].asyncRules?.length) return;
+    const snapshot = valuesRef.current;
+    setPending((prev) => ({ ...prev, [field]: true }));
+    try {
+      const error = await validateField(schema, field, snapshot);
+      // Ignore results for a value the visitor has since changed.
+      if (valuesRef.current[field] !== snapshot[field]) return;
+      setAsyncErrors((prev) => {
+        const next = { ...prev };
+        if (error) next[field] = error;
+        else delete next[field];
+        return next;
+      });
+    } finally {
+      setPending((prev) => ({ ...prev, [field]: false }));
+    }
+  }, [schema]);
+
+  const blur = useCallback((field: keyof V) => {
+    setTouched((prev) => ({ ...prev, [field]: true }));
+    runAsync(field);
+  }, [runAsync]);
+
+  const visibleError = (field: keyof V) =>
+    touched[field] || submitAttempted ? errors[field] : undefined;
+
+  // Validates a subset (e.g. one wizard step) and reveals its errors.
+  const validateFields = useCallback(async (fields: (keyof V)[]) => {
+    setTouched((prev) => {
+      const next = { ...prev };
+      for (const field of fields) next[field] = true;
+      return next;
+    });
+    const results = await Promise.all(fields.map((field) => validateField(schema, field, valuesRef.current)));
+    setAsyncErrors((prev) => {
+      const next = { ...prev };
+      fields.forEach((field, i) => {
+        if (results[i]) next[field] = results[i] as string;
+        else delete next[field];
+      });
+      return next;
+    });
+    return results.every((error) => !error);
+  }, [schema]);
+
+  const validateAll = useCallback(async () => {
+    setSubmitAttempted(true);
+    const result = await validate(schema, valuesRef.current);
+    setAsyncErrors(result);
+    return !hasErrors(result);
+  }, [schema]);
+
+  const setServerErrors = useCallback((serverErrors: FormErrors<V>) => {
+    setSubmitAttempted(true);
+    setAsyncErrors((prev) => ({ ...prev, ...serverErrors }));
+  }, []);
+
+  const reset = useCallback((next?: V) => {
+    const base = next ?? initialRef.current;
+    initialRef.current = base;
+    setValuesState(base);
+    setTouched({});
+    setDirty({});
+    setAsyncErrors({});
+    setPending({});
+    setSubmitAttempted(false);
+  }, []);
+
+  return {
+    values,
+    errors,
+    touched,
+    dirty,
+    isValid,
+    isValidating,
+    setValue,
+    setValues,
+    blur,
+    visibleError,
+    validateFields,
+    validateAll,
+    setServerErrors,
+    reset,
+  };
+};
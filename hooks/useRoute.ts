@@ -0,0 +1,53 @@
+import { useCallback, useEffect, useState } from "react";
+import { appHistory } from "../lib/history";
+import { AppRoute, HOME_ROUTE, parseRoute, routePath } from "../lib/routes";
+
+/* -----------------------------------------------------
+   ROUTE HOOK
+   The current route, kept in sync with browser back and
+   forward (or the Android back button), plus navigation.
+   The query string carries page state (the Work filters)
+   and survives moving between sections.
+----------------------------------------------------- */
+interface NavigateOptions {
+  replace?: boolean;
+  keepSearch?: boolean;
+  search?: string; // a query string to set instead, e.g. "?industry=fintech"
+}
+
+const searchOf = (path: string) => {
+  const index = path.indexOf("?");
+  return index < 0 ? "" : path.slice(index);
+};
+
+export const useRoute = () => {
+  const [path, setPath] = useState(appHistory.path);
+
+  useEffect(() => {
+    setPath(appHistory.path());
+    return appHistory.subscribe(() => setPath(appHistory.path()));
+  }, []);
+
+  const navigate = useCallback((route: AppRoute, options: NavigateOptions = {}) => {
+    const search = options.search ?? (options.keepSearch ? searchOf(appHistory.path()) : "");
+    const next = `${routePath(route)}${search}`;
+    if (next === appHistory.path()) return;
+    if (options.replace) appHistory.replace(next);
+    else appHistory.push(next);
+  }, []);
+
+  // Replaces the query string in place, without a new history entry per keystroke.
+  const setSearch = useCallback((search: string) => {
+    const current = appHistory.path();
+    const next = `${current.split("?")[0]}${search}`;
+    if (next !== current) appHistory.replace(next);
+  }, []);
+
+  // Back within the site when we can; a deep-linked visitor goes "back" to home instead.
+  const back = useCallback(() => {
+    if (appHistory.canGoBack()) appHistory.back();
+    else navigate(HOME_ROUTE, { replace: true });
+  }, [navigate]);
+
+  return { route: parseRoute(path), path, search: searchOf(path), navigate, setSearch, back };
+};
@@ -0,0 +1,41 @@
+import { useEffect, useState } from "react";
+import { fetchSiteContent } from "../lib/api";
+import { BUNDLED_CONTENT } from "../lib/content.generated";
+import type { SiteContent } from "../lib/contentSchema";
+import {
+  ContentSource,
+  createBundledContentSource,
+  createCachedContentSource,
+  createFallbackContentSource,
+} from "../lib/contentSource";
+
+/* -----------------------------------------------------
+   SITE CONTENT HOOK
+   Renders the bundled copy straight away, then swaps in
+   whatever /api/content serves (files or the CMS) once it
+   arrives. Any failure leaves the bundled copy in place.
+----------------------------------------------------- */
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+export const SITE_CONTENT_SOURCE: ContentSource = createFallbackContentSource(
+  createCachedContentSource({ name: "api", load: fetchSiteContent }, CACHE_TTL_MS),
+  createBundledContentSource(),
+  // Being offline is normal on mobile; the bundled copy is a fine answer.
+  () => {}
+);
+
+export const useSiteContent = (source: ContentSource = SITE_CONTENT_SOURCE): SiteContent => {
+  const [content, setContent] = useState<SiteContent>(BUNDLED_CONTENT);
+
+  useEffect(() => {
+    let active = true;
+    source.load().then((next) => {
+      if (active) setContent(next);
+    });
+    return () => {
+      active = false;
+    };
+  }, [source]);
+
+  return content;
+};
@@ -0,0 +1,70 @@
+import type { AdminApplication, ApplicationUpdate } from "./applications";
+import type { ScoredBrief } from "./leadScoring";
+import type { AdminBriefDetail, AdminSession, LeadUpdate } from "./leads";
+import type { AdminWebhookLog, WebhookDelivery } from "./webhooks";
+import { API_BASE_URL, ApiError, request } from "./api";
+
+/* -----------------------------------------------------
+   ADMIN API CLIENT
+   Calls the /api/admin endpoints with the signed-in team
+   member's bearer token.
+----------------------------------------------------- */
+const auth = (token: string) => ({ Authorization: `Bearer ${token}` });
+
+export const signIn = (email: string, password: string) =>
+  request<AdminSession>("/api/admin/session", {
+    method: "POST",
+    body: JSON.stringify({ email, password }),
+  });
+
+export const fetchLeads = (token: string) =>
+  request<ScoredBrief[]>("/api/admin/briefs", { method: "GET", headers: auth(token) });
+
+export const fetchLead = (token: string, id: string) =>
+  request<AdminBriefDetail>(`/api/admin/briefs?id=${encodeURIComponent(id)}`, {
+    method: "GET",
+    headers: auth(token),
+  });
+
+export const updateLead = (token: string, id: string, update: LeadUpdate) =>
+  request<ScoredBrief>(`/api/admin/briefs?id=${encodeURIComponent(id)}`, {
+    method: "PATCH",
+    headers: auth(token),
+    body: JSON.stringify(update),
+  });
+
+export const fetchApplications = (token: string) =>
+  request<AdminApplication[]>("/api/admin/applications", { method: "GET", headers: auth(token) });
+
+export const updateApplication = (token: string, id: string, update: ApplicationUpdate) =>
+  request<AdminApplication>(`/api/admin/applications?id=${encodeURIComponent(id)}`, {
+    method: "PATCH",
+    headers: auth(token),
+    body: JSON.stringify(update),
+  });
+
+export const fetchWebhookLog = (token: string) =>
+  request<AdminWebhookLog>("/api/admin/webhooks", { method: "GET", headers: auth(token) });
+
+export const replayWebhook = (token: string, deliveryId: string) =>
+  request<WebhookDelivery>(`/api/admin/webhooks?id=${encodeURIComponent(deliveryId)}`, {
+    method: "POST",
+    headers: auth(token),
+  });
+
+// Attachments need the bearer header, so they come back as a Blob rather than a link.
+const download = async (token: string, query: string) => {
+  const res = await fetch(`${API_BASE_URL}/api/admin/attachment?${query}`, { headers: auth(token) }).catch(() => null);
+  if (!res) throw new ApiError("We couldn't reach our servers. Check your connection and try again.", 0);
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new ApiError(body?.error ?? "Download failed.", res.status);
+  }
+  return res.blob();
+};
+
+export const downloadAttachment = (token: string, briefId: string, attachmentId: string) =>
+  download(token, `brief=${encodeURIComponent(briefId)}&id=${encodeURIComponent(attachmentId)}`);
+
+export const downloadCv = (token: string, applicationId: string, cvId: string) =>
+  download(token, `application=${encodeURIComponent(applicationId)}&id=${encodeURIComponent(cvId)}`);
@@ -0,0 +1,167 @@
+import { Platform } from "react-native";
+import type { ApplicationCreatedResponse, ApplicationSubmission } from "./applications";
+import type { AttachmentMeta } from "./attachments";
+import type { BookingConfirmation, BookingInput, SlotsResponse } from "./bookings";
+import type { ApiErrorResponse, BriefCreatedResponse, BriefSubmission } from "./briefs";
+import type { BriefAdditionInput, BriefStatusView } from "./briefStatus";
+import { parseSiteContent } from "./contentSchema";
+import {
+  CHALLENGE_TTL_MS,
+  Challenge,
+  ChallengeProof,
+  FormStamp,
+  formStamp,
+  solveChallenge,
+} from "./challenge";
+
+/* -----------------------------------------------------
+   API CLIENT
+   The web export is served next to the /api functions on
+   Vercel, so relative URLs work there. Native builds (and
+   local dev against `npm run api:dev`) need an absolute
+   base via EXPO_PUBLIC_API_URL.
+----------------------------------------------------- */
+const DEFAULT_NATIVE_API_URL = "https://crafttech.studio";
+
+export const API_BASE_URL =
+  process.env.EXPO_PUBLIC_API_URL ?? (Platform.OS === "web" ? "" : DEFAULT_NATIVE_API_URL);
+
+export class ApiError extends Error {
+  status: number;
+  fields: ApiErrorResponse["fields"];
+
+  constructor(message: string, status: number, fields?: ApiErrorResponse["fields"]) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.fields = fields;
+  }
+}
+
+export const request = async <T,>(path: string, init: RequestInit): Promise<T> => {
+  let res: Response;
+  try {
+    res = await fetch(`${API_BASE_URL}${path}`, {
+      ...init,
+      headers: { "Content-Type": "application/json", ...init.headers },
+    });
+  } catch {
+    throw new ApiError("We couldn't reach our servers. Check your connection and try again.", 0);
+  }
+
+  const body = await res.json().catch(() => null);
+  if (!res.ok) {
+    const err = body as ApiErrorResponse | null;
+    throw new ApiError(err?.error ?? "Something went wrong. Please try again.", res.status, err?.fields);
+  }
+  return body as T;
+};
+
+// The idempotency key lets a retried submission come back as the original brief.
+export const submitBrief = (input: BriefSubmission, idempotencyKey?: string) =>
+  request<BriefCreatedResponse>("/api/briefs", {
+    method: "POST",
+    headers: idempotencyKey ? { "Idempotency-Key": idempotencyKey } : undefined,
+    body: JSON.stringify(input),
+  });
+
+export const submitApplication = (input: ApplicationSubmission, idempotencyKey?: string) =>
+  request<ApplicationCreatedResponse>("/api/applications", {
+    method: "POST",
+    headers: idempotencyKey ? { "Idempotency-Key": idempotencyKey } : undefined,
+    body: JSON.stringify(input),
+  });
+
+const statusQuery = (token: string) => `/api/brief-status?token=${encodeURIComponent(token)}`;
+
+export const fetchBriefStatus = (token: string) =>
+  request<BriefStatusView>(statusQuery(token), { method: "GET" });
+
+export const addToBrief = (token: string, input: BriefAdditionInput) =>
+  request<BriefStatusView>(statusQuery(token), { method: "POST", body: JSON.stringify(input) });
+
+// Validated here too: a proxy or stale deploy mustn't be able to break the page.
+export const fetchSiteContent = async () =>
+  parseSiteContent(await request<unknown>("/api/content", { method: "GET" }), "/api/content");
+
+export const fetchSlots = () => request<SlotsResponse>("/api/bookings", { method: "GET" });
+
+export const bookCall = (input: BookingInput) =>
+  request<BookingConfirmation>("/api/bookings", { method: "POST", body: JSON.stringify(input) });
+
+export const bookingIcsUrl = (id: string) => `${API_BASE_URL}/api/bookings?id=${encodeURIComponent(id)}`;
+
+// Passing the stamp from an earlier challenge keeps the form's original open time.
+export const fetchChallenge = (stamp: FormStamp | null = null) => {
+  const query = stamp
+    ? `?openedAt=${stamp.openedAt}&openedToken=${encodeURIComponent(stamp.openedToken)}`
+    : "";
+  return request<Challenge>(`/api/challenge${query}`, { method: "GET" });
+};
+
+// A solved challenge plus when *we* received it, so clock skew can't trip the expiry check.
+export interface PreparedProof {
+  proof: ChallengeProof;
+  receivedAt: number;
+}
+
+export const prepareProof = async (stamp: FormStamp | null = null): Promise<PreparedProof> => {
+  const challenge = await fetchChallenge(stamp);
+  const receivedAt = Date.now();
+  return { proof: await solveChallenge(challenge), receivedAt };
+};
+
+// The form-open stamp of a proof being prepared, if it got that far.
+export const pendingStamp = async (pending: Promise<PreparedProof> | null) => {
+  const prepared = pending ? await pending.catch(() => null) : null;
+  return prepared ? formStamp(prepared.proof) : null;
+};
+
+// Uses a proof prepared earlier when it's still good, otherwise makes a new one
+// that keeps the form's open time (from the old proof, or `stamp`).
+export const finalizeProof = async (
+  pending: Promise<PreparedProof> | null,
+  stamp: FormStamp | null = null
+): Promise<ChallengeProof> => {
+  let prepared = pending ? await pending.catch(() => null) : null;
+  if (!prepared || Date.now() - prepared.receivedAt > CHALLENGE_TTL_MS - 60_000) {
+    prepared = await prepareProof(prepared ? formStamp(prepared.proof) : stamp);
+  }
+  return prepared.proof;
+};
+
+export const createIdempotencyKey = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}-${Math.random().toString(36).slice(2, 12)}`;
+
+// XHR rather than fetch: it's the only way to get upload progress on both web and native.
+export const uploadAttachment = (
+  file: { name: string; type: string; body: Blob },
+  onProgress?: (fraction: number) => void
+) =>
+  new Promise<AttachmentMeta>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", `${API_BASE_URL}/api/attachments`);
+    xhr.setRequestHeader("Content-Type", file.type);
+    xhr.setRequestHeader("X-File-Name", encodeURIComponent(file.name));
+
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable) onProgress?.(e.loaded / e.total);
+    };
+    xhr.onerror = () => reject(new ApiError("Upload failed. Check your connection and try again.", 0));
+    xhr.onload = () => {
+      let body: unknown = null;
+      try {
+        body = JSON.parse(xhr.responseText);
+      } catch {
+        // fall through to the generic error below
+      }
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve(body as AttachmentMeta);
+      } else {
+        const err = body as ApiErrorResponse | null;
+        reject(new ApiError(err?.error ?? "Upload failed. Please try again.", xhr.status));
+      }
+    };
+
+    xhr.send(file.body);
+  });
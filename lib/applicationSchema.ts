@@ -0,0 +1,63 @@
+import { ApplicationInput } from "./applications";
+import { ATTACHMENT_ID_PATTERN } from "./attachments";
+import { FormSchema, rules } from "./validation";
+
+/* -----------------------------------------------------
+   APPLICATION SCHEMA
+   Checked by the careers form as the candidate types and
+   again by /api/applications, which also confirms the
+   role is still open and the CV was uploaded.
+----------------------------------------------------- */
+export const APPLICATION_SCHEMA: FormSchema<ApplicationInput> = {
+  jobSlug: {
+    label: "Role",
+    rules: [
+      rules.required("Pick the role you're applying for."),
+      rules.pattern(/^[a-z0-9]+(-[a-z0-9]+)*$/, "Pick one of the open roles."),
+    ],
+  },
+  name: {
+    label: "Full name",
+    rules: [
+      rules.required("Let us know who you are."),
+      rules.maxLength(120),
+    ],
+  },
+  email: {
+    label: "Email",
+    rules: [
+      rules.required("Email is required."),
+      rules.maxLength(254),
+      rules.email(),
+    ],
+  },
+  location: {
+    label: "Where are you based?",
+    rules: [
+      rules.required("Your city or time zone helps us check the overlap."),
+      rules.maxLength(120),
+    ],
+  },
+  portfolioUrl: {
+    label: "Portfolio, GitHub or LinkedIn",
+    rules: [
+      rules.maxLength(300),
+      rules.pattern(/^https?:\/\/[^\s/]+\.[^\s]+$/, "Enter a full link, starting with https://."),
+    ],
+  },
+  coverLetter: {
+    label: "Why this role?",
+    rules: [
+      rules.required("Tell us a little about yourself and why this role fits."),
+      rules.minLength(50, "A few sentences helps us read your CV — at least 50 characters."),
+      rules.maxLength(5000),
+    ],
+  },
+  cv: {
+    label: "CV",
+    rules: [
+      rules.required("Attach your CV as a PDF or Word document."),
+      rules.pattern(ATTACHMENT_ID_PATTERN, "Your CV didn't upload properly — please attach it again."),
+    ],
+  },
+};
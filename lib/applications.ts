@@ -0,0 +1,99 @@
+import type { AttachmentMeta } from "./attachments";
+import type { Screening } from "./briefs";
+import type { ChallengeProof } from "./challenge";
+import type { LeadNote } from "./leads";
+
+/* -----------------------------------------------------
+   APPLICATION TYPES
+   Shared by the careers form, /api/applications and the
+   admin's Applications tab. Applications are kept apart
+   from briefs: a different pipeline, and they hold CVs.
+----------------------------------------------------- */
+export interface ApplicationInput {
+  jobSlug: string; // a JobPosting slug
+  name: string;
+  email: string;
+  location: string; // city or time zone; we hire across several
+  portfolioUrl: string; // optional
+  coverLetter: string;
+  cv: string; // ID returned by /api/attachments
+}
+
+export type ApplicationField = keyof ApplicationInput;
+
+export const EMPTY_APPLICATION: ApplicationInput = {
+  jobSlug: "",
+  name: "",
+  email: "",
+  location: "",
+  portfolioUrl: "",
+  coverLetter: "",
+  cv: "",
+};
+
+// CVs go through the same upload endpoint as brief attachments, but only these types are accepted.
+export const CV_TYPES = [
+  "application/pdf",
+  "application/msword",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+];
+
+export const isCvType = (type: string) => CV_TYPES.includes(type);
+
+// What the client actually posts, with the same anti-spam evidence as a brief.
+export interface ApplicationSubmission extends ApplicationInput {
+  website?: string;
+  challenge?: ChallengeProof;
+}
+
+/* -----------------------------------------------------
+   HIRING PIPELINE
+----------------------------------------------------- */
+export type ApplicationStatus = "new" | "screening" | "interview" | "offer" | "hired" | "rejected";
+
+export const APPLICATION_STATUSES: { id: ApplicationStatus; label: string }[] = [
+  { id: "new", label: "New" },
+  { id: "screening", label: "Screening" },
+  { id: "interview", label: "Interview" },
+  { id: "offer", label: "Offer" },
+  { id: "hired", label: "Hired" },
+  { id: "rejected", label: "Rejected" },
+];
+
+export const APPLICATION_STATUS_LABELS = Object.fromEntries(
+  APPLICATION_STATUSES.map((s) => [s.id, s.label])
+) as Record<ApplicationStatus, string>;
+
+export const isApplicationStatus = (value: unknown): value is ApplicationStatus =>
+  APPLICATION_STATUSES.some((s) => s.id === value);
+
+export interface ApplicationRecord extends Omit<ApplicationInput, "cv"> {
+  id: string;
+  role: string; // the posting's title when they applied; postings come and go
+  cv: AttachmentMeta;
+  createdAt: string;
+  updatedAt: string;
+  screening: Screening;
+  status: ApplicationStatus;
+  notes: LeadNote[];
+  idempotencyKey?: string;
+}
+
+// What the intake endpoint hands the store; the store fills in the rest. The endpoint
+// picks the id, as for briefs, so the CV is in place before the application is saved.
+export type NewApplication = Omit<ApplicationRecord, "createdAt" | "updatedAt" | "status" | "notes">;
+
+export type ApplicationPatch = Partial<Omit<ApplicationRecord, "id" | "createdAt">>;
+
+// An application as the admin API returns it.
+export type AdminApplication = Omit<ApplicationRecord, "idempotencyKey">;
+
+export interface ApplicationCreatedResponse {
+  id: string;
+}
+
+// What an admin can change in one PATCH.
+export interface ApplicationUpdate {
+  status?: ApplicationStatus;
+  note?: string;
+}
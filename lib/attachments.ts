@@ -0,0 +1,71 @@
+/* -----------------------------------------------------
+   ATTACHMENTS
+   Limits shared by the picker and /api/attachments. Files
+   are uploaded as soon as they're picked and referenced
+   from the brief by ID when it's sent.
+----------------------------------------------------- */
+export interface AttachmentMeta {
+  id: string;
+  name: string;
+  size: number;
+  type: string;
+  uploadedAt: string;
+}
+
+export const MAX_ATTACHMENTS = 5;
+
+// Vercel caps function request bodies at 4.5 MB.
+export const MAX_ATTACHMENT_BYTES = 4 * 1024 * 1024;
+
+export const ALLOWED_ATTACHMENT_TYPES: Record<string, string> = {
+  "application/pdf": "PDF",
+  "image/png": "PNG",
+  "image/jpeg": "JPEG",
+  "image/svg+xml": "SVG",
+  "application/msword": "Word",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": "Word",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation": "PowerPoint",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": "Excel",
+  "text/plain": "Text",
+  "application/zip": "ZIP",
+};
+
+// Some pickers report an empty or generic type; fall back on the extension.
+const TYPES_BY_EXTENSION: Record<string, string> = {
+  pdf: "application/pdf",
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  svg: "image/svg+xml",
+  doc: "application/msword",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  txt: "text/plain",
+  zip: "application/zip",
+};
+
+export const ATTACHMENT_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+export const resolveAttachmentType = (name: string, type?: string | null) => {
+  if (type && ALLOWED_ATTACHMENT_TYPES[type]) return type;
+  const ext = name.split(".").pop()?.toLowerCase() ?? "";
+  return TYPES_BY_EXTENSION[ext] ?? type ?? "application/octet-stream";
+};
+
+export const checkAttachment = (file: { name: string; size: number; type: string }): string | null => {
+  if (!ALLOWED_ATTACHMENT_TYPES[file.type]) {
+    return "We accept PDF, images, Office documents, text and ZIP files.";
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return `Files must be ${formatFileSize(MAX_ATTACHMENT_BYTES)} or smaller.`;
+  }
+  if (file.size === 0) return "That file is empty.";
+  return null;
+};
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes >= 1024 * 1024) return `${+(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${bytes} B`;
+};
@@ -0,0 +1,130 @@
+import type { BlogPost } from "./contentSchema";
+
+/* -----------------------------------------------------
+   BLOG
+   Listing, tag filters, pagination and related posts for
+   /insights. Posts arrive newest first (validateContent
+   sorts them). The listing's tag and page round-trip
+   through the query string, like the Work filters.
+----------------------------------------------------- */
+export const POSTS_PER_PAGE = 6;
+
+const WORDS_PER_MINUTE = 220;
+
+export interface BlogQuery {
+  tag: string | null; // a tag slug, e.g. "react-native"
+  page: number; // 1-based
+}
+
+export const EMPTY_BLOG_QUERY: BlogQuery = { tag: null, page: 1 };
+
+export const tagSlug = (tag: string) =>
+  tag
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+// Markdown syntax doesn't count as reading.
+export const readingTime = (body: string) => {
+  const words = body
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/[#>*_`-]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean).length;
+  return Math.max(1, Math.round(words / WORDS_PER_MINUTE));
+};
+
+const MONTHS = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+
+// "14 May 2024"; spelled out by hand because Intl is patchy on Hermes.
+export const formatPostDate = (date: string) => {
+  const [year, month, day] = date.split("-").map(Number);
+  return `${day} ${MONTHS[month - 1]} ${year}`;
+};
+
+export interface BlogTag {
+  tag: string;
+  slug: string;
+  count: number;
+}
+
+// Every tag in use, most used first.
+export const blogTags = (posts: BlogPost[]): BlogTag[] => {
+  const tags = new Map<string, BlogTag>();
+  for (const tag of posts.flatMap((post) => post.tags)) {
+    const slug = tagSlug(tag);
+    const existing = tags.get(slug);
+    if (existing) existing.count += 1;
+    else tags.set(slug, { tag, slug, count: 1 });
+  }
+  return [...tags.values()].sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+};
+
+export interface BlogPage {
+  posts: BlogPost[];
+  page: number; // clamped into range
+  pageCount: number;
+  total: number; // posts matching the tag
+}
+
+export const listPosts = (posts: BlogPost[], query: BlogQuery): BlogPage => {
+  const matching = query.tag ? posts.filter((post) => post.tags.some((t) => tagSlug(t) === query.tag)) : posts;
+  const pageCount = Math.max(1, Math.ceil(matching.length / POSTS_PER_PAGE));
+  const page = Math.min(Math.max(1, query.page), pageCount);
+  return {
+    posts: matching.slice((page - 1) * POSTS_PER_PAGE, page * POSTS_PER_PAGE),
+    page,
+    pageCount,
+    total: matching.length,
+  };
+};
+
+// Most tags in common first, then the newest; topped up with recent posts so there's always a suggestion.
+export const relatedPosts = (posts: BlogPost[], post: BlogPost, limit = 3): BlogPost[] => {
+  const tags = new Set(post.tags.map(tagSlug));
+  const shared = (other: BlogPost) => other.tags.filter((t) => tags.has(tagSlug(t))).length;
+  return posts
+    .filter((other) => other.slug !== post.slug)
+    .map((other, index) => ({ other, score: shared(other), index }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, limit)
+    .map(({ other }) => other);
+};
+
+/* -----------------------------------------------------
+   URL QUERY STRING
+   ?tag=engineering&page=2
+----------------------------------------------------- */
+export const blogQueryFromSearch = (search: string): BlogQuery => {
+  const params = new Map(
+    search
+      .replace(/^\?/, "")
+      .split("&")
+      .filter(Boolean)
+      .map((pair) => pair.split("=") as [string, string | undefined])
+  );
+  const tag = params.get("tag") ?? "";
+  const page = Number(params.get("page"));
+  return {
+    tag: /^[a-z0-9]+(-[a-z0-9]+)*$/.test(tag) ? tag : null,
+    page: Number.isInteger(page) && page > 1 ? page : 1,
+  };
+};
+
+export const blogQueryToSearch = (query: BlogQuery): string => {
+  const pairs = [query.tag && `tag=${query.tag}`, query.page > 1 && `page=${query.page}`].filter(Boolean);
+  return pairs.length > 0 ? `?${pairs.join("&")}` : "";
+};
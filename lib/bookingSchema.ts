@@ -0,0 +1,42 @@
+import { BookingInput } from "./bookings";
+import { FormSchema, rules } from "./validation";
+
+/* -----------------------------------------------------
+   BOOKING SCHEMA
+   Checked by the scheduler before booking and again by
+   /api/bookings, which also confirms the slot is open.
+----------------------------------------------------- */
+export const BRIEF_REFERENCE_PATTERN = /^CT-[2-9A-HJ-NP-Z]{6}$/;
+
+export const BOOKING_SCHEMA: FormSchema<BookingInput> = {
+  slotStart: {
+    label: "Time",
+    rules: [
+      rules.required("Pick a time for the call."),
+      rules.pattern(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/, "Pick one of the listed times."),
+    ],
+  },
+  name: {
+    label: "Name",
+    rules: [
+      rules.required("Let us know who we'll be speaking with."),
+      rules.maxLength(120),
+    ],
+  },
+  email: {
+    label: "Email",
+    rules: [
+      rules.required("We'll send the invite here."),
+      rules.maxLength(254),
+      rules.email(),
+    ],
+  },
+  briefReference: {
+    label: "Brief reference",
+    rules: [rules.pattern(BRIEF_REFERENCE_PATTERN, "References look like CT-7KX2QM.")],
+  },
+  notes: {
+    label: "Anything we should prepare?",
+    rules: [rules.maxLength(1000)],
+  },
+};
@@ -0,0 +1,42 @@
+/* -----------------------------------------------------
+   BOOKING TYPES
+   Shared by the call scheduler and /api/bookings.
+----------------------------------------------------- */
+export interface BookingInput {
+  slotStart: string; // ISO, one of the slots from GET /api/bookings
+  name: string;
+  email: string;
+  briefReference: string; // optional CT-XXXXXX, links the call to a brief
+  notes: string;
+}
+
+export type BookingField = keyof BookingInput;
+
+export const EMPTY_BOOKING: BookingInput = {
+  slotStart: "",
+  name: "",
+  email: "",
+  briefReference: "",
+  notes: "",
+};
+
+export interface BookingRecord extends BookingInput {
+  id: string;
+  slotEnd: string;
+  createdAt: string;
+}
+
+export type NewBooking = Omit<BookingRecord, "id" | "createdAt">;
+
+export interface SlotsResponse {
+  timezone: string; // the team's IANA zone; slots themselves are UTC
+  slotMinutes: number;
+  slots: string[];
+}
+
+export interface BookingConfirmation {
+  id: string;
+  slotStart: string;
+  slotEnd: string;
+  ics: string;
+}
@@ -0,0 +1,113 @@
+import type { BriefCreatedResponse, BriefSubmission } from "./briefs";
+import { ApiError, finalizeProof, submitBrief } from "./api";
+import { FormStamp, MIN_FILL_MS, formStamp } from "./challenge";
+import { storage } from "./storage";
+
+/* -----------------------------------------------------
+   OFFLINE BRIEF QUEUE
+   Briefs sent from a native build without connectivity
+   wait here (persisted) and are retried with exponential
+   backoff. Each keeps the idempotency key it was first
+   sent with, so a retry can never create a second brief.
+   Challenges are single-use, so each attempt solves a new
+   one under the form's signed open time. When the server
+   has no usable stamp for a brief (it was queued before
+   we ever reached it, or the stamp was spent), it starts
+   a new one and the brief waits out the minimum fill time.
+----------------------------------------------------- */
+const QUEUE_KEY = "crafttech.briefQueue.v1";
+const BASE_DELAY_MS = 5_000;
+const MAX_DELAY_MS = 30 * 60 * 1000;
+
+export interface QueuedBrief {
+  idempotencyKey: string;
+  input: Omit<BriefSubmission, "challenge">;
+  queuedAt: string;
+  stamp?: FormStamp;
+  attempts: number;
+  nextAttemptAt: number;
+}
+
+export type FlushResult =
+  | { kind: "sent"; entry: QueuedBrief; response: BriefCreatedResponse }
+  | { kind: "rejected"; entry: QueuedBrief; error: ApiError };
+
+// 4xx means the server looked at it and said no; retrying won't help.
+const isRetryable = (err: unknown) =>
+  !(err instanceof ApiError) || err.status === 0 || err.status === 429 || err.status >= 500;
+
+export const backoffDelay = (attempts: number) => {
+  const exp = Math.min(BASE_DELAY_MS * 2 ** attempts, MAX_DELAY_MS);
+  return exp / 2 + Math.random() * (exp / 2); // jitter so devices don't retry in lockstep
+};
+
+export const readQueue = async () => (await storage.get<QueuedBrief[]>(QUEUE_KEY)) ?? [];
+
+const writeQueue = (queue: QueuedBrief[]) => storage.set(QUEUE_KEY, queue);
+
+export const enqueueBrief = async (input: QueuedBrief["input"], idempotencyKey: string, stamp: FormStamp | null) => {
+  const queue = await readQueue();
+  if (!queue.some((q) => q.idempotencyKey === idempotencyKey)) {
+    queue.push({
+      idempotencyKey,
+      input,
+      queuedAt: new Date().toISOString(),
+      ...(stamp && { stamp }),
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+    });
+    await writeQueue(queue);
+  }
+  return queue;
+};
+
+let flushing: Promise<FlushResult[]> | null = null;
+
+// Tries every entry that is due. Concurrent calls share one run.
+export const flushQueue = (force = false): Promise<FlushResult[]> => {
+  if (flushing) return flushing;
+
+  flushing = (async () => {
+    const results: FlushResult[] = [];
+    const remaining: QueuedBrief[] = [];
+
+    for (const entry of await readQueue()) {
+      if (!force && entry.nextAttemptAt > Date.now()) {
+        remaining.push(entry);
+        continue;
+      }
+      try {
+        const challenge = await finalizeProof(null, entry.stamp ?? null);
+        if (challenge.openedAt !== entry.stamp?.openedAt) {
+          // The server started the fill timer just now; sending straight away would look like a bot.
+          remaining.push({ ...entry, stamp: formStamp(challenge), nextAttemptAt: Date.now() + MIN_FILL_MS });
+          continue;
+        }
+        const response = await submitBrief({ ...entry.input, challenge }, entry.idempotencyKey);
+        results.push({ kind: "sent", entry, response });
+      } catch (err) {
+        if (isRetryable(err)) {
+          const attempts = entry.attempts + 1;
+          remaining.push({ ...entry, attempts, nextAttemptAt: Date.now() + backoffDelay(attempts) });
+        } else {
+          results.push({ kind: "rejected", entry, error: err as ApiError });
+        }
+      }
+    }
+
+    // Entries queued while we were flushing must survive the write.
+    const handled = new Set([...results.map((r) => r.entry), ...remaining].map((e) => e.idempotencyKey));
+    const added = (await readQueue()).filter((q) => !handled.has(q.idempotencyKey));
+    await writeQueue([...remaining, ...added]);
+    return results;
+  })().finally(() => {
+    flushing = null;
+  });
+
+  return flushing;
+};
+
+export const nextAttemptAt = async () => {
+  const queue = await readQueue();
+  return queue.length ? Math.min(...queue.map((q) => q.nextAttemptAt)) : null;
+};
@@ -0,0 +1,80 @@
+import { MAX_ATTACHMENTS } from "./attachments";
+import { BRIEF_SOURCE_PATTERN, BriefInput, TIMELINE_OPTIONS } from "./briefs";
+import { parseBudget } from "./budget";
+import { SERVICES } from "./content";
+import { PRODUCT_PLATFORMS } from "./offerings";
+import { FormSchema, Rule, rules } from "./validation";
+
+/* -----------------------------------------------------
+   BRIEF SCHEMA
+   The single source of truth for what a valid brief looks
+   like. The contact form renders these errors inline and
+   /api/briefs rejects anything that fails them.
+----------------------------------------------------- */
+const budgetIsParseable: Rule = (value) =>
+  typeof value === "string" && value.trim() !== "" && !parseBudget(value)
+    ? "Try a range like 20k – 60k, or pick a band below."
+    : null;
+
+export const BRIEF_SCHEMA: FormSchema<BriefInput> = {
+  projectType: {
+    label: "Project type",
+    rules: [
+      rules.required("Pick the kind of help you need."),
+      rules.oneOf(SERVICES.map((s) => s.title)),
+    ],
+  },
+  platforms: {
+    label: "Platforms",
+    rules: [
+      rules.required("Pick at least one platform."),
+      rules.oneOf(PRODUCT_PLATFORMS, "Pick from web, mobile, or e-commerce."),
+    ],
+  },
+  timeline: {
+    label: "Timeline",
+    rules: [
+      rules.required("Let us know when you'd like to start."),
+      rules.oneOf(TIMELINE_OPTIONS.map((t) => t.id)),
+    ],
+  },
+  name: {
+    label: "Name",
+    rules: [rules.maxLength(120)],
+  },
+  email: {
+    label: "Work email",
+    rules: [
+      rules.required("Email is required."),
+      rules.maxLength(254),
+      rules.email(),
+    ],
+  },
+  company: {
+    label: "Company",
+    rules: [rules.maxLength(160)],
+  },
+  budget: {
+    label: "Rough budget (USD)",
+    rules: [
+      rules.maxLength(80),
+      budgetIsParseable,
+    ],
+  },
+  message: {
+    label: "What are you looking to build?",
+    rules: [
+      rules.required("Tell us a little about the project."),
+      rules.minLength(20, "A couple of sentences helps us prepare — at least 20 characters."),
+      rules.maxLength(5000),
+    ],
+  },
+  attachments: {
+    label: "Attachments",
+    rules: [rules.maxLength(MAX_ATTACHMENTS, `Attach up to ${MAX_ATTACHMENTS} files.`)],
+  },
+  source: {
+    label: "Source",
+    rules: [rules.maxLength(120), rules.pattern(BRIEF_SOURCE_PATTERN, "Unrecognised source page.")],
+  },
+};
@@ -0,0 +1,45 @@
+import type { AttachmentMeta } from "./attachments";
+import type { BriefAddition, BriefInput } from "./briefs";
+import type { LeadStatus } from "./leads";
+
+/* -----------------------------------------------------
+   BRIEF STATUS PAGE
+   What a prospect sees at /brief/:token. The token is the
+   only credential, so the view leaves out everything the
+   team keeps to itself: notes, owner, score, screening.
+----------------------------------------------------- */
+export const STATUS_TOKEN_PATTERN = /^[A-Za-z0-9_-]{32}$/;
+
+export const MAX_ADDITION_LENGTH = 4000;
+
+export const briefStatusPath = (token: string) => `/brief/${token}`;
+
+// Pulls the token out of a /brief/:token path; null for any other path.
+// A malformed token still returns, so the page can say the link is broken.
+export const statusTokenFromPath = (pathname: string) => /^\/brief\/([^/]+)\/?$/.exec(pathname)?.[1] ?? null;
+
+// Stages in the order a prospect moves through them. Won and lost both end at "Decision".
+export const PROSPECT_STAGES: { id: string; label: string; statuses: LeadStatus[]; description: string }[] = [
+  { id: "received", label: "Received", statuses: ["new"], description: "Your brief is in our inbox. We reply within one business day." },
+  { id: "review", label: "In review", statuses: ["qualified"], description: "We're reading through your brief and working out the right team." },
+  { id: "call", label: "Discovery call", statuses: ["call_booked"], description: "We've got a call booked to talk through your project." },
+  { id: "proposal", label: "Proposal", statuses: ["proposal"], description: "We're preparing (or have sent) a proposal for you." },
+  { id: "decision", label: "Decision", statuses: ["won", "lost"], description: "This brief is closed — check your email for next steps, or reply to pick it back up." },
+];
+
+export const prospectStageIndex = (status: LeadStatus) =>
+  Math.max(0, PROSPECT_STAGES.findIndex((stage) => stage.statuses.includes(status)));
+
+export interface BriefStatusView extends Omit<BriefInput, "attachments" | "source"> {
+  reference: string;
+  createdAt: string;
+  status: LeadStatus;
+  attachments: AttachmentMeta[];
+  additions: BriefAddition[];
+  calls: { slotStart: string; slotEnd: string }[];
+}
+
+export interface BriefAdditionInput {
+  message: string;
+  attachments: string[]; // IDs from /api/attachments
+}
@@ -0,0 +1,124 @@
+import type { AttachmentMeta } from "./attachments";
+import type { BudgetRange } from "./budget";
+import type { ChallengeProof } from "./challenge";
+import type { LeadTracking } from "./leads";
+import type { ProductPlatform } from "./offerings";
+
+/* -----------------------------------------------------
+   BRIEF TYPES
+   Shared by the app and the /api/briefs intake endpoint.
+----------------------------------------------------- */
+export type TimelineId = "asap" | "1-3-months" | "3-6-months" | "exploring";
+
+export const TIMELINE_OPTIONS: { id: TimelineId; label: string; hint: string }[] = [
+  { id: "asap", label: "As soon as possible", hint: "We need to start within a few weeks" },
+  { id: "1-3-months", label: "In 1–3 months", hint: "Budget is approved, planning the kickoff" },
+  { id: "3-6-months", label: "In 3–6 months", hint: "Lining up partners for next quarter" },
+  { id: "exploring", label: "Just exploring", hint: "Scoping costs and options" },
+];
+
+export interface BriefInput {
+  projectType: string; // one of the SERVICES titles
+  platforms: ProductPlatform[];
+  timeline: TimelineId | "";
+  name: string;
+  email: string;
+  company: string;
+  budget: string;
+  message: string;
+  attachments: string[]; // IDs returned by /api/attachments
+  source: string; // page the brief was started from (see briefSource); "" for the contact section
+}
+
+export type BriefField = keyof BriefInput;
+
+// Fields that travel as plain strings; the rest are lists.
+export const BRIEF_TEXT_FIELDS = [
+  "projectType",
+  "timeline",
+  "name",
+  "email",
+  "company",
+  "budget",
+  "message",
+  "source",
+] as const;
+
+export type BriefTextField = (typeof BRIEF_TEXT_FIELDS)[number];
+
+export const EMPTY_BRIEF: BriefInput = {
+  projectType: "",
+  platforms: [],
+  timeline: "",
+  name: "",
+  email: "",
+  company: "",
+  budget: "",
+  message: "",
+  attachments: [],
+  source: "",
+};
+
+// "service:design-experience", "case-study:fintech-saas-dashboard" — lets the team see which page converted.
+export type BriefSourceKind = "service" | "case-study";
+
+export const BRIEF_SOURCE_PATTERN = /^(service|case-study):[a-z0-9]+(-[a-z0-9]+)*$/;
+
+export const briefSource = (kind: BriefSourceKind, slug: string) => `${kind}:${slug}`;
+
+export const describeBriefSource = (source: string | undefined) => {
+  const [kind, slug] = (source ?? "").split(":");
+  if (kind === "service") return `Service page (${slug})`;
+  if (kind === "case-study") return `Case study (${slug})`;
+  return "Contact section";
+};
+
+// What the client actually posts: the brief plus its anti-spam evidence.
+export interface BriefSubmission extends BriefInput {
+  website?: string; // honeypot: hidden from people, irresistible to bots
+  challenge?: ChallengeProof;
+}
+
+export interface Screening {
+  verdict: "clean" | "quarantined";
+  reasons: string[];
+}
+
+export interface BriefRecord extends Omit<BriefInput, "attachments">, LeadTracking {
+  id: string;
+  reference: string; // short, human-friendly ID we quote back to the prospect
+  createdAt: string;
+  budgetRange: BudgetRange | null; // parsed from `budget`, null if not given
+  attachments: AttachmentMeta[];
+  idempotencyKey?: string; // set when the client sent one; retries resolve to this brief
+  screening: Screening;
+  statusToken?: string; // secret for the prospect's /brief/:token page; absent on older briefs
+  additions: BriefAddition[]; // details the prospect added from the status page
+}
+
+export interface BriefAddition {
+  id: string;
+  message: string;
+  attachments: AttachmentMeta[];
+  createdAt: string;
+}
+
+// What the intake endpoint hands the store; the store fills in the rest. The endpoint
+// picks the id so attachments can be moved into place before the brief is saved.
+export type NewBrief = Omit<
+  BriefRecord,
+  "reference" | "createdAt" | "statusToken" | "additions" | keyof LeadTracking
+>;
+
+export type BriefPatch = Partial<Omit<BriefRecord, "id" | "reference" | "createdAt">>;
+
+export interface BriefCreatedResponse {
+  id: string;
+  reference: string;
+  statusToken?: string;
+}
+
+export interface ApiErrorResponse {
+  error: string;
+  fields?: Partial<Record<BriefField, string>>;
+}
@@ -0,0 +1,20 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { parseBudget } from "./budget";
+
+test("parses the shapes prospects type", () => {
+  assert.deepEqual(parseBudget("20k-60k"), { min: 20000, max: 60000, currency: "USD" });
+  assert.deepEqual(parseBudget("$45,000"), { min: 45000, max: 45000, currency: "USD" });
+  assert.deepEqual(parseBudget("$1,200,000"), { min: 1200000, max: 1200000, currency: "USD" });
+  assert.deepEqual(parseBudget("under 10k"), { min: null, max: 10000, currency: "USD" });
+  assert.deepEqual(parseBudget("50000+"), { min: 50000, max: null, currency: "USD" });
+  assert.equal(parseBudget(""), null);
+});
+
+test("reads spaces between digit groups as thousands separators", () => {
+  assert.deepEqual(parseBudget("50 000"), { min: 50000, max: 50000, currency: "USD" });
+  assert.deepEqual(parseBudget("50 000 €"), { min: 50000, max: 50000, currency: "EUR" });
+  assert.deepEqual(parseBudget("1 200 000 PKR"), { min: 1200000, max: 1200000, currency: "PKR" });
+  assert.deepEqual(parseBudget("20 000 - 60 000"), { min: 20000, max: 60000, currency: "USD" });
+  assert.deepEqual(parseBudget("between 20 and 60k"), { min: 20000, max: 60000, currency: "USD" });
+});
@@ -0,0 +1,139 @@
+/* -----------------------------------------------------
+   BUDGET PARSING
+   Turns whatever a prospect types into the budget field
+   ("20k-60k", "$45,000", "50 000 €", "under 10k", "50000+") into a
+   normalized range the sales team can sort and qualify on.
+----------------------------------------------------- */
+export type Currency = "USD" | "EUR" | "GBP" | "CAD" | "PKR";
+
+export interface BudgetRange {
+  min: number | null; // null = open-ended below
+  max: number | null; // null = open-ended above
+  currency: Currency;
+}
+
+export interface BudgetBand {
+  id: string;
+  label: string;
+  engagement: string;
+  range: BudgetRange;
+}
+
+// Preset bands mirror our 8–16 week engagement shapes.
+export const BUDGET_BANDS: BudgetBand[] = [
+  { id: "discovery", label: "Under $25k", engagement: "Discovery & prototype", range: { min: null, max: 25000, currency: "USD" } },
+  { id: "mvp", label: "$25k – $60k", engagement: "8-week MVP sprint", range: { min: 25000, max: 60000, currency: "USD" } },
+  { id: "product", label: "$60k – $120k", engagement: "12-week product build", range: { min: 60000, max: 120000, currency: "USD" } },
+  { id: "platform", label: "$120k – $250k", engagement: "16-week platform build", range: { min: 120000, max: 250000, currency: "USD" } },
+  { id: "squad", label: "$250k+", engagement: "Dedicated product squad", range: { min: 250000, max: null, currency: "USD" } },
+];
+
+const CURRENCY_MARKERS: [RegExp, Currency][] = [
+  [/€|\beur(os?)?\b/, "EUR"],
+  [/£|\bgbp\b|\bpounds?\b/, "GBP"],
+  [/\bcad\b|c\$/, "CAD"],
+  [/\bpkr\b|\brs\.?(?=\s|\d|$)/, "PKR"],
+];
+
+const UPPER_BOUND = /^(under|below|less than|up to|max(imum)?|<=?|~?<)\s*/;
+const LOWER_BOUND = /^(over|above|more than|at least|min(imum)?|from|>=?|starting at)\s*/;
+const AMOUNT = /(\d+(?:\.\d+)?)\s*(k|m|mm|thousand|million)?\b/g;
+// Thousands separators: commas, and the (narrow) no-break or plain spaces many locales use.
+const GROUP_SEPARATOR = /(\d)[,\s\u00a0\u202f](?=\d{3}(?!\d))/g;
+
+const MULTIPLIERS: Record<string, number> = {
+  k: 1_000,
+  thousand: 1_000,
+  m: 1_000_000,
+  mm: 1_000_000,
+  million: 1_000_000,
+};
+
+const detectCurrency = (text: string): Currency => {
+  for (const [pattern, currency] of CURRENCY_MARKERS) {
+    if (pattern.test(text)) return currency;
+  }
+  return "USD";
+};
+
+export const parseBudget = (input: string): BudgetRange | null => {
+  const text = input.toLowerCase().replace(GROUP_SEPARATOR, "$1").replace(/,/g, "").replace(/\s+/g, " ").trim();
+  if (!text) return null;
+
+  const band = BUDGET_BANDS.find((b) => b.label.toLowerCase() === text);
+  if (band) return { ...band.range };
+
+  const currency = detectCurrency(text);
+  const amounts = [...text.matchAll(AMOUNT)].map((m) => ({
+    value: Number(m[1]),
+    unit: m[2] ? MULTIPLIERS[m[2]] : 1,
+  }));
+  if (amounts.length === 0) return null;
+
+  // "20-60k" means 20k–60k: a bare first number borrows the second's unit.
+  if (amounts.length >= 2 && amounts[0].unit === 1 && amounts[1].unit > 1 && amounts[0].value <= amounts[1].value) {
+    amounts[0].unit = amounts[1].unit;
+  }
+
+  const stripped = text.replace(/^[^a-z0-9<>~]+/, "");
+  const [first, second] = amounts.map((a) => Math.round(a.value * a.unit));
+
+  if (amounts.length >= 2) {
+    return { min: Math.min(first, second), max: Math.max(first, second), currency };
+  }
+  if (UPPER_BOUND.test(stripped)) return { min: null, max: first, currency };
+  if (LOWER_BOUND.test(stripped) || /\+\s*$/.test(text)) return { min: first, max: null, currency };
+  return { min: first, max: first, currency };
+};
+
+/* -----------------------------------------------------
+   HELPERS
+----------------------------------------------------- */
+const CURRENCY_SYMBOLS: Record<Currency, string> = {
+  USD: "$",
+  EUR: "€",
+  GBP: "£",
+  CAD: "C$",
+  PKR: "Rs ",
+};
+
+export const formatAmount = (value: number, currency: Currency = "USD") => {
+  const symbol = CURRENCY_SYMBOLS[currency];
+  if (value >= 1_000_000) return `${symbol}${+(value / 1_000_000).toFixed(1)}M`;
+  if (value >= 1_000) return `${symbol}${+(value / 1_000).toFixed(1)}k`;
+  return `${symbol}${value}`;
+};
+
+export const formatBudgetRange = (range: BudgetRange) => {
+  const { min, max, currency } = range;
+  if (min == null && max == null) return "Not specified";
+  if (min == null) return `Under ${formatAmount(max!, currency)}`;
+  if (max == null) return `${formatAmount(min, currency)}+`;
+  if (min === max) return formatAmount(min, currency);
+  return `${formatAmount(min, currency)} – ${formatAmount(max, currency)}`;
+};
+
+// Single number to sort leads by; open-ended ranges use their known bound.
+export const budgetSortValue = (range: BudgetRange | null) => {
+  if (!range) return 0;
+  if (range.min != null && range.max != null) return (range.min + range.max) / 2;
+  return range.max ?? range.min ?? 0;
+};
+
+export const bandForRange = (range: BudgetRange | null): BudgetBand | undefined => {
+  if (!range || range.currency !== "USD") return undefined;
+  const value = budgetSortValue(range);
+  return BUDGET_BANDS.find((b) => (b.range.min ?? 0) <= value && (b.range.max == null || value < b.range.max));
+};
+
+// Rough conversion for comparing leads across currencies — never for quoting.
+const APPROX_USD_RATES: Record<Currency, number> = {
+  USD: 1,
+  EUR: 1.08,
+  GBP: 1.27,
+  CAD: 0.73,
+  PKR: 0.0036,
+};
+
+export const budgetInUsd = (range: BudgetRange | null) =>
+  range ? budgetSortValue(range) * APPROX_USD_RATES[range.currency] : 0;
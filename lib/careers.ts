@@ -0,0 +1,125 @@
+import type { JobPosting } from "./contentSchema";
+import { tagSlug } from "./blog";
+
+/* -----------------------------------------------------
+   CAREERS
+   How open roles are classified, and the filters on
+   /careers. The roles themselves live in content/jobs.json;
+   the filters round-trip through the query string, like
+   the Work and Insights ones.
+----------------------------------------------------- */
+export type Discipline = "engineering" | "design" | "product";
+
+export const DISCIPLINES: Discipline[] = ["engineering", "design", "product"];
+
+export const DISCIPLINE_LABELS: Record<Discipline, string> = {
+  engineering: "Engineering",
+  design: "Design",
+  product: "Product",
+};
+
+export type Seniority = "mid" | "senior" | "lead";
+
+export const SENIORITY_LEVELS: Seniority[] = ["mid", "senior", "lead"];
+
+export const SENIORITY_LABELS: Record<Seniority, string> = {
+  mid: "Mid-level",
+  senior: "Senior",
+  lead: "Lead",
+};
+
+// Every role is remote-first; hybrid roles also meet up in person.
+export type WorkMode = "remote" | "hybrid";
+
+export const WORK_MODES: WorkMode[] = ["remote", "hybrid"];
+
+export const WORK_MODE_LABELS: Record<WorkMode, string> = {
+  remote: "Fully remote",
+  hybrid: "Hybrid",
+};
+
+// "Fully remote • UTC+3 to UTC+6 • 4h overlap with US Eastern"
+export const describeWorkPattern = (job: JobPosting) =>
+  `${WORK_MODE_LABELS[job.workMode]} • ${job.timezones} • ${job.overlapHours}h overlap with US Eastern`;
+
+/* -----------------------------------------------------
+   FILTERS
+----------------------------------------------------- */
+export interface CareersQuery {
+  discipline: Discipline | null;
+  seniority: Seniority | null;
+  workMode: WorkMode | null;
+  stack: string | null; // a technology slug, e.g. "react-native"
+}
+
+export const EMPTY_CAREERS_QUERY: CareersQuery = { discipline: null, seniority: null, workMode: null, stack: null };
+
+export interface StackOption {
+  label: string;
+  slug: string;
+  count: number;
+}
+
+// Every technology the open roles use, most common first.
+export const jobStack = (jobs: JobPosting[]): StackOption[] => {
+  const options = new Map<string, StackOption>();
+  for (const label of jobs.flatMap((job) => job.stack)) {
+    const slug = tagSlug(label);
+    const existing = options.get(slug);
+    if (existing) existing.count += 1;
+    else options.set(slug, { label, slug, count: 1 });
+  }
+  return [...options.values()].sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+};
+
+export const filterJobs = (jobs: JobPosting[], query: CareersQuery): JobPosting[] =>
+  jobs.filter(
+    (job) =>
+      (!query.discipline || job.discipline === query.discipline) &&
+      (!query.seniority || job.seniority === query.seniority) &&
+      (!query.workMode || job.workMode === query.workMode) &&
+      (!query.stack || job.stack.some((tech) => tagSlug(tech) === query.stack))
+  );
+
+// Roles in the same discipline first, then the newest.
+export const otherJobs = (jobs: JobPosting[], job: JobPosting, limit = 3): JobPosting[] =>
+  jobs
+    .filter((other) => other.slug !== job.slug)
+    .map((other, index) => ({ other, index, same: other.discipline === job.discipline ? 0 : 1 }))
+    .sort((a, b) => a.same - b.same || a.index - b.index)
+    .slice(0, limit)
+    .map(({ other }) => other);
+
+/* -----------------------------------------------------
+   URL QUERY STRING
+   ?discipline=engineering&seniority=senior&stack=react-native
+----------------------------------------------------- */
+const pick = <T extends string>(options: readonly T[], value: string | undefined): T | null =>
+  options.find((option) => option === value) ?? null;
+
+export const careersQueryFromSearch = (search: string): CareersQuery => {
+  const params = new Map(
+    search
+      .replace(/^\?/, "")
+      .split("&")
+      .filter(Boolean)
+      .map((pair) => pair.split("=") as [string, string | undefined])
+  );
+  const stack = params.get("stack") ?? "";
+  return {
+    discipline: pick(DISCIPLINES, params.get("discipline")),
+    seniority: pick(SENIORITY_LEVELS, params.get("seniority")),
+    workMode: pick(WORK_MODES, params.get("mode")),
+    stack: /^[a-z0-9]+(-[a-z0-9]+)*$/.test(stack) ? stack : null,
+  };
+};
+
+export const careersQueryToSearch = (query: CareersQuery): string => {
+  const pairs = [
+    query.discipline && `discipline=${query.discipline}`,
+    query.seniority && `seniority=${query.seniority}`,
+    query.workMode && `mode=${query.workMode}`,
+    query.stack && `stack=${query.stack}`,
+  ].filter(Boolean);
+  return pairs.length > 0 ? `?${pairs.join("&")}` : "";
+};
@@ -0,0 +1,29 @@
+import { BriefInput, briefSource } from "./briefs";
+import type { PortfolioItem } from "./contentSchema";
+
+/* -----------------------------------------------------
+   CASE STUDIES
+   Helpers for /work/:slug, the page behind each portfolio
+   card. The write-up itself is the item's Markdown body.
+----------------------------------------------------- */
+
+// Neighbours in portfolio order, wrapping around, so every page has both links.
+export const adjacentProjects = (items: PortfolioItem[], slug: string) => {
+  const index = items.findIndex((item) => item.slug === slug);
+  if (index < 0 || items.length < 2) return { previous: null, next: null };
+  return {
+    previous: items[(index - 1 + items.length) % items.length],
+    next: items[(index + 1) % items.length],
+  };
+};
+
+// "Start a similar project" — the brief starts from what we built for them.
+export const briefFromCaseStudy = (item: PortfolioItem): Partial<BriefInput> => ({
+  projectType: item.service,
+  platforms: [item.category],
+  source: briefSource("case-study", item.slug),
+  message: [
+    `We'd like something similar to your "${item.title}" project for ${item.client}.`,
+    `Stack we're interested in: ${item.stack.join(", ")}.`,
+  ].join("\n"),
+});
@@ -0,0 +1,55 @@
+import { leadingZeroBits, sha256 } from "./sha256";
+
+/* -----------------------------------------------------
+   PROOF-OF-WORK CHALLENGE
+   A self-hosted stand-in for a CAPTCHA. The server issues
+   a signed salt; the client finds a nonce whose
+   sha256("salt:nonce") starts with `difficulty` zero bits.
+   Cheap for one visitor, expensive for a bot farm. Each
+   challenge also carries a signed form-open time, kept
+   when a form swaps in a fresh challenge, so the server
+   can flag a submit that came too fast.
+----------------------------------------------------- */
+export interface FormStamp {
+  openedAt: number;
+  openedToken: string; // server HMAC over openedAt
+}
+
+export interface Challenge extends FormStamp {
+  salt: string;
+  difficulty: number;
+  issuedAt: number;
+  token: string; // server HMAC over salt, difficulty, issuedAt and openedAt
+}
+
+export interface ChallengeProof extends Challenge {
+  nonce: number;
+}
+
+export const formStamp = ({ openedAt, openedToken }: FormStamp): FormStamp => ({ openedAt, openedToken });
+
+// Anything faster than this from opening the form to submit is treated as a bot.
+export const MIN_FILL_MS = 3_000;
+export const CHALLENGE_TTL_MS = 2 * 60 * 60 * 1000;
+
+export const challengeHash = (salt: string, nonce: number) => sha256(`${salt}:${nonce}`);
+
+export const meetsDifficulty = (salt: string, nonce: number, difficulty: number) =>
+  leadingZeroBits(challengeHash(salt, nonce)) >= difficulty;
+
+// Works in slices so the UI thread stays responsive while we search.
+export const solveChallenge = (challenge: Challenge, sliceSize = 2_000): Promise<ChallengeProof> =>
+  new Promise((resolve) => {
+    let nonce = 0;
+    const step = () => {
+      const end = nonce + sliceSize;
+      for (; nonce < end; nonce++) {
+        if (meetsDifficulty(challenge.salt, nonce, challenge.difficulty)) {
+          resolve({ ...challenge, nonce });
+          return;
+        }
+      }
+      setTimeout(step, 0);
+    };
+    step();
+  });
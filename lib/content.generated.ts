@@ -0,0 +1,952 @@
+// Generated by `npm run content:build` from content/. Do not edit by hand.
+import type { SiteContent } from "./contentSchema";
+
+export const BUNDLED_CONTENT: SiteContent = {
+  "heroSlides": [
+    {
+      "id": "crafting-premium",
+      "title": "We craft software that feels premium\nand performs under pressure.",
+      "subtitle": "From concept to launch, CraftTech partners with US businesses to design and build modern digital products.",
+      "image": "Herovideo1.png"
+    },
+    {
+      "id": "future-architecture",
+      "title": "Type-safe, AI-ready architectures\nbuilt for the next decade.",
+      "subtitle": "We use modern TypeScript, cloud, and data practices to future-proof your platforms.",
+      "image": "Hero2.png"
+    },
+    {
+      "id": "product-squad",
+      "title": "Your product squad — strategy, design,\nand engineering in one team.",
+      "subtitle": "A distributed studio from Pakistan building for North American founders, product leaders, and CTOs.",
+      "image": "Hero3.png"
+    }
+  ],
+  "portfolio": [
+    {
+      "id": 1,
+      "title": "Fintech SaaS Dashboard",
+      "type": "Web App",
+      "category": "web",
+      "description": "Analytics-heavy admin experience with secure multi-tenant access and real-time KPIs.",
+      "metrics": [
+        "+38% retention",
+        "SOC2-ready",
+        "Enterprise grade"
+      ],
+      "img": "https://images.unsplash.com/photo-1551288049-bebda4e38f71?w=800",
+      "client": "ScaleFin",
+      "industry": "fintech",
+      "compliance": [
+        "soc2"
+      ],
+      "service": "Engineering & Launch",
+      "stack": [
+        "React",
+        "TypeScript",
+        "Node.js",
+        "PostgreSQL",
+        "AWS"
+      ],
+      "outcomes": [
+        "38% higher 90-day retention for new workspaces",
+        "SOC 2 Type I audit passed on the first attempt",
+        "Dashboards load in under 1.5s at the 95th percentile"
+      ],
+      "gallery": [
+        "https://images.unsplash.com/photo-1551288049-bebda4e38f71?w=1200",
+        "Hero2.png"
+      ],
+      "testimonial": 1,
+      "slug": "fintech-saas-dashboard",
+      "body": "## Challenge\n\nScaleFin's finance teams were exporting data to spreadsheets because the existing dashboard couldn't answer their questions fast enough. Each customer also needed strict isolation of their data ahead of a **SOC 2** audit, and the old single-tenant setup wouldn't scale past a few dozen accounts.\n\n## Approach\n\nWe started with a two-week discovery sprint, shadowing analysts at three customers to find the ten reports they rebuilt every week. Those became the first release:\n\n- Saved views with filters that can be shared across a team\n- Real-time KPI tiles with drill-down into the underlying transactions\n- Role-based access down to individual reports\n\nWe shipped behind feature flags every week, so pilot customers used new reports days after they were built.\n\n## Architecture\n\nA React and TypeScript front end talks to a Node.js API that enforces tenancy on every query with PostgreSQL row-level security. Aggregates are pre-computed into materialized views on a schedule, which keeps the heaviest dashboards fast. Everything runs on AWS, with infrastructure as code and audit logging built in from day one."
+    },
+    {
+      "id": 2,
+      "title": "Telehealth Mobile Platform",
+      "type": "Mobile App",
+      "category": "mobile",
+      "description": "Virtual care, scheduling, and secure messaging for a US-based healthcare startup.",
+      "metrics": [
+        "iOS & Android",
+        "50k+ sessions",
+        "HIPAA compliant"
+      ],
+      "img": "https://images.unsplash.com/photo-1582719478250-c89cae4dc85b?auto=format&fit=crop&w=1000&q=80",
+      "client": "HealthTech Solutions",
+      "industry": "healthcare",
+      "compliance": [
+        "hipaa"
+      ],
+      "service": "Design & Experience",
+      "stack": [
+        "React Native",
+        "Expo",
+        "TypeScript",
+        "WebRTC",
+        "AWS"
+      ],
+      "outcomes": [
+        "50,000+ video sessions in the first six months",
+        "4.8★ average rating across both app stores",
+        "Appointment no-shows down 27% with smart reminders"
+      ],
+      "gallery": [
+        "https://images.unsplash.com/photo-1582719478250-c89cae4dc85b?auto=format&fit=crop&w=1400&q=80",
+        "Hero3.png"
+      ],
+      "testimonial": 2,
+      "slug": "telehealth-mobile-platform",
+      "body": "## Challenge\n\nHealthTech Solutions needed to launch virtual visits on iOS and Android at the same time, with one small team. Patients ranged from busy parents to older adults on older phones, and everything had to meet **HIPAA** requirements from the first release.\n\n## Approach\n\nWe designed the booking and visit flows around the least tech-savvy patients first, testing prototypes with real patients every week. A shared design system kept both platforms consistent while still feeling native.\n\n- One-tap joining from reminders, with no account setup before a first visit\n- Large type and high-contrast modes built into the design system\n- Secure messaging with care teams between visits\n\n## Architecture\n\nA single React Native codebase built with Expo ships to both stores. Video runs over WebRTC through a HIPAA-eligible media service, and the API on AWS encrypts data in transit and at rest. Every access to patient data is audit-logged."
+    },
+    {
+      "id": 3,
+      "title": "Headless Commerce Experience",
+      "type": "E-Commerce",
+      "category": "ecommerce",
+      "description": "Conversion-optimized storefront with a custom product configurator and fast checkout.",
+      "metrics": [
+        "3.9x ROI",
+        "<1s page loads",
+        "PWA ready"
+      ],
+      "img": "https://images.unsplash.com/photo-1556742049-0cfed4f6a45d?w=800",
+      "client": "Modern Retail Co",
+      "industry": "retail",
+      "compliance": [],
+      "service": "Engineering & Launch",
+      "stack": [
+        "Next.js",
+        "TypeScript",
+        "Shopify",
+        "GraphQL",
+        "Vercel"
+      ],
+      "outcomes": [
+        "3.9x return on the project within the first year",
+        "Pages load in under a second on a mid-range phone",
+        "Configured products now make up 40% of revenue"
+      ],
+      "gallery": [
+        "https://images.unsplash.com/photo-1556742049-0cfed4f6a45d?w=1200",
+        "Herovideo1.png"
+      ],
+      "testimonial": 3,
+      "slug": "headless-commerce-experience",
+      "body": "## Challenge\n\nModern Retail Co sold highly customizable furniture through a theme-based store that buckled during sales. Shoppers couldn't preview their configuration, so many called support instead of checking out.\n\n## Approach\n\nWe rebuilt the storefront around the product configurator, which customers had told us mattered most. Each option updates the preview and price instantly, and a saved configuration can be shared or finished later.\n\n- A/B tested the new checkout against the old one before switching traffic\n- Installable as a PWA for returning customers\n- Performance budgets enforced on every pull request\n\n## Architecture\n\nA Next.js front end renders product pages at the edge and reads from Shopify through its GraphQL Storefront API. The configurator runs entirely in the browser, with pricing rules shared between front end and back end so checkout always matches the preview."
+    },
+    {
+      "id": 4,
+      "title": "Workflow SaaS Platform",
+      "type": "Web App",
+      "category": "web",
+      "description": "From prototype to paying customers — a B2B workflow tool with self-serve onboarding and usage-based billing.",
+      "metrics": [
+        "MVP in 10 weeks",
+        "1,200+ teams",
+        "Usage-based billing"
+      ],
+      "img": "Hero2.png",
+      "client": "Loopline",
+      "industry": "saas",
+      "compliance": [
+        "soc2"
+      ],
+      "service": "Product Strategy",
+      "stack": [
+        "React",
+        "TypeScript",
+        "Node.js",
+        "PostgreSQL",
+        "Stripe"
+      ],
+      "outcomes": [
+        "Launched a paid MVP ten weeks after the first workshop",
+        "1,200+ teams signed up in the first year, 70% self-serve",
+        "Seed round closed on the strength of the launch metrics"
+      ],
+      "gallery": [
+        "Hero2.png",
+        "Hero3.png"
+      ],
+      "slug": "workflow-saas-platform",
+      "body": "## Challenge\n\nLoopline's founders had validated the problem with spreadsheets and a waitlist, but not the product. They needed a paid MVP in front of customers before their runway ran out, without building anything they'd have to throw away.\n\n## Approach\n\nDiscovery workshops narrowed a long feature list down to the one workflow customers would pay for. We prototyped it in Figma, tested it with waitlist teams, then built it in weekly releases.\n\n- Self-serve onboarding that gets a team to its first workflow in minutes\n- Usage-based billing from day one, so pricing could be tested early\n- Product analytics on every step of the funnel\n\n## Architecture\n\nA React and TypeScript single-page app sits on a Node.js API and PostgreSQL, with each customer's data isolated by tenant. Stripe handles subscriptions and metered usage, and the whole stack was designed to pass a SOC 2 audit as the customer base moved upmarket."
+    }
+  ],
+  "testimonials": [
+    {
+      "id": 1,
+      "quote": "CraftTech helped us ship a product our customers actually love to use. Their attention to detail in both design and engineering is exceptional.",
+      "name": "Jordan Miles",
+      "role": "VP Product, Fintech Startup",
+      "company": "ScaleFin"
+    },
+    {
+      "id": 2,
+      "quote": "They understand both UX and engineering at a deep level. The collaboration felt like having an internal product squad that just gets it.",
+      "name": "Emily Carter",
+      "role": "Founder & CEO",
+      "company": "HealthTech Solutions"
+    },
+    {
+      "id": 3,
+      "quote": "Clear communication, exceptional quality, and they handled complex requirements without drama. Would partner with them again in a heartbeat.",
+      "name": "Daniel Ortiz",
+      "role": "CTO",
+      "company": "Modern Retail Co"
+    }
+  ],
+  "services": [
+    {
+      "slug": "product-strategy",
+      "title": "Product Strategy",
+      "description": "We help you validate ideas, prioritise features, and align stakeholders before a single line of code is written.",
+      "tech": [
+        "MVP Roadmaps",
+        "Discovery Workshops",
+        "Product Analytics"
+      ],
+      "icon": "🎯",
+      "featured": true,
+      "platforms": [],
+      "duration": "2–6 weeks",
+      "deliverables": [
+        "Problem statement and success metrics agreed with every stakeholder",
+        "Prioritised MVP roadmap with a clear first release",
+        "Clickable prototype tested with real users",
+        "Analytics plan covering the events that prove the product works",
+        "Build estimate, team shape and delivery plan"
+      ],
+      "timeline": [
+        {
+          "title": "Discover",
+          "duration": "Week 1",
+          "description": "Stakeholder interviews, a market and competitor scan, and a workshop to agree the problem worth solving."
+        },
+        {
+          "title": "Define",
+          "duration": "Weeks 2–3",
+          "description": "User journeys, feature prioritisation and a scoped roadmap for the first release."
+        },
+        {
+          "title": "Validate",
+          "duration": "Weeks 3–5",
+          "description": "A clickable prototype put in front of five to eight target users, then revised."
+        },
+        {
+          "title": "Plan",
+          "duration": "Week 6",
+          "description": "Estimates, architecture outline and a release plan engineering can start from."
+        }
+      ],
+      "engagements": [
+        {
+          "name": "Discovery Sprint",
+          "duration": "2 weeks",
+          "description": "A fixed-price sprint for founders with an idea and a deadline: problem, scope and a go/no-go recommendation."
+        },
+        {
+          "name": "Product Foundations",
+          "duration": "4–6 weeks",
+          "description": "The full discovery-to-prototype track, ending with a tested prototype and a build-ready roadmap."
+        },
+        {
+          "name": "Fractional Product Lead",
+          "duration": "Monthly",
+          "description": "A senior product lead embedded with your team a few days a week, owning roadmap and priorities."
+        }
+      ],
+      "faqs": [
+        {
+          "question": "Do we need a product strategy engagement before you build?",
+          "answer": "No. If you already know what to build we'll start in design or engineering. Strategy pays off when the scope, the audience or the business case is still open."
+        },
+        {
+          "question": "What do we need to bring?",
+          "answer": "Access to the people who know the problem — founders, a few customers or prospects, and anyone who has tried to solve it before. We handle the rest."
+        },
+        {
+          "question": "Can another team build from what you hand over?",
+          "answer": "Yes. The roadmap, prototype and estimates are written for any competent team, not just ours."
+        }
+      ]
+    },
+    {
+      "slug": "design-experience",
+      "title": "Design & Experience",
+      "description": "Premium product UX for web and mobile — clean, modern, and optimised for real-world usage.",
+      "tech": [
+        "Figma",
+        "Design Systems",
+        "Prototypes"
+      ],
+      "icon": "🎨",
+      "featured": true,
+      "platforms": [],
+      "duration": "4–10 weeks",
+      "deliverables": [
+        "UX research summary and journey maps",
+        "Wireframes and high-fidelity screens for web and mobile",
+        "A documented design system in Figma",
+        "Interactive prototypes for the key flows",
+        "Developer handoff with specs, tokens and exported assets"
+      ],
+      "timeline": [
+        {
+          "title": "Research",
+          "duration": "Weeks 1–2",
+          "description": "Interviews, analytics review and an audit of the current product, if there is one."
+        },
+        {
+          "title": "Structure",
+          "duration": "Weeks 2–4",
+          "description": "Information architecture, user flows and wireframes, reviewed with you every week."
+        },
+        {
+          "title": "Visual design",
+          "duration": "Weeks 4–8",
+          "description": "High-fidelity screens and the design system they're built from, tested as prototypes."
+        },
+        {
+          "title": "Handoff",
+          "duration": "Weeks 8–10",
+          "description": "Specs, tokens and walkthroughs with your engineers, plus design QA of the first builds."
+        }
+      ],
+      "engagements": [
+        {
+          "name": "UX Audit",
+          "duration": "2 weeks",
+          "description": "A review of an existing product with a prioritised list of fixes and redesigned screens for the worst offenders."
+        },
+        {
+          "name": "Product Design",
+          "duration": "6–10 weeks",
+          "description": "End-to-end design of a new product or major release, from research to developer handoff."
+        },
+        {
+          "name": "Design System",
+          "duration": "4–8 weeks",
+          "description": "A component library in Figma and code that keeps every future screen consistent."
+        }
+      ],
+      "faqs": [
+        {
+          "question": "Do you design for both web and mobile?",
+          "answer": "Yes. We design responsive web apps and native iOS and Android apps, usually from one shared design system."
+        },
+        {
+          "question": "Will our engineers be able to build it?",
+          "answer": "Our designers work alongside engineers, so every screen is specified with real components, states and edge cases."
+        },
+        {
+          "question": "Can you work with our existing brand?",
+          "answer": "Of course. We extend your brand into a product design system rather than starting from scratch."
+        }
+      ]
+    },
+    {
+      "slug": "engineering-launch",
+      "title": "Engineering & Launch",
+      "description": "TypeScript-first builds on React, React Native, Node.js, and AWS — with performance and reliability in mind.",
+      "tech": [
+        "React",
+        "Node.js",
+        "TypeScript",
+        "AWS"
+      ],
+      "icon": "⚡",
+      "featured": true,
+      "platforms": [],
+      "duration": "8–24 weeks",
+      "deliverables": [
+        "A production TypeScript codebase that you own outright",
+        "CI/CD pipelines and infrastructure as code on AWS",
+        "Automated tests, monitoring and alerting",
+        "App Store, Play Store and web launch",
+        "Handover documentation and knowledge transfer to your team"
+      ],
+      "timeline": [
+        {
+          "title": "Foundations",
+          "duration": "Weeks 1–2",
+          "description": "Architecture, environments, CI/CD and the first end-to-end slice deployed."
+        },
+        {
+          "title": "Build",
+          "duration": "Weeks 3–16",
+          "description": "Features shipped in weekly releases to a staging environment you can click through."
+        },
+        {
+          "title": "Harden",
+          "duration": "Weeks 16–20",
+          "description": "Load testing, security review, accessibility checks and a launch checklist."
+        },
+        {
+          "title": "Launch",
+          "duration": "Weeks 20–24",
+          "description": "Store submissions, production rollout and a supported first month in the wild."
+        }
+      ],
+      "engagements": [
+        {
+          "name": "MVP Build",
+          "duration": "8–12 weeks",
+          "description": "A fixed-scope first release for startups that need to get in front of customers quickly."
+        },
+        {
+          "name": "Dedicated Squad",
+          "duration": "Monthly",
+          "description": "A cross-functional team of engineers and a designer working through your roadmap, sprint by sprint."
+        },
+        {
+          "name": "Team Augmentation",
+          "duration": "3 months minimum",
+          "description": "Senior TypeScript, React Native or AWS engineers joining your in-house team."
+        }
+      ],
+      "faqs": [
+        {
+          "question": "Who owns the code?",
+          "answer": "You do, from the first commit. Everything lives in your repositories and your cloud accounts."
+        },
+        {
+          "question": "What happens after launch?",
+          "answer": "We support the first month in production, then either hand over to your team or continue on a monthly retainer."
+        },
+        {
+          "question": "Can you take over an existing codebase?",
+          "answer": "Yes. We start with a short technical audit so we can agree on what to keep, fix or rebuild."
+        }
+      ]
+    },
+    {
+      "slug": "web-app-development",
+      "title": "Web App Development",
+      "description": "Fast, secure web applications and dashboards in React and Next.js, from first release to enterprise scale.",
+      "tech": [
+        "React",
+        "Next.js",
+        "TypeScript",
+        "Node.js"
+      ],
+      "icon": "🌐",
+      "featured": false,
+      "platforms": [
+        "web",
+        "ecommerce"
+      ],
+      "duration": "8–20 weeks",
+      "deliverables": [
+        "A production React or Next.js codebase in your repositories",
+        "Role-based access, audit trails and multi-tenant data isolation where you need them",
+        "Automated tests and a CI/CD pipeline deploying every merge to staging",
+        "Performance budget and Core Web Vitals monitoring",
+        "Handover documentation and a walkthrough for your team"
+      ],
+      "timeline": [
+        {
+          "title": "Foundations",
+          "duration": "Weeks 1–2",
+          "description": "Architecture, environments, authentication and the first screen deployed end to end."
+        },
+        {
+          "title": "Build",
+          "duration": "Weeks 3–14",
+          "description": "Features shipped to staging every sprint, demoed to you and released behind flags."
+        },
+        {
+          "title": "Harden",
+          "duration": "Weeks 15–18",
+          "description": "Load testing, accessibility and security review, and fixes from the beta."
+        },
+        {
+          "title": "Launch",
+          "duration": "Weeks 19–20",
+          "description": "Production cut-over, monitoring and the first month of support."
+        }
+      ],
+      "engagements": [
+        {
+          "name": "MVP Build",
+          "duration": "8–12 weeks",
+          "description": "A focused first release for a new product, scoped around one core workflow."
+        },
+        {
+          "name": "Platform Build",
+          "duration": "4–6 months",
+          "description": "A full web platform with admin, integrations and reporting, delivered in monthly releases."
+        },
+        {
+          "name": "Web Team Retainer",
+          "duration": "Monthly",
+          "description": "A standing team of engineers and a designer shipping your roadmap month by month."
+        }
+      ],
+      "faqs": [
+        {
+          "question": "Do you build single-page apps or server-rendered sites?",
+          "answer": "Both. Logged-in products are usually React single-page apps; marketing sites and storefronts get Next.js for SEO and first-load speed."
+        },
+        {
+          "question": "Can you integrate with our existing systems?",
+          "answer": "Yes — CRMs, payment providers, identity providers and internal APIs. We map every integration in the first two weeks."
+        },
+        {
+          "question": "Who hosts it?",
+          "answer": "You do. We deploy to your AWS, Vercel or Azure account, or set one up for you."
+        }
+      ]
+    },
+    {
+      "slug": "mobile-app-development",
+      "title": "Mobile App Development",
+      "description": "Native-quality iOS and Android apps from one React Native codebase, shipped to both stores.",
+      "tech": [
+        "React Native",
+        "Expo",
+        "TypeScript",
+        "App Store"
+      ],
+      "icon": "📱",
+      "featured": false,
+      "platforms": [
+        "mobile"
+      ],
+      "duration": "10–24 weeks",
+      "deliverables": [
+        "iOS and Android apps from a single React Native and Expo codebase",
+        "Offline support, push notifications and deep links",
+        "Crash reporting, analytics and over-the-air updates",
+        "App Store and Google Play listings, review and release",
+        "A release playbook your team can follow for every update"
+      ],
+      "timeline": [
+        {
+          "title": "Foundations",
+          "duration": "Weeks 1–2",
+          "description": "Project setup, navigation, authentication and internal builds on real devices."
+        },
+        {
+          "title": "Build",
+          "duration": "Weeks 3–16",
+          "description": "Features delivered every sprint to TestFlight and Play internal testing."
+        },
+        {
+          "title": "Beta",
+          "duration": "Weeks 17–20",
+          "description": "A closed beta with real users, performance tuning and accessibility fixes."
+        },
+        {
+          "title": "Launch",
+          "duration": "Weeks 21–24",
+          "description": "Store submission, review, phased rollout and launch monitoring."
+        }
+      ],
+      "engagements": [
+        {
+          "name": "App MVP",
+          "duration": "10–14 weeks",
+          "description": "A first release on both stores, built around the one journey your users come back for."
+        },
+        {
+          "name": "Web-to-Mobile",
+          "duration": "8–12 weeks",
+          "description": "A mobile companion to an existing web product, reusing its APIs and design system."
+        },
+        {
+          "name": "Mobile Retainer",
+          "duration": "Monthly",
+          "description": "Ongoing releases, OS upgrades and store compliance handled by a dedicated team."
+        }
+      ],
+      "faqs": [
+        {
+          "question": "Why React Native instead of fully native apps?",
+          "answer": "One codebase for both platforms roughly halves build and maintenance cost, and modern React Native apps are indistinguishable from native ones for most products."
+        },
+        {
+          "question": "Do you handle App Store review?",
+          "answer": "Yes. We prepare listings, privacy declarations and review notes, and deal with any rejections."
+        },
+        {
+          "question": "Can you take over an app someone else built?",
+          "answer": "Yes. We start with a one-week audit of the codebase, builds and crash reports before committing to a plan."
+        }
+      ]
+    },
+    {
+      "slug": "ui-ux-design",
+      "title": "UI/UX Design",
+      "description": "Research-led interface design for web and mobile products, handed over as a design system your engineers can build from.",
+      "tech": [
+        "Figma",
+        "User Research",
+        "Design Systems"
+      ],
+      "icon": "🎨",
+      "featured": false,
+      "platforms": [
+        "web",
+        "mobile"
+      ],
+      "duration": "3–10 weeks",
+      "deliverables": [
+        "User interviews and usability findings",
+        "User flows, wireframes and high-fidelity screens",
+        "A Figma design system with components and tokens",
+        "Interactive prototypes of the key journeys",
+        "Accessibility review against WCAG 2.1 AA"
+      ],
+      "timeline": [
+        {
+          "title": "Research",
+          "duration": "Weeks 1–2",
+          "description": "Interviews, analytics review and a heuristic audit of what exists today."
+        },
+        {
+          "title": "Flows",
+          "duration": "Weeks 2–4",
+          "description": "User flows and wireframes for the journeys that matter most, tested with users."
+        },
+        {
+          "title": "Interface",
+          "duration": "Weeks 4–8",
+          "description": "High-fidelity screens and the design system, reviewed with you weekly."
+        },
+        {
+          "title": "Handoff",
+          "duration": "Weeks 9–10",
+          "description": "Specs, tokens and assets, plus a walkthrough with your engineers."
+        }
+      ],
+      "engagements": [
+        {
+          "name": "UX Audit",
+          "duration": "2 weeks",
+          "description": "A review of your current product with prioritised fixes and quick wins."
+        },
+        {
+          "name": "Product Design",
+          "duration": "6–10 weeks",
+          "description": "End-to-end design of a new product or a major redesign, ready to build."
+        },
+        {
+          "name": "Embedded Designer",
+          "duration": "Monthly",
+          "description": "A senior product designer working inside your team's sprints."
+        }
+      ],
+      "faqs": [
+        {
+          "question": "Do you only design, or build as well?",
+          "answer": "Either. Many clients take our designs to their own engineers; others have us build them too."
+        },
+        {
+          "question": "What if we already have a brand?",
+          "answer": "We design within it. If the brand has no digital guidelines yet, we'll extend it for screens."
+        },
+        {
+          "question": "How do you test designs?",
+          "answer": "With five to eight target users per round, remotely, on clickable prototypes before anything is built."
+        }
+      ]
+    },
+    {
+      "slug": "cloud-engineering",
+      "title": "Cloud Engineering",
+      "description": "Backends, APIs and AWS infrastructure that scale with your product — secure, observable and defined as code.",
+      "tech": [
+        "AWS",
+        "Node.js",
+        "PostgreSQL",
+        "Terraform"
+      ],
+      "icon": "☁️",
+      "featured": false,
+      "platforms": [
+        "web",
+        "ecommerce"
+      ],
+      "duration": "4–16 weeks",
+      "deliverables": [
+        "APIs and services in Node.js and TypeScript",
+        "Infrastructure as code in Terraform or AWS CDK",
+        "Monitoring, alerting and on-call runbooks",
+        "Backups, disaster recovery and a security review",
+        "Cost report with savings you can act on"
+      ],
+      "timeline": [
+        {
+          "title": "Assess",
+          "duration": "Weeks 1–2",
+          "description": "Architecture review, threat model and a cost and reliability baseline."
+        },
+        {
+          "title": "Design",
+          "duration": "Weeks 2–3",
+          "description": "Target architecture and a migration or build plan agreed with your team."
+        },
+        {
+          "title": "Build",
+          "duration": "Weeks 4–12",
+          "description": "Services, pipelines and infrastructure delivered in small, reversible steps."
+        },
+        {
+          "title": "Operate",
+          "duration": "Weeks 13–16",
+          "description": "Load tests, failover drills and a handover to whoever runs it next."
+        }
+      ],
+      "engagements": [
+        {
+          "name": "Cloud Review",
+          "duration": "2 weeks",
+          "description": "An audit of your architecture, security and spend with a prioritised action list."
+        },
+        {
+          "name": "Backend Build",
+          "duration": "8–16 weeks",
+          "description": "APIs, data stores and infrastructure for a new or re-platformed product."
+        },
+        {
+          "name": "Platform Retainer",
+          "duration": "Monthly",
+          "description": "Ongoing infrastructure, upgrades and incident support from our cloud team."
+        }
+      ],
+      "faqs": [
+        {
+          "question": "Do you only work on AWS?",
+          "answer": "AWS is where most of our work runs, but we also deliver on Azure and Google Cloud."
+        },
+        {
+          "question": "Can you help us pass a SOC 2 or HIPAA audit?",
+          "answer": "Yes. We've built and documented controls for both, and work alongside your auditor."
+        },
+        {
+          "question": "Will we be locked in to you?",
+          "answer": "No. Everything is code in your repositories and runs in your accounts, documented for your team."
+        }
+      ]
+    }
+  ],
+  "process": [
+    {
+      "phase": "Discover",
+      "title": "Research & Alignment",
+      "description": "Workshops, research, and requirements to get everyone aligned on the same problem and outcome."
+    },
+    {
+      "phase": "Design",
+      "title": "UX & Interface Design",
+      "description": "Flows, wireframes, and polished UI that reflect your brand and real user journeys."
+    },
+    {
+      "phase": "Build",
+      "title": "Engineering & Development",
+      "description": "Sprints with demos, reviews, and code that your in-house team can extend with confidence."
+    },
+    {
+      "phase": "Launch",
+      "title": "Deployment & Growth",
+      "description": "Rollout, monitoring, and iterative improvements based on real usage and product metrics."
+    }
+  ],
+  "posts": [
+    {
+      "title": "Building HIPAA-Ready Telehealth: Lessons From the Field",
+      "summary": "Compliance isn't a feature you add at the end. The architecture decisions that made our telehealth builds pass security review first time.",
+      "author": "CraftTech Engineering",
+      "date": "2024-06-20",
+      "tags": [
+        "Engineering",
+        "Healthcare",
+        "Compliance"
+      ],
+      "hero": "Hero3.png",
+      "slug": "building-hipaa-ready-telehealth",
+      "body": "Healthcare products live or die on trust. Patients need to believe their data is safe, and hospital security teams need proof. Here's what we've learned shipping telehealth platforms that handle protected health information.\n\n## Decide where PHI lives — early\n\nThe first architecture question is which services ever see protected health information. The fewer, the better. We keep PHI in a small number of services with strict access controls, and everything else — analytics, notifications, marketing — works with opaque IDs.\n\n## Encrypt everything, log everything\n\n- Encryption in transit and at rest, with keys managed per environment\n- Audit logs for every read and write of patient data\n- Short-lived sessions and re-authentication for sensitive actions\n\nNone of this is exotic, but all of it is much harder to retrofit than to build in.\n\n## Choose vendors that will sign a BAA\n\nEvery third-party service that touches PHI needs a Business Associate Agreement. That rules out some popular tools and shapes the stack from day one.\n\n## Make compliance visible\n\nWe write the security documentation as we build, not after. When the client's security team asks how something works, the answer already exists — which is how our last two platforms passed review on the first submission.\n\nSee the [telehealth case study](/work/telehealth-mobile-platform) for how this looked in practice."
+    },
+    {
+      "title": "Shipping React Native and Web From One Codebase",
+      "summary": "What we share between iOS, Android and the browser with Expo and react-native-web — and the few places we deliberately don't.",
+      "author": "CraftTech Engineering",
+      "date": "2024-05-14",
+      "tags": [
+        "Engineering",
+        "React Native",
+        "Expo"
+      ],
+      "hero": "Hero3.png",
+      "slug": "shipping-react-native-and-web-from-one-codebase",
+      "body": "Most of our clients want the same product on the web, the App Store and Google Play. Three codebases triple the cost of every change, so for the last two years we've built on a single TypeScript codebase with Expo and react-native-web.\n\n## What we share\n\nAlmost everything. Screens, navigation state, forms, validation and API clients live in one place. A validation rule written for the sign-up form runs in the browser, on the phone and on the server that receives the request.\n\n- **Components** are written against React Native primitives and render to the DOM on the web.\n- **Business logic** is plain TypeScript with no platform imports at all.\n- **Design tokens** — colours, spacing and type scale — come from one theme file.\n\n## What we don't\n\nSharing everything is a trap. A few things are better written per platform:\n\n1. **Navigation chrome.** People expect a browser's back button and URL bar to work, and a phone's swipe-back gesture to work. We keep one route model and adapt it to each.\n2. **File access.** Picking a document on iOS and in Chrome are different enough that one wrapper with two small implementations beats a leaky abstraction.\n3. **Performance-critical lists.** Long feeds get platform-specific tuning.\n\n## Was it worth it?\n\nOn our last three launches, 85–90% of the code was shared. The savings come after launch: a bug fixed once is fixed everywhere, and a new feature ships to every platform in the same release.\n\nIf you're weighing native against cross-platform, [tell us about your project](/contact) and we'll give you an honest answer for your case."
+    },
+    {
+      "title": "Design Systems That Survive Contact With Engineering",
+      "summary": "A design system is only as good as the code that implements it. How we keep Figma and the component library telling the same story.",
+      "author": "CraftTech Design",
+      "date": "2024-03-28",
+      "tags": [
+        "Design",
+        "Design Systems"
+      ],
+      "hero": "Hero2.png",
+      "slug": "design-systems-that-survive-contact-with-engineering",
+      "body": "Every team we meet has a design system. Fewer have one that matches what's actually in production. The gap opens slowly: a one-off colour here, a padded button there, until nobody trusts the Figma file.\n\n## Start from tokens, not screens\n\nWe define colour, spacing, radius and type as named tokens before drawing a single screen. Designers use them in Figma; engineers import the same names from code. When the brand colour changes, it changes in one place.\n\n## Design the states, not just the happy path\n\nA button has at least five states: default, hover, pressed, disabled and loading. A form field has more. We design every state up front, because engineers will otherwise invent them under deadline — and each invention is a small fork of the system.\n\n## Review in the product\n\nDesign review happens in the staging build, not in Figma. It's the only place you see real data, real loading times and real screen sizes.\n\n> The design system is the code. Figma is where we sketch what the code should become.\n\n## Keep it small\n\nA system with forty components that everyone understands beats one with two hundred that nobody can find. We add a component when the third screen needs it, not the first."
+    },
+    {
+      "title": "Validating an MVP in Six Weeks",
+      "summary": "Our discovery playbook for founders who need evidence before they need code — interviews, a tested prototype and a roadmap you can defend.",
+      "author": "CraftTech Product",
+      "date": "2024-02-06",
+      "tags": [
+        "Product",
+        "Strategy",
+        "Startups"
+      ],
+      "hero": "Herovideo1.png",
+      "slug": "validating-an-mvp-in-six-weeks",
+      "body": "The most expensive code is code nobody needed. Before we build an MVP, we spend up to six weeks making sure it's the right one.\n\n## Weeks 1–2: the problem\n\nWe interview the people who have the problem, not the people who want to solve it. Eight to ten conversations are usually enough to hear the same pain described in the same words — that's when you know it's real.\n\n## Weeks 3–4: the smallest useful product\n\nWe map the journey from \"I have this problem\" to \"it's solved\", then cut everything that isn't on that path. What's left is the MVP. It's almost always smaller than the founder's first list.\n\n## Weeks 5–6: a prototype, in front of users\n\nA clickable prototype, tested with five to eight people from the target audience, tells you more than any amount of internal debate. We watch where people hesitate, and fix it before it costs engineering time.\n\n## What you walk away with\n\n- A problem statement your whole team agrees on\n- A prioritised roadmap for the first release\n- A tested prototype\n- An estimate you can take to investors\n\nRead how this played out for [Loopline](/work/workflow-saas-platform), who launched a paid MVP ten weeks after their first workshop."
+    }
+  ],
+  "jobs": [
+    {
+      "slug": "senior-react-native-engineer",
+      "role": "Senior React Native Engineer",
+      "discipline": "engineering",
+      "seniority": "senior",
+      "workMode": "remote",
+      "timezones": "UTC+3 to UTC+6",
+      "overlapHours": 4,
+      "stack": [
+        "React Native",
+        "TypeScript",
+        "Expo",
+        "Node.js"
+      ],
+      "compensation": "$3,500 – $5,000 / month",
+      "posted": "2024-06-03",
+      "summary": "Own the mobile and web apps our clients launch on — one TypeScript codebase, shipped to iOS, Android and the web.",
+      "responsibilities": [
+        "Build features end to end in React Native and React Native Web, from API contract to release",
+        "Set up CI, over-the-air updates and crash reporting on new client projects",
+        "Pair with designers to turn Figma components into a shared design system",
+        "Review pull requests and mentor mid-level engineers on the squad"
+      ],
+      "requirements": [
+        "5+ years building production apps, 3+ of them in React Native",
+        "Strong TypeScript, and comfort reading native iOS or Android code when a library misbehaves",
+        "Experience shipping to the App Store and Google Play",
+        "Clear written English: most of our collaboration is async"
+      ],
+      "niceToHave": [
+        "Expo EAS and over-the-air update pipelines",
+        "Healthcare or fintech work with compliance requirements"
+      ]
+    },
+    {
+      "slug": "backend-engineer-node",
+      "role": "Backend Engineer (Node.js)",
+      "discipline": "engineering",
+      "seniority": "mid",
+      "workMode": "remote",
+      "timezones": "UTC+3 to UTC+6",
+      "overlapHours": 3,
+      "stack": [
+        "Node.js",
+        "TypeScript",
+        "PostgreSQL",
+        "AWS"
+      ],
+      "compensation": "$2,200 – $3,200 / month",
+      "posted": "2024-05-20",
+      "summary": "Design the APIs, data models and integrations behind our clients' products, with senior engineers to learn from.",
+      "responsibilities": [
+        "Build and document REST and webhook APIs in TypeScript",
+        "Model data in PostgreSQL and keep migrations safe to deploy",
+        "Integrate payments, email and analytics providers",
+        "Write the tests and runbooks that let the team deploy on a Friday"
+      ],
+      "requirements": [
+        "2+ years of professional Node.js and TypeScript",
+        "Solid SQL, including indexes and transactions",
+        "Experience deploying to a cloud provider",
+        "Clear written English"
+      ],
+      "niceToHave": [
+        "Serverless functions on Vercel or AWS Lambda",
+        "HIPAA or SOC 2 controls in practice"
+      ]
+    },
+    {
+      "slug": "product-designer",
+      "role": "Product Designer",
+      "discipline": "design",
+      "seniority": "senior",
+      "workMode": "hybrid",
+      "timezones": "Lahore, UTC+5",
+      "overlapHours": 4,
+      "stack": [
+        "Figma",
+        "Design Systems",
+        "Prototyping"
+      ],
+      "compensation": "$2,800 – $4,000 / month",
+      "posted": "2024-05-08",
+      "summary": "Lead design on client engagements, from discovery workshops to the component library engineers build from.",
+      "responsibilities": [
+        "Run discovery workshops and usability tests with client teams",
+        "Design flows, prototypes and high-fidelity UI for web and mobile",
+        "Maintain the design systems we hand over at the end of each engagement",
+        "Present work to founders and product leaders, and take feedback well"
+      ],
+      "requirements": [
+        "4+ years designing shipped digital products",
+        "A portfolio showing research, flows and polished UI",
+        "Fluency in Figma, including variables and component properties",
+        "In the Lahore office two days a week"
+      ],
+      "niceToHave": [
+        "Motion design for product UI",
+        "Experience designing for regulated industries"
+      ]
+    },
+    {
+      "slug": "delivery-lead",
+      "role": "Delivery Lead",
+      "discipline": "product",
+      "seniority": "lead",
+      "workMode": "remote",
+      "timezones": "UTC-5 to UTC+6",
+      "overlapHours": 5,
+      "stack": [
+        "Linear",
+        "Notion",
+        "Agile Delivery"
+      ],
+      "compensation": "$4,000 – $5,500 / month",
+      "posted": "2024-04-22",
+      "summary": "Keep two or three client squads on track: scope, plan, unblock, and make sure every week ends with something shipped.",
+      "responsibilities": [
+        "Turn discovery output into roadmaps, estimates and sprint plans",
+        "Run weekly demos and status updates with client stakeholders",
+        "Spot risk early and negotiate scope when it appears",
+        "Grow our delivery playbook as the team scales"
+      ],
+      "requirements": [
+        "5+ years in delivery, project or product management on software teams",
+        "Experience with client services or agency work",
+        "Calm, structured written communication",
+        "At least five hours a day overlapping with US Eastern business hours"
+      ],
+      "niceToHave": [
+        "A technical background",
+        "Experience scaling a distributed team"
+      ]
+    }
+  ]
+};
+
+// Local images the app bundles; content loaded at runtime can only use these (or URLs).
+export const BUNDLED_IMAGES: string[] = ["Hero2.png","Hero3.png","Herovideo1.png"];
@@ -0,0 +1,13 @@
+import { BUNDLED_CONTENT } from "./content.generated";
+
+/* -----------------------------------------------------
+   CONTENT
+   The site copy bundled from content/ at build time. Edit
+   the files there, not these constants; the build checks
+   them against lib/contentSchema.
+----------------------------------------------------- */
+export const HERO_SLIDES = BUNDLED_CONTENT.heroSlides;
+export const PORTFOLIO_ITEMS = BUNDLED_CONTENT.portfolio;
+export const TESTIMONIALS = BUNDLED_CONTENT.testimonials;
+export const SERVICES = BUNDLED_CONTENT.services;
+export const PROCESS_STEPS = BUNDLED_CONTENT.process;
@@ -0,0 +1,8 @@
+// Generated by `npm run content:build` from content/. Do not edit by hand.
+import type { ImageSourcePropType } from "react-native";
+
+export const CONTENT_ASSETS: Record<string, ImageSourcePropType> = {
+  "Hero2.png": require("../assets/Hero2.png"),
+  "Hero3.png": require("../assets/Hero3.png"),
+  "Herovideo1.png": require("../assets/Herovideo1.png"),
+};
@@ -0,0 +1,9 @@
+import type { ImageSourcePropType } from "react-native";
+import { CONTENT_ASSETS } from "./contentAssets.generated";
+
+/* -----------------------------------------------------
+   CONTENT IMAGES
+   Content refers to images by assets/ file name or URL;
+   this turns either into something <Image> can show.
+----------------------------------------------------- */
+export const contentImage = (ref: string): ImageSourcePropType => CONTENT_ASSETS[ref] ?? { uri: ref };
@@ -0,0 +1,481 @@
+import {
+  DISCIPLINES,
+  Discipline,
+  SENIORITY_LEVELS,
+  Seniority,
+  WORK_MODES,
+  WorkMode,
+} from "./careers";
+import { markdownSections } from "./markdown";
+import {
+  COMPLIANCE_STANDARDS,
+  ComplianceStandard,
+  INDUSTRIES,
+  Industry,
+  PRODUCT_PLATFORMS,
+  ProductPlatform,
+} from "./offerings";
+import { FormSchema, Rule, rules, validateSync } from "./validation";
+
+/* -----------------------------------------------------
+   CONTENT TYPES
+   Marketing copy lives in content/ as JSON and Markdown,
+   so it can change without touching components. These are
+   the shapes every source of that content must produce.
+----------------------------------------------------- */
+export interface HeroSlide {
+  id: string;
+  title: string;
+  subtitle: string;
+  image: string; // file in assets/, or an absolute URL
+}
+
+export interface PortfolioItem {
+  id: number;
+  slug: string;
+  title: string;
+  type: string;
+  category: ProductPlatform;
+  description: string;
+  metrics: string[];
+  img: string;
+  client: string;
+  industry: Industry;
+  compliance: ComplianceStandard[]; // may be empty
+  service: string; // a Service title; what "Start a similar project" asks for
+  stack: string[];
+  outcomes: string[];
+  gallery: string[]; // images, like `img`
+  testimonial?: number; // a Testimonial id, shown as the client quote
+  body: string; // Markdown with a ## section for each of CASE_STUDY_SECTIONS
+}
+
+// The case-study write-up every portfolio body must cover, in this order on the page.
+export const CASE_STUDY_SECTIONS = ["Challenge", "Approach", "Architecture"] as const;
+
+export interface Testimonial {
+  id: number;
+  quote: string;
+  name: string;
+  role: string;
+  company: string;
+}
+
+export interface ServiceTimelineStep {
+  title: string;
+  duration: string; // e.g. "Weeks 2–3"
+  description: string;
+}
+
+export interface EngagementOption {
+  name: string;
+  duration: string;
+  description: string;
+}
+
+export interface ServiceFaq {
+  question: string;
+  answer: string;
+}
+
+export interface Service {
+  slug: string; // its page, /services/<slug>
+  title: string;
+  description: string;
+  tech: string[];
+  icon: string;
+  featured: boolean; // one of the cards in the Services section; the rest are linked from the menu and footer
+  platforms: ProductPlatform[]; // case studies on these platforms count as related; may be empty
+  duration: string; // typical length end to end, e.g. "2–6 weeks"
+  deliverables: string[];
+  timeline: ServiceTimelineStep[];
+  engagements: EngagementOption[];
+  faqs: ServiceFaq[];
+}
+
+export type ProcessPhase = "Discover" | "Design" | "Build" | "Launch";
+
+export const PROCESS_PHASES: ProcessPhase[] = ["Discover", "Design", "Build", "Launch"];
+
+export interface ProcessStep {
+  phase: ProcessPhase;
+  title: string;
+  description: string;
+}
+
+export interface BlogPost {
+  slug: string;
+  title: string;
+  summary: string; // the listing card and feed description
+  author: string;
+  date: string; // YYYY-MM-DD, the publish date
+  tags: string[];
+  hero: string; // image, like a portfolio `img`
+  body: string; // Markdown
+}
+
+export interface JobPosting {
+  slug: string; // its page, /careers/<slug>
+  role: string;
+  discipline: Discipline;
+  seniority: Seniority;
+  workMode: WorkMode;
+  timezones: string; // where candidates can be, e.g. "UTC+3 to UTC+6"
+  overlapHours: number; // live hours a day shared with US Eastern clients
+  stack: string[];
+  compensation: string; // e.g. "$3,500 – $5,000 / month"
+  posted: string; // YYYY-MM-DD
+  summary: string;
+  responsibilities: string[];
+  requirements: string[];
+  niceToHave: string[]; // may be empty
+}
+
+export interface SiteContent {
+  heroSlides: HeroSlide[];
+  portfolio: PortfolioItem[];
+  testimonials: Testimonial[];
+  services: Service[];
+  process: ProcessStep[];
+  posts: BlogPost[];
+  jobs: JobPosting[];
+}
+
+export type ContentCollection = keyof SiteContent;
+
+export const CONTENT_COLLECTIONS: ContentCollection[] = [
+  "heroSlides",
+  "portfolio",
+  "testimonials",
+  "services",
+  "process",
+  "posts",
+  "jobs",
+];
+
+// How a collection is named on disk (content/<slug>.json) and in a CMS (<url>/<slug>).
+export const COLLECTION_SLUGS: Record<ContentCollection, string> = {
+  heroSlides: "hero-slides",
+  portfolio: "portfolio",
+  testimonials: "testimonials",
+  services: "services",
+  process: "process",
+  posts: "posts",
+  jobs: "jobs",
+};
+
+// Bump when a content file's shape changes; files declare the version they were written for.
+export const CONTENT_VERSION = 1;
+
+/* -----------------------------------------------------
+   SCHEMAS
+   The shared validation engine, run over content entries
+   instead of form values. Typing each schema against its
+   interface means a new field can't ship unvalidated.
+----------------------------------------------------- */
+const text: Rule = (value) => (typeof value === "string" ? null : "Must be text.");
+
+const textList: Rule = (value) =>
+  Array.isArray(value) && value.every((v) => typeof v === "string" && v.trim() !== "")
+    ? null
+    : "Must be a list of non-empty text.";
+
+const positiveInteger: Rule = (value) =>
+  Number.isInteger(value) && (value as number) > 0 ? null : "Must be a whole number above 0.";
+
+const SLUG = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+export const isLocalImage = (ref: string) => !/^https?:\/\//.test(ref);
+
+// Every image a piece of content shows, with the entry it belongs to.
+export const contentImageRefs = (content: SiteContent) => [
+  ...content.heroSlides.map((s) => ({ entry: s.id, image: s.image })),
+  ...content.portfolio.flatMap((p) => [p.img, ...p.gallery].map((image) => ({ entry: p.slug, image }))),
+  ...content.posts.map((p) => ({ entry: p.slug, image: p.hero })),
+];
+
+// Assets are checked against the filesystem by the build; here we only check the form.
+const imageRef: Rule = (value) =>
+  typeof value === "string" && (!isLocalImage(value) || /^[\w.-]+\.(png|jpe?g|webp|gif)$/i.test(value))
+    ? null
+    : "Must be an image file name in assets/ or an http(s) URL.";
+
+const imageList: Rule = (value) =>
+  Array.isArray(value) ? value.map(imageRef).find(Boolean) ?? null : "Must be a list of images.";
+
+// A list of small records whose fields are all non-empty text, e.g. FAQs.
+const textRecords = (fields: string[]): Rule => (value) => {
+  const valid =
+    Array.isArray(value) &&
+    value.every((item) => {
+      if (!item || typeof item !== "object" || Array.isArray(item)) return false;
+      const record = item as Record<string, unknown>;
+      return (
+        Object.keys(record).every((key) => fields.includes(key)) &&
+        fields.every((field) => typeof record[field] === "string" && (record[field] as string).trim() !== "")
+      );
+    });
+  return valid ? null : `Must be a list of { ${fields.join(", ")} }, all non-empty text.`;
+};
+
+const isoDate: Rule = (value) =>
+  typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value))
+    ? null
+    : "Must be a date written YYYY-MM-DD.";
+
+const overlapHours: Rule = (value) =>
+  Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 8 ? null : "Must be a whole number of hours, 0–8.";
+
+const flag: Rule = (value) => (typeof value === "boolean" ? null : "Must be true or false.");
+
+const optionalId: Rule = (value) => (value === undefined ? null : positiveInteger(value));
+
+const caseStudyBody: Rule = (value) => {
+  const titles = markdownSections(typeof value === "string" ? value : "").map((s) => s.title);
+  const missing = CASE_STUDY_SECTIONS.filter((title) => !titles.includes(title));
+  return missing.length > 0 ? `Add ${missing.map((title) => `"## ${title}"`).join(", ")} to the body.` : null;
+};
+
+const required = rules.required();
+
+export const CONTENT_SCHEMAS: { [K in ContentCollection]: FormSchema<SiteContent[K][number]> } = {
+  heroSlides: {
+    id: { label: "ID", rules: [text, required, rules.pattern(SLUG, "Use lower-case-with-dashes.")] },
+    title: { label: "Title", rules: [text, required, rules.maxLength(120)] },
+    subtitle: { label: "Subtitle", rules: [text, required, rules.maxLength(240)] },
+    image: { label: "Image", rules: [required, imageRef] },
+  },
+  portfolio: {
+    id: { label: "ID", rules: [positiveInteger] },
+    slug: { label: "Slug", rules: [text, required, rules.pattern(SLUG, "Use lower-case-with-dashes.")] },
+    title: { label: "Title", rules: [text, required, rules.maxLength(80)] },
+    type: { label: "Type", rules: [text, required] },
+    category: { label: "Category", rules: [required, rules.oneOf(PRODUCT_PLATFORMS, `Must be one of: ${PRODUCT_PLATFORMS.join(", ")}.`)] },
+    description: { label: "Description", rules: [text, required, rules.maxLength(240)] },
+    metrics: { label: "Metrics", rules: [textList, rules.maxLength(4, "List at most 4 metrics.")] },
+    img: { label: "Image", rules: [required, imageRef] },
+    client: { label: "Client", rules: [text, required] },
+    industry: { label: "Industry", rules: [required, rules.oneOf(INDUSTRIES, `Must be one of: ${INDUSTRIES.join(", ")}.`)] },
+    compliance: {
+      label: "Compliance",
+      rules: [textList, rules.oneOf(COMPLIANCE_STANDARDS, `List only: ${COMPLIANCE_STANDARDS.join(", ")}.`)],
+    },
+    service: { label: "Service", rules: [text, required] },
+    stack: { label: "Stack", rules: [textList, required] },
+    outcomes: { label: "Outcomes", rules: [textList, required] },
+    gallery: { label: "Gallery", rules: [imageList, rules.maxLength(6, "List at most 6 images.")] },
+    testimonial: { label: "Testimonial", rules: [optionalId] },
+    body: { label: "Body", rules: [text, caseStudyBody] },
+  },
+  testimonials: {
+    id: { label: "ID", rules: [positiveInteger] },
+    quote: { label: "Quote", rules: [text, required, rules.maxLength(400)] },
+    name: { label: "Name", rules: [text, required] },
+    role: { label: "Role", rules: [text, required] },
+    company: { label: "Company", rules: [text, required] },
+  },
+  services: {
+    slug: { label: "Slug", rules: [text, required, rules.pattern(SLUG, "Use lower-case-with-dashes.")] },
+    title: { label: "Title", rules: [text, required, rules.maxLength(60)] },
+    description: { label: "Description", rules: [text, required, rules.maxLength(240)] },
+    tech: { label: "Tech", rules: [textList] },
+    icon: { label: "Icon", rules: [text, required] },
+    featured: { label: "Featured", rules: [flag] },
+    platforms: {
+      label: "Platforms",
+      rules: [textList, rules.oneOf(PRODUCT_PLATFORMS, `List only: ${PRODUCT_PLATFORMS.join(", ")}.`)],
+    },
+    duration: { label: "Duration", rules: [text, required] },
+    deliverables: { label: "Deliverables", rules: [textList, required] },
+    timeline: { label: "Timeline", rules: [textRecords(["title", "duration", "description"]), required] },
+    engagements: { label: "Engagements", rules: [textRecords(["name", "duration", "description"]), required] },
+    faqs: { label: "FAQs", rules: [textRecords(["question", "answer"]), required] },
+  },
+  posts: {
+    slug: { label: "Slug", rules: [text, required, rules.pattern(SLUG, "Use lower-case-with-dashes.")] },
+    title: { label: "Title", rules: [text, required, rules.maxLength(120)] },
+    summary: { label: "Summary", rules: [text, required, rules.maxLength(280)] },
+    author: { label: "Author", rules: [text, required] },
+    date: { label: "Date", rules: [required, isoDate] },
+    tags: { label: "Tags", rules: [textList, required, rules.maxLength(5, "List at most 5 tags.")] },
+    hero: { label: "Hero image", rules: [required, imageRef] },
+    body: { label: "Body", rules: [text, required] },
+  },
+  jobs: {
+    slug: { label: "Slug", rules: [text, required, rules.pattern(SLUG, "Use lower-case-with-dashes.")] },
+    role: { label: "Role", rules: [text, required, rules.maxLength(80)] },
+    discipline: { label: "Discipline", rules: [required, rules.oneOf(DISCIPLINES, `Must be one of: ${DISCIPLINES.join(", ")}.`)] },
+    seniority: { label: "Seniority", rules: [required, rules.oneOf(SENIORITY_LEVELS, `Must be one of: ${SENIORITY_LEVELS.join(", ")}.`)] },
+    workMode: { label: "Work mode", rules: [required, rules.oneOf(WORK_MODES, `Must be one of: ${WORK_MODES.join(", ")}.`)] },
+    timezones: { label: "Time zones", rules: [text, required, rules.maxLength(60)] },
+    overlapHours: { label: "Overlap hours", rules: [overlapHours] },
+    stack: { label: "Stack", rules: [textList, required, rules.maxLength(8, "List at most 8 technologies.")] },
+    compensation: { label: "Compensation", rules: [text, required, rules.maxLength(60)] },
+    posted: { label: "Posted", rules: [required, isoDate] },
+    summary: { label: "Summary", rules: [text, required, rules.maxLength(280)] },
+    responsibilities: { label: "Responsibilities", rules: [textList, required] },
+    requirements: { label: "Requirements", rules: [textList, required] },
+    niceToHave: { label: "Nice to have", rules: [textList] },
+  },
+  process: {
+    phase: { label: "Phase", rules: [required, rules.oneOf(PROCESS_PHASES, `Must be one of: ${PROCESS_PHASES.join(", ")}.`)] },
+    title: { label: "Title", rules: [text, required] },
+    description: { label: "Description", rules: [text, required] },
+  },
+};
+
+// Fields that identify an entry and must be unique within a collection.
+const UNIQUE_KEYS: { [K in ContentCollection]: (keyof SiteContent[K][number])[] } = {
+  heroSlides: ["id"],
+  portfolio: ["id", "slug"],
+  testimonials: ["id"],
+  services: ["slug", "title"],
+  process: ["phase"],
+  posts: ["slug"],
+  jobs: ["slug"],
+};
+
+/* -----------------------------------------------------
+   VALIDATION
+----------------------------------------------------- */
+export interface ContentError {
+  source: string; // file (or URL) the entry came from
+  path: string; // e.g. "[2].metrics"
+  message: string;
+}
+
+export interface ContentEntry {
+  source: string;
+  value: unknown;
+}
+
+export const formatContentError = (error: ContentError) =>
+  `${error.source}${error.path ? ` ${error.path}` : ""}: ${error.message}`;
+
+export class ContentValidationError extends Error {
+  errors: ContentError[];
+
+  constructor(errors: ContentError[]) {
+    super(`Invalid content:\n${errors.map((e) => `  • ${formatContentError(e)}`).join("\n")}`);
+    this.name = "ContentValidationError";
+    this.errors = errors;
+  }
+}
+
+// Unwraps a collection document, { "version": 1, "items": [...] }, as files and CMSes both send it.
+export const readCollectionDocument = (source: string, document: unknown, errors: ContentError[]): ContentEntry[] => {
+  const { version, items } = (document ?? {}) as { version?: unknown; items?: unknown };
+  if (version !== CONTENT_VERSION) {
+    errors.push({ source, path: ".version", message: `Must be ${CONTENT_VERSION} (got ${JSON.stringify(version)}).` });
+  }
+  if (!Array.isArray(items)) {
+    errors.push({ source, path: ".items", message: "Must be a list." });
+    return [];
+  }
+  return items.map((value) => ({ source, value }));
+};
+
+// Entries from one JSON file (or CMS response) are told apart by index; Markdown files by file name.
+const entryPaths = (entries: ContentEntry[]) => {
+  const indexed = entries.some((e, i) => entries.findIndex((o) => o.source === e.source) !== i);
+  return (index: number, field = "") => `${indexed ? `[${index}]` : ""}${field ? `.${field}` : ""}`;
+};
+
+// Checks one collection's entries; returns the typed list alongside any errors.
+export const validateCollection = <K extends ContentCollection>(
+  collection: K,
+  entries: ContentEntry[]
+): { items: SiteContent[K]; errors: ContentError[] } => {
+  const schema = CONTENT_SCHEMAS[collection] as unknown as FormSchema<Record<string, unknown>>;
+  const fields = Object.keys(schema);
+  const errors: ContentError[] = [];
+  const pathOf = entryPaths(entries);
+
+  entries.forEach(({ source, value }, index) => {
+    const at = pathOf(index);
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      errors.push({ source, path: at, message: "Must be an object." });
+      return;
+    }
+    const entry = value as Record<string, unknown>;
+    for (const key of Object.keys(entry).filter((k) => !fields.includes(k))) {
+      errors.push({ source, path: pathOf(index, key), message: `Unknown field. Expected one of: ${fields.join(", ")}.` });
+    }
+    for (const [field, message] of Object.entries(validateSync(schema, entry))) {
+      errors.push({ source, path: pathOf(index, field), message: message as string });
+    }
+  });
+
+  for (const key of UNIQUE_KEYS[collection] as string[]) {
+    const seen = new Map<unknown, string>();
+    entries.forEach(({ source, value }, index) => {
+      const id = (value as Record<string, unknown> | null)?.[key];
+      if (id === undefined) return;
+      if (seen.has(id)) {
+        errors.push({ source, path: pathOf(index, key), message: `"${id}" is already used by ${seen.get(id)}.` });
+      }
+      seen.set(id, `${source}${pathOf(index)}`);
+    });
+  }
+
+  if (entries.length === 0) {
+    errors.push({ source: collection, path: "", message: "Needs at least one entry." });
+  }
+
+  return { items: entries.map((e) => e.value) as SiteContent[K], errors };
+};
+
+// Validates every collection; callers decide whether the errors are fatal.
+export const validateContent = (
+  raw: Record<ContentCollection, ContentEntry[]>
+): { content: SiteContent; errors: ContentError[] } => {
+  const errors: ContentError[] = [];
+  const validated = <K extends ContentCollection>(collection: K) => {
+    const result = validateCollection(collection, raw[collection]);
+    errors.push(...result.errors);
+    return result.items;
+  };
+  const content: SiteContent = {
+    heroSlides: validated("heroSlides"),
+    portfolio: validated("portfolio").sort((a, b) => a.id - b.id),
+    testimonials: validated("testimonials"),
+    services: validated("services"),
+    process: validated("process"),
+    // Newest first; ISO dates sort as text.
+    posts: validated("posts").sort((a, b) => b.date.localeCompare(a.date) || a.slug.localeCompare(b.slug)),
+    jobs: validated("jobs").sort((a, b) => b.posted.localeCompare(a.posted) || a.slug.localeCompare(b.slug)),
+  };
+
+  // References between collections.
+  const services = new Set(content.services.map((service) => service.title));
+  const testimonials = new Set(content.testimonials.map((testimonial) => testimonial.id));
+  const pathOf = entryPaths(raw.portfolio);
+  raw.portfolio.forEach(({ source, value }, index) => {
+    const item = value as Partial<PortfolioItem> | null;
+    if (typeof item?.service === "string" && !services.has(item.service)) {
+      errors.push({ source, path: pathOf(index, "service"), message: `"${item.service}" isn't a service title.` });
+    }
+    if (typeof item?.testimonial === "number" && !testimonials.has(item.testimonial)) {
+      errors.push({ source, path: pathOf(index, "testimonial"), message: `No testimonial has id ${item.testimonial}.` });
+    }
+  });
+
+  return { content, errors };
+};
+
+// Checks a whole SiteContent that arrived as JSON (e.g. from /api/content).
+export const parseSiteContent = (value: unknown, source: string): SiteContent => {
+  const document = (value ?? {}) as Partial<Record<ContentCollection, unknown>>;
+  const errors: ContentError[] = [];
+  const raw = {} as Record<ContentCollection, ContentEntry[]>;
+  for (const collection of CONTENT_COLLECTIONS) {
+    const items = document[collection];
+    if (!Array.isArray(items)) errors.push({ source, path: `.${collection}`, message: "Must be a list." });
+    const at = `${source} ${collection}`;
+    raw[collection] = Array.isArray(items) ? items.map((item) => ({ source: at, value: item })) : [];
+  }
+  const result = validateContent(raw);
+  errors.push(...result.errors);
+  if (errors.length > 0) throw new ContentValidationError(errors);
+  return result.content;
+};
@@ -0,0 +1,173 @@
+import { BUNDLED_CONTENT, BUNDLED_IMAGES } from "./content.generated";
+import {
+  COLLECTION_SLUGS,
+  CONTENT_COLLECTIONS,
+  ContentCollection,
+  ContentEntry,
+  ContentError,
+  ContentValidationError,
+  SiteContent,
+  contentImageRefs,
+  isLocalImage,
+  readCollectionDocument,
+  validateContent,
+} from "./contentSchema";
+
+/* -----------------------------------------------------
+   CONTENT SOURCES
+   Where the page's copy comes from, behind one interface.
+   Sources compose: a CMS wrapped in a cache, wrapped in a
+   fallback to the content bundled at build time, means the
+   page always has something valid to render.
+----------------------------------------------------- */
+export interface ContentSource {
+  name: string;
+  load(): Promise<SiteContent>;
+}
+
+// Unreachable, timed out, or answered with something other than a 2xx.
+export class ContentUnavailableError extends Error {
+  constructor(source: string, reason: string) {
+    super(`${source}: ${reason}`);
+    this.name = "ContentUnavailableError";
+  }
+}
+
+// Runtime content can't add local images (the app only has the ones bundled at build time).
+export const checkBundledImages = (content: SiteContent, source: string): SiteContent => {
+  const errors: ContentError[] = contentImageRefs(content)
+    .filter((ref) => isLocalImage(ref.image) && !BUNDLED_IMAGES.includes(ref.image))
+    .map((ref) => ({ source, path: ref.entry, message: `${ref.image} isn't bundled with the app; use an image URL.` }));
+  if (errors.length > 0) throw new ContentValidationError(errors);
+  return content;
+};
+
+export const createBundledContentSource = (): ContentSource => ({
+  name: "bundled",
+  load: async () => BUNDLED_CONTENT,
+});
+
+/* -----------------------------------------------------
+   HTTP CMS
+   A headless CMS (or anything in front of one) serving
+   each collection as GET <url>/<slug>, e.g. /hero-slides,
+   in the same { "version": 1, "items": [...] } envelope as
+   the files in content/. Entries are validated against
+   the same schemas, so a bad edit in the CMS can't reach
+   the page. `npm run cms:mock` serves one locally.
+----------------------------------------------------- */
+export interface HttpContentSourceOptions {
+  url: string;
+  token?: string; // sent as a Bearer token
+  timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 5000;
+
+export const createHttpContentSource = ({
+  url,
+  token,
+  timeoutMs = DEFAULT_TIMEOUT_MS,
+}: HttpContentSourceOptions): ContentSource => {
+  const base = url.replace(/\/+$/, "");
+
+  const fetchCollection = async (collection: ContentCollection, errors: ContentError[]) => {
+    const endpoint = `${base}/${COLLECTION_SLUGS[collection]}`;
+    let res: Response;
+    try {
+      res = await fetch(endpoint, {
+        headers: { Accept: "application/json", ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+    } catch (err) {
+      throw new ContentUnavailableError(endpoint, (err as Error).message);
+    }
+    if (!res.ok) throw new ContentUnavailableError(endpoint, `HTTP ${res.status}`);
+
+    const document = await res.json().catch(() => {
+      throw new ContentUnavailableError(endpoint, "response is not JSON");
+    });
+    return readCollectionDocument(endpoint, document, errors);
+  };
+
+  return {
+    name: `cms ${base}`,
+    load: async () => {
+      const errors: ContentError[] = [];
+      const fetched = await Promise.all(CONTENT_COLLECTIONS.map((c) => fetchCollection(c, errors)));
+      const raw = Object.fromEntries(CONTENT_COLLECTIONS.map((c, i) => [c, fetched[i]])) as Record<
+        ContentCollection,
+        ContentEntry[]
+      >;
+      const result = validateContent(raw);
+      errors.push(...result.errors);
+      if (errors.length > 0) throw new ContentValidationError(errors);
+      return checkBundledImages(result.content, base);
+    },
+  };
+};
+
+/* -----------------------------------------------------
+   CACHE
+   Serves the last good load for `ttlMs`, shares one load
+   between concurrent callers, and keeps serving the stale
+   copy if a refresh fails (the error surfaces only when
+   there's nothing cached yet).
+----------------------------------------------------- */
+export interface CachedContentSource extends ContentSource {
+  invalidate(): void;
+}
+
+export const createCachedContentSource = (
+  source: ContentSource,
+  ttlMs: number,
+  now: () => number = Date.now
+): CachedContentSource => {
+  let cached: { content: SiteContent; loadedAt: number } | null = null;
+  let pending: Promise<SiteContent> | null = null;
+
+  const refresh = () => {
+    pending ??= source
+      .load()
+      .then((content) => {
+        cached = { content, loadedAt: now() };
+        return content;
+      })
+      .catch((err) => {
+        if (!cached) throw err;
+        console.warn(`Serving stale content; ${source.name} failed:`, (err as Error).message);
+        return cached.content;
+      })
+      .finally(() => {
+        pending = null;
+      });
+    return pending;
+  };
+
+  return {
+    name: `cached ${source.name}`,
+    load: async () => (cached && now() - cached.loadedAt < ttlMs ? cached.content : refresh()),
+    invalidate: () => {
+      cached = null;
+    },
+  };
+};
+
+/* -----------------------------------------------------
+   FALLBACK
+   Tries `primary`, and on any error (unreachable, invalid)
+   answers from `fallback` instead.
+----------------------------------------------------- */
+export const createFallbackContentSource = (
+  primary: ContentSource,
+  fallback: ContentSource,
+  onFallback: (err: unknown) => void = (err) =>
+    console.warn(`Content from ${primary.name} unavailable, using ${fallback.name}:`, (err as Error).message)
+): ContentSource => ({
+  name: `${primary.name}, falling back to ${fallback.name}`,
+  load: () =>
+    primary.load().catch((err) => {
+      onFallback(err);
+      return fallback.load();
+    }),
+});
@@ -0,0 +1,168 @@
+import { BudgetRange, formatBudgetRange } from "./budget";
+import type { BriefInput } from "./briefs";
+import { PROCESS_PHASES, ProcessPhase } from "./contentSchema";
+import { PORTFOLIO_CATEGORY_LABELS, ProductPlatform } from "./offerings";
+
+/* -----------------------------------------------------
+   PROJECT ESTIMATOR
+   A deliberately rough pricing model: every choice adds
+   weeks of effort to one of the four process phases, and
+   each phase has a blended weekly squad rate. Calendar
+   time is kept inside our 8–16 week engagements — bigger
+   scopes get a bigger squad, not a longer project.
+----------------------------------------------------- */
+export type DesignDepth = "essentials" | "custom" | "premium";
+
+export interface EstimateOption<Id extends string = string> {
+  id: Id;
+  label: string;
+  hint: string;
+  effort: Partial<Record<ProcessPhase, number>>; // weeks of effort
+}
+
+export interface EstimateSelection {
+  platforms: ProductPlatform[];
+  features: string[];
+  designDepth: DesignDepth;
+  integrations: string[];
+}
+
+export interface PhaseEstimate {
+  phase: ProcessPhase;
+  weeks: number;
+}
+
+export interface Estimate {
+  cost: BudgetRange;
+  weeks: number;
+  phases: PhaseEstimate[];
+}
+
+export const MIN_WEEKS = 8;
+export const MAX_WEEKS = 16;
+
+// Every project needs at least this much of each phase.
+const BASE_EFFORT: Record<ProcessPhase, number> = {
+  Discover: 1,
+  Design: 1,
+  Build: 2,
+  Launch: 1,
+};
+
+const WEEKLY_RATE: Record<ProcessPhase, number> = {
+  Discover: 3000,
+  Design: 3500,
+  Build: 4500,
+  Launch: 3500,
+};
+
+export const PLATFORM_OPTIONS: EstimateOption<ProductPlatform>[] = [
+  { id: "web", label: PORTFOLIO_CATEGORY_LABELS.web, hint: "Responsive React app", effort: { Design: 1, Build: 2 } },
+  { id: "mobile", label: PORTFOLIO_CATEGORY_LABELS.mobile, hint: "iOS + Android with React Native", effort: { Design: 1.5, Build: 3, Launch: 0.5 } },
+  { id: "ecommerce", label: PORTFOLIO_CATEGORY_LABELS.ecommerce, hint: "Storefront, catalog and checkout", effort: { Design: 1, Build: 3, Launch: 0.5 } },
+];
+
+export const FEATURE_OPTIONS: EstimateOption[] = [
+  { id: "accounts", label: "Accounts & roles", hint: "Sign-up, SSO, permissions", effort: { Build: 1 } },
+  { id: "payments", label: "Payments & billing", hint: "Checkout, subscriptions, invoices", effort: { Build: 1.5 } },
+  { id: "admin", label: "Admin dashboard", hint: "Internal tools and reporting", effort: { Design: 0.5, Build: 1.5 } },
+  { id: "realtime", label: "Messaging & notifications", hint: "Chat, push, in-app alerts", effort: { Build: 1.5 } },
+  { id: "analytics", label: "Analytics & insights", hint: "Dashboards, charts, exports", effort: { Design: 0.5, Build: 1 } },
+  { id: "ai", label: "AI features", hint: "Assistants, search, recommendations", effort: { Discover: 0.5, Build: 2 } },
+  { id: "offline", label: "Offline mode", hint: "Local storage and sync", effort: { Build: 1.5 } },
+];
+
+export const DESIGN_DEPTH_OPTIONS: EstimateOption<DesignDepth>[] = [
+  { id: "essentials", label: "Essentials", hint: "Clean UI on a proven design system", effort: {} },
+  { id: "custom", label: "Custom", hint: "Bespoke UI and a reusable component library", effort: { Design: 1.5 } },
+  { id: "premium", label: "Premium", hint: "Brand-led design, motion and user testing", effort: { Discover: 0.5, Design: 3 } },
+];
+
+export const INTEGRATION_OPTIONS: EstimateOption[] = [
+  { id: "crm", label: "CRM", hint: "Salesforce, HubSpot", effort: { Build: 0.5 } },
+  { id: "stripe", label: "Stripe / payments", hint: "Payment provider APIs", effort: { Build: 0.5 } },
+  { id: "ehr", label: "EHR / FHIR", hint: "HIPAA-grade health data", effort: { Discover: 0.5, Build: 1.5, Launch: 0.5 } },
+  { id: "banking", label: "Banking / Plaid", hint: "Accounts, KYC, transfers", effort: { Discover: 0.5, Build: 1.5, Launch: 0.5 } },
+  { id: "erp", label: "ERP / inventory", hint: "NetSuite, SAP, Shopify", effort: { Build: 1 } },
+  { id: "sso", label: "Enterprise SSO", hint: "Okta, Azure AD, SAML", effort: { Build: 0.5 } },
+];
+
+export const DEFAULT_SELECTION: EstimateSelection = {
+  platforms: ["web"],
+  features: [],
+  designDepth: "custom",
+  integrations: [],
+};
+
+const roundTo = (value: number, step: number) => Math.round(value / step) * step;
+
+// Spreads whole weeks across phases in proportion to effort, largest remainders first.
+const allocateWeeks = (effort: Record<ProcessPhase, number>, total: number): PhaseEstimate[] => {
+  const sum = PROCESS_PHASES.reduce((acc, phase) => acc + effort[phase], 0);
+  const shares = PROCESS_PHASES.map((phase) => {
+    const exact = (effort[phase] / sum) * total;
+    const weeks = Math.max(1, Math.floor(exact));
+    return { phase, weeks, remainder: exact - weeks };
+  });
+  let left = total - shares.reduce((acc, s) => acc + s.weeks, 0);
+  const byRemainder = [...shares].sort((a, b) => b.remainder - a.remainder);
+  for (let i = 0; left !== 0; i = (i + 1) % byRemainder.length) {
+    // Short of weeks: top up the most under-served phases. Over: trim the most over-served.
+    const share = left > 0 ? byRemainder[i] : byRemainder[byRemainder.length - 1 - i];
+    if (left < 0 && share.weeks <= 1) continue;
+    share.weeks += Math.sign(left);
+    left -= Math.sign(left);
+  }
+  return shares.map(({ phase, weeks }) => ({ phase, weeks }));
+};
+
+export const estimateProject = (selection: EstimateSelection): Estimate => {
+  const chosen = [
+    ...PLATFORM_OPTIONS.filter((o) => selection.platforms.includes(o.id)),
+    ...FEATURE_OPTIONS.filter((o) => selection.features.includes(o.id)),
+    ...DESIGN_DEPTH_OPTIONS.filter((o) => o.id === selection.designDepth),
+    ...INTEGRATION_OPTIONS.filter((o) => selection.integrations.includes(o.id)),
+  ];
+
+  const effort = { ...BASE_EFFORT };
+  for (const option of chosen) {
+    for (const phase of PROCESS_PHASES) effort[phase] += option.effort[phase] ?? 0;
+  }
+
+  const totalEffort = PROCESS_PHASES.reduce((acc, phase) => acc + effort[phase], 0);
+  const cost = PROCESS_PHASES.reduce((acc, phase) => acc + effort[phase] * WEEKLY_RATE[phase], 0);
+  const weeks = Math.min(MAX_WEEKS, Math.max(MIN_WEEKS, Math.ceil(totalEffort)));
+
+  return {
+    cost: {
+      min: roundTo(cost * 0.85, 5000),
+      max: roundTo(cost * 1.15, 5000),
+      currency: "USD",
+    },
+    weeks,
+    phases: allocateWeeks(effort, weeks),
+  };
+};
+
+/* -----------------------------------------------------
+   BRIEF PREFILL
+----------------------------------------------------- */
+const labelsFor = (options: EstimateOption[], ids: string[]) =>
+  options.filter((o) => ids.includes(o.id)).map((o) => o.label);
+
+export const briefFromEstimate = (selection: EstimateSelection, estimate: Estimate): Partial<BriefInput> => {
+  const depth = DESIGN_DEPTH_OPTIONS.find((o) => o.id === selection.designDepth);
+  const features = labelsFor(FEATURE_OPTIONS, selection.features);
+  const integrations = labelsFor(INTEGRATION_OPTIONS, selection.integrations);
+  const lines = [
+    `From the estimator: ${formatBudgetRange(estimate.cost)} over about ${estimate.weeks} weeks.`,
+    features.length > 0 && `Features: ${features.join(", ")}.`,
+    `Design: ${depth?.label ?? selection.designDepth}.`,
+    integrations.length > 0 && `Integrations: ${integrations.join(", ")}.`,
+  ];
+  return {
+    platforms: selection.platforms,
+    budget: formatBudgetRange(estimate.cost),
+    message: lines.filter(Boolean).join("\n"),
+  };
+};
@@ -0,0 +1,100 @@
+/* -----------------------------------------------------
+   FRONT MATTER
+   Splits a Markdown file into its `---` header and body.
+   The header is the small YAML subset our content uses:
+     key: value          text, numbers, true/false
+     key: "quoted: ok"   quotes keep colons and #s literal
+     key: [a, b]         inline lists
+     key:                block lists
+       - item
+   Anything else is an error, with the line it's on.
+----------------------------------------------------- */
+export interface FrontMatter {
+  data: Record<string, unknown>;
+  body: string;
+}
+
+export class FrontMatterError extends Error {
+  line: number;
+
+  constructor(message: string, line: number) {
+    super(`line ${line}: ${message}`);
+    this.name = "FrontMatterError";
+    this.line = line;
+  }
+}
+
+const parseScalar = (raw: string): unknown => {
+  const value = raw.trim();
+  const quoted = /^"(.*)"$|^'(.*)'$/.exec(value);
+  if (quoted) return (quoted[1] ?? quoted[2]).replace(/\\"/g, '"');
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+  if (value === "true" || value === "false") return value === "true";
+  return value;
+};
+
+// Splits "a, b, "c, d"" on commas outside quotes.
+const splitInlineList = (raw: string) => {
+  const items: string[] = [];
+  let current = "";
+  let quote: string | null = null;
+  for (const char of raw) {
+    if (quote) {
+      if (char === quote) quote = null;
+      current += char;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      current += char;
+    } else if (char === ",") {
+      items.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) items.push(current);
+  return items.map(parseScalar);
+};
+
+export const parseFrontMatter = (source: string): FrontMatter => {
+  const lines = source.replace(/\r\n/g, "\n").split("\n");
+  if (lines[0].trim() !== "---") return { data: {}, body: source.trim() };
+
+  const end = lines.findIndex((line, i) => i > 0 && line.trim() === "---");
+  if (end < 0) throw new FrontMatterError("front matter is never closed with ---", 1);
+
+  const data: Record<string, unknown> = {};
+  let listKey: string | null = null;
+
+  for (let i = 1; i < end; i++) {
+    const line = lines[i];
+    const lineNumber = i + 1;
+    if (!line.trim() || line.trim().startsWith("#")) continue;
+
+    const item = /^\s+-\s+(.*)$/.exec(line);
+    if (item) {
+      if (!listKey) throw new FrontMatterError("list item without a key above it", lineNumber);
+      (data[listKey] as unknown[]).push(parseScalar(item[1]));
+      continue;
+    }
+
+    const pair = /^([A-Za-z][\w-]*):(.*)$/.exec(line);
+    if (!pair) throw new FrontMatterError(`expected "key: value", got "${line.trim()}"`, lineNumber);
+    const [, key, rest] = pair;
+    if (key in data) throw new FrontMatterError(`"${key}" is set twice`, lineNumber);
+
+    const value = rest.trim();
+    listKey = null;
+    if (!value) {
+      data[key] = [];
+      listKey = key;
+    } else if (value.startsWith("[")) {
+      if (!value.endsWith("]")) throw new FrontMatterError(`"${key}" list is missing its closing ]`, lineNumber);
+      data[key] = splitInlineList(value.slice(1, -1));
+    } else {
+      data[key] = parseScalar(value);
+    }
+  }
+
+  return { data, body: lines.slice(end + 1).join("\n").trim() };
+};
@@ -0,0 +1,103 @@
+import { BackHandler, Platform } from "react-native";
+import * as ExpoLinking from "expo-linking";
+
+/* -----------------------------------------------------
+   HISTORY
+   One navigation API over the browser's history on web
+   and an in-memory stack on native, where the Android
+   back button pops it and incoming deep links push onto
+   it. Paths are the same on both (see lib/routes).
+----------------------------------------------------- */
+export interface AppHistory {
+  path(): string; // pathname + search
+  push(path: string): void;
+  replace(path: string): void;
+  back(): void;
+  canGoBack(): boolean; // only counts entries this app pushed
+  subscribe(listener: () => void): () => void;
+}
+
+const createListeners = () => {
+  const listeners = new Set<() => void>();
+  return {
+    notify: () => listeners.forEach((listener) => listener()),
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
+
+const createBrowserHistory = (): AppHistory => {
+  const { notify, subscribe } = createListeners();
+  window.addEventListener("popstate", notify);
+  // Each entry we push records its depth, so we know when back would leave the site.
+  const depth = () => (window.history.state as { depth?: number } | null)?.depth ?? 0;
+
+  return {
+    path: () => `${window.location.pathname}${window.location.search}`,
+    push: (path) => {
+      window.history.pushState({ depth: depth() + 1 }, "", path);
+      notify();
+    },
+    replace: (path) => {
+      window.history.replaceState({ depth: depth() }, "", path);
+      notify();
+    },
+    back: () => window.history.back(),
+    canGoBack: () => depth() > 0,
+    subscribe,
+  };
+};
+
+// crafttech://work/x parses with "work" as the host; https and Expo Go URLs keep it in the path.
+const pathFromUrl = (url: string) => {
+  const { scheme, hostname, path, queryParams } = ExpoLinking.parse(url);
+  const segments = scheme === "http" || scheme === "https" || !hostname ? [path] : [hostname, path];
+  const query = Object.entries(queryParams ?? {})
+    .filter((entry): entry is [string, string] => typeof entry[1] === "string")
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
+    .join("&");
+  return `/${segments.filter(Boolean).join("/")}${query ? `?${query}` : ""}`;
+};
+
+const createNativeHistory = (): AppHistory => {
+  const { notify, subscribe } = createListeners();
+  const stack = ["/"];
+
+  const history: AppHistory = {
+    path: () => stack[stack.length - 1],
+    push: (path) => {
+      stack.push(path);
+      notify();
+    },
+    replace: (path) => {
+      stack[stack.length - 1] = path;
+      notify();
+    },
+    back: () => {
+      if (stack.length < 2) return;
+      stack.pop();
+      notify();
+    },
+    canGoBack: () => stack.length > 1,
+    subscribe,
+  };
+
+  BackHandler.addEventListener("hardwareBackPress", () => {
+    if (!history.canGoBack()) return false; // let Android close the app
+    history.back();
+    return true;
+  });
+  ExpoLinking.getInitialURL().then((url) => {
+    if (url) history.replace(pathFromUrl(url));
+  });
+  ExpoLinking.addEventListener("url", ({ url }) => history.push(pathFromUrl(url)));
+
+  return history;
+};
+
+export const appHistory: AppHistory =
+  Platform.OS === "web" && typeof window !== "undefined" ? createBrowserHistory() : createNativeHistory();
@@ -0,0 +1,77 @@
+/* -----------------------------------------------------
+   ICS CALENDAR FILES
+   Minimal RFC 5545 output: one VEVENT in UTC, which every
+   calendar app converts to the reader's own timezone.
+----------------------------------------------------- */
+export interface CalendarEvent {
+  uid: string;
+  start: string; // ISO
+  end: string; // ISO
+  summary: string;
+  description: string;
+  location?: string;
+  organizer?: { name: string; email: string };
+  attendee?: { name: string; email: string };
+}
+
+const formatStamp = (iso: string) => iso.replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+// Parameter values (CN=) can't be backslash-escaped, only quoted, and can't hold quotes or controls.
+const quoteParam = (value: string) => `"${value.replace(/["\x00-\x1f\x7f]/g, "")}"`;
+
+const utf8Length = (char: string) => {
+  const code = char.codePointAt(0) ?? 0;
+  return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+};
+
+// Lines longer than 75 octets are folded onto continuation lines that start with a space,
+// breaking between characters so a multi-byte one is never split.
+const fold = (line: string) => {
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = utf8Length(char);
+    const limit = parts.length === 0 ? 75 : 74; // continuation lines spend one on the space
+    if (octets + size > limit) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+};
+
+export const buildIcs = (event: CalendarEvent, now = new Date()) => {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//CraftTech//Discovery Calls//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatStamp(now.toISOString())}`,
+    `DTSTART:${formatStamp(event.start)}`,
+    `DTEND:${formatStamp(event.end)}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+    `DESCRIPTION:${escapeText(event.description)}`,
+    ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+    ...(event.organizer
+      ? [`ORGANIZER;CN=${quoteParam(event.organizer.name)}:mailto:${event.organizer.email}`]
+      : []),
+    ...(event.attendee
+      ? [`ATTENDEE;CN=${quoteParam(event.attendee.name)};RSVP=FALSE:mailto:${event.attendee.email}`]
+      : []),
+    "STATUS:CONFIRMED",
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ];
+  return lines.map(fold).join("\r\n") + "\r\n";
+};
@@ -0,0 +1,147 @@
+import type { BriefRecord } from "./briefs";
+import { budgetInUsd, formatAmount } from "./budget";
+
+/* -----------------------------------------------------
+   LEAD SCORING
+   Rates a brief 0–100 from what the prospect told us, so
+   the team can work the best-fit leads first. Each factor
+   earns up to its weight in points; the grade comes from
+   the thresholds. The server can override any of this
+   with LEAD_SCORING (see server/leadScoring).
+----------------------------------------------------- */
+export type ScoreFactor = "budget" | "company" | "emailDomain" | "message" | "industry";
+
+export type LeadGrade = "hot" | "warm" | "cold";
+
+export interface IndustryKeywords {
+  id: string;
+  label: string;
+  keywords: string[];
+}
+
+export interface ScoringConfig {
+  weights: Record<ScoreFactor, number>;
+  // Budget points grow logarithmically from nothing at `floorUsd` to full at `targetUsd`.
+  budget: { floorUsd: number; targetUsd: number };
+  // Message points grow linearly from nothing at `minLength` to full at `idealLength`.
+  message: { minLength: number; idealLength: number };
+  industries: IndustryKeywords[];
+  freeMailDomains: string[];
+  // Minimum total for each grade; anything lower is cold.
+  thresholds: { hot: number; warm: number };
+}
+
+export interface ScoreComponent {
+  factor: ScoreFactor;
+  label: string;
+  points: number;
+  max: number;
+  reason: string;
+}
+
+export interface LeadScore {
+  total: number;
+  grade: LeadGrade;
+  breakdown: ScoreComponent[];
+}
+
+// A brief as it leaves the server: stored fields plus its current score.
+export interface ScoredBrief extends BriefRecord {
+  score: LeadScore;
+}
+
+export const LEAD_GRADE_LABELS: Record<LeadGrade, string> = {
+  hot: "Hot",
+  warm: "Warm",
+  cold: "Cold",
+};
+
+const FACTOR_LABELS: Record<ScoreFactor, string> = {
+  budget: "Budget",
+  company: "Company",
+  emailDomain: "Email domain",
+  message: "Message",
+  industry: "Industry fit",
+};
+
+// Mirrors the Work dropdown: the industries we have case studies in.
+export const DEFAULT_SCORING: ScoringConfig = {
+  weights: { budget: 35, company: 10, emailDomain: 20, message: 15, industry: 20 },
+  budget: { floorUsd: 10_000, targetUsd: 120_000 },
+  message: { minLength: 40, idealLength: 400 },
+  industries: [
+    { id: "fintech", label: "Fintech", keywords: ["fintech", "bank", "banking", "payment", "payments", "lending", "wallet", "trading", "insurance"] },
+    { id: "healthcare", label: "Healthcare", keywords: ["healthcare", "health", "telehealth", "clinic", "patient", "medical", "hipaa", "pharmacy"] },
+    { id: "ecommerce", label: "E-commerce", keywords: ["e-commerce", "ecommerce", "retail", "shop", "store", "checkout", "marketplace", "shopify"] },
+    { id: "saas", label: "SaaS", keywords: ["saas", "subscription", "dashboard", "b2b", "platform", "multi-tenant", "startup"] },
+  ],
+  freeMailDomains: [
+    "gmail.com", "googlemail.com", "yahoo.com", "hotmail.com", "outlook.com", "live.com", "msn.com",
+    "icloud.com", "me.com", "aol.com", "proton.me", "protonmail.com", "gmx.com", "mail.com",
+    "yandex.com", "zoho.com",
+  ],
+  thresholds: { hot: 70, warm: 40 },
+};
+
+/* -----------------------------------------------------
+   FACTORS
+   Each returns how much of its weight a brief earns (0–1)
+   and a sentence the team can read in the inbox.
+----------------------------------------------------- */
+type ScoringInput = Pick<BriefRecord, "budgetRange" | "company" | "email" | "message" | "projectType">;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const FACTORS: Record<ScoreFactor, (brief: ScoringInput, config: ScoringConfig) => [number, string]> = {
+  budget: (brief, { budget }) => {
+    if (!brief.budgetRange) return [0, "No budget given"];
+    const usd = budgetInUsd(brief.budgetRange);
+    if (usd <= budget.floorUsd) return [0, `About ${formatAmount(Math.round(usd))}, below our smallest engagement`];
+    const share = clamp01(Math.log(usd / budget.floorUsd) / Math.log(budget.targetUsd / budget.floorUsd));
+    return [share, `About ${formatAmount(Math.round(usd))}`];
+  },
+
+  company: (brief) =>
+    brief.company.trim() ? [1, `Named company: ${brief.company.trim()}`] : [0, "No company given"],
+
+  emailDomain: (brief, { freeMailDomains }) => {
+    const domain = brief.email.split("@")[1]?.toLowerCase() ?? "";
+    return freeMailDomains.includes(domain)
+      ? [0, `Free-mail address (${domain})`]
+      : [1, `Work address (${domain})`];
+  },
+
+  message: (brief, { message }) => {
+    const length = brief.message.trim().length;
+    const share = clamp01((length - message.minLength) / (message.idealLength - message.minLength));
+    return [share, `${length} characters`];
+  },
+
+  industry: (brief, { industries }) => {
+    const text = `${brief.projectType} ${brief.message} ${brief.company}`.toLowerCase();
+    const matched = industries.filter((industry) =>
+      industry.keywords.some((keyword) => new RegExp(`\\b${escapeRegExp(keyword.toLowerCase())}\\b`).test(text))
+    );
+    return matched.length > 0
+      ? [1, `Mentions ${matched.map((i) => i.label).join(", ")}`]
+      : [0, "No focus industry mentioned"];
+  },
+};
+
+export const gradeForScore = (total: number, { thresholds }: ScoringConfig = DEFAULT_SCORING): LeadGrade =>
+  total >= thresholds.hot ? "hot" : total >= thresholds.warm ? "warm" : "cold";
+
+export const scoreBrief = (brief: ScoringInput, config: ScoringConfig = DEFAULT_SCORING): LeadScore => {
+  const breakdown = (Object.keys(FACTORS) as ScoreFactor[]).map((factor): ScoreComponent => {
+    const max = config.weights[factor];
+    const [share, reason] = FACTORS[factor](brief, config);
+    return { factor, label: FACTOR_LABELS[factor], points: Math.round(share * max * 10) / 10, max, reason };
+  });
+
+  const possible = breakdown.reduce((sum, c) => sum + c.max, 0);
+  const earned = breakdown.reduce((sum, c) => sum + c.points, 0);
+  const total = possible > 0 ? Math.round((earned / possible) * 100) : 0;
+  return { total, grade: gradeForScore(total, config), breakdown };
+};
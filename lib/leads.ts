@@ -0,0 +1,63 @@
+import type { BookingRecord } from "./bookings";
+import type { ScoredBrief } from "./leadScoring";
+import type { TeamMember } from "./team";
+
+/* -----------------------------------------------------
+   LEAD PIPELINE
+   How the team tracks a brief after it arrives. Shared by
+   the admin inbox and the /api/admin endpoints.
+----------------------------------------------------- */
+export type LeadStatus = "new" | "qualified" | "call_booked" | "proposal" | "won" | "lost";
+
+export const LEAD_STATUSES: { id: LeadStatus; label: string }[] = [
+  { id: "new", label: "New" },
+  { id: "qualified", label: "Qualified" },
+  { id: "call_booked", label: "Call booked" },
+  { id: "proposal", label: "Proposal" },
+  { id: "won", label: "Won" },
+  { id: "lost", label: "Lost" },
+];
+
+export const LEAD_STATUS_LABELS = Object.fromEntries(
+  LEAD_STATUSES.map((s) => [s.id, s.label])
+) as Record<LeadStatus, string>;
+
+export const isLeadStatus = (value: unknown): value is LeadStatus =>
+  LEAD_STATUSES.some((s) => s.id === value);
+
+export interface LeadNote {
+  id: string;
+  author: string; // team member id
+  body: string;
+  createdAt: string;
+}
+
+// Pipeline fields every stored brief carries; the store fills them in on create.
+export interface LeadTracking {
+  status: LeadStatus;
+  assignee: string | null; // team member id
+  notes: LeadNote[];
+  updatedAt: string;
+}
+
+// What an admin can change in one PATCH.
+export interface LeadUpdate {
+  status?: LeadStatus;
+  assignee?: string | null;
+  note?: string;
+}
+
+export const MAX_NOTE_LENGTH = 4000;
+
+/* -----------------------------------------------------
+   ADMIN API SHAPES
+----------------------------------------------------- */
+export interface AdminSession {
+  token: string;
+  member: TeamMember;
+}
+
+export interface AdminBriefDetail {
+  brief: ScoredBrief;
+  bookings: BookingRecord[];
+}
@@ -0,0 +1,57 @@
+import { EMPTY_BLOG_QUERY, blogQueryToSearch } from "./blog";
+import { Discipline, EMPTY_CAREERS_QUERY, careersQueryToSearch } from "./careers";
+import { Industry } from "./offerings";
+import { EMPTY_PORTFOLIO_QUERY, portfolioQueryToSearch } from "./portfolioSearch";
+import { AppRoute, SectionKey, sectionRoute } from "./routes";
+
+/* -----------------------------------------------------
+   LINK TARGETS
+   Where a nav or footer link goes, as data rather than an
+   onPress. A target resolves to a route plus the query
+   string it needs, so "Fintech" in the header and in the
+   footer land on the same filtered Work section.
+----------------------------------------------------- */
+export type LinkTarget =
+  | { kind: "section"; section: SectionKey }
+  | { kind: "work"; industry: Industry }
+  | { kind: "service"; slug: string }
+  | { kind: "blog"; tag?: string } // a tag slug narrows the listing
+  | { kind: "careers"; discipline?: Discipline };
+
+export interface ResolvedLink {
+  route: AppRoute;
+  search: string | null; // null keeps whatever query string is already there
+}
+
+export const sectionLink = (section: SectionKey): LinkTarget => ({ kind: "section", section });
+
+export const industryLink = (industry: Industry): LinkTarget => ({ kind: "work", industry });
+
+export const serviceLink = (slug: string): LinkTarget => ({ kind: "service", slug });
+
+export const blogLink = (tag?: string): LinkTarget => ({ kind: "blog", tag });
+
+export const careersLink = (discipline?: Discipline): LinkTarget => ({ kind: "careers", discipline });
+
+export const resolveLink = (target: LinkTarget): ResolvedLink => {
+  switch (target.kind) {
+    case "section":
+      return { route: sectionRoute(target.section), search: null };
+    case "work":
+      // Replaces any filters already applied: the link means "this industry's work".
+      return {
+        route: sectionRoute("work"),
+        search: portfolioQueryToSearch({ ...EMPTY_PORTFOLIO_QUERY, industry: [target.industry] }),
+      };
+    case "service":
+      return { route: { name: "service", slug: target.slug }, search: "" };
+    case "blog":
+      return { route: { name: "blog" }, search: blogQueryToSearch({ ...EMPTY_BLOG_QUERY, tag: target.tag ?? null }) };
+    case "careers":
+      return {
+        route: { name: "careers" },
+        search: careersQueryToSearch({ ...EMPTY_CAREERS_QUERY, discipline: target.discipline ?? null }),
+      };
+  }
+};
+
@@ -0,0 +1,108 @@
+/* -----------------------------------------------------
+   MARKDOWN
+   The subset content bodies are written in, parsed into
+   blocks a native renderer can draw (there's no HTML to
+   hand off to on iOS/Android):
+     ## Heading / ### Subheading
+     paragraphs, "- " and "1. " lists, "> " quotes
+     **bold**, *italic*, `code`, [links](https://…)
+----------------------------------------------------- */
+export type MarkdownInline =
+  | { kind: "text" | "strong" | "em" | "code"; text: string }
+  | { kind: "link"; text: string; href: string };
+
+export type MarkdownBlock =
+  | { kind: "heading"; level: 2 | 3; text: string }
+  | { kind: "paragraph"; inlines: MarkdownInline[] }
+  | { kind: "list"; ordered: boolean; items: MarkdownInline[][] }
+  | { kind: "quote"; inlines: MarkdownInline[] };
+
+const INLINE = /\*\*([^*]+)\*\*|\*([^*]+)\*|_([^_]+)_|`([^`]+)`|\[([^\]]+)\]\(([^)\s]+)\)/g;
+
+export const parseInline = (text: string): MarkdownInline[] => {
+  const inlines: MarkdownInline[] = [];
+  let last = 0;
+  for (const match of text.matchAll(INLINE)) {
+    const index = match.index ?? 0;
+    if (index > last) inlines.push({ kind: "text", text: text.slice(last, index) });
+    const [, strong, em, emUnderscore, code, linkText, href] = match;
+    if (strong) inlines.push({ kind: "strong", text: strong });
+    else if (em ?? emUnderscore) inlines.push({ kind: "em", text: (em ?? emUnderscore) as string });
+    else if (code) inlines.push({ kind: "code", text: code });
+    else inlines.push({ kind: "link", text: linkText, href });
+    last = index + match[0].length;
+  }
+  if (last < text.length) inlines.push({ kind: "text", text: text.slice(last) });
+  return inlines;
+};
+
+const LIST_ITEM = /^\s*(?:([-*])|(\d+)\.)\s+(.*)$/;
+
+export const parseMarkdown = (source: string): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  let paragraph: string[] = [];
+  let quote: string[] = [];
+  let list: { ordered: boolean; items: string[] } | null = null;
+
+  const flush = () => {
+    if (paragraph.length) blocks.push({ kind: "paragraph", inlines: parseInline(paragraph.join(" ")) });
+    if (quote.length) blocks.push({ kind: "quote", inlines: parseInline(quote.join(" ")) });
+    if (list) blocks.push({ kind: "list", ordered: list.ordered, items: list.items.map(parseInline) });
+    paragraph = [];
+    quote = [];
+    list = null;
+  };
+
+  for (const raw of source.replace(/\r\n/g, "\n").split("\n")) {
+    const line = raw.trim();
+    const heading = /^(#{2,3})\s+(.*)$/.exec(line);
+    const item = LIST_ITEM.exec(raw);
+
+    if (!line) {
+      flush();
+    } else if (heading) {
+      flush();
+      blocks.push({ kind: "heading", level: heading[1].length as 2 | 3, text: heading[2].trim() });
+    } else if (item) {
+      const ordered = item[2] !== undefined;
+      if (!list || list.ordered !== ordered) {
+        flush();
+        list = { ordered, items: [] };
+      }
+      list.items.push(item[3]);
+    } else if (line.startsWith(">")) {
+      if (!quote.length) flush();
+      quote.push(line.replace(/^>\s?/, ""));
+    } else if (list && /^\s+/.test(raw)) {
+      // An indented line continues the list item above it.
+      list.items[list.items.length - 1] += ` ${line}`;
+    } else {
+      if (list || quote.length) flush();
+      paragraph.push(line);
+    }
+  }
+  flush();
+  return blocks;
+};
+
+export interface MarkdownSection {
+  title: string; // "" for anything before the first ## heading
+  body: string;
+}
+
+// Splits a body on its "## " headings, so pages can lay sections out individually.
+export const markdownSections = (source: string): MarkdownSection[] => {
+  const sections: MarkdownSection[] = [];
+  let current: MarkdownSection = { title: "", body: "" };
+  for (const line of source.replace(/\r\n/g, "\n").split("\n")) {
+    const heading = /^##\s+(.*)$/.exec(line.trim());
+    if (heading) {
+      if (current.title || current.body.trim()) sections.push(current);
+      current = { title: heading[1].trim(), body: "" };
+    } else {
+      current.body += `${line}\n`;
+    }
+  }
+  if (current.title || current.body.trim()) sections.push(current);
+  return sections.map((section) => ({ ...section, body: section.body.trim() }));
+};
@@ -0,0 +1,198 @@
+import type { ContentError, SiteContent } from "./contentSchema";
+import { blogTags } from "./blog";
+import { DISCIPLINES } from "./careers";
+import { LinkTarget, blogLink, careersLink, industryLink, sectionLink, serviceLink } from "./links";
+import { INDUSTRIES, INDUSTRY_LABELS, Industry } from "./offerings";
+import { SECTION_KEYS } from "./routes";
+
+/* -----------------------------------------------------
+   NAVIGATION
+   The site map, defined once. The desktop mega-menu, the
+   mobile drawer and the footer sitemap are all generated
+   from NAVIGATION, in the order it lists things. Each link
+   says where it shows up; the content build checks every
+   target exists (see checkNavigation).
+----------------------------------------------------- */
+export type NavBreakpoint = "mobile" | "tablet" | "desktop";
+
+export const NAV_BREAKPOINTS: NavBreakpoint[] = ["mobile", "tablet", "desktop"];
+
+// A breakpoint is a header layout; the footer is listed separately.
+export type NavSurface = NavBreakpoint | "footer";
+
+export interface NavLink {
+  label: string;
+  footerLabel?: string; // a shorter label for the footer sitemap
+  to: LinkTarget;
+  icon?: string; // shown before the label
+  breakpoints?: NavBreakpoint[]; // header layouts it appears in; all when omitted
+  footer?: boolean; // false leaves it out of the footer sitemap
+}
+
+// A top-level entry: its own link, plus the links in its menu (and footer column).
+export interface NavGroup extends NavLink {
+  key: string;
+  children: NavLink[];
+}
+
+// The footer's Work column has always used the short industry names.
+const INDUSTRY_FOOTER_LABELS: Record<Industry, string> = {
+  fintech: "Fintech",
+  healthcare: "Healthcare",
+  retail: "E-commerce",
+  saas: "SaaS Platforms",
+};
+
+export const NAVIGATION: NavGroup[] = [
+  {
+    key: "services",
+    label: "Services",
+    to: sectionLink("services"),
+    children: [
+      { label: "Web App Development", icon: "🌐", to: serviceLink("web-app-development") },
+      { label: "Mobile App Development", icon: "📱", to: serviceLink("mobile-app-development") },
+      {
+        label: "UI/UX & Product Design",
+        footerLabel: "UI/UX Design",
+        icon: "🎨",
+        to: serviceLink("ui-ux-design"),
+      },
+      {
+        label: "Cloud & Backend Engineering",
+        footerLabel: "Cloud Engineering",
+        icon: "☁️",
+        to: serviceLink("cloud-engineering"),
+      },
+    ],
+  },
+  {
+    key: "work",
+    label: "Work",
+    to: sectionLink("work"),
+    children: INDUSTRIES.map((industry) => ({
+      label: INDUSTRY_LABELS[industry],
+      footerLabel: INDUSTRY_FOOTER_LABELS[industry],
+      to: industryLink(industry),
+    })),
+  },
+  {
+    key: "process",
+    label: "Process",
+    to: sectionLink("process"),
+    children: [
+      { label: "Delivery Playbook", to: sectionLink("process") },
+      { label: "Design Systems", to: serviceLink("design-experience") },
+      { label: "Scalable Architectures", to: serviceLink("engineering-launch") },
+    ],
+  },
+  {
+    key: "about",
+    label: "About",
+    to: sectionLink("testimonials"),
+    children: [
+      { label: "Our Team", to: sectionLink("testimonials") },
+      { label: "How We Work", to: sectionLink("process") },
+      { label: "Engagement Models", to: sectionLink("contact") },
+      { label: "Careers", to: careersLink() },
+    ],
+  },
+  {
+    key: "insights",
+    label: "Insights",
+    to: blogLink(),
+    children: [
+      { label: "Engineering", to: blogLink("engineering") },
+      { label: "Design", to: blogLink("design") },
+      { label: "Product", to: blogLink("product") },
+    ],
+  },
+  {
+    // Wider layouts have the "Start your project" button, and the footer its own Contact column.
+    key: "contact",
+    label: "Contact",
+    to: sectionLink("contact"),
+    breakpoints: ["mobile"],
+    footer: false,
+    children: [],
+  },
+];
+
+const isShownOn = (link: NavLink, surface: NavSurface) =>
+  surface === "footer" ? link.footer !== false : !link.breakpoints || link.breakpoints.includes(surface);
+
+const labelFor = <T extends NavLink>(link: T, surface: NavSurface): T =>
+  surface === "footer" && link.footerLabel ? { ...link, label: link.footerLabel } : link;
+
+// The groups (and links within them) one surface shows, labelled for it.
+export const navigationFor = (surface: NavSurface, groups: NavGroup[] = NAVIGATION): NavGroup[] =>
+  groups
+    .filter((group) => isShownOn(group, surface))
+    .map((group) => ({
+      ...labelFor(group, surface),
+      children: group.children.filter((child) => isShownOn(child, surface)).map((child) => labelFor(child, surface)),
+    }));
+
+export const navLabel = (link: NavLink) => (link.icon ? `${link.icon}  ${link.label}` : link.label);
+
+export const navBreakpoint = (isMobile: boolean, isTablet: boolean): NavBreakpoint =>
+  isMobile ? "mobile" : isTablet ? "tablet" : "desktop";
+
+/* -----------------------------------------------------
+   CHECK
+   Run by the content build, since service and blog tag
+   targets point into content. A renamed service slug or a typo'd section
+   fails the build instead of shipping a dead link.
+----------------------------------------------------- */
+const targetError = (target: LinkTarget, content: SiteContent): string | null => {
+  switch (target.kind) {
+    case "section":
+      return SECTION_KEYS.includes(target.section) ? null : `No section is called "${target.section}".`;
+    case "work":
+      return INDUSTRIES.includes(target.industry) ? null : `"${target.industry}" isn't an industry.`;
+    case "service":
+      return content.services.some((service) => service.slug === target.slug)
+        ? null
+        : `No service has slug "${target.slug}".`;
+    case "blog":
+      return !target.tag || blogTags(content.posts).some((tag) => tag.slug === target.tag)
+        ? null
+        : `No post is tagged "${target.tag}".`;
+    case "careers":
+      return !target.discipline || DISCIPLINES.includes(target.discipline)
+        ? null
+        : `"${target.discipline}" isn't a discipline.`;
+  }
+};
+
+export const checkNavigation = (content: SiteContent, groups: NavGroup[] = NAVIGATION): ContentError[] => {
+  const source = "lib/navigation.ts";
+  const errors: ContentError[] = [];
+
+  const checkLink = (link: NavLink, path: string) => {
+    if (!link.label.trim()) errors.push({ source, path, message: "Needs a label." });
+    if (link.footerLabel !== undefined && !link.footerLabel.trim()) {
+      errors.push({ source, path: `${path}.footerLabel`, message: "Leave it out rather than blank." });
+    }
+    const message = targetError(link.to, content);
+    if (message) errors.push({ source, path: `${path}.to`, message });
+    for (const breakpoint of link.breakpoints ?? []) {
+      if (!NAV_BREAKPOINTS.includes(breakpoint)) {
+        errors.push({ source, path: `${path}.breakpoints`, message: `"${breakpoint}" isn't a breakpoint.` });
+      }
+    }
+    if (link.breakpoints?.length === 0 && link.footer === false) {
+      errors.push({ source, path, message: "Isn't shown anywhere." });
+    }
+  };
+
+  const keys = new Set<string>();
+  groups.forEach((group, index) => {
+    const path = `[${index}]`;
+    if (keys.has(group.key)) errors.push({ source, path: `${path}.key`, message: `"${group.key}" is already used.` });
+    keys.add(group.key);
+    checkLink(group, path);
+    group.children.forEach((child, childIndex) => checkLink(child, `${path}.children[${childIndex}]`));
+  });
+
+  return errors;
+};
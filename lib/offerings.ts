@@ -0,0 +1,41 @@
+/* -----------------------------------------------------
+   OFFERINGS
+   The platforms, industries and compliance regimes our
+   work is tagged with. Services and process copy live in
+   content/ (see lib/content).
+----------------------------------------------------- */
+export type PortfolioCategory = "all" | "web" | "mobile" | "ecommerce";
+
+// A portfolio category a project can actually be built for.
+export type ProductPlatform = Exclude<PortfolioCategory, "all">;
+
+export const PRODUCT_PLATFORMS: ProductPlatform[] = ["web", "mobile", "ecommerce"];
+
+export const PORTFOLIO_CATEGORY_LABELS: Record<PortfolioCategory, string> = {
+  all: "All Projects",
+  web: "Web Apps",
+  mobile: "Mobile Apps",
+  ecommerce: "E-commerce",
+};
+
+// Industries we group work by; labels match the Work menu.
+export type Industry = "fintech" | "healthcare" | "retail" | "saas";
+
+export const INDUSTRIES: Industry[] = ["fintech", "healthcare", "retail", "saas"];
+
+export const INDUSTRY_LABELS: Record<Industry, string> = {
+  fintech: "Fintech & Banking",
+  healthcare: "Healthcare & Telehealth",
+  retail: "Retail & E-Commerce",
+  saas: "Startups & SaaS",
+};
+
+// Compliance regimes a project was built to meet.
+export type ComplianceStandard = "hipaa" | "soc2";
+
+export const COMPLIANCE_STANDARDS: ComplianceStandard[] = ["hipaa", "soc2"];
+
+export const COMPLIANCE_LABELS: Record<ComplianceStandard, string> = {
+  hipaa: "HIPAA",
+  soc2: "SOC 2",
+};
@@ -0,0 +1,191 @@
+import type { PortfolioItem } from "./contentSchema";
+import {
+  COMPLIANCE_LABELS,
+  COMPLIANCE_STANDARDS,
+  ComplianceStandard,
+  INDUSTRIES,
+  INDUSTRY_LABELS,
+  Industry,
+  PORTFOLIO_CATEGORY_LABELS,
+  PRODUCT_PLATFORMS,
+  ProductPlatform,
+} from "./offerings";
+
+/* -----------------------------------------------------
+   PORTFOLIO SEARCH
+   Faceted filtering for the Work section. Values within a
+   facet are OR'd, facets are AND'd, and free text must
+   match every word somewhere in the title, description or
+   metrics. The query round-trips through the URL's query
+   string, so a filtered view can be shared.
+----------------------------------------------------- */
+export interface PortfolioQuery {
+  q: string;
+  industry: Industry[];
+  platform: ProductPlatform[];
+  stack: string[];
+  compliance: ComplianceStandard[];
+}
+
+export type PortfolioFacet = Exclude<keyof PortfolioQuery, "q">;
+
+export const PORTFOLIO_FACETS: PortfolioFacet[] = ["industry", "platform", "stack", "compliance"];
+
+export const PORTFOLIO_FACET_LABELS: Record<PortfolioFacet, string> = {
+  industry: "Industry",
+  platform: "Platform",
+  stack: "Tech stack",
+  compliance: "Compliance",
+};
+
+export const EMPTY_PORTFOLIO_QUERY: PortfolioQuery = {
+  q: "",
+  industry: [],
+  platform: [],
+  stack: [],
+  compliance: [],
+};
+
+const facetValues = (item: PortfolioItem, facet: PortfolioFacet): string[] => {
+  switch (facet) {
+    case "industry":
+      return [item.industry];
+    case "platform":
+      return [item.category];
+    case "stack":
+      return item.stack;
+    case "compliance":
+      return item.compliance;
+  }
+};
+
+const matchesText = (item: PortfolioItem, q: string) => {
+  const haystack = [item.title, item.description, ...item.metrics].join(" ").toLowerCase();
+  return q
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .every((word) => haystack.includes(word));
+};
+
+const matchesFacet = (item: PortfolioItem, query: PortfolioQuery, facet: PortfolioFacet) => {
+  const selected = query[facet] as string[];
+  return selected.length === 0 || facetValues(item, facet).some((value) => selected.includes(value));
+};
+
+export const isQueryEmpty = (query: PortfolioQuery) =>
+  !query.q.trim() && PORTFOLIO_FACETS.every((facet) => query[facet].length === 0);
+
+export interface FacetOption {
+  value: string;
+  label: string;
+  count: number; // results if this value were (also) selected
+  selected: boolean;
+}
+
+export interface PortfolioSearchResult {
+  results: PortfolioItem[];
+  facets: Record<PortfolioFacet, FacetOption[]>;
+}
+
+// The fixed vocabularies first, in their usual order; stack values come from the items.
+const facetOptions = (items: PortfolioItem[], facet: PortfolioFacet): { value: string; label: string }[] => {
+  switch (facet) {
+    case "industry":
+      return INDUSTRIES.map((value) => ({ value, label: INDUSTRY_LABELS[value] }));
+    case "platform":
+      return PRODUCT_PLATFORMS.map((value) => ({ value, label: PORTFOLIO_CATEGORY_LABELS[value] }));
+    case "compliance":
+      return COMPLIANCE_STANDARDS.map((value) => ({ value, label: COMPLIANCE_LABELS[value] }));
+    case "stack":
+      return [...new Set(items.flatMap((item) => item.stack))]
+        .sort((a, b) => a.localeCompare(b))
+        .map((value) => ({ value, label: value }));
+  }
+};
+
+export const searchPortfolio = (items: PortfolioItem[], query: PortfolioQuery): PortfolioSearchResult => {
+  const textMatches = items.filter((item) => matchesText(item, query.q));
+  const results = textMatches.filter((item) => PORTFOLIO_FACETS.every((facet) => matchesFacet(item, query, facet)));
+
+  // Each facet counts against the other facets' filters, so picking a second value never shows "0".
+  const facets = Object.fromEntries(
+    PORTFOLIO_FACETS.map((facet) => {
+      const pool = textMatches.filter((item) =>
+        PORTFOLIO_FACETS.every((other) => other === facet || matchesFacet(item, query, other))
+      );
+      const selected = query[facet] as string[];
+      const known = facetOptions(items, facet);
+      // A selected value no project has (an old link) still gets a chip, so it can be cleared.
+      const stale = selected.filter((value) => !known.some((o) => o.value === value)).map((value) => ({ value, label: value }));
+      const options = [...known, ...stale].map(({ value, label }) => ({
+        value,
+        label,
+        count: pool.filter((item) => facetValues(item, facet).includes(value)).length,
+        selected: selected.includes(value),
+      }));
+      return [facet, options];
+    })
+  ) as Record<PortfolioFacet, FacetOption[]>;
+
+  return { results, facets };
+};
+
+export const toggleFacetValue = (query: PortfolioQuery, facet: PortfolioFacet, value: string): PortfolioQuery => {
+  const selected = query[facet] as string[];
+  const next = selected.includes(value) ? selected.filter((v) => v !== value) : [...selected, value];
+  return { ...query, [facet]: next };
+};
+
+/* -----------------------------------------------------
+   URL QUERY STRING
+   ?q=dashboard&industry=fintech,healthcare&stack=React
+   Unknown values are dropped, so an old link still works.
+----------------------------------------------------- */
+const KNOWN_VALUES: Partial<Record<PortfolioFacet, readonly string[]>> = {
+  industry: INDUSTRIES,
+  platform: PRODUCT_PLATFORMS,
+  compliance: COMPLIANCE_STANDARDS,
+};
+
+const decode = (value: string) => {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, " "));
+  } catch {
+    return ""; // a mangled link shouldn't crash the page
+  }
+};
+
+export const portfolioQueryFromSearch = (search: string): PortfolioQuery => {
+  // Values stay encoded until split, so a stack name with a comma (%2C) survives.
+  const params = new Map<string, string>();
+  for (const pair of search.replace(/^\?/, "").split("&").filter(Boolean)) {
+    const [key, value = ""] = pair.split("=");
+    params.set(decode(key), value);
+  }
+
+  const list = (facet: PortfolioFacet) => {
+    const values = (params.get(facet) ?? "").split(",").map((v) => decode(v).trim()).filter(Boolean);
+    const known = KNOWN_VALUES[facet];
+    return [...new Set(known ? values.filter((v) => known.includes(v)) : values)];
+  };
+
+  return {
+    q: decode(params.get("q") ?? ""),
+    industry: list("industry") as Industry[],
+    platform: list("platform") as ProductPlatform[],
+    stack: list("stack"),
+    compliance: list("compliance") as ComplianceStandard[],
+  };
+};
+
+// "" for an empty query, so unfiltered URLs stay clean.
+export const portfolioQueryToSearch = (query: PortfolioQuery): string => {
+  const pairs = [
+    query.q && `q=${encodeURIComponent(query.q)}`,
+    ...PORTFOLIO_FACETS.map(
+      (facet) => query[facet].length > 0 && `${facet}=${query[facet].map(encodeURIComponent).join(",")}`
+    ),
+  ].filter(Boolean);
+  return pairs.length > 0 ? `?${pairs.join("&")}` : "";
+};
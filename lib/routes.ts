@@ -0,0 +1,89 @@
+/* -----------------------------------------------------
+   ROUTES
+   The marketing site's screens as data, and the paths
+   they live at. Web uses these as real URLs; the native
+   app keeps the same paths in memory so deep links
+   (crafttech://work/<slug>) land on the same screens.
+----------------------------------------------------- */
+export type SectionKey =
+  | "hero"
+  | "services"
+  | "process"
+  | "work"
+  | "testimonials"
+  | "contact";
+
+// Each section of the one-page site has a shareable path; the hero is the site root.
+export const SECTION_PATHS: Record<SectionKey, string> = {
+  hero: "/",
+  services: "/services",
+  process: "/process",
+  work: "/work",
+  testimonials: "/testimonials",
+  contact: "/contact",
+};
+
+export const SECTION_KEYS = Object.keys(SECTION_PATHS) as SectionKey[];
+
+export type AppRoute =
+  | { name: "home"; section: SectionKey }
+  | { name: "caseStudy"; slug: string }
+  | { name: "service"; slug: string }
+  | { name: "blog" }
+  | { name: "post"; slug: string }
+  | { name: "careers" }
+  | { name: "job"; slug: string };
+
+export const BLOG_PATH = "/insights";
+
+export const CAREERS_PATH = "/careers";
+
+export const HOME_ROUTE: AppRoute = { name: "home", section: "hero" };
+
+export const sectionRoute = (section: SectionKey): AppRoute => ({ name: "home", section });
+
+export const routePath = (route: AppRoute): string => {
+  switch (route.name) {
+    case "caseStudy":
+      return `/work/${encodeURIComponent(route.slug)}`;
+    case "service":
+      return `/services/${encodeURIComponent(route.slug)}`;
+    case "blog":
+      return BLOG_PATH;
+    case "post":
+      return `${BLOG_PATH}/${encodeURIComponent(route.slug)}`;
+    case "careers":
+      return CAREERS_PATH;
+    case "job":
+      return `${CAREERS_PATH}/${encodeURIComponent(route.slug)}`;
+    default:
+      return SECTION_PATHS[route.section];
+  }
+};
+
+// A mangled escape (e.g. /work/%E0) is kept as written: no content has that slug, so the
+// page shows its not-found state instead of the decode error blanking the app.
+const decodeSlug = (value: string) => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+// Unknown paths fall back to home rather than a 404: vercel.json sends every path here.
+export const parseRoute = (path: string): AppRoute => {
+  const pathname = path.split(/[?#]/)[0].replace(/(.)\/+$/, "$1");
+  const caseStudy = /^\/work\/([^/]+)$/.exec(pathname);
+  if (caseStudy) return { name: "caseStudy", slug: decodeSlug(caseStudy[1]) };
+  const service = /^\/services\/([^/]+)$/.exec(pathname);
+  if (service) return { name: "service", slug: decodeSlug(service[1]) };
+  if (pathname === BLOG_PATH) return { name: "blog" };
+  const post = /^\/insights\/([^/]+)$/.exec(pathname);
+  if (post) return { name: "post", slug: decodeSlug(post[1]) };
+  if (pathname === CAREERS_PATH) return { name: "careers" };
+  const job = /^\/careers\/([^/]+)$/.exec(pathname);
+  if (job) return { name: "job", slug: decodeSlug(job[1]) };
+  const section = SECTION_KEYS.find((key) => SECTION_PATHS[key] === pathname);
+  return section ? sectionRoute(section) : HOME_ROUTE;
+};
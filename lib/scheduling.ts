@@ -0,0 +1,129 @@
+/* -----------------------------------------------------
+   DISCOVERY-CALL AVAILABILITY
+   The team's calendar is kept in Pakistan time. Pakistan
+   doesn't observe DST, so a fixed UTC offset is exact and
+   we never need timezone data to compute slots. Visitors
+   see the same slots in their own local time.
+----------------------------------------------------- */
+export const TEAM_TIMEZONE = "Asia/Karachi";
+export const TEAM_TIMEZONE_LABEL = "PKT";
+export const TEAM_UTC_OFFSET_MINUTES = 5 * 60;
+
+// "HH:MM" in team time; `end` may be "24:00".
+export interface AvailabilityWindow {
+  start: string;
+  end: string;
+}
+
+export interface TeamAvailability {
+  slotMinutes: number;
+  // 0 = Sunday … 6 = Saturday, in team time.
+  weekly: Partial<Record<number, AvailabilityWindow[]>>;
+  blackoutDates: string[]; // "YYYY-MM-DD" in team time
+  minNoticeHours: number;
+  horizonDays: number;
+}
+
+// Late-morning slots for South Asia and Gulf clients, evening slots that land on
+// a US East Coast morning (18:00 PKT = 9:00 EDT / 8:00 EST).
+const WEEKDAY_WINDOWS: AvailabilityWindow[] = [
+  { start: "11:00", end: "13:00" },
+  { start: "18:00", end: "23:00" },
+];
+
+export const TEAM_AVAILABILITY: TeamAvailability = {
+  slotMinutes: 30,
+  weekly: {
+    1: WEEKDAY_WINDOWS,
+    2: WEEKDAY_WINDOWS,
+    3: WEEKDAY_WINDOWS,
+    4: WEEKDAY_WINDOWS,
+    5: WEEKDAY_WINDOWS,
+  },
+  blackoutDates: [],
+  minNoticeHours: 12,
+  horizonDays: 14,
+};
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+const parseClock = (value: string) => {
+  const [hours, minutes] = value.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// Shifts a UTC instant so its UTC fields read as team wall-clock time.
+const toTeamClock = (ms: number) => new Date(ms + TEAM_UTC_OFFSET_MINUTES * MINUTE);
+
+// Every open slot start (ISO, UTC) from `now` to the end of the horizon.
+export const computeSlots = (
+  availability: TeamAvailability,
+  now: number,
+  booked: Iterable<string> = []
+): string[] => {
+  const taken = new Set(booked);
+  const earliest = now + availability.minNoticeHours * 60 * MINUTE;
+  const today = toTeamClock(now);
+  const firstDay = Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate());
+  const slots: string[] = [];
+
+  for (let offset = 0; offset <= availability.horizonDays; offset++) {
+    const dayStart = firstDay + offset * DAY; // midnight team time, expressed as if UTC
+    const day = new Date(dayStart);
+    const dateKey = `${day.getUTCFullYear()}-${pad(day.getUTCMonth() + 1)}-${pad(day.getUTCDate())}`;
+    if (availability.blackoutDates.includes(dateKey)) continue;
+
+    for (const window of availability.weekly[day.getUTCDay()] ?? []) {
+      const end = parseClock(window.end);
+      for (let start = parseClock(window.start); start + availability.slotMinutes <= end; start += availability.slotMinutes) {
+        const slot = dayStart + (start - TEAM_UTC_OFFSET_MINUTES) * MINUTE;
+        const iso = new Date(slot).toISOString();
+        if (slot >= earliest && !taken.has(iso)) slots.push(iso);
+      }
+    }
+  }
+  return slots;
+};
+
+export const isOpenSlot = (availability: TeamAvailability, slotStart: string, now: number) =>
+  computeSlots(availability, now).includes(slotStart);
+
+export const slotEnd = (availability: TeamAvailability, slotStart: string) =>
+  new Date(Date.parse(slotStart) + availability.slotMinutes * MINUTE).toISOString();
+
+/* -----------------------------------------------------
+   VISITOR-LOCAL FORMATTING
+----------------------------------------------------- */
+export const visitorTimeZone = () => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || "your local time";
+  } catch {
+    return "your local time";
+  }
+};
+
+// Groups slots by the visitor's calendar day, keeping chronological order.
+export const groupSlotsByLocalDay = (slots: string[]) => {
+  const days = new Map<string, string[]>();
+  for (const slot of slots) {
+    const d = new Date(slot);
+    const key = `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+    days.set(key, [...(days.get(key) ?? []), slot]);
+  }
+  return [...days].map(([key, daySlots]) => ({ key, slots: daySlots }));
+};
+
+export const formatSlotDay = (slot: string) =>
+  new Date(slot).toLocaleDateString(undefined, { weekday: "short", month: "short", day: "numeric" });
+
+export const formatSlotTime = (slot: string) =>
+  new Date(slot).toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" });
+
+// Team wall-clock time without relying on Intl timezone data (thin on Hermes).
+export const formatTeamTime = (slot: string) => {
+  const d = toTeamClock(Date.parse(slot));
+  return `${pad(d.getUTCHours())}:${pad(d.getUTCMinutes())} ${TEAM_TIMEZONE_LABEL}`;
+};
@@ -0,0 +1,24 @@
+import { BriefInput, briefSource } from "./briefs";
+import type { EngagementOption, PortfolioItem, Service } from "./contentSchema";
+
+/* -----------------------------------------------------
+   SERVICES
+   Helpers for /services/:slug, the page behind each
+   service card and menu link.
+----------------------------------------------------- */
+
+// Case studies file themselves under a service by title; a service can also claim whole platforms.
+export const relatedCaseStudies = (portfolio: PortfolioItem[], service: Service) =>
+  portfolio.filter((item) => item.service === service.title || service.platforms.includes(item.category));
+
+// The cards in the Services section.
+export const featuredServices = (services: Service[]) => services.filter((service) => service.featured);
+
+// A service page's CTA: the brief starts on that service, tagged with the page it came from.
+export const briefFromService = (service: Service, engagement?: EngagementOption): Partial<BriefInput> => ({
+  projectType: service.title,
+  source: briefSource("service", service.slug),
+  ...(engagement
+    ? { message: `We're interested in your ${engagement.name} engagement (${engagement.duration}) for ${service.title}.` }
+    : {}),
+});
@@ -0,0 +1,46 @@
+import { Platform } from "react-native";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+/* -----------------------------------------------------
+   LOCAL STORAGE
+   localStorage on web, AsyncStorage on native, behind one
+   async JSON API. Failures (private mode, quota) are
+   swallowed: persistence is always best-effort here.
+----------------------------------------------------- */
+const webStorage = () => {
+  try {
+    return typeof window !== "undefined" ? window.localStorage : null;
+  } catch {
+    return null; // Safari private mode throws on access
+  }
+};
+
+export const storage = {
+  get: async <T,>(key: string): Promise<T | null> => {
+    try {
+      const raw = Platform.OS === "web" ? webStorage()?.getItem(key) ?? null : await AsyncStorage.getItem(key);
+      return raw ? (JSON.parse(raw) as T) : null;
+    } catch {
+      return null;
+    }
+  },
+
+  set: async (key: string, value: unknown) => {
+    try {
+      const raw = JSON.stringify(value);
+      if (Platform.OS === "web") webStorage()?.setItem(key, raw);
+      else await AsyncStorage.setItem(key, raw);
+    } catch {
+      // best-effort
+    }
+  },
+
+  remove: async (key: string) => {
+    try {
+      if (Platform.OS === "web") webStorage()?.removeItem(key);
+      else await AsyncStorage.removeItem(key);
+    } catch {
+      // best-effort
+    }
+  },
+};
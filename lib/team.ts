@@ -0,0 +1,21 @@
+/* -----------------------------------------------------
+   TEAM
+   Who can sign in to the admin inbox and own a lead.
+   Emails double as admin logins; the password comes from
+   ADMIN_PASSWORD on the server.
+----------------------------------------------------- */
+export interface TeamMember {
+  id: string;
+  name: string;
+  email: string;
+}
+
+export const TEAM_MEMBERS: TeamMember[] = [
+  { id: "studio", name: "Studio inbox", email: "hello@crafttech.studio" },
+  { id: "product", name: "Product lead", email: "product@crafttech.studio" },
+  { id: "design", name: "Design lead", email: "design@crafttech.studio" },
+  { id: "engineering", name: "Engineering lead", email: "engineering@crafttech.studio" },
+];
+
+export const findTeamMember = (id: string | null | undefined) =>
+  TEAM_MEMBERS.find((m) => m.id === id);
@@ -0,0 +1,128 @@
+/* -----------------------------------------------------
+   VALIDATION ENGINE
+   A tiny schema-per-field validator shared by the app and
+   the API. Sync rules run on every change; async rules run
+   on blur / submit and only once the sync rules pass.
+----------------------------------------------------- */
+export type SyncRule<V, K extends keyof V = keyof V> = (value: V[K], values: V) => string | null;
+export type AsyncRule<V, K extends keyof V = keyof V> = (value: V[K], values: V) => Promise<string | null>;
+
+export interface FieldSchema<V, K extends keyof V = keyof V> {
+  label: string;
+  rules?: SyncRule<V, K>[];
+  asyncRules?: AsyncRule<V, K>[];
+}
+
+export type FormSchema<V> = { [K in keyof V]: FieldSchema<V, K> };
+
+export type FormErrors<V> = Partial<Record<keyof V, string>>;
+
+const isEmpty = (value: unknown) =>
+  value == null ||
+  (typeof value === "string" && value.trim() === "") ||
+  (Array.isArray(value) && value.length === 0);
+
+const length = (value: unknown) =>
+  typeof value === "string" ? value.trim().length : Array.isArray(value) ? value.length : 0;
+
+/* -----------------------------------------------------
+   RULES
+   Value-agnostic, so they fit any field of any schema.
+----------------------------------------------------- */
+export type Rule = (value: unknown) => string | null;
+
+export const rules = {
+  required: (message = "This field is required."): Rule =>
+    (value) => (isEmpty(value) ? message : null),
+
+  minLength: (min: number, message?: string): Rule =>
+    (value) => (!isEmpty(value) && length(value) < min ? message ?? `Must be at least ${min} characters.` : null),
+
+  maxLength: (max: number, message?: string): Rule =>
+    (value) => (length(value) > max ? message ?? `Must be ${max} characters or fewer.` : null),
+
+  pattern: (regex: RegExp, message: string): Rule =>
+    (value) => (typeof value === "string" && value.trim() !== "" && !regex.test(value.trim()) ? message : null),
+
+  // Every selected value (string or list) must be one of `options`.
+  oneOf: (options: readonly string[], message = "Pick one of the listed options."): Rule =>
+    (value) => {
+      const selected = Array.isArray(value) ? value : isEmpty(value) ? [] : [value];
+      return selected.every((v) => options.includes(v as string)) ? null : message;
+    },
+
+  email: (message = "Enter a valid email address."): Rule =>
+    rules.pattern(/^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/, message),
+};
+
+/* -----------------------------------------------------
+   RUNNERS
+----------------------------------------------------- */
+export const validateFieldSync = <V, K extends keyof V>(
+  schema: FormSchema<V>,
+  field: K,
+  values: V
+): string | null => {
+  for (const rule of (schema[field].rules ?? []) as SyncRule<V, K>[]) {
+    const error = rule(values[field], values);
+    if (error) return error;
+  }
+  return null;
+};
+
+export const validateField = async <V, K extends keyof V>(
+  schema: FormSchema<V>,
+  field: K,
+  values: V
+): Promise<string | null> => {
+  const syncError = validateFieldSync(schema, field, values);
+  if (syncError) return syncError;
+  for (const rule of (schema[field].asyncRules ?? []) as AsyncRule<V, K>[]) {
+    const error = await rule(values[field], values);
+    if (error) return error;
+  }
+  return null;
+};
+
+export const validateSync = <V,>(schema: FormSchema<V>, values: V): FormErrors<V> => {
+  const errors: FormErrors<V> = {};
+  for (const field of Object.keys(schema) as (keyof V)[]) {
+    const error = validateFieldSync(schema, field, values);
+    if (error) errors[field] = error;
+  }
+  return errors;
+};
+
+export const validate = async <V,>(schema: FormSchema<V>, values: V): Promise<FormErrors<V>> => {
+  const fields = Object.keys(schema) as (keyof V)[];
+  const results = await Promise.all(fields.map((field) => validateField(schema, field, values)));
+  const errors: FormErrors<V> = {};
+  fields.forEach((field, i) => {
+    if (results[i]) errors[field] = results[i] as string;
+  });
+  return errors;
+};
+
+export const hasErrors = <V,>(errors: FormErrors<V>) => Object.values(errors).some(Boolean);
+
+// One field's rules followed by the extra ones.
+const extendField = <V, K extends keyof V>(
+  base: FieldSchema<V, K>,
+  add: Partial<Pick<FieldSchema<V, K>, "rules" | "asyncRules">>
+): FieldSchema<V, K> => ({
+  ...base,
+  rules: [...(base.rules ?? []), ...(add.rules ?? [])],
+  asyncRules: [...(base.asyncRules ?? []), ...(add.asyncRules ?? [])],
+});
+
+// Adds extra rules on top of a shared schema (e.g. server-only async checks).
+export const extendSchema = <V,>(
+  schema: FormSchema<V>,
+  extra: { [K in keyof V]?: Partial<Pick<FieldSchema<V, K>, "rules" | "asyncRules">> }
+): FormSchema<V> => {
+  const next = { ...schema };
+  for (const field of Object.keys(extra) as (keyof V)[]) {
+    next[field] = extendField(schema[field], extra[field]!);
+  }
+  return next;
+};
@@ -0,0 +1,67 @@
+import type { BriefRecord } from "./briefs";
+import type { ScoredBrief } from "./leadScoring";
+import type { LeadStatus } from "./leads";
+
+/* -----------------------------------------------------
+   WEBHOOK TYPES
+   Event payloads we push to CRMs and chat tools, and the
+   delivery log the admin inbox shows. Receivers verify
+   the X-CraftTech-Signature header (server/webhookSignature).
+----------------------------------------------------- */
+export type WebhookEventType = "brief.created" | "brief.status_changed";
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = ["brief.created", "brief.status_changed"];
+
+export interface WebhookEventData {
+  brief: BriefRecord;
+  previousStatus?: LeadStatus;
+}
+
+// The brief as the admin inbox sees it, score included, minus the prospect's status-page secret:
+// receivers are third-party tools, and the token alone grants access to /brief/:token.
+export type WebhookBrief = Omit<ScoredBrief, "statusToken">;
+
+// What receivers get.
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  createdAt: string;
+  data: Omit<WebhookEventData, "brief"> & { brief: WebhookBrief };
+}
+
+export interface WebhookAttempt {
+  at: string;
+  status: number | null; // HTTP status, null when the request never completed
+  error?: string;
+  durationMs: number;
+}
+
+export type DeliveryState = "pending" | "delivered" | "failed";
+
+export interface WebhookDelivery {
+  id: string;
+  endpointId: string;
+  url: string;
+  eventId: string;
+  type: WebhookEventType;
+  body: string; // the exact JSON we sign and send, kept for replays
+  state: DeliveryState;
+  attempts: WebhookAttempt[];
+  nextAttemptAt: string | null;
+  createdAt: string;
+}
+
+/* -----------------------------------------------------
+   ADMIN API SHAPES
+   Endpoint secrets never leave the server.
+----------------------------------------------------- */
+export interface WebhookEndpointSummary {
+  id: string;
+  url: string;
+  events: WebhookEventType[];
+}
+
+export interface AdminWebhookLog {
+  endpoints: WebhookEndpointSummary[];
+  deliveries: WebhookDelivery[];
+}
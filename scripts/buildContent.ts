@@ -0,0 +1,58 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { ContentValidationError, contentImageRefs, isLocalImage } from "../lib/contentSchema";
+import { checkNavigation } from "../lib/navigation";
+import { loadContentDir } from "./contentFiles";
+
+/* -----------------------------------------------------
+   CONTENT BUILD
+   `npm run content:build` (and every web:build) validates
+   content/ and bundles it into two generated modules:
+     lib/content.generated.ts        the data, plain JSON
+     lib/contentAssets.generated.ts  require()s for the
+                                     local images it uses
+   The split keeps image requires out of the API bundle,
+   which imports content for the brief's service list.
+   It also checks every link in lib/navigation resolves.
+   Invalid content exits non-zero and fails the export.
+----------------------------------------------------- */
+const LIB_DIR = path.join(process.cwd(), "lib");
+
+const HEADER = "// Generated by `npm run content:build` from content/. Do not edit by hand.\n";
+
+const main = async () => {
+  const content = await loadContentDir();
+
+  const navigationErrors = checkNavigation(content);
+  if (navigationErrors.length > 0) throw new ContentValidationError(navigationErrors);
+
+  const localImages = [...new Set(contentImageRefs(content).map((ref) => ref.image))].filter(isLocalImage).sort();
+
+  const data = `${HEADER}import type { SiteContent } from "./contentSchema";
+
+export const BUNDLED_CONTENT: SiteContent = ${JSON.stringify(content, null, 2)};
+
+// Local images the app bundles; content loaded at runtime can only use these (or URLs).
+export const BUNDLED_IMAGES: string[] = ${JSON.stringify(localImages)};
+`;
+
+  const assets = `${HEADER}import type { ImageSourcePropType } from "react-native";
+
+export const CONTENT_ASSETS: Record<string, ImageSourcePropType> = {
+${localImages.map((image) => `  ${JSON.stringify(image)}: require(${JSON.stringify(`../assets/${image}`)}),`).join("\n")}
+};
+`;
+
+  await fs.writeFile(path.join(LIB_DIR, "content.generated.ts"), data);
+  await fs.writeFile(path.join(LIB_DIR, "contentAssets.generated.ts"), assets);
+  console.log(
+    `Content OK: ${content.heroSlides.length} hero slides, ${content.portfolio.length} projects, ` +
+      `${content.testimonials.length} testimonials, ${content.services.length} services, ${content.process.length} process steps, ` +
+      `${content.posts.length} posts, ${content.jobs.length} open roles.`
+  );
+};
+
+main().catch((err) => {
+  console.error(err instanceof ContentValidationError ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,178 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { readingTime, tagSlug } from "../lib/blog";
+import { BlogPost, ContentValidationError, isLocalImage } from "../lib/contentSchema";
+import { MarkdownBlock, MarkdownInline, parseMarkdown } from "../lib/markdown";
+import { BLOG_PATH } from "../lib/routes";
+import { loadContentDir } from "./contentFiles";
+
+/* -----------------------------------------------------
+   FEED BUILD
+   `npm run feeds:build` (the last step of web:build) writes
+   the blog's feeds next to the exported site:
+     rss.xml     RSS 2.0
+     atom.xml    Atom 1.0
+     feed.json   JSON Feed 1.1
+   Each carries the full post as HTML. SITE_URL sets the
+   absolute links; the output directory is the first
+   argument (dist by default, matching expo export).
+----------------------------------------------------- */
+const SITE_URL = (process.env.SITE_URL ?? "https://crafttech.studio").replace(/\/+$/, "");
+const FEED_TITLE = "CraftTech Insights";
+const FEED_DESCRIPTION = "Engineering, design and product lessons from the projects CraftTech ships.";
+const FEED_SIZE = 20;
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+const absolute = (href: string) => (href.startsWith("/") ? `${SITE_URL}${href}` : href);
+
+const postUrl = (post: BlogPost) => `${SITE_URL}${BLOG_PATH}/${post.slug}`;
+
+// Local hero images are hashed into the web bundle, so only URLs can be referenced from a feed.
+const heroUrl = (post: BlogPost) => (isLocalImage(post.hero) ? null : post.hero);
+
+const publishedAt = (post: BlogPost) => new Date(`${post.date}T09:00:00Z`);
+
+/* -----------------------------------------------------
+   POST HTML
+   The same Markdown subset the app renders natively.
+----------------------------------------------------- */
+const inlineHtml = (inlines: MarkdownInline[]) =>
+  inlines
+    .map((inline) => {
+      const text = escapeXml(inline.text);
+      switch (inline.kind) {
+        case "strong":
+          return `<strong>${text}</strong>`;
+        case "em":
+          return `<em>${text}</em>`;
+        case "code":
+          return `<code>${text}</code>`;
+        case "link":
+          return `<a href="${escapeXml(absolute(inline.href))}">${text}</a>`;
+        default:
+          return text;
+      }
+    })
+    .join("");
+
+const blockHtml = (block: MarkdownBlock) => {
+  switch (block.kind) {
+    case "heading":
+      return `<h${block.level}>${escapeXml(block.text)}</h${block.level}>`;
+    case "paragraph":
+      return `<p>${inlineHtml(block.inlines)}</p>`;
+    case "quote":
+      return `<blockquote><p>${inlineHtml(block.inlines)}</p></blockquote>`;
+    case "list": {
+      const tag = block.ordered ? "ol" : "ul";
+      return `<${tag}>${block.items.map((item) => `<li>${inlineHtml(item)}</li>`).join("")}</${tag}>`;
+    }
+  }
+};
+
+const postHtml = (post: BlogPost) => parseMarkdown(post.body).map(blockHtml).join("\n");
+
+/* -----------------------------------------------------
+   FEEDS
+----------------------------------------------------- */
+const rssFeed = (posts: BlogPost[]) => `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/">
+  <channel>
+    <title>${FEED_TITLE}</title>
+    <link>${SITE_URL}${BLOG_PATH}</link>
+    <description>${escapeXml(FEED_DESCRIPTION)}</description>
+    <language>en-us</language>
+    <atom:link href="${SITE_URL}/rss.xml" rel="self" type="application/rss+xml" />
+    ${posts[0] ? `<lastBuildDate>${publishedAt(posts[0]).toUTCString()}</lastBuildDate>` : ""}
+${posts
+  .map(
+    (post) => `    <item>
+      <title>${escapeXml(post.title)}</title>
+      <link>${postUrl(post)}</link>
+      <guid isPermaLink="true">${postUrl(post)}</guid>
+      <pubDate>${publishedAt(post).toUTCString()}</pubDate>
+      <author>hello@crafttech.studio (${escapeXml(post.author)})</author>
+${post.tags.map((tag) => `      <category>${escapeXml(tag)}</category>`).join("\n")}
+      <description>${escapeXml(post.summary)}</description>
+      <content:encoded>${escapeXml(postHtml(post))}</content:encoded>
+    </item>`
+  )
+  .join("\n")}
+  </channel>
+</rss>
+`;
+
+const atomFeed = (posts: BlogPost[]) => `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>${FEED_TITLE}</title>
+  <subtitle>${escapeXml(FEED_DESCRIPTION)}</subtitle>
+  <id>${SITE_URL}${BLOG_PATH}</id>
+  <link href="${SITE_URL}${BLOG_PATH}" />
+  <link href="${SITE_URL}/atom.xml" rel="self" type="application/atom+xml" />
+  <updated>${(posts[0] ? publishedAt(posts[0]) : new Date()).toISOString()}</updated>
+${posts
+  .map(
+    (post) => `  <entry>
+    <title>${escapeXml(post.title)}</title>
+    <id>${postUrl(post)}</id>
+    <link href="${postUrl(post)}" />
+    <published>${publishedAt(post).toISOString()}</published>
+    <updated>${publishedAt(post).toISOString()}</updated>
+    <author><name>${escapeXml(post.author)}</name></author>
+${post.tags.map((tag) => `    <category term="${escapeXml(tagSlug(tag))}" label="${escapeXml(tag)}" />`).join("\n")}
+    <summary>${escapeXml(post.summary)}</summary>
+    <content type="html">${escapeXml(postHtml(post))}</content>
+  </entry>`
+  )
+  .join("\n")}
+</feed>
+`;
+
+const jsonFeed = (posts: BlogPost[]) =>
+  `${JSON.stringify(
+    {
+      version: "https://jsonfeed.org/version/1.1",
+      title: FEED_TITLE,
+      description: FEED_DESCRIPTION,
+      home_page_url: `${SITE_URL}${BLOG_PATH}`,
+      feed_url: `${SITE_URL}/feed.json`,
+      language: "en-US",
+      items: posts.map((post) => ({
+        id: postUrl(post),
+        url: postUrl(post),
+        title: post.title,
+        summary: post.summary,
+        content_html: postHtml(post),
+        image: heroUrl(post) ?? undefined,
+        date_published: publishedAt(post).toISOString(),
+        authors: [{ name: post.author }],
+        tags: post.tags,
+        _crafttech: { reading_minutes: readingTime(post.body) },
+      })),
+    },
+    null,
+    2
+  )}\n`;
+
+const main = async () => {
+  const outDir = path.resolve(process.argv[2] ?? "dist");
+  const posts = (await loadContentDir()).posts.slice(0, FEED_SIZE);
+
+  await fs.mkdir(outDir, { recursive: true });
+  await fs.writeFile(path.join(outDir, "rss.xml"), rssFeed(posts));
+  await fs.writeFile(path.join(outDir, "atom.xml"), atomFeed(posts));
+  await fs.writeFile(path.join(outDir, "feed.json"), jsonFeed(posts));
+  console.log(`Feeds OK: ${posts.length} posts → ${path.relative(process.cwd(), outDir) || "."}/{rss.xml,atom.xml,feed.json}`);
+};
+
+main().catch((err) => {
+  console.error(err instanceof ContentValidationError ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,106 @@
+import { promises as fs } from "fs";
+import path from "path";
+import {
+  COLLECTION_SLUGS,
+  ContentCollection,
+  ContentEntry,
+  ContentError,
+  ContentValidationError,
+  SiteContent,
+  isLocalImage,
+  readCollectionDocument,
+  validateContent,
+} from "../lib/contentSchema";
+import { FrontMatterError, parseFrontMatter } from "../lib/frontMatter";
+
+/* -----------------------------------------------------
+   CONTENT FILES
+   Reads content/ into validated SiteContent:
+     hero-slides.json, testimonials.json, services.json,
+     process.json, jobs.json
+                      { "version": 1, "items": [...] }
+     portfolio/*.md   front matter + case-study body; the
+                      slug is the file name
+     posts/*.md       front matter + article, the same way
+   Paths in errors are relative to the repo root.
+----------------------------------------------------- */
+export const CONTENT_DIR = path.join(process.cwd(), "content");
+
+const relative = (file: string) => path.relative(process.cwd(), file);
+
+const readJsonCollection = async (file: string, errors: ContentError[]): Promise<ContentEntry[]> => {
+  const source = relative(file);
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await fs.readFile(file, "utf8"));
+  } catch (err) {
+    const reason = (err as NodeJS.ErrnoException).code === "ENOENT" ? "File is missing." : `Not valid JSON: ${(err as Error).message}`;
+    errors.push({ source, path: "", message: reason });
+    return [];
+  }
+
+  return readCollectionDocument(source, parsed, errors);
+};
+
+// One entry per Markdown file: front matter fields, plus `slug` (the file name) and `body`.
+const readMarkdownCollection = async (dir: string, errors: ContentError[]): Promise<ContentEntry[]> => {
+  const names = (await fs.readdir(dir).catch(() => [] as string[])).filter((n) => n.endsWith(".md")).sort();
+  const entries = await Promise.all(
+    names.map(async (name): Promise<ContentEntry | null> => {
+      const file = path.join(dir, name);
+      try {
+        const { data, body } = parseFrontMatter(await fs.readFile(file, "utf8"));
+        return { source: relative(file), value: { ...data, slug: name.replace(/\.md$/, ""), body } };
+      } catch (err) {
+        if (!(err instanceof FrontMatterError)) throw err;
+        errors.push({ source: relative(file), path: "", message: err.message });
+        return null;
+      }
+    })
+  );
+  return entries.filter((e): e is ContentEntry => e !== null);
+};
+
+// Loads and validates everything; throws ContentValidationError listing every problem at once.
+// Pass assetsDir null where assets/ isn't deployed; callers then check images another way.
+export const loadContentDir = async (
+  dir = CONTENT_DIR,
+  assetsDir: string | null = path.join(dir, "..", "assets")
+): Promise<SiteContent> => {
+  const errors: ContentError[] = [];
+  const json = (collection: ContentCollection) =>
+    readJsonCollection(path.join(dir, `${COLLECTION_SLUGS[collection]}.json`), errors);
+  const raw: Record<ContentCollection, ContentEntry[]> = {
+    heroSlides: await json("heroSlides"),
+    testimonials: await json("testimonials"),
+    services: await json("services"),
+    process: await json("process"),
+    jobs: await json("jobs"),
+    portfolio: await readMarkdownCollection(path.join(dir, COLLECTION_SLUGS.portfolio), errors),
+    posts: await readMarkdownCollection(path.join(dir, COLLECTION_SLUGS.posts), errors),
+  };
+
+  const { content, errors: invalid } = validateContent(raw);
+  errors.push(...invalid);
+
+  // Local images must exist, or the bundler fails later with a far less helpful message.
+  const localImages = [
+    ...raw.heroSlides.map((e, i) => ({ source: e.source, path: `[${i}].image`, value: (e.value as { image?: unknown })?.image })),
+    ...raw.portfolio.flatMap((e) => {
+      const { img, gallery } = (e.value ?? {}) as { img?: unknown; gallery?: unknown };
+      return [
+        { source: e.source, path: ".img", value: img },
+        ...(Array.isArray(gallery) ? gallery : []).map((value, i) => ({ source: e.source, path: `.gallery[${i}]`, value })),
+      ];
+    }),
+    ...raw.posts.map((e) => ({ source: e.source, path: ".hero", value: (e.value as { hero?: unknown })?.hero })),
+  ].filter((ref) => typeof ref.value === "string" && isLocalImage(ref.value));
+  for (const ref of localImages) {
+    if (assetsDir === null) break;
+    const exists = await fs.stat(path.join(assetsDir, ref.value as string)).then(() => true, () => false);
+    if (!exists) errors.push({ source: ref.source, path: ref.path, message: `assets/${ref.value} doesn't exist.` });
+  }
+
+  if (errors.length > 0) throw new ContentValidationError(errors);
+  return content;
+};
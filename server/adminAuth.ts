@@ -0,0 +1,69 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { IncomingMessage } from "http";
+import type { AdminSession } from "../lib/leads";
+import { TEAM_MEMBERS, TeamMember } from "../lib/team";
+import { HttpError } from "./http";
+
+/* -----------------------------------------------------
+   ADMIN AUTH
+   One shared team password (ADMIN_PASSWORD) plus a team
+   email. A successful login returns a signed, expiring
+   bearer token; nothing is kept server-side.
+----------------------------------------------------- */
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+
+if (!process.env.ADMIN_SESSION_SECRET && process.env.VERCEL) {
+  console.warn("ADMIN_SESSION_SECRET is not set; admin sessions are signed with a derived secret.");
+}
+
+// Read at call time: `npm run api:dev` sets a development password after imports run.
+const adminPassword = () => process.env.ADMIN_PASSWORD;
+const sessionSecret = () =>
+  process.env.ADMIN_SESSION_SECRET ?? `crafttech-dev-admin:${adminPassword() ?? ""}`;
+
+interface SessionPayload {
+  sub: string; // team member id
+  exp: number;
+}
+
+const sign = (body: string) => createHmac("sha256", sessionSecret()).update(body).digest("base64url");
+
+const safeEqual = (a: string, b: string) => {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+};
+
+export const login = (email: string, password: string): AdminSession => {
+  const expected = adminPassword();
+  if (!expected) throw new HttpError(503, "Admin sign-in isn't configured on this server.");
+
+  const member = TEAM_MEMBERS.find((m) => m.email.toLowerCase() === email.trim().toLowerCase());
+  // Check the password even for unknown emails so timing doesn't reveal who's on the team.
+  const passwordOk = safeEqual(password, expected);
+  if (!member || !passwordOk) throw new HttpError(401, "That email and password don't match.");
+
+  const payload: SessionPayload = { sub: member.id, exp: Date.now() + SESSION_TTL_MS };
+  const body = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return { token: `${body}.${sign(body)}`, member };
+};
+
+// Resolves the signed-in team member or throws 401.
+export const requireAdmin = (req: IncomingMessage): TeamMember => {
+  const header = req.headers.authorization ?? "";
+  const [body, signature] = header.replace(/^Bearer\s+/i, "").split(".");
+  if (!body || !signature || !safeEqual(signature, sign(body))) {
+    throw new HttpError(401, "Please sign in again.");
+  }
+
+  let payload: SessionPayload;
+  try {
+    payload = JSON.parse(Buffer.from(body, "base64url").toString("utf8")) as SessionPayload;
+  } catch {
+    throw new HttpError(401, "Please sign in again.");
+  }
+
+  const member = TEAM_MEMBERS.find((m) => m.id === payload.sub);
+  if (!member || payload.exp < Date.now()) throw new HttpError(401, "Your session expired. Please sign in again.");
+  return member;
+};
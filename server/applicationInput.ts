@@ -0,0 +1,35 @@
+import { ApplicationInput, EMPTY_APPLICATION } from "../lib/applications";
+import { APPLICATION_SCHEMA } from "../lib/applicationSchema";
+import { FormErrors, extendSchema, hasErrors, validate } from "../lib/validation";
+import { emailDomainAcceptsMail } from "./briefInput";
+import { HttpError } from "./http";
+
+/* -----------------------------------------------------
+   APPLICATION INPUT PARSING
+   Coerces an untrusted request body into an
+   ApplicationInput and runs the shared schema plus the
+   brief form's email domain check.
+----------------------------------------------------- */
+export const SERVER_APPLICATION_SCHEMA = extendSchema(APPLICATION_SCHEMA, {
+  email: { asyncRules: [emailDomainAcceptsMail] },
+});
+
+export const parseApplicationInput = async (body: unknown): Promise<ApplicationInput> => {
+  if (!body || typeof body !== "object") throw new HttpError(400, "Expected a JSON object.");
+
+  const raw = body as Record<string, unknown>;
+  const input = { ...EMPTY_APPLICATION };
+  const typeErrors: FormErrors<ApplicationInput> = {};
+
+  for (const field of Object.keys(EMPTY_APPLICATION) as (keyof ApplicationInput)[]) {
+    const value = raw[field] ?? "";
+    if (typeof value !== "string") typeErrors[field] = "Must be text.";
+    input[field] = typeof value === "string" ? value.trim() : "";
+  }
+
+  const fields = { ...(await validate(SERVER_APPLICATION_SCHEMA, input)), ...typeErrors };
+  if (hasErrors(fields)) {
+    throw new HttpError(422, "Please fix the highlighted fields.", { fields });
+  }
+  return input;
+};
@@ -0,0 +1,89 @@
+import path from "path";
+import type {
+  AdminApplication,
+  ApplicationPatch,
+  ApplicationRecord,
+  NewApplication,
+} from "../lib/applications";
+import { DATA_DIR, readJsonFile, writeJsonFile } from "./briefStore";
+
+/* -----------------------------------------------------
+   APPLICATION STORE
+   Job applications, in their own JSON file beside the
+   briefs: hiring and sales read different inboxes, and a
+   CV shouldn't sit in the lead export.
+----------------------------------------------------- */
+export interface ApplicationStore {
+  // An application whose idempotency key is already stored comes back as it is, with created: false.
+  create(input: NewApplication): Promise<{ application: ApplicationRecord; created: boolean }>;
+  get(id: string): Promise<ApplicationRecord | null>;
+  findByIdempotencyKey(key: string): Promise<ApplicationRecord | null>;
+  list(): Promise<ApplicationRecord[]>; // newest first
+  // A function patch is computed from the current record inside the write lock.
+  update(
+    id: string,
+    patch: ApplicationPatch | ((application: ApplicationRecord) => ApplicationPatch)
+  ): Promise<ApplicationRecord | null>;
+}
+
+export const createFileApplicationStore = (file: string): ApplicationStore => {
+  let queue: Promise<unknown> = Promise.resolve();
+  const exclusive = <T,>(task: () => Promise<T>): Promise<T> => {
+    const next = queue.then(task, task);
+    queue = next.catch(() => undefined);
+    return next;
+  };
+
+  const readAll = () => readJsonFile<ApplicationRecord[]>(file, []);
+
+  return {
+    create: (input) =>
+      exclusive(async () => {
+        const applications = await readAll();
+        // Checked inside the lock, like the brief store, so racing retries can't both insert.
+        const existing =
+          input.idempotencyKey && applications.find((a) => a.idempotencyKey === input.idempotencyKey);
+        if (existing) return { application: existing, created: false };
+
+        const now = new Date().toISOString();
+        const record: ApplicationRecord = {
+          ...input,
+          createdAt: now,
+          updatedAt: now,
+          status: "new",
+          notes: [],
+        };
+        applications.push(record);
+        await writeJsonFile(file, applications);
+        return { application: record, created: true };
+      }),
+
+    get: async (id) => (await readAll()).find((a) => a.id === id) ?? null,
+
+    findByIdempotencyKey: async (key) => (await readAll()).find((a) => a.idempotencyKey === key) ?? null,
+
+    list: async () => (await readAll()).sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+
+    update: (id, patch) =>
+      exclusive(async () => {
+        const applications = await readAll();
+        const index = applications.findIndex((a) => a.id === id);
+        if (index < 0) return null;
+        const changes = typeof patch === "function" ? patch(applications[index]) : patch;
+        applications[index] = { ...applications[index], ...changes, updatedAt: new Date().toISOString() };
+        await writeJsonFile(file, applications);
+        return applications[index];
+      }),
+  };
+};
+
+// Idempotency keys are transport details; strip them before an application leaves the server.
+export const presentApplication = ({ idempotencyKey: _key, ...application }: ApplicationRecord): AdminApplication =>
+  application;
+
+let defaultStore: ApplicationStore | null = null;
+
+export const getApplicationStore = (): ApplicationStore => {
+  if (!defaultStore) defaultStore = createFileApplicationStore(path.join(DATA_DIR, "applications.json"));
+  return defaultStore;
+};
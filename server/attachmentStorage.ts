@@ -0,0 +1,127 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { AttachmentMeta } from "../lib/attachments";
+import { DATA_DIR, readJsonFile, writeJsonFile } from "./briefStore";
+
+/* -----------------------------------------------------
+   ATTACHMENT STORAGE
+   Uploads land under `pending/` and move next to their
+   brief under `briefs/<briefId>/` once it's submitted (or
+   a CV under `applications/<applicationId>/`). Uploads
+   nothing claims are swept after a day.
+   The disk adapter is what we run locally; an object-store
+   adapter only needs to implement the same six methods.
+----------------------------------------------------- */
+export interface StoredFile {
+  meta: AttachmentMeta;
+  data: Buffer;
+}
+
+export interface AttachmentStorage {
+  put(key: string, data: Buffer, meta: AttachmentMeta): Promise<void>;
+  head(key: string): Promise<AttachmentMeta | null>;
+  get(key: string): Promise<StoredFile | null>;
+  move(from: string, to: string): Promise<void>;
+  list(prefix: string): Promise<string[]>;
+  remove(key: string): Promise<void>;
+}
+
+export const pendingKey = (id: string) => `pending/${id}`;
+export const briefAttachmentKey = (briefId: string, id: string) => `briefs/${briefId}/${id}`;
+export const applicationAttachmentKey = (applicationId: string, id: string) => `applications/${applicationId}/${id}`;
+
+const PENDING_TTL_MS = 24 * 60 * 60 * 1000;
+
+export const createDiskStorage = (root: string): AttachmentStorage => {
+  // Keys are built from validated UUIDs, but never let one escape the root.
+  const resolve = (key: string) => {
+    const file = path.resolve(root, key);
+    if (!file.startsWith(path.resolve(root) + path.sep)) throw new Error(`Invalid storage key: ${key}`);
+    return file;
+  };
+  const metaFile = (key: string) => `${resolve(key)}.json`;
+
+  return {
+    put: async (key, data, meta) => {
+      await fs.mkdir(path.dirname(resolve(key)), { recursive: true });
+      await fs.writeFile(resolve(key), data);
+      await writeJsonFile(metaFile(key), meta);
+    },
+
+    head: (key) => readJsonFile<AttachmentMeta | null>(metaFile(key), null),
+
+    get: async (key) => {
+      const meta = await readJsonFile<AttachmentMeta | null>(metaFile(key), null);
+      if (!meta) return null;
+      return { meta, data: await fs.readFile(resolve(key)) };
+    },
+
+    move: async (from, to) => {
+      await fs.mkdir(path.dirname(resolve(to)), { recursive: true });
+      await fs.rename(resolve(from), resolve(to));
+      await fs.rename(metaFile(from), metaFile(to));
+    },
+
+    // Keys of the files directly under `prefix` (not their metadata).
+    list: async (prefix) => {
+      let names: string[];
+      try {
+        names = await fs.readdir(resolve(prefix));
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+        throw err;
+      }
+      return names.filter((name) => !name.endsWith(".json")).map((name) => `${prefix}/${name}`);
+    },
+
+    remove: async (key) => {
+      await fs.rm(resolve(key), { force: true });
+      await fs.rm(metaFile(key), { force: true });
+    },
+  };
+};
+
+let defaultStorage: AttachmentStorage | null = null;
+
+export const getAttachmentStorage = (): AttachmentStorage => {
+  if (!defaultStorage) defaultStorage = createDiskStorage(path.join(DATA_DIR, "attachments"));
+  return defaultStorage;
+};
+
+// Puts claimed uploads back under `pending/`, e.g. when the record they were for wasn't saved.
+export const releaseAttachments = async (ids: string[], keyFor: (id: string) => string) => {
+  const storage = getAttachmentStorage();
+  await Promise.all(ids.map((id) => storage.move(keyFor(id), pendingKey(id)).catch(() => undefined)));
+};
+
+// Moves staged uploads to `keyFor(id)`, all or nothing, before anything refers to them.
+// Returns null if one is gone (never uploaded, expired, or claimed by another submission).
+export const claimAttachments = async (
+  ids: string[],
+  keyFor: (id: string) => string
+): Promise<AttachmentMeta[] | null> => {
+  const storage = getAttachmentStorage();
+  const claimed: string[] = [];
+  const metas: AttachmentMeta[] = [];
+  for (const id of ids) {
+    const meta = await storage.head(pendingKey(id));
+    const moved = meta && (await storage.move(pendingKey(id), keyFor(id)).then(() => true, () => false));
+    if (!meta || !moved) {
+      await releaseAttachments(claimed, keyFor);
+      return null;
+    }
+    claimed.push(id);
+    metas.push(meta);
+  }
+  return metas;
+};
+
+// Deletes staged uploads no brief or application claimed in time.
+export const expirePendingUploads = async (now = Date.now()) => {
+  const storage = getAttachmentStorage();
+  for (const key of await storage.list("pending")) {
+    const meta = await storage.head(key);
+    // No metadata yet means `put` is still writing it.
+    if (meta && Date.parse(meta.uploadedAt) + PENDING_TTL_MS <= now) await storage.remove(key);
+  }
+};
@@ -0,0 +1,30 @@
+import { BookingInput, EMPTY_BOOKING } from "../lib/bookings";
+import { BOOKING_SCHEMA } from "../lib/bookingSchema";
+import { FormErrors, hasErrors, validate } from "../lib/validation";
+import { HttpError } from "./http";
+
+/* -----------------------------------------------------
+   BOOKING INPUT PARSING
+   Coerces an untrusted request body into a BookingInput
+   and runs the shared schema.
+----------------------------------------------------- */
+export const parseBookingInput = async (body: unknown): Promise<BookingInput> => {
+  if (!body || typeof body !== "object") throw new HttpError(400, "Expected a JSON object.");
+
+  const raw = body as Record<string, unknown>;
+  const input = { ...EMPTY_BOOKING };
+  const typeErrors: FormErrors<BookingInput> = {};
+
+  for (const field of Object.keys(EMPTY_BOOKING) as (keyof BookingInput)[]) {
+    const value = raw[field] ?? "";
+    if (typeof value !== "string") typeErrors[field] = "Must be text.";
+    input[field] = typeof value === "string" ? value.trim() : "";
+  }
+  input.briefReference = input.briefReference.toUpperCase();
+
+  const fields = { ...(await validate(BOOKING_SCHEMA, input)), ...typeErrors };
+  if (hasErrors(fields)) {
+    throw new HttpError(422, "Please fix the highlighted fields.", { fields });
+  }
+  return input;
+};
@@ -0,0 +1,62 @@
+import path from "path";
+import { randomUUID } from "crypto";
+import type { BookingRecord, NewBooking } from "../lib/bookings";
+import { DATA_DIR, readJsonFile, writeJsonFile } from "./briefStore";
+import { HttpError } from "./http";
+
+/* -----------------------------------------------------
+   BOOKING STORE
+   Same JSON-file approach as the brief store. The slot
+   check and the insert happen inside one exclusive write,
+   so two visitors can never land on the same slot.
+----------------------------------------------------- */
+export interface BookingStore {
+  create(input: NewBooking): Promise<BookingRecord>;
+  get(id: string): Promise<BookingRecord | null>;
+  listUpcoming(now: number): Promise<BookingRecord[]>;
+  listForBrief(reference: string): Promise<BookingRecord[]>;
+}
+
+export const createFileBookingStore = (file: string): BookingStore => {
+  let queue: Promise<unknown> = Promise.resolve();
+  const exclusive = <T,>(task: () => Promise<T>): Promise<T> => {
+    const next = queue.then(task, task);
+    queue = next.catch(() => undefined);
+    return next;
+  };
+
+  const readAll = () => readJsonFile<BookingRecord[]>(file, []);
+
+  return {
+    create: (input) =>
+      exclusive(async () => {
+        const bookings = await readAll();
+        if (bookings.some((b) => b.slotStart === input.slotStart)) {
+          throw new HttpError(409, "Someone just booked that time. Please pick another slot.");
+        }
+        const record: BookingRecord = { ...input, id: randomUUID(), createdAt: new Date().toISOString() };
+        bookings.push(record);
+        await writeJsonFile(file, bookings);
+        return record;
+      }),
+
+    get: async (id) => (await readAll()).find((b) => b.id === id) ?? null,
+
+    listUpcoming: async (now) =>
+      (await readAll())
+        .filter((b) => Date.parse(b.slotEnd) > now)
+        .sort((a, b) => a.slotStart.localeCompare(b.slotStart)),
+
+    listForBrief: async (reference) =>
+      (await readAll())
+        .filter((b) => b.briefReference === reference)
+        .sort((a, b) => a.slotStart.localeCompare(b.slotStart)),
+  };
+};
+
+let defaultStore: BookingStore | null = null;
+
+export const getBookingStore = (): BookingStore => {
+  if (!defaultStore) defaultStore = createFileBookingStore(path.join(DATA_DIR, "bookings.json"));
+  return defaultStore;
+};
@@ -0,0 +1,65 @@
+import { promises as dns } from "dns";
+import { ATTACHMENT_ID_PATTERN } from "../lib/attachments";
+import { BRIEF_TEXT_FIELDS, BriefInput } from "../lib/briefs";
+import { BRIEF_SCHEMA } from "../lib/briefSchema";
+import { extendSchema, validate, hasErrors, FormErrors } from "../lib/validation";
+import { HttpError } from "./http";
+
+/* -----------------------------------------------------
+   BRIEF INPUT PARSING
+   Coerces an untrusted request body into a BriefInput and
+   runs the shared schema plus server-only async checks.
+----------------------------------------------------- */
+const UNDELIVERABLE_CODES = new Set(["ENOTFOUND", "ENODATA"]);
+
+// Only a definitive "no such domain" fails; timeouts and DNS hiccups pass.
+// Job applications run the same check (see applicationInput).
+export const emailDomainAcceptsMail = async (value: unknown) => {
+  const domain = String(value).split("@")[1];
+  if (!domain || process.env.BRIEF_SKIP_MX_CHECK) return null;
+  try {
+    const records = await dns.resolveMx(domain);
+    return records.length > 0 ? null : "That email domain doesn't accept mail.";
+  } catch (err) {
+    const code = (err as NodeJS.ErrnoException).code ?? "";
+    return UNDELIVERABLE_CODES.has(code) ? "That email domain doesn't accept mail." : null;
+  }
+};
+
+export const SERVER_BRIEF_SCHEMA = extendSchema(BRIEF_SCHEMA, {
+  email: { asyncRules: [emailDomainAcceptsMail] },
+});
+
+export const parseBriefInput = async (body: unknown): Promise<BriefInput> => {
+  if (!body || typeof body !== "object") throw new HttpError(400, "Expected a JSON object.");
+
+  const raw = body as Record<string, unknown>;
+  const input = { platforms: [], attachments: [] } as unknown as BriefInput;
+  const typeErrors: FormErrors<BriefInput> = {};
+
+  for (const field of BRIEF_TEXT_FIELDS) {
+    const value = raw[field] ?? "";
+    if (typeof value !== "string") typeErrors[field] = "Must be text.";
+    (input as Record<typeof field, string>)[field] = typeof value === "string" ? value.trim() : "";
+  }
+
+  const platforms = raw.platforms ?? [];
+  if (Array.isArray(platforms) && platforms.every((p) => typeof p === "string")) {
+    input.platforms = [...new Set(platforms as BriefInput["platforms"])];
+  } else {
+    typeErrors.platforms = "Must be a list of platforms.";
+  }
+
+  const attachments = raw.attachments ?? [];
+  if (Array.isArray(attachments) && attachments.every((a) => typeof a === "string" && ATTACHMENT_ID_PATTERN.test(a))) {
+    input.attachments = [...new Set(attachments as string[])];
+  } else {
+    typeErrors.attachments = "Must be a list of attachment IDs.";
+  }
+
+  const fields = { ...(await validate(SERVER_BRIEF_SCHEMA, input)), ...typeErrors };
+  if (hasErrors(fields)) {
+    throw new HttpError(422, "Please fix the highlighted fields.", { fields });
+  }
+  return input;
+};
@@ -0,0 +1,147 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { randomBytes } from "crypto";
+import type { BriefPatch, BriefRecord, NewBrief } from "../lib/briefs";
+import { budgetSortValue } from "../lib/budget";
+import { ScoredBrief, scoreBrief } from "../lib/leadScoring";
+import { getScoringConfig } from "./leadScoring";
+
+/* -----------------------------------------------------
+   BRIEF STORE
+   A JSON file on disk. Good enough for local development
+   and low-volume intake; swap in a database-backed store
+   behind the same interface when we outgrow it.
+----------------------------------------------------- */
+export type BriefSort = "newest" | "budget";
+
+export interface BriefStore {
+  // A brief whose idempotency key is already stored comes back as it is, with created: false.
+  create(input: NewBrief): Promise<{ brief: BriefRecord; created: boolean }>;
+  get(id: string): Promise<BriefRecord | null>;
+  findByIdempotencyKey(key: string): Promise<BriefRecord | null>;
+  findByStatusToken(token: string): Promise<BriefRecord | null>;
+  list(sort?: BriefSort): Promise<BriefRecord[]>;
+  // A function patch is computed from the current record inside the write lock.
+  update(id: string, patch: BriefPatch | ((brief: BriefRecord) => BriefPatch)): Promise<BriefRecord | null>;
+}
+
+const SORTERS: Record<BriefSort, (a: BriefRecord, b: BriefRecord) => number> = {
+  newest: (a, b) => b.createdAt.localeCompare(a.createdAt),
+  budget: (a, b) => budgetSortValue(b.budgetRange) - budgetSortValue(a.budgetRange),
+};
+
+// Vercel functions can only write to /tmp; locally we keep data in the repo.
+export const DATA_DIR =
+  process.env.CRAFTTECH_DATA_DIR ??
+  (process.env.VERCEL ? "/tmp/crafttech" : path.join(process.cwd(), ".data"));
+
+// Unambiguous alphabet: no 0/O or 1/I.
+const REFERENCE_ALPHABET = "23456789ABCDEFGHJKLMNPQRSTUVWXYZ";
+
+const createReference = () => {
+  const bytes = randomBytes(6);
+  let ref = "";
+  for (const byte of bytes) ref += REFERENCE_ALPHABET[byte % REFERENCE_ALPHABET.length];
+  return `CT-${ref}`;
+};
+
+// 24 random bytes: 32 URL-safe characters nobody will guess.
+const createStatusToken = () => randomBytes(24).toString("base64url");
+
+export const readJsonFile = async <T,>(file: string, fallback: T): Promise<T> => {
+  try {
+    return JSON.parse(await fs.readFile(file, "utf8")) as T;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return fallback;
+    throw err;
+  }
+};
+
+// Write to a temp file then rename so a crash never leaves half a file behind.
+export const writeJsonFile = async (file: string, data: unknown) => {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(data, null, 2));
+  await fs.rename(tmp, file);
+};
+
+export const createFileBriefStore = (file: string): BriefStore => {
+  // Serialise writes so concurrent requests can't clobber each other.
+  let queue: Promise<unknown> = Promise.resolve();
+  const exclusive = <T,>(task: () => Promise<T>): Promise<T> => {
+    const next = queue.then(task, task);
+    queue = next.catch(() => undefined);
+    return next;
+  };
+
+  // Briefs stored before the lead pipeline and status pages existed lack these fields.
+  const readAll = async () =>
+    (await readJsonFile<BriefRecord[]>(file, [])).map((b) => ({
+      ...b,
+      status: b.status ?? "new",
+      assignee: b.assignee ?? null,
+      notes: b.notes ?? [],
+      updatedAt: b.updatedAt ?? b.createdAt,
+      additions: b.additions ?? [],
+    }));
+
+  return {
+    create: (input) =>
+      exclusive(async () => {
+        const briefs = await readAll();
+        // Checked inside the lock so two retries racing each other can't both insert.
+        const existing = input.idempotencyKey && briefs.find((b) => b.idempotencyKey === input.idempotencyKey);
+        if (existing) return { brief: existing, created: false };
+
+        const now = new Date().toISOString();
+        const record: BriefRecord = {
+          ...input,
+          reference: createReference(),
+          statusToken: createStatusToken(),
+          createdAt: now,
+          additions: [],
+          status: "new",
+          assignee: null,
+          notes: [],
+          updatedAt: now,
+        };
+        briefs.push(record);
+        await writeJsonFile(file, briefs);
+        return { brief: record, created: true };
+      }),
+
+    get: async (id) => (await readAll()).find((b) => b.id === id || b.reference === id) ?? null,
+
+    findByIdempotencyKey: async (key) => (await readAll()).find((b) => b.idempotencyKey === key) ?? null,
+
+    findByStatusToken: async (token) => (await readAll()).find((b) => !!token && b.statusToken === token) ?? null,
+
+    list: async (sort = "newest") => (await readAll()).sort(SORTERS[sort]),
+
+    update: (id, patch) =>
+      exclusive(async () => {
+        const briefs = await readAll();
+        const index = briefs.findIndex((b) => b.id === id);
+        if (index < 0) return null;
+        const changes = typeof patch === "function" ? patch(briefs[index]) : patch;
+        briefs[index] = { ...briefs[index], ...changes, updatedAt: new Date().toISOString() };
+        await writeJsonFile(file, briefs);
+        return briefs[index];
+      }),
+  };
+};
+
+// Idempotency keys are transport details; strip them before a brief leaves the server.
+// The status token stays: this is the admin API's view. Webhooks drop it (see server/webhooks).
+// The score is computed on the way out so config changes apply to every lead at once.
+export const presentBrief = ({ idempotencyKey: _key, ...brief }: BriefRecord): ScoredBrief => ({
+  ...brief,
+  score: scoreBrief(brief, getScoringConfig()),
+});
+
+let defaultStore: BriefStore | null = null;
+
+export const getBriefStore = (): BriefStore => {
+  if (!defaultStore) defaultStore = createFileBriefStore(path.join(DATA_DIR, "briefs.json"));
+  return defaultStore;
+};
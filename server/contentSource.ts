@@ -0,0 +1,48 @@
+import {
+  ContentSource,
+  checkBundledImages,
+  createBundledContentSource,
+  createCachedContentSource,
+  createFallbackContentSource,
+  createHttpContentSource,
+} from "../lib/contentSource";
+import { CONTENT_DIR, loadContentDir } from "../scripts/contentFiles";
+
+/* -----------------------------------------------------
+   SITE CONTENT SOURCE
+   What /api/content serves. CONTENT_SOURCE picks one:
+     cms      CMS_URL (+ CMS_TOKEN); the default when
+              CMS_URL is set
+     files    reads content/ on each load, so edits show
+              without a rebuild (the default otherwise)
+     bundled  the copy baked in at build time
+   Loads are cached for CONTENT_CACHE_TTL_MS (60s) and fall
+   back to the bundled copy when the source fails.
+----------------------------------------------------- */
+const DEFAULT_CACHE_TTL_MS = 60 * 1000;
+
+// assets/ isn't deployed with the functions; images are checked against the bundle instead.
+export const createFileContentSource = (dir = CONTENT_DIR): ContentSource => ({
+  name: `files ${dir}`,
+  load: async () => checkBundledImages(await loadContentDir(dir, null), dir),
+});
+
+let cached: { key: string; source: ContentSource } | null = null;
+
+// Resolved per call so env set by the dev server (after imports) still applies.
+export const getContentSource = (): ContentSource => {
+  const kind = process.env.CONTENT_SOURCE ?? (process.env.CMS_URL ? "cms" : "files");
+  const ttlMs = Number(process.env.CONTENT_CACHE_TTL_MS ?? DEFAULT_CACHE_TTL_MS);
+  const key = [kind, process.env.CMS_URL, process.env.CMS_TOKEN, ttlMs].join("|");
+  if (cached?.key === key) return cached.source;
+
+  const bundled = createBundledContentSource();
+  const primary =
+    kind === "cms" && process.env.CMS_URL
+      ? createHttpContentSource({ url: process.env.CMS_URL, token: process.env.CMS_TOKEN })
+      : kind === "files" ? createFileContentSource()
+      : null;
+  const source = primary ? createFallbackContentSource(createCachedContentSource(primary, ttlMs), bundled) : bundled;
+  cached = { key, source };
+  return source;
+};
@@ -0,0 +1,80 @@
+import { createServer } from "http";
+import type { ApiHandler } from "./http";
+import { sendJson } from "./http";
+import { DATA_DIR } from "./briefStore";
+import { processDueDeliveries } from "./webhooks";
+import briefs from "../api/briefs";
+import attachments from "../api/attachments";
+import applications from "../api/applications";
+import challenge from "../api/challenge";
+import bookings from "../api/bookings";
+import briefStatus from "../api/brief-status";
+import content from "../api/content";
+import adminSession from "../api/admin/session";
+import adminBriefs from "../api/admin/briefs";
+import adminAttachment from "../api/admin/attachment";
+import adminApplications from "../api/admin/applications";
+import adminWebhooks from "../api/admin/webhooks";
+
+/* -----------------------------------------------------
+   LOCAL API SERVER
+   Serves the /api functions without Vercel. Point the app
+   at it with EXPO_PUBLIC_API_URL=http://localhost:3001.
+----------------------------------------------------- */
+const PORT = Number(process.env.PORT ?? 3001);
+
+// MX lookups fail offline; opt back in with BRIEF_SKIP_MX_CHECK="".
+process.env.BRIEF_SKIP_MX_CHECK ??= "1";
+// Sign in to /admin with any team email and this password.
+process.env.ADMIN_PASSWORD ??= "crafttech-dev";
+// Emails land in .data/outbox as .eml files with .html previews.
+process.env.MAIL_TRANSPORT ??= "file";
+// Point webhooks at `npm run webhooks:receive` unless configured otherwise.
+process.env.WEBHOOK_ENDPOINTS ??= JSON.stringify([
+  { id: "local", url: "http://localhost:3002/webhooks", secret: "dev-webhook-secret" },
+]);
+
+const ROUTES: Record<string, ApiHandler> = {
+  "/api/briefs": briefs,
+  "/api/attachments": attachments,
+  "/api/applications": applications,
+  "/api/challenge": challenge,
+  "/api/bookings": bookings,
+  "/api/brief-status": briefStatus,
+  "/api/content": content,
+  "/api/admin/session": adminSession,
+  "/api/admin/briefs": adminBriefs,
+  "/api/admin/attachment": adminAttachment,
+  "/api/admin/applications": adminApplications,
+  "/api/admin/webhooks": adminWebhooks,
+};
+
+const server = createServer(async (req, res) => {
+  // The Expo dev server runs on another origin.
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Methods", "GET, POST, PATCH, DELETE, OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization, X-File-Name, Idempotency-Key");
+  if (req.method === "OPTIONS") {
+    res.statusCode = 204;
+    res.end();
+    return;
+  }
+
+  const { pathname } = new URL(req.url ?? "/", `http://localhost:${PORT}`);
+  const handler = ROUTES[pathname];
+  if (!handler) {
+    sendJson(res, 404, { error: "Not found." });
+    return;
+  }
+  await handler(req, res);
+});
+
+// Vercel has no long-lived process, so retries there ride on later requests.
+const RETRY_INTERVAL_MS = 15 * 1000;
+setInterval(() => {
+  processDueDeliveries().catch((err) => console.error("Webhook retry failed:", err));
+}, RETRY_INTERVAL_MS).unref();
+
+server.listen(PORT, () => {
+  console.log(`CraftTech API listening on http://localhost:${PORT} (data in ${DATA_DIR})`);
+});
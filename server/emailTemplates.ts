@@ -0,0 +1,232 @@
+import { COLORS } from "../colors";
+import { ApplicationRecord } from "../lib/applications";
+import { formatFileSize } from "../lib/attachments";
+import { BriefAddition, BriefRecord, TIMELINE_OPTIONS } from "../lib/briefs";
+import { briefStatusPath } from "../lib/briefStatus";
+import { formatBudgetRange } from "../lib/budget";
+import { PORTFOLIO_CATEGORY_LABELS } from "../lib/offerings";
+import { LOGO_CID } from "./mailer";
+
+/* -----------------------------------------------------
+   EMAIL TEMPLATES
+   Each template returns a subject plus HTML and plain-text
+   bodies. The HTML uses tables and inline styles because
+   that's what email clients reliably render.
+----------------------------------------------------- */
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+const SITE_URL = () => process.env.SITE_URL ?? "https://crafttech.studio";
+
+const statusUrl = (brief: BriefRecord) =>
+  brief.statusToken ? `${SITE_URL()}${briefStatusPath(brief.statusToken)}` : null;
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const briefRows = (brief: BriefRecord): [string, string][] => [
+  ["Reference", brief.reference],
+  ["Project type", brief.projectType || "—"],
+  ["Platforms", brief.platforms.map((p) => PORTFOLIO_CATEGORY_LABELS[p]).join(", ") || "—"],
+  ["Timeline", TIMELINE_OPTIONS.find((t) => t.id === brief.timeline)?.label ?? "—"],
+  ["Budget", brief.budgetRange ? formatBudgetRange(brief.budgetRange) : brief.budget || "—"],
+  ["Name", brief.name || "—"],
+  ["Email", brief.email],
+  ["Company", brief.company || "—"],
+  [
+    "Attachments",
+    brief.attachments.map((a) => `${a.name} (${formatFileSize(a.size)})`).join(", ") || "None",
+  ],
+];
+
+/* -----------------------------------------------------
+   LAYOUT
+----------------------------------------------------- */
+const layout = (heading: string, intro: string, body: string) => `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:0;background:${COLORS.bg};font-family:-apple-system,Segoe UI,Helvetica,Arial,sans-serif;">
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:${COLORS.bg};padding:32px 12px;">
+      <tr><td align="center">
+        <table role="presentation" width="600" cellpadding="0" cellspacing="0" style="max-width:600px;width:100%;background:${COLORS.card};border:1px solid ${COLORS.border};border-radius:16px;">
+          <tr><td style="padding:28px 32px 0;">
+            <img src="cid:${LOGO_CID}" width="48" height="48" alt="CraftTech" style="display:block;border-radius:10px;" />
+          </td></tr>
+          <tr><td style="padding:20px 32px 0;">
+            <h1 style="margin:0;color:${COLORS.text};font-size:24px;line-height:32px;">${escapeHtml(heading)}</h1>
+            <p style="margin:12px 0 0;color:${COLORS.textMuted};font-size:15px;line-height:24px;">${escapeHtml(intro)}</p>
+          </td></tr>
+          <tr><td style="padding:24px 32px 32px;">${body}</td></tr>
+        </table>
+        <p style="margin:20px 0 0;color:${COLORS.subtle};font-size:12px;">
+          CraftTech • Product design &amp; engineering • <a href="${SITE_URL()}" style="color:${COLORS.neon};text-decoration:none;">crafttech.studio</a>
+        </p>
+      </td></tr>
+    </table>
+  </body>
+</html>`;
+
+const applicationRows = (application: ApplicationRecord): [string, string][] => [
+  ["Role", application.role],
+  ["Name", application.name],
+  ["Email", application.email],
+  ["Based in", application.location],
+  ["Portfolio", application.portfolioUrl || "—"],
+  ["CV", `${application.cv.name} (${formatFileSize(application.cv.size)})`],
+];
+
+const summaryTable = (rows: [string, string][], messageLabel: string, message: string) => `
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="border-collapse:collapse;">
+  ${rows
+    .map(
+      ([label, value]) => `<tr>
+    <td style="padding:8px 0;border-bottom:1px solid ${COLORS.border};color:${COLORS.textMuted};font-size:13px;width:130px;vertical-align:top;">${escapeHtml(label)}</td>
+    <td style="padding:8px 0;border-bottom:1px solid ${COLORS.border};color:${COLORS.text};font-size:14px;">${escapeHtml(value)}</td>
+  </tr>`
+    )
+    .join("\n  ")}
+</table>
+<p style="margin:20px 0 6px;color:${COLORS.textMuted};font-size:13px;">${escapeHtml(messageLabel)}</p>
+<div style="background:${COLORS.bgSoft};border-radius:10px;padding:16px;color:${COLORS.text};font-size:14px;line-height:22px;white-space:pre-wrap;">${escapeHtml(message)}</div>`;
+
+const briefSummary = (brief: BriefRecord) => summaryTable(briefRows(brief), "Message", brief.message);
+
+const applicationSummary = (application: ApplicationRecord) =>
+  summaryTable(applicationRows(application), "Why this role?", application.coverLetter);
+
+const button = (href: string, label: string) => `
+<table role="presentation" cellpadding="0" cellspacing="0" style="margin-top:24px;"><tr>
+  <td style="background:${COLORS.neon};border-radius:10px;">
+    <a href="${href}" style="display:inline-block;padding:12px 22px;color:${COLORS.bg};font-weight:700;font-size:15px;text-decoration:none;">${escapeHtml(label)}</a>
+  </td>
+</tr></table>`;
+
+const textSummary = (rows: [string, string][], messageLabel: string, message: string) =>
+  [...rows.map(([label, value]) => `${label}: ${value}`), "", `${messageLabel}:`, message].join("\n");
+
+const briefText = (brief: BriefRecord) => textSummary(briefRows(brief), "Message", brief.message);
+
+const applicationText = (application: ApplicationRecord) =>
+  textSummary(applicationRows(application), "Why this role?", application.coverLetter);
+
+/* -----------------------------------------------------
+   TEMPLATES
+----------------------------------------------------- */
+export const briefConfirmationEmail = (brief: BriefRecord): RenderedEmail => {
+  const greeting = brief.name ? `Thanks, ${brief.name.split(" ")[0]}!` : "Thanks for your brief!";
+  const intro =
+    `We've received your project brief (reference ${brief.reference}). ` +
+    "We'll review it and reply within one business day.";
+  const trackUrl = statusUrl(brief);
+  return {
+    subject: `We've got your brief — ${brief.reference}`,
+    html: layout(
+      greeting,
+      intro,
+      `${briefSummary(brief)}
+${trackUrl ? `<p style="margin:24px 0 0;color:${COLORS.textMuted};font-size:14px;line-height:22px;">
+  Follow its progress, or add details and files, from your brief's status page.
+</p>
+${button(trackUrl, "Track your brief")}` : ""}
+<p style="margin:24px 0 0;color:${COLORS.textMuted};font-size:14px;line-height:22px;">
+  Want to talk sooner? Book a discovery call and mention ${escapeHtml(brief.reference)}.
+</p>
+${button(SITE_URL(), "Book a discovery call")}`
+    ),
+    text: [
+      greeting,
+      "",
+      intro,
+      "",
+      "Here's a copy of what you sent:",
+      "",
+      briefText(brief),
+      "",
+      ...(trackUrl ? [`Track your brief, or add details and files: ${trackUrl}`, ""] : []),
+      `Want to talk sooner? Book a discovery call at ${SITE_URL()} and mention ${brief.reference}.`,
+      "",
+      "— The CraftTech team",
+    ].join("\n"),
+  };
+};
+
+export const teamNotificationEmail = (brief: BriefRecord): RenderedEmail => {
+  const quarantined = brief.screening.verdict === "quarantined";
+  const who = brief.company || brief.name || brief.email;
+  const intro = quarantined
+    ? `Quarantined: ${brief.screening.reasons.join(", ")}. No autoresponse was sent.`
+    : "A new brief just came in. Reply to this email to answer the prospect directly.";
+  return {
+    subject: `${quarantined ? "[Quarantined] " : ""}New brief ${brief.reference} from ${who}`,
+    html: layout(`New brief from ${who}`, intro, `${briefSummary(brief)}
+${button(`${SITE_URL()}/admin`, "Open the lead inbox")}`),
+    text: [intro, "", briefText(brief), "", `Lead inbox: ${SITE_URL()}/admin`].join("\n"),
+  };
+};
+
+export const briefAdditionEmail = (brief: BriefRecord, addition: BriefAddition): RenderedEmail => {
+  const who = brief.company || brief.name || brief.email;
+  const intro = `${who} added to brief ${brief.reference} from its status page.`;
+  const files = addition.attachments.map((a) => `${a.name} (${formatFileSize(a.size)})`).join(", ") || "None";
+  return {
+    subject: `Update on brief ${brief.reference} from ${who}`,
+    html: layout(`Update from ${who}`, intro, `
+<p style="margin:0 0 6px;color:${COLORS.textMuted};font-size:13px;">Message</p>
+<div style="background:${COLORS.bgSoft};border-radius:10px;padding:16px;color:${COLORS.text};font-size:14px;line-height:22px;white-space:pre-wrap;">${escapeHtml(addition.message || "—")}</div>
+<p style="margin:20px 0 0;color:${COLORS.textMuted};font-size:13px;">New files: ${escapeHtml(files)}</p>
+${button(`${SITE_URL()}/admin`, "Open the lead inbox")}`),
+    text: [intro, "", "Message:", addition.message || "—", "", `New files: ${files}`, "", `Lead inbox: ${SITE_URL()}/admin`].join("\n"),
+  };
+};
+
+export const applicationConfirmationEmail = (application: ApplicationRecord): RenderedEmail => {
+  const greeting = `Thanks, ${application.name.split(" ")[0]}!`;
+  const intro =
+    `We've received your application for ${application.role}. ` +
+    "Someone from the team reads every application and we'll get back to you within a week.";
+  return {
+    subject: `We've got your application — ${application.role}`,
+    html: layout(
+      greeting,
+      intro,
+      `${applicationSummary(application)}
+<p style="margin:24px 0 0;color:${COLORS.textMuted};font-size:14px;line-height:22px;">
+  Anything to add? Just reply to this email.
+</p>
+${button(`${SITE_URL()}/careers`, "See other open roles")}`
+    ),
+    text: [
+      greeting,
+      "",
+      intro,
+      "",
+      "Here's a copy of what you sent:",
+      "",
+      applicationText(application),
+      "",
+      "Anything to add? Just reply to this email.",
+      "",
+      "— The CraftTech team",
+    ].join("\n"),
+  };
+};
+
+export const applicationNotificationEmail = (application: ApplicationRecord): RenderedEmail => {
+  const quarantined = application.screening.verdict === "quarantined";
+  const intro = quarantined
+    ? `Quarantined: ${application.screening.reasons.join(", ")}. No autoresponse was sent.`
+    : "A new application just came in. The CV is in the Applications tab of the admin.";
+  return {
+    subject: `${quarantined ? "[Quarantined] " : ""}${application.role}: application from ${application.name}`,
+    html: layout(`${application.name} applied for ${application.role}`, intro, `${applicationSummary(application)}
+${button(`${SITE_URL()}/admin`, "Open applications")}`),
+    text: [intro, "", applicationText(application), "", `Applications: ${SITE_URL()}/admin`].join("\n"),
+  };
+};
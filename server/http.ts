@@ -0,0 +1,94 @@
+import type { IncomingMessage, ServerResponse } from "http";
+
+/* -----------------------------------------------------
+   HTTP HELPERS
+   Handlers are written against plain Node req/res so they
+   run the same on Vercel and under the local dev server.
+----------------------------------------------------- */
+export type ApiRequest = IncomingMessage & { body?: unknown };
+export type ApiHandler = (req: ApiRequest, res: ServerResponse) => Promise<void> | void;
+
+const MAX_BODY_BYTES = 64 * 1024;
+
+export class HttpError extends Error {
+  status: number;
+  payload: Record<string, unknown>;
+
+  constructor(status: number, message: string, extra: Record<string, unknown> = {}) {
+    super(message);
+    this.name = "HttpError";
+    this.status = status;
+    this.payload = { error: message, ...extra };
+  }
+}
+
+export const sendJson = (res: ServerResponse, status: number, payload: unknown) => {
+  res.statusCode = status;
+  res.setHeader("Content-Type", "application/json; charset=utf-8");
+  res.end(JSON.stringify(payload));
+};
+
+const parseJson = <T,>(text: string): T => {
+  try {
+    return JSON.parse(text || "{}") as T;
+  } catch {
+    throw new HttpError(400, "Request body must be valid JSON.");
+  }
+};
+
+export const readJsonBody = async <T,>(req: ApiRequest): Promise<T> => {
+  // Vercel's Node runtime may already have parsed the body for us, or handed it over as text.
+  if (req.body !== undefined) {
+    return typeof req.body === "string" ? parseJson<T>(req.body) : (req.body as T);
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, "Request body is too large.");
+    chunks.push(chunk as Buffer);
+  }
+
+  return parseJson<T>(Buffer.concat(chunks).toString("utf8"));
+};
+
+export const readRawBody = async (req: ApiRequest, maxBytes: number): Promise<Buffer> => {
+  if (Buffer.isBuffer(req.body)) {
+    if (req.body.length > maxBytes) throw new HttpError(413, "File is too large.");
+    return req.body;
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBytes) throw new HttpError(413, "File is too large.");
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+};
+
+// Wraps a handler with method routing and uniform error responses.
+export const route = (handlers: Partial<Record<string, ApiHandler>>): ApiHandler => async (req, res) => {
+  const handler = handlers[req.method ?? "GET"];
+  if (!handler) {
+    res.setHeader("Allow", Object.keys(handlers).join(", "));
+    sendJson(res, 405, { error: "Method not allowed." });
+    return;
+  }
+
+  try {
+    await handler(req, res);
+  } catch (err) {
+    if (err instanceof HttpError) {
+      if (typeof err.payload.retryAfterSeconds === "number") {
+        res.setHeader("Retry-After", String(err.payload.retryAfterSeconds));
+      }
+      sendJson(res, err.status, err.payload);
+      return;
+    }
+    console.error(err);
+    sendJson(res, 500, { error: "Something went wrong on our side. Please try again." });
+  }
+};
@@ -0,0 +1,36 @@
+import { DEFAULT_SCORING, ScoringConfig } from "../lib/leadScoring";
+
+/* -----------------------------------------------------
+   SCORING CONFIG
+   LEAD_SCORING tunes the defaults without a deploy of new
+   code. Any section may be left out; the ones given are
+   merged over the defaults, e.g.
+     {"weights":{"budget":50},"thresholds":{"hot":80,"warm":50}}
+   Lists (industries, freeMailDomains) replace the default.
+----------------------------------------------------- */
+let cached: { raw: string | undefined; config: ScoringConfig } | null = null;
+
+const parse = (raw: string | undefined): ScoringConfig => {
+  if (!raw) return DEFAULT_SCORING;
+  try {
+    const overrides = JSON.parse(raw) as Partial<ScoringConfig>;
+    return {
+      weights: { ...DEFAULT_SCORING.weights, ...overrides.weights },
+      budget: { ...DEFAULT_SCORING.budget, ...overrides.budget },
+      message: { ...DEFAULT_SCORING.message, ...overrides.message },
+      industries: overrides.industries ?? DEFAULT_SCORING.industries,
+      freeMailDomains: overrides.freeMailDomains ?? DEFAULT_SCORING.freeMailDomains,
+      thresholds: { ...DEFAULT_SCORING.thresholds, ...overrides.thresholds },
+    };
+  } catch {
+    console.error("LEAD_SCORING is not valid JSON; using the default scoring.");
+    return DEFAULT_SCORING;
+  }
+};
+
+// Read per call so the dev server can set the env after import.
+export const getScoringConfig = (): ScoringConfig => {
+  const raw = process.env.LEAD_SCORING;
+  if (!cached || cached.raw !== raw) cached = { raw, config: parse(raw) };
+  return cached.config;
+};
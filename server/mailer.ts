@@ -0,0 +1,85 @@
+import { promises as fs } from "fs";
+import path from "path";
+import nodemailer from "nodemailer";
+import { DATA_DIR } from "./briefStore";
+
+/* -----------------------------------------------------
+   MAILER
+   Transactional email behind a small transport interface.
+   MAIL_TRANSPORT picks one:
+     smtp     SMTP_HOST / SMTP_PORT / SMTP_USER / SMTP_PASS
+     file     writes .eml + .html previews to .data/outbox
+     console  logs a summary (the default when nothing is set)
+----------------------------------------------------- */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  replyTo?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+export const LOGO_CID = "logo@crafttech.studio";
+const LOGO_PATH = path.join(process.cwd(), "assets", "crafttech-logo.png");
+
+const fromAddress = () => process.env.MAIL_FROM ?? "CraftTech <hello@crafttech.studio>";
+
+// The logo travels as an inline attachment so it renders without remote images.
+const toNodemailer = (message: MailMessage) => ({
+  ...message,
+  from: fromAddress(),
+  attachments: [{ filename: "crafttech-logo.png", path: LOGO_PATH, cid: LOGO_CID }],
+});
+
+export const createSmtpTransport = (): MailTransport => {
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: Number(process.env.SMTP_PORT ?? 587),
+    secure: process.env.SMTP_SECURE === "1",
+    auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined,
+  });
+  return {
+    send: async (message) => {
+      await transporter.sendMail(toNodemailer(message));
+    },
+  };
+};
+
+export const createFileTransport = (dir: string): MailTransport => {
+  const transporter = nodemailer.createTransport({ streamTransport: true, buffer: true });
+  return {
+    send: async (message) => {
+      const info = await transporter.sendMail(toNodemailer(message));
+      const slug = message.subject.toLowerCase().replace(/[^a-z0-9]+/g, "-").slice(0, 60);
+      const base = path.join(dir, `${new Date().toISOString().replace(/[:.]/g, "-")}-${slug}`);
+      await fs.mkdir(dir, { recursive: true });
+      await fs.writeFile(`${base}.eml`, info.message as Buffer);
+      await fs.writeFile(`${base}.html`, message.html);
+    },
+  };
+};
+
+export const createConsoleTransport = (): MailTransport => ({
+  send: async (message) => {
+    console.log(`[mail] to=${message.to} subject="${message.subject}"\n${message.text}\n`);
+  },
+});
+
+let cached: { key: string; transport: MailTransport } | null = null;
+
+// Resolved per call so env set by the dev server (after imports) still applies.
+export const getMailTransport = (): MailTransport => {
+  const key = process.env.MAIL_TRANSPORT ?? (process.env.SMTP_HOST ? "smtp" : "console");
+  if (cached?.key === key) return cached.transport;
+
+  const transport =
+    key === "smtp" ? createSmtpTransport()
+    : key === "file" ? createFileTransport(path.join(DATA_DIR, "outbox"))
+    : createConsoleTransport();
+  cached = { key, transport };
+  return transport;
+};
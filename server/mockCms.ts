@@ -0,0 +1,57 @@
+import { createServer } from "http";
+import { COLLECTION_SLUGS, CONTENT_COLLECTIONS, CONTENT_VERSION } from "../lib/contentSchema";
+import { loadContentDir } from "../scripts/contentFiles";
+import { sendJson } from "./http";
+
+/* -----------------------------------------------------
+   LOCAL MOCK CMS
+   Stands in for a headless CMS during development: serves
+   content/ in the CMS shape the HTTP content source reads.
+   Run `CMS_URL=http://localhost:3003 npm run api:dev`
+   alongside it. CMS_TOKEN makes it require that Bearer
+   token; CMS_FAIL_RATE=1 and CMS_LATENCY_MS exercise the
+   fallback and the timeout.
+----------------------------------------------------- */
+const PORT = Number(process.env.PORT ?? 3003);
+const TOKEN = process.env.CMS_TOKEN;
+const FAIL_RATE = Number(process.env.CMS_FAIL_RATE ?? 0);
+const LATENCY_MS = Number(process.env.CMS_LATENCY_MS ?? 0);
+
+const server = createServer(async (req, res) => {
+  if (req.method !== "GET") {
+    sendJson(res, 405, { error: "Method not allowed." });
+    return;
+  }
+  if (TOKEN && req.headers.authorization !== `Bearer ${TOKEN}`) {
+    sendJson(res, 401, { error: "Missing or wrong token." });
+    return;
+  }
+
+  const slug = new URL(req.url ?? "/", `http://localhost:${PORT}`).pathname.replace(/^\/+|\/+$/g, "");
+  const collection = CONTENT_COLLECTIONS.find((c) => COLLECTION_SLUGS[c] === slug);
+  if (!collection) {
+    sendJson(res, 404, { error: `No collection "${slug}".` });
+    return;
+  }
+
+  if (LATENCY_MS) await new Promise((resolve) => setTimeout(resolve, LATENCY_MS));
+  if (Math.random() < FAIL_RATE) {
+    console.warn(`… Failing /${slug} on purpose`);
+    sendJson(res, 500, { error: "Simulated failure." });
+    return;
+  }
+
+  try {
+    // Re-read on every request so edits to content/ show up like CMS edits would.
+    const content = await loadContentDir();
+    console.log(`✓ /${slug} (${content[collection].length} items)`);
+    sendJson(res, 200, { version: CONTENT_VERSION, items: content[collection] });
+  } catch (err) {
+    console.error(err instanceof Error ? err.message : err);
+    sendJson(res, 500, { error: "content/ is invalid; see the mock CMS log." });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock CMS listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,50 @@
+import type { ApplicationRecord } from "../lib/applications";
+import type { BriefAddition, BriefRecord } from "../lib/briefs";
+import {
+  applicationConfirmationEmail,
+  applicationNotificationEmail,
+  briefAdditionEmail,
+  briefConfirmationEmail,
+  teamNotificationEmail,
+} from "./emailTemplates";
+import { MailMessage, getMailTransport } from "./mailer";
+
+/* -----------------------------------------------------
+   NOTIFICATIONS
+   Emails sent once a brief is stored or added to, or a
+   job application arrives. A mail failure is logged,
+   never surfaced: the submission is already safe and the
+   team can still see it in the admin.
+----------------------------------------------------- */
+const teamInbox = () => process.env.TEAM_INBOX ?? "hello@crafttech.studio";
+
+// Applications go to whoever hires; the team inbox when nobody is set.
+const careersInbox = () => process.env.CAREERS_INBOX ?? teamInbox();
+
+const trySend = async (message: MailMessage) => {
+  try {
+    await getMailTransport().send(message);
+  } catch (err) {
+    console.error(`Failed to send "${message.subject}" to ${message.to}`, err);
+  }
+};
+
+export const notifyBriefCreated = async (brief: BriefRecord) => {
+  const sends = [trySend({ to: teamInbox(), replyTo: brief.email, ...teamNotificationEmail(brief) })];
+  // Never autorespond to quarantined briefs: bots use contact forms to relay spam.
+  if (brief.screening.verdict === "clean") {
+    sends.push(trySend({ to: brief.email, replyTo: teamInbox(), ...briefConfirmationEmail(brief) }));
+  }
+  await Promise.all(sends);
+};
+
+export const notifyBriefAppended = (brief: BriefRecord, addition: BriefAddition) =>
+  trySend({ to: teamInbox(), replyTo: brief.email, ...briefAdditionEmail(brief, addition) });
+
+export const notifyApplicationReceived = async (application: ApplicationRecord) => {
+  const sends = [trySend({ to: careersInbox(), replyTo: application.email, ...applicationNotificationEmail(application) })];
+  if (application.screening.verdict === "clean") {
+    sends.push(trySend({ to: application.email, replyTo: careersInbox(), ...applicationConfirmationEmail(application) }));
+  }
+  await Promise.all(sends);
+};
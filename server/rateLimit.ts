@@ -0,0 +1,45 @@
+import path from "path";
+import { DATA_DIR, readJsonFile, writeJsonFile } from "./briefStore";
+import { HttpError } from "./http";
+
+/* -----------------------------------------------------
+   RATE LIMITING
+   Fixed-window counters kept in a JSON file next to the
+   briefs, so limits survive restarts of the dev server.
+----------------------------------------------------- */
+export interface RateLimitRule {
+  limit: number;
+  windowMs: number;
+}
+
+type Counters = Record<string, { count: number; resetAt: number }>;
+
+const FILE = path.join(DATA_DIR, "rate-limits.json");
+
+let queue: Promise<unknown> = Promise.resolve();
+
+// Records one hit against every rule for `key`; throws 429 if any is exceeded.
+export const consumeRateLimit = (key: string, rules: RateLimitRule[], message: string) => {
+  const run = queue.then(async () => {
+    const now = Date.now();
+    const counters = await readJsonFile<Counters>(FILE, {});
+    for (const [k, v] of Object.entries(counters)) {
+      if (v.resetAt <= now) delete counters[k];
+    }
+
+    let retryAfterMs = 0;
+    for (const rule of rules) {
+      const id = `${key}:${rule.windowMs}`;
+      const counter = (counters[id] ??= { count: 0, resetAt: now + rule.windowMs });
+      counter.count += 1;
+      if (counter.count > rule.limit) retryAfterMs = Math.max(retryAfterMs, counter.resetAt - now);
+    }
+    await writeJsonFile(FILE, counters);
+
+    if (retryAfterMs > 0) {
+      throw new HttpError(429, message, { retryAfterSeconds: Math.ceil(retryAfterMs / 1000) });
+    }
+  });
+  queue = run.catch(() => undefined);
+  return run;
+};
@@ -0,0 +1,147 @@
+import path from "path";
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import type { IncomingMessage } from "http";
+import type { BriefInput, BriefSubmission, Screening } from "../lib/briefs";
+import {
+  CHALLENGE_TTL_MS,
+  Challenge,
+  FormStamp,
+  MIN_FILL_MS,
+  meetsDifficulty,
+} from "../lib/challenge";
+import { DATA_DIR, readJsonFile, writeJsonFile } from "./briefStore";
+
+/* -----------------------------------------------------
+   SPAM GUARD
+   Issues proof-of-work challenges and screens incoming
+   briefs and job applications. Nothing here rejects a
+   submission outright: anything suspicious is stored as
+   quarantined for a human to review, and the sender sees
+   the usual success response.
+----------------------------------------------------- */
+const DIFFICULTY = Number(process.env.BRIEF_CHALLENGE_DIFFICULTY ?? 14);
+const MAX_LINKS = 3;
+// How long a form's signed open time can be carried across challenges (covers the offline queue).
+const FORM_STAMP_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+const SECRET = process.env.BRIEF_CHALLENGE_SECRET ?? "crafttech-dev-challenge-secret";
+if (!process.env.BRIEF_CHALLENGE_SECRET && process.env.VERCEL) {
+  console.warn("BRIEF_CHALLENGE_SECRET is not set; challenges are signed with the development secret.");
+}
+
+const USED_FILE = path.join(DATA_DIR, "used-challenges.json");
+
+const hmac = (value: string) => createHmac("sha256", SECRET).update(value).digest("base64url");
+
+const sign = (salt: string, difficulty: number, issuedAt: number, openedAt: number) =>
+  hmac(`${salt}.${difficulty}.${issuedAt}.${openedAt}`);
+
+const signOpenedAt = (openedAt: number) => hmac(`opened.${openedAt}`);
+
+const matches = (expected: string, actual: string) => {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(actual);
+  return a.length === b.length && timingSafeEqual(a, b);
+};
+
+export const clientIp = (req: IncomingMessage) => {
+  const forwarded = req.headers["x-forwarded-for"];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(",")[0]?.trim();
+  return first || req.socket.remoteAddress || "unknown";
+};
+
+// Spent challenge salts and form stamps, each with when it can be forgotten.
+let usedQueue: Promise<unknown> = Promise.resolve();
+const withUsed = <T,>(fn: (used: Record<string, number>, now: number) => T | Promise<T>) => {
+  const run = usedQueue.then(async () => {
+    const now = Date.now();
+    const used = await readJsonFile<Record<string, number>>(USED_FILE, {});
+    for (const [key, expiresAt] of Object.entries(used)) {
+      if (expiresAt <= now) delete used[key];
+    }
+    return fn(used, now);
+  });
+  usedQueue = run.catch(() => undefined);
+  return run;
+};
+
+// Marks a challenge and its form stamp as spent; returns false if the challenge had already been used.
+const spendChallenge = (salt: string, openedToken: string) =>
+  withUsed(async (used, now) => {
+    if (used[salt]) return false;
+    used[salt] = now + CHALLENGE_TTL_MS;
+    used[`opened:${openedToken}`] = now + FORM_STAMP_TTL_MS;
+    await writeJsonFile(USED_FILE, used);
+    return true;
+  });
+
+// A stamp we signed, that no submission has spent yet, carries over so renewing
+// a challenge doesn't restart the fill timer. Anything else starts it afresh.
+const carriedOpenedAt = async (stamp: Partial<Record<keyof FormStamp, unknown>>, now: number) => {
+  const { openedAt, openedToken } = stamp;
+  if (typeof openedAt !== "number" || !Number.isFinite(openedAt)) return null;
+  if (openedAt > now || now - openedAt > FORM_STAMP_TTL_MS) return null;
+  if (typeof openedToken !== "string" || !matches(signOpenedAt(openedAt), openedToken)) return null;
+  const spent = await withUsed((used) => Boolean(used[`opened:${openedToken}`]));
+  return spent ? null : openedAt;
+};
+
+export const issueChallenge = async (stamp: Partial<Record<keyof FormStamp, unknown>> = {}): Promise<Challenge> => {
+  const salt = randomBytes(16).toString("base64url");
+  const issuedAt = Date.now();
+  const openedAt = (await carriedOpenedAt(stamp, issuedAt)) ?? issuedAt;
+  return {
+    salt,
+    difficulty: DIFFICULTY,
+    issuedAt,
+    openedAt,
+    openedToken: signOpenedAt(openedAt),
+    token: sign(salt, DIFFICULTY, issuedAt, openedAt),
+  };
+};
+
+const checkChallenge = async (proof: BriefSubmission["challenge"]): Promise<string | null> => {
+  if (!proof || typeof proof !== "object") return "no proof-of-work";
+  const { salt, difficulty, issuedAt, openedAt, token, nonce } = proof;
+  if (
+    typeof salt !== "string" ||
+    typeof token !== "string" ||
+    !Number.isInteger(nonce) ||
+    !Number.isFinite(difficulty) ||
+    !Number.isFinite(issuedAt) ||
+    !Number.isFinite(openedAt)
+  ) {
+    return "malformed proof-of-work";
+  }
+
+  if (!matches(sign(salt, difficulty, issuedAt, openedAt), token)) return "forged challenge";
+  // Spend it before anything else can fail, so a rejected proof can't be replayed.
+  if (!(await spendChallenge(salt, signOpenedAt(openedAt)))) return "reused challenge";
+  if (difficulty < DIFFICULTY) return "challenge below required difficulty";
+  if (!meetsDifficulty(salt, nonce, difficulty)) return "invalid proof-of-work";
+
+  const now = Date.now();
+  if (now - issuedAt > CHALLENGE_TTL_MS) return "expired challenge";
+  const fillMs = now - openedAt;
+  if (fillMs < MIN_FILL_MS) return `submitted ${Math.round(fillMs / 100) / 10}s after opening the form`;
+  return null;
+};
+
+const countLinks = (text: string) => (text.match(/https?:\/\/|www\./gi) ?? []).length;
+
+// Applications pass their cover letter as the message.
+export const screenSubmission = async (
+  body: Pick<BriefSubmission, "website" | "challenge">,
+  input: Pick<BriefInput, "message">
+): Promise<Screening> => {
+  const reasons: string[] = [];
+
+  if (typeof body.website === "string" && body.website.trim() !== "") reasons.push("honeypot field filled");
+
+  const challengeProblem = await checkChallenge(body.challenge);
+  if (challengeProblem) reasons.push(challengeProblem);
+
+  if (countLinks(input.message) > MAX_LINKS) reasons.push("link-heavy message");
+
+  return { verdict: reasons.length > 0 ? "quarantined" : "clean", reasons };
+};
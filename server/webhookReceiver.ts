@@ -0,0 +1,49 @@
+import { createServer } from "http";
+import type { WebhookEvent } from "../lib/webhooks";
+import { readRawBody, sendJson } from "./http";
+import { SIGNATURE_HEADER, verifyWebhook } from "./webhookSignature";
+
+/* -----------------------------------------------------
+   LOCAL WEBHOOK RECEIVER
+   Stands in for a CRM during development: verifies the
+   signature and logs each event. `npm run api:dev` sends
+   to it by default. Set WEBHOOK_FAIL_RATE=0.5 to answer
+   half the deliveries with a 500 and watch the retries.
+----------------------------------------------------- */
+const PORT = Number(process.env.PORT ?? 3002);
+const SECRET = process.env.WEBHOOK_SECRET ?? "dev-webhook-secret";
+const FAIL_RATE = Number(process.env.WEBHOOK_FAIL_RATE ?? 0);
+const MAX_BODY_BYTES = 1024 * 1024;
+
+const server = createServer(async (req, res) => {
+  if (req.method !== "POST") {
+    sendJson(res, 405, { error: "Method not allowed." });
+    return;
+  }
+
+  const body = (await readRawBody(req, MAX_BODY_BYTES)).toString("utf8");
+  const signature = req.headers[SIGNATURE_HEADER.toLowerCase()];
+  if (!verifyWebhook(SECRET, typeof signature === "string" ? signature : undefined, body)) {
+    console.warn(`✗ Rejected ${req.headers["x-crafttech-delivery"]}: bad signature`);
+    sendJson(res, 401, { error: "Invalid signature." });
+    return;
+  }
+
+  if (Math.random() < FAIL_RATE) {
+    console.warn(`… Failing ${req.headers["x-crafttech-delivery"]} on purpose`);
+    sendJson(res, 500, { error: "Simulated failure." });
+    return;
+  }
+
+  const event = JSON.parse(body) as WebhookEvent;
+  const { brief, previousStatus } = event.data;
+  console.log(
+    `✓ ${event.type} ${brief.reference} (${brief.name || brief.email}, score ${brief.score.total})` +
+      (previousStatus ? `: ${previousStatus} → ${brief.status}` : "")
+  );
+  sendJson(res, 200, { received: true });
+});
+
+server.listen(PORT, () => {
+  console.log(`Webhook receiver listening on http://localhost:${PORT}/webhooks`);
+});
@@ -0,0 +1,36 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+/* -----------------------------------------------------
+   WEBHOOK SIGNATURES
+   X-CraftTech-Signature: t=<unix seconds>,v1=<hex HMAC>
+   where the HMAC is SHA-256 over "<t>.<raw body>" with the
+   endpoint's secret. The timestamp lets receivers reject
+   replayed requests.
+----------------------------------------------------- */
+export const SIGNATURE_HEADER = "X-CraftTech-Signature";
+const DEFAULT_TOLERANCE_SECONDS = 5 * 60;
+
+const hmac = (secret: string, timestamp: number, body: string) =>
+  createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+
+export const signWebhook = (secret: string, body: string, now = Date.now()) => {
+  const timestamp = Math.floor(now / 1000);
+  return `t=${timestamp},v1=${hmac(secret, timestamp, body)}`;
+};
+
+export const verifyWebhook = (
+  secret: string,
+  header: string | undefined,
+  body: string,
+  toleranceSeconds = DEFAULT_TOLERANCE_SECONDS,
+  now = Date.now()
+) => {
+  const parts = Object.fromEntries((header ?? "").split(",").map((part) => part.trim().split("=")));
+  const timestamp = Number(parts.t);
+  if (!parts.v1 || !Number.isFinite(timestamp)) return false;
+  if (Math.abs(now / 1000 - timestamp) > toleranceSeconds) return false;
+
+  const expected = Buffer.from(hmac(secret, timestamp, body));
+  const given = Buffer.from(String(parts.v1));
+  return expected.length === given.length && timingSafeEqual(expected, given);
+};
@@ -0,0 +1,198 @@
+import path from "path";
+import { randomUUID } from "crypto";
+import type { BriefRecord } from "../lib/briefs";
+import type {
+  WebhookAttempt,
+  WebhookBrief,
+  WebhookDelivery,
+  WebhookEvent,
+  WebhookEventData,
+  WebhookEventType,
+} from "../lib/webhooks";
+import { DATA_DIR, presentBrief, readJsonFile, writeJsonFile } from "./briefStore";
+import { SIGNATURE_HEADER, signWebhook } from "./webhookSignature";
+
+/* -----------------------------------------------------
+   WEBHOOK DISPATCHER
+   Pushes brief events to the endpoints in WEBHOOK_ENDPOINTS:
+     [{ "id": "crm", "url": "https://…", "secret": "…",
+        "events": ["brief.created"] }]   (events optional)
+   The first attempt happens inline. Failures are retried
+   with exponential backoff whenever due deliveries are
+   processed: on the next dispatch, when the admin opens
+   the delivery log, and every few seconds under api:dev.
+----------------------------------------------------- */
+export interface WebhookEndpoint {
+  id: string;
+  url: string;
+  secret: string;
+  events?: WebhookEventType[];
+}
+
+const FILE = path.join(DATA_DIR, "webhook-deliveries.json");
+const MAX_ATTEMPTS = 6;
+const BASE_DELAY_MS = 30 * 1000;
+const REQUEST_TIMEOUT_MS = 5000;
+const LOG_LIMIT = 500;
+
+// Read per call so the dev server (and tests) can set the env after import.
+export const loadEndpoints = (): WebhookEndpoint[] => {
+  const raw = process.env.WEBHOOK_ENDPOINTS;
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw) as WebhookEndpoint[];
+    return parsed.filter((e) => e && e.id && e.url && e.secret);
+  } catch {
+    console.error("WEBHOOK_ENDPOINTS is not valid JSON; webhooks are disabled.");
+    return [];
+  }
+};
+
+export const retryDelay = (attempts: number) => BASE_DELAY_MS * 2 ** (attempts - 1);
+
+/* -----------------------------------------------------
+   DELIVERY LOG
+----------------------------------------------------- */
+let queue: Promise<unknown> = Promise.resolve();
+const exclusive = <T,>(task: () => Promise<T>): Promise<T> => {
+  const next = queue.then(task, task);
+  queue = next.catch(() => undefined);
+  return next;
+};
+
+const readLog = () => readJsonFile<WebhookDelivery[]>(FILE, []);
+
+// Keeps the log bounded, dropping the oldest settled deliveries first.
+const writeLog = (deliveries: WebhookDelivery[]) => {
+  let log = deliveries;
+  if (log.length > LOG_LIMIT) {
+    const excess = log.length - LOG_LIMIT;
+    let dropped = 0;
+    log = log.filter((d) => d.state === "pending" || dropped++ >= excess);
+  }
+  return writeJsonFile(FILE, log);
+};
+
+const updateDelivery = (id: string, change: (delivery: WebhookDelivery) => void) =>
+  exclusive(async () => {
+    const log = await readLog();
+    const delivery = log.find((d) => d.id === id);
+    if (!delivery) return null;
+    change(delivery);
+    await writeLog(log);
+    return delivery;
+  });
+
+export const listDeliveries = async () =>
+  (await readLog()).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+/* -----------------------------------------------------
+   SENDING
+----------------------------------------------------- */
+const post = async (delivery: WebhookDelivery, endpoint: WebhookEndpoint): Promise<WebhookAttempt> => {
+  const started = Date.now();
+  try {
+    const res = await fetch(endpoint.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "CraftTech-Webhooks/1.0",
+        "X-CraftTech-Event": delivery.type,
+        "X-CraftTech-Delivery": delivery.id,
+        [SIGNATURE_HEADER]: signWebhook(endpoint.secret, delivery.body),
+      },
+      body: delivery.body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    return {
+      at: new Date(started).toISOString(),
+      status: res.status,
+      error: res.ok ? undefined : `HTTP ${res.status}`,
+      durationMs: Date.now() - started,
+    };
+  } catch (err) {
+    return {
+      at: new Date(started).toISOString(),
+      status: null,
+      error: err instanceof Error ? err.message : String(err),
+      durationMs: Date.now() - started,
+    };
+  }
+};
+
+const inFlight = new Set<string>();
+
+// One attempt. `retry` decides whether a failure is rescheduled or final.
+const deliver = async (delivery: WebhookDelivery, retry: boolean) => {
+  if (inFlight.has(delivery.id)) return delivery;
+  inFlight.add(delivery.id);
+  try {
+    const endpoint = loadEndpoints().find((e) => e.id === delivery.endpointId);
+    const result: WebhookAttempt = endpoint
+      ? await post(delivery, endpoint)
+      : { at: new Date().toISOString(), status: null, error: "Endpoint is no longer configured.", durationMs: 0 };
+
+    return await updateDelivery(delivery.id, (d) => {
+      d.attempts.push(result);
+      const ok = result.status !== null && result.status >= 200 && result.status < 300;
+      const canRetry = retry && !!endpoint && d.attempts.length < MAX_ATTEMPTS;
+      d.state = ok ? "delivered" : canRetry ? "pending" : "failed";
+      d.nextAttemptAt = d.state === "pending"
+        ? new Date(Date.now() + retryDelay(d.attempts.length)).toISOString()
+        : null;
+    });
+  } finally {
+    inFlight.delete(delivery.id);
+  }
+};
+
+export const processDueDeliveries = async (now = Date.now()) => {
+  const due = (await readLog()).filter(
+    (d) => d.state === "pending" && d.nextAttemptAt && Date.parse(d.nextAttemptAt) <= now
+  );
+  await Promise.all(due.map((d) => deliver(d, true)));
+};
+
+const webhookBrief = (record: BriefRecord): WebhookBrief => {
+  const { statusToken: _token, ...brief } = presentBrief(record);
+  return brief;
+};
+
+// Records the event for every subscribed endpoint and makes the first attempt.
+export const dispatchWebhook = async (type: WebhookEventType, data: WebhookEventData) => {
+  const endpoints = loadEndpoints().filter((e) => !e.events || e.events.includes(type));
+  if (endpoints.length === 0) return;
+
+  const event: WebhookEvent = {
+    id: randomUUID(),
+    type,
+    createdAt: new Date().toISOString(),
+    data: { ...data, brief: webhookBrief(data.brief) },
+  };
+  const body = JSON.stringify(event);
+  const deliveries: WebhookDelivery[] = endpoints.map((endpoint) => ({
+    id: randomUUID(),
+    endpointId: endpoint.id,
+    url: endpoint.url,
+    eventId: event.id,
+    type,
+    body,
+    state: "pending",
+    attempts: [],
+    nextAttemptAt: null,
+    createdAt: event.createdAt,
+  }));
+
+  await exclusive(async () => writeLog([...(await readLog()), ...deliveries]));
+  await Promise.all([
+    ...deliveries.map((d) => deliver(d, true)),
+    processDueDeliveries(),
+  ]);
+};
+
+// Sends a logged delivery again, as-is (re-signed with a fresh timestamp).
+// A delivery that was still retrying keeps its schedule if the replay fails.
+export const replayDelivery = async (id: string) => {
+  const delivery = (await readLog()).find((d) => d.id === id);
+  return delivery ? deliver(delivery, delivery.state === "pending") : null;
+};
@@ -0,0 +1,42 @@
+import { Platform } from "react-native";
+
+/* -----------------------------------------------------
+   RESPONSIVE UTILITIES
+----------------------------------------------------- */
+export const useDriver = Platform.OS !== "web";
+
+export const MIN_WIDTH = 320;
+export const MAX_WIDTH = 1280;
+export const MOBILE_BREAKPOINT = 768;
+export const TABLET_BREAKPOINT = 1024;
+
+// Responsive scaler with fixed min/max boundaries
+export const scaleFont = (size: number, width: number): number => {
+  const baseWidth = 375;
+  const scaleFactor = Math.min(Math.max(width, MIN_WIDTH), MAX_WIDTH) / baseWidth;
+  
+  if (width < 380) return Math.max(size * 0.85, 10);
+  if (width < 480) return size * 0.95;
+  if (width < MOBILE_BREAKPOINT) return size;
+  if (width < TABLET_BREAKPOINT) return size * 1.1;
+  return size * 1.2;
+};
+
+// Responsive value generator
+export const responsiveValue = <T,>(
+  mobile: T,
+  tablet: T,
+  desktop: T,
+  width: number
+): T => {
+  if (width < MOBILE_BREAKPOINT) return mobile;
+  if (width < TABLET_BREAKPOINT) return tablet;
+  return desktop;
+};
+
+/* -----------------------------------------------------
+   PREMIUM COLOR SCHEME
+   Lives in ./colors so server-rendered emails can use it
+   without pulling in react-native.
+----------------------------------------------------- */
+export { COLORS } from "./colors";